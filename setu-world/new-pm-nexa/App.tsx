@@ -1,15 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { AppProvider, useApp } from './store';
 import { Login } from './modules/Login';
 import { Dashboard } from './modules/Dashboard';
-import { KanbanBoard } from './modules/Kanban';
-import { Communication } from './modules/Communication';
+import { KanbanBoard, TaskEditor, SubtaskEditor } from './modules/Kanban';
+import { CalendarView } from './modules/Calendar';
+import { TimesheetView } from './modules/Timesheet';
+import { Communication, ChatFocus } from './modules/Communication';
 import { AdminPanel } from './modules/AdminPanel';
 import { Modal } from './components/Modal';
+import { SearchPalette } from './components/SearchPalette';
 import {
   LayoutDashboard,
   KanbanSquare,
+  CalendarDays,
   MessageSquare,
+  MessagesSquare,
   Settings,
   LogOut,
   Menu,
@@ -37,10 +42,18 @@ import {
   Lock,
   Eye,
   EyeOff,
-  AlertCircle
+  AlertCircle,
+  Download,
+  Timer,
+  Search
 } from 'lucide-react';
 
-import { UserRole, NotificationType } from './types';
+import { UserRole, NotificationType, Notification, Task } from './types';
+import { canReadProject, canWriteProject } from './policy';
+import { buildICalendar, ICalEntryType } from './ical';
+import { downloadFile, toFileSlug } from './csv';
+import { SearchResult } from './search';
+import { AppRoute, AppTab, ROUTE_CHANGE_EVENT, buildPath, getNotificationRoute, getRouteTab, navigate, parseRoute } from './routes';
 
 // Predefined avatars for quick selection
 const PREDEFINED_AVATARS = [
@@ -181,13 +194,46 @@ const IncomingCallOverlay: React.FC = () => {
 
 const MainLayout: React.FC = () => {
   const {
-    currentUser, logout, updateUser,
+    currentUser, logout, updateUser, changePassword,
     notifications, markNotificationRead, clearNotifications,
     totalUnreadChatCount,
-    ringtone, setRingtone
+    ringtone, setRingtone,
+    tasks, projects, taskFilters, setTaskFilters
   } = useApp();
 
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'projects' | 'chat' | 'admin'>('dashboard');
+  // The URL decides what is open (see routes.ts); tasks open on top of the last page
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.pathname, window.location.search));
+  const lastPageRoute = useRef<AppRoute | null>(null);
+  if (route.name !== 'task') lastPageRoute.current = route;
+  const activeTab = getRouteTab(route, lastPageRoute.current ? getRouteTab(lastPageRoute.current) : 'projects');
+
+  useEffect(() => {
+    const handleRouteChange = () => setRoute(parseRoute(window.location.pathname, window.location.search));
+    window.addEventListener('popstate', handleRouteChange);
+    window.addEventListener(ROUTE_CHANGE_EVENT, handleRouteChange);
+    return () => {
+      window.removeEventListener('popstate', handleRouteChange);
+      window.removeEventListener(ROUTE_CHANGE_EVENT, handleRouteChange);
+    };
+  }, []);
+
+  const setActiveTab = (tab: AppTab) => {
+    if (tab === 'admin') navigate(buildPath({ name: 'admin', section: 'users' }));
+    else navigate(buildPath({ name: tab }));
+  };
+
+  // /projects/:projectId and the board's project filter follow each other
+  useEffect(() => {
+    if (route.name === 'projects' && route.projectId && route.projectId !== taskFilters.projectId) {
+      setTaskFilters({ ...taskFilters, projectId: route.projectId });
+    }
+  }, [route]);
+
+  useEffect(() => {
+    const projectId = taskFilters.projectId === 'all' ? undefined : taskFilters.projectId;
+    if (route.name !== 'projects' || route.projectId === projectId) return;
+    navigate(buildPath({ name: 'projects', projectId }) + window.location.search, true);
+  }, [taskFilters.projectId]);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
 
   // Avatar Modal State
@@ -221,6 +267,50 @@ const MainLayout: React.FC = () => {
   // Notification Modal State
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
 
+  // Search Palette State; results open in place (tasks) or in the chat tab (messages)
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Chat routes focus a chat (and message) each time they are visited
+  const chatFocus = useMemo<ChatFocus | null>(() =>
+    route.name === 'chat' && route.chatId !== undefined
+      ? { chatId: route.chatId, messageId: route.messageId, threadId: route.threadId, call: route.call, requestedAt: Date.now() }
+      : null,
+  [route]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSearchSelect = (result: SearchResult) => {
+    const { target } = result;
+    if (target.type === 'chat') {
+      navigate(buildPath({ name: 'chat', chatId: target.chatId, messageId: target.messageId }));
+      return;
+    }
+    navigate(buildPath({ name: 'task', taskId: target.taskId, subtaskId: target.subtaskId }));
+  };
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read) markNotificationRead(notification.id);
+    const target = getNotificationRoute(notification, tasks);
+    if (!target) return;
+    setIsNotificationOpen(false);
+    navigate(buildPath(target));
+  };
+
+  // Tasks opened from inside the app close back to where they were opened; direct links close to the board
+  const closeRoutedTask = (task: Task) => {
+    if (lastPageRoute.current) window.history.back();
+    else navigate(buildPath({ name: 'projects', projectId: task.projectId }), true);
+  };
+
   // Modal visibility states
   const [isRingtoneModalOpen, setIsRingtoneModalOpen] = useState(false);
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
@@ -231,6 +321,11 @@ const MainLayout: React.FC = () => {
   const [passwordSuccess, setPasswordSuccess] = useState('');
   const [showPasswords, setShowPasswords] = useState({ old: false, new: false, confirm: false });
 
+  // Calendar Export State
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
+  const [exportProjectId, setExportProjectId] = useState<string | 'all'>('all');
+  const [exportEntryType, setExportEntryType] = useState<ICalEntryType>('event');
+
   if (!currentUser) {
     return <Login />;
   }
@@ -239,6 +334,12 @@ const MainLayout: React.FC = () => {
   const myNotifications = notifications.filter(n => n.recipientId === currentUser.id).sort((a, b) => b.timestamp - a.timestamp);
   const unreadNotificationCount = myNotifications.filter(n => !n.read).length;
 
+  // /tasks/:taskId opens once tasks have loaded, and only for readable projects
+  const routedTask = route.name === 'task'
+    ? tasks.find(t => t.id === route.taskId && canReadProject(currentUser, t.projectId))
+    : undefined;
+  const routedSubtask = route.name === 'task' && route.subtaskId ? routedTask?.subtasks.find(s => s.id === route.subtaskId) : undefined;
+
   const NavItem = ({ id, icon: Icon, label, badgeCount }: { id: typeof activeTab, icon: any, label: string, badgeCount?: number }) => (
     <button
       onClick={() => setActiveTab(id)}
@@ -305,6 +406,23 @@ const MainLayout: React.FC = () => {
     setIsAvatarModalOpen(false);
   };
 
+  const calendarExport = isCalendarExportOpen
+    ? buildICalendar({
+      user: currentUser,
+      tasks,
+      projects,
+      projectId: exportProjectId,
+      entryType: exportEntryType,
+      baseUrl: window.location.origin
+    })
+    : { content: '', count: 0 };
+
+  const handleCalendarExport = () => {
+    const project = projects.find(p => p.id === exportProjectId);
+    downloadFile(calendarExport.content, `${toFileSlug(project ? project.name : 'my-tasks')}.ics`, 'text/calendar;charset=utf-8');
+    setIsCalendarExportOpen(false);
+  };
+
   const handlePasswordChange = async () => {
     setPasswordError('');
     setPasswordSuccess('');
@@ -314,11 +432,6 @@ const MainLayout: React.FC = () => {
       return;
     }
 
-    if (oldPassword !== currentUser.password) {
-      setPasswordError('Current password is incorrect.');
-      return;
-    }
-
     if (newPassword.length < 4) {
       setPasswordError('Password is too short.');
       return;
@@ -329,7 +442,17 @@ const MainLayout: React.FC = () => {
       return;
     }
 
-    await updateUser({ ...currentUser, password: newPassword });
+    try {
+      if (!await changePassword(oldPassword, newPassword)) {
+        setPasswordError('Current password is incorrect.');
+        return;
+      }
+    } catch (e) {
+      console.error("Change password failed:", e);
+      setPasswordError('Could not update password. Please try again.');
+      return;
+    }
+
     setPasswordSuccess('Password updated successfully!');
     setOldPassword('');
     setNewPassword('');
@@ -366,6 +489,8 @@ const MainLayout: React.FC = () => {
         <nav className="flex-1 p-3 space-y-2 overflow-y-auto overflow-x-hidden">
           <NavItem id="dashboard" icon={LayoutDashboard} label="Dashboard" />
           <NavItem id="projects" icon={KanbanSquare} label="Projects" />
+          <NavItem id="calendar" icon={CalendarDays} label="Calendar" />
+          <NavItem id="timesheet" icon={Timer} label="Timesheet" />
           <NavItem id="chat" icon={MessageSquare} label="Team Chat" badgeCount={totalUnreadChatCount} />
           {currentUser.role === UserRole.ADMIN && (
             <NavItem id="admin" icon={Settings} label="Admin Panel" />
@@ -374,6 +499,21 @@ const MainLayout: React.FC = () => {
 
         {/* Footer Section */}
         <div className="p-3 border-t border-slate-800 space-y-3">
+          {/* Search Button */}
+          <button
+            onClick={() => setIsSearchOpen(true)}
+            className={`w-full flex items-center ${isSidebarCollapsed ? 'justify-center' : 'space-x-3 px-3'} py-2.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors relative group`}
+            title="Search (Ctrl+K)"
+          >
+            <Search size={20} />
+            {!isSidebarCollapsed && (
+              <>
+                <span className="text-sm font-medium flex-1 text-left">Search</span>
+                <kbd className="text-[10px] font-bold text-slate-500 border border-slate-700 rounded px-1.5 py-0.5">Ctrl K</kbd>
+              </>
+            )}
+          </button>
+
           {/* Notification Button */}
           <button
             onClick={() => setIsNotificationOpen(true)}
@@ -428,6 +568,13 @@ const MainLayout: React.FC = () => {
           </div>
 
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="text-slate-600 p-1.5 hover:bg-slate-100 rounded-full transition-colors"
+            >
+              <Search size={22} />
+            </button>
+
             <button
               onClick={() => setIsNotificationOpen(true)}
               className="text-slate-600 relative p-1.5 hover:bg-slate-100 rounded-full transition-colors"
@@ -450,14 +597,23 @@ const MainLayout: React.FC = () => {
         <div className={`flex-1 bg-slate-50 relative ${activeTab === 'chat' ? 'overflow-hidden flex flex-col mb-[64px] md:mb-0' : 'overflow-y-auto scroll-smooth pb-[80px] md:pb-0'}`}>
           {activeTab === 'dashboard' && <Dashboard />}
           {activeTab === 'projects' && <KanbanBoard />}
-          {activeTab === 'chat' && <Communication />}
-          {activeTab === 'admin' && <AdminPanel />}
+          {activeTab === 'calendar' && <CalendarView />}
+          {activeTab === 'timesheet' && <TimesheetView />}
+          {activeTab === 'chat' && <Communication focus={chatFocus} />}
+          {activeTab === 'admin' && currentUser.role === UserRole.ADMIN && (
+            <AdminPanel
+              section={route.name === 'admin' ? route.section : 'users'}
+              onSectionChange={section => navigate(buildPath({ name: 'admin', section }))}
+            />
+          )}
         </div>
 
         {/* Mobile Bottom Navigation */}
         <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-slate-200 z-50 px-2 pb-safe shadow-[0_-8px_30px_rgba(0,0,0,0.04)] h-[64px] flex items-center justify-around">
           <BottomNavItem id="dashboard" icon={LayoutDashboard} label="Home" />
           <BottomNavItem id="projects" icon={KanbanSquare} label="Projects" />
+          <BottomNavItem id="calendar" icon={CalendarDays} label="Calendar" />
+          <BottomNavItem id="timesheet" icon={Timer} label="Time" />
           <BottomNavItem id="chat" icon={MessageSquare} label="Chat" badgeCount={totalUnreadChatCount} />
           {currentUser.role === UserRole.ADMIN && (
             <BottomNavItem id="admin" icon={Settings} label="Admin" />
@@ -522,6 +678,13 @@ const MainLayout: React.FC = () => {
                 <Music size={12} />
                 <span>Change Ringtone</span>
               </button>
+              <button
+                onClick={() => setIsCalendarExportOpen(true)}
+                className="w-full py-2 bg-white border border-slate-200 text-slate-600 font-bold rounded-lg hover:bg-slate-50 hover:border-slate-300 transition-all text-[11px] shadow-sm flex items-center justify-center space-x-2"
+              >
+                <CalendarDays size={12} />
+                <span>Export Calendar</span>
+              </button>
               <button
                 onClick={() => {
                   setPasswordError('');
@@ -777,6 +940,89 @@ const MainLayout: React.FC = () => {
         </div>
       </Modal>
 
+      {/* Search Palette */}
+      <SearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} onSelect={handleSearchSelect} />
+
+      {routedTask && !routedSubtask && (
+        <TaskEditor
+          key={routedTask.id}
+          task={routedTask}
+          onClose={() => closeRoutedTask(routedTask)}
+          projectId={routedTask.projectId}
+          readOnly={!canWriteProject(currentUser, routedTask.projectId)}
+        />
+      )}
+
+      {routedTask && routedSubtask && (
+        <SubtaskEditor
+          key={routedSubtask.id}
+          task={routedTask}
+          subtask={routedSubtask}
+          onClose={() => closeRoutedTask(routedTask)}
+          readOnly={!canWriteProject(currentUser, routedTask.projectId)}
+        />
+      )}
+
+      {/* Calendar Export Modal */}
+      <Modal
+        isOpen={isCalendarExportOpen}
+        onClose={() => setIsCalendarExportOpen(false)}
+        title="Export Calendar"
+        maxWidth="max-w-md"
+      >
+        <div className="p-6 space-y-4">
+          <div className="bg-indigo-50/50 p-4 rounded-2xl flex items-center space-x-4">
+            <div className="w-12 h-12 bg-indigo-600 text-white rounded-xl flex items-center justify-center shadow-lg shadow-indigo-200 shrink-0">
+              <CalendarDays size={24} />
+            </div>
+            <div>
+              <h4 className="font-bold text-slate-800">iCalendar (.ics)</h4>
+              <p className="text-xs text-slate-500">Due dates of tasks and subtasks assigned to you. Re-importing the file updates existing entries.</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Project</label>
+            <select
+              value={exportProjectId}
+              onChange={e => setExportProjectId(e.target.value)}
+              className="w-full px-3 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="all">All Accessible Projects</option>
+              {projects
+                .filter(p => canReadProject(currentUser, p.id))
+                .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Add As</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([['event', 'All-day Events'], ['todo', 'To-dos']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setExportEntryType(value)}
+                  className={`py-2.5 rounded-xl text-sm font-bold border transition-all ${exportEntryType === value ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">{calendarExport.count} due date{calendarExport.count === 1 ? '' : 's'} will be exported.</p>
+
+          <button
+            onClick={handleCalendarExport}
+            disabled={calendarExport.count === 0}
+            className="w-full py-3 bg-slate-900 text-white font-bold rounded-2xl hover:bg-slate-800 transition-all shadow-xl shadow-slate-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={16} />
+            <span>Download .ics</span>
+          </button>
+        </div>
+      </Modal>
+
       {/* Notifications Modal */}
       <Modal
         isOpen={isNotificationOpen}
@@ -828,18 +1074,20 @@ const MainLayout: React.FC = () => {
                     ? 'bg-white border-slate-200 hover:border-indigo-200 hover:shadow-sm'
                     : 'bg-white border-indigo-100 shadow-sm ring-1 ring-indigo-50/50'
                     }`}
-                  onClick={() => !n.read && markNotificationRead(n.id)}
+                  onClick={() => handleNotificationClick(n)}
                 >
                   <div className="flex items-start space-x-4">
                     {/* Icon Side */}
                     <div className={`mt-1 p-2.5 rounded-xl shrink-0 ${n.type === NotificationType.MENTION ? 'bg-blue-100 text-blue-600' :
                       n.type === NotificationType.ASSIGNMENT ? 'bg-green-100 text-green-600' :
                         n.type === NotificationType.MISSED_CALL ? 'bg-rose-100 text-rose-600' :
-                          'bg-slate-100 text-slate-600'
+                          n.type === NotificationType.THREAD_REPLY ? 'bg-violet-100 text-violet-600' :
+                            'bg-slate-100 text-slate-600'
                       }`}>
                       {n.type === NotificationType.MENTION && <AtSign size={18} />}
                       {n.type === NotificationType.ASSIGNMENT && <CheckCircle2 size={18} />}
                       {n.type === NotificationType.MISSED_CALL && <PhoneMissed size={18} />}
+                      {n.type === NotificationType.THREAD_REPLY && <MessagesSquare size={18} />}
                       {n.type === NotificationType.SYSTEM && <Bell size={18} />}
                     </div>
 
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldValue, User } from '../types';
+
+const INPUT_CLASS = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all';
+
+// Editor for one custom field value; undefined clears the value
+export const CustomFieldInput: React.FC<{
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | undefined) => void;
+  users: User[];
+  readOnly?: boolean;
+}> = ({ field, value, onChange, users, readOnly }) => {
+  const options = field.options || [];
+
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          type="number"
+          readOnly={readOnly}
+          value={typeof value === 'number' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          placeholder="—"
+          className={INPUT_CLASS}
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          readOnly={readOnly}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          className={INPUT_CLASS}
+        />
+      );
+    case 'select':
+    case 'user':
+      return (
+        <select
+          disabled={readOnly}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          className={`${INPUT_CLASS} appearance-none cursor-pointer disabled:cursor-default`}
+        >
+          <option value="">None</option>
+          {field.type === 'user'
+            ? users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)
+            : options.map(o => <option key={o} value={o}>{o}</option>)}
+          {/* Keep values whose option was removed from the field */}
+          {field.type === 'select' && typeof value === 'string' && value && !options.includes(value) && <option value={value}>{value}</option>}
+        </select>
+      );
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option];
+        onChange(next.length ? next : undefined);
+      };
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {options.map(option => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                disabled={readOnly}
+                onClick={() => toggle(option)}
+                className={`inline-flex items-center px-2 py-1 rounded-full border text-xs font-medium transition-all disabled:cursor-default ${isSelected
+                  ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                  : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600 hover:border-slate-300'
+                  } ${readOnly && !isSelected ? 'hidden' : ''}`}
+              >
+                {isSelected && <Check size={12} className="mr-1" />}
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+    default:
+      return (
+        <input
+          type="text"
+          readOnly={readOnly}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          placeholder="—"
+          className={INPUT_CLASS}
+        />
+      );
+  }
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Project, TaskCategory, User } from '../types';
+import { getWorkflow } from '../workflow';
+import { EXTERNAL_SOURCES, ExternalBoard, Reconciliation, countBy } from '../externalImport';
+
+// Reconciliation step of the Trello / Jira importers: every source value gets a target before anything is written
+export const ImportReconciliation: React.FC<{
+  board: ExternalBoard;
+  project: Project;
+  users: User[];
+  value: Reconciliation;
+  suggested: Reconciliation; // Automatic matches; values it left empty are flagged as unmatched
+  onChange: (value: Reconciliation) => void;
+}> = ({ board, project, users, value, suggested, onChange }) => {
+  const { statusName, typeName } = EXTERNAL_SOURCES[board.source];
+  const itemName = board.source === 'trello' ? 'card' : 'issue';
+
+  const groups: {
+    key: keyof Reconciliation;
+    title: string;
+    values: string[];
+    counts: Record<string, number>;
+    options: { value: string; label: string }[];
+    emptyLabel: string;
+  }[] = [
+    {
+      key: 'statuses',
+      title: `${statusName}s → Columns`,
+      values: board.statuses,
+      counts: countBy(board, 'status'),
+      options: getWorkflow(project).map(s => ({ value: s.id, label: s.name })),
+      emptyLabel: 'Choose a column...'
+    },
+    {
+      key: 'types',
+      title: `${typeName}s → Categories`,
+      values: board.types,
+      counts: countBy(board, 'type'),
+      options: Object.values(TaskCategory).map(c => ({ value: c, label: c.charAt(0) + c.slice(1).toLowerCase() })),
+      emptyLabel: 'Choose a category...'
+    },
+    {
+      key: 'members',
+      title: 'Members → Users',
+      values: board.members,
+      counts: countBy(board, 'assignee'),
+      options: users.map(u => ({ value: u.id, label: `${u.name} (@${u.username})` })),
+      emptyLabel: 'Leave unassigned'
+    }
+  ];
+
+  return (
+    <div className="space-y-4">
+      {groups.filter(g => g.values.length > 0).map(group => (
+        <div key={group.key}>
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-2">{group.title}</label>
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto custom-scrollbar">
+            {group.values.map(source => {
+              const unmatched = !suggested[group.key][source];
+              const current = value[group.key][source] || '';
+              return (
+                <div key={source} className={`flex items-center gap-3 px-3 py-2 ${unmatched && !current ? 'bg-amber-50/60' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-700 truncate">{source}</div>
+                    <div className="text-xs text-slate-400">
+                      {group.counts[source] || 0} {itemName}{group.counts[source] === 1 ? '' : 's'}
+                      {unmatched && <span className="ml-2 font-bold text-amber-600">Unmatched</span>}
+                    </div>
+                  </div>
+                  <select
+                    value={current}
+                    onChange={e => onChange({ ...value, [group.key]: { ...value[group.key], [source]: e.target.value } })}
+                    className="w-52 px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">{group.emptyLabel}</option>
+                    {group.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Ban, FileText, Loader2, MessagesSquare, Send, X } from 'lucide-react';
+import { Attachment, ChatMessage, Reaction, User } from '../types';
+import { summarizeReactions } from '../reactions';
+import { ReactionBar } from './ReactionBar';
+
+interface ReactionProps {
+  users: User[];
+  reactions: Reaction[];
+  currentUserId?: string;
+  onToggleReaction: (messageId: string, emoji: string) => void;
+}
+
+const ThreadMessage: React.FC<{
+  message: ChatMessage;
+  onOpenAttachment: (attachment: Attachment) => void;
+} & ReactionProps> = ({ message, onOpenAttachment, users, reactions, currentUserId, onToggleReaction }) => {
+  const sender = users.find(u => u.id === message.senderId);
+  return (
+    <div className="group flex items-start">
+      <img src={sender?.avatar} className="w-7 h-7 rounded-full shadow-sm border border-slate-100 object-cover mr-2 shrink-0" title={sender?.name} />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-baseline space-x-2">
+          <span className="text-xs font-bold text-slate-700 truncate">{sender?.name || 'Unknown User'}</span>
+          <span className="text-[10px] text-slate-400 shrink-0">
+            {new Date(message.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            {message.editedAt && !message.deletedAt && ' (edited)'}
+          </span>
+        </div>
+        {message.deletedAt && (
+          <p className="flex items-center text-sm italic text-slate-400">
+            <Ban size={12} className="mr-1" /> This message was deleted
+          </p>
+        )}
+        {message.text && <p className="text-sm text-slate-800 leading-relaxed whitespace-pre-wrap break-words">{message.text}</p>}
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-1">
+            {message.attachments.map(att => (
+              <button
+                key={att.id}
+                onClick={() => att.url && onOpenAttachment(att)}
+                className="flex items-center max-w-[180px] px-2 py-1 rounded bg-slate-100 hover:bg-slate-200 text-[10px] text-slate-600 transition-colors"
+              >
+                <FileText size={12} className="mr-1 shrink-0" />
+                <span className="truncate">{att.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {!message.deletedAt && (
+          <ReactionBar
+            summaries={summarizeReactions(reactions, 'message', message.id)}
+            users={users}
+            currentUserId={currentUserId}
+            onToggle={emoji => onToggleReaction(message.id, emoji)}
+            className="mt-1"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Side panel with a message and its replies; full screen on mobile
+export const MessageThread: React.FC<{
+  parent?: ChatMessage; // Undefined while a linked thread is loading
+  replies: ChatMessage[];
+  chatName: string;
+  onSend: (text: string) => void;
+  onClose: () => void;
+  onOpenAttachment: (attachment: Attachment) => void;
+} & ReactionProps> = ({ parent, replies, chatName, onSend, onClose, onOpenAttachment, ...reactionProps }) => {
+  const [text, setText] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow new replies
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [replies.length, parent?.id]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 md:static md:z-auto md:w-96 flex flex-col bg-white md:border-l border-slate-200 h-full min-h-0">
+      <div className="h-16 px-4 border-b border-slate-100 flex justify-between items-center shrink-0">
+        <div className="flex items-center min-w-0">
+          <MessagesSquare size={18} className="text-indigo-500 mr-2 shrink-0" />
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800 text-sm">Thread</h3>
+            <p className="text-xs text-slate-500 truncate">{chatName}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full" title="Close thread">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0 bg-slate-50/50">
+        {parent ? (
+          <>
+            <ThreadMessage message={parent} onOpenAttachment={onOpenAttachment} {...reactionProps} />
+            <div className="flex items-center text-[10px] uppercase tracking-wider text-slate-400">
+              <span className="mr-2 shrink-0">{replies.length} {replies.length === 1 ? 'reply' : 'replies'}</span>
+              <div className="flex-1 border-t border-slate-200" />
+            </div>
+            {replies.map(reply => (
+              <ThreadMessage key={reply.id} message={reply} onOpenAttachment={onOpenAttachment} {...reactionProps} />
+            ))}
+          </>
+        ) : (
+          <div className="flex items-center justify-center text-xs text-slate-400 py-6">
+            <Loader2 size={14} className="animate-spin mr-1.5" /> Loading thread...
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-slate-100 flex items-center space-x-2 shrink-0">
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          disabled={!parent}
+          placeholder="Reply in thread..."
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-sm text-slate-800 placeholder-slate-400 outline-none focus:border-indigo-300 focus:ring-2 focus:ring-indigo-100"
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={!parent || !text.trim()}
+          className={`p-2.5 rounded-xl transition-all shrink-0 ${parent && text.trim()
+            ? 'bg-indigo-600 text-white shadow-md hover:bg-indigo-700'
+            : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+            }`}
+        >
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
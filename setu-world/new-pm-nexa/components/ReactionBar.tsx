@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { User } from '../types';
+import { REACTION_EMOJIS, ReactionSummary, describeReactors } from '../reactions';
+
+// Reaction chips with counts, plus a picker to add one; clicking a chip toggles your own reaction
+export const ReactionBar: React.FC<{
+  summaries: ReactionSummary[];
+  users: User[];
+  currentUserId?: string;
+  onToggle: (emoji: string) => void;
+  align?: 'start' | 'end';
+  className?: string;
+}> = ({ summaries, users, currentUserId, onToggle, align = 'start', className = '' }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isPickerOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!pickerRef.current?.contains(e.target as Node)) setIsPickerOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isPickerOpen]);
+
+  const pick = (emoji: string) => {
+    onToggle(emoji);
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${align === 'end' ? 'justify-end' : ''} ${className}`}>
+      {summaries.map(({ emoji, userIds }) => {
+        const isMine = !!currentUserId && userIds.includes(currentUserId);
+        return (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => onToggle(emoji)}
+            title={describeReactors(userIds, users, currentUserId)}
+            className={`inline-flex items-center px-1.5 py-0.5 rounded-full border text-xs transition-colors ${isMine
+              ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+              : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
+              }`}
+          >
+            <span className="mr-1">{emoji}</span>
+            <span className="font-semibold text-[11px]">{userIds.length}</span>
+          </button>
+        );
+      })}
+      <div ref={pickerRef} className="relative">
+        <button
+          type="button"
+          onClick={() => setIsPickerOpen(open => !open)}
+          className={`p-1 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-slate-100 transition-all ${summaries.length || isPickerOpen ? '' : 'opacity-0 group-hover:opacity-100'}`}
+          title="Add reaction"
+        >
+          <SmilePlus size={14} />
+        </button>
+        {isPickerOpen && (
+          <div className={`absolute bottom-full mb-1 ${align === 'end' ? 'right-0' : 'left-0'} z-30 flex bg-white border border-slate-200 rounded-full shadow-lg px-1 py-0.5`}>
+            {REACTION_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => pick(emoji)}
+                className="w-7 h-7 flex items-center justify-center rounded-full text-base hover:bg-slate-100 hover:scale-110 transition-transform"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
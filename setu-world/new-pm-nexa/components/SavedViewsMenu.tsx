@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, ChevronDown, Check, Link as LinkIcon, Trash2, Users, Lock, Save, Plus } from 'lucide-react';
+import { useApp } from '../store';
+import { canReadProject, isAdmin } from '../policy';
+import { SavedView, SavedViewConfig } from '../types';
+import { getSavedViewUrl, getVisibleSavedViews, isSameViewConfig } from '../savedViews';
+import { Modal } from './Modal';
+
+// Saved views dropdown of the Kanban header; the board owns the config and applies the chosen view
+export const SavedViewsMenu: React.FC<{
+  config: SavedViewConfig;
+  activeViewId: string | null;
+  onApply: (view: SavedView | null) => void;
+}> = ({ config, activeViewId, onApply }) => {
+  const { currentUser, projects, savedViews, addSavedView, updateSavedView, deleteSavedView } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shareProjectId, setShareProjectId] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const views = getVisibleSavedViews(savedViews, currentUser);
+  const activeView = views.find(v => v.id === activeViewId);
+  const isModified = !!activeView && !isSameViewConfig(activeView.config, config);
+  const canManage = (view: SavedView) => !!currentUser && (view.ownerId === currentUser.id || isAdmin(currentUser));
+  const shareableProjects = projects.filter(p => canReadProject(currentUser, p.id));
+
+  const openSaveModal = () => {
+    setName('');
+    setShareProjectId('');
+    setIsOpen(false);
+    setIsSaveModalOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser || !name.trim()) return;
+    const view: SavedView = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      ownerId: currentUser.id,
+      projectId: shareProjectId || undefined,
+      config,
+      createdAt: Date.now()
+    };
+    addSavedView(view);
+    onApply(view);
+    setIsSaveModalOpen(false);
+  };
+
+  const handleCopyLink = async (view: SavedView) => {
+    try {
+      await navigator.clipboard.writeText(getSavedViewUrl(window.location.origin, view.id));
+      setCopiedId(view.id);
+      setTimeout(() => setCopiedId(current => current === view.id ? null : current), 2000);
+    } catch (error) {
+      console.error("Copy view link failed:", error);
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    deleteSavedView(view.id);
+    if (view.id === activeViewId) onApply(null);
+  };
+
+  const renderGroup = (title: string, list: SavedView[]) => list.length > 0 && (
+    <div className="py-1">
+      <div className="px-3 py-1 text-[10px] font-bold text-slate-400 uppercase">{title}</div>
+      {list.map(view => {
+        const project = projects.find(p => p.id === view.projectId);
+        return (
+          <div key={view.id} className={`group flex items-center px-3 py-1.5 ${view.id === activeViewId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+            <button
+              onClick={() => { onApply(view); setIsOpen(false); }}
+              className="flex-1 min-w-0 flex items-center text-left text-sm text-slate-700"
+            >
+              {view.id === activeViewId ? <Check size={14} className="mr-2 text-indigo-600 shrink-0" /> : <span className="w-[14px] mr-2 shrink-0" />}
+              <span className="truncate">{view.name}</span>
+              {project && <span className="ml-2 text-xs text-slate-400 truncate">{project.name}</span>}
+            </button>
+            <button onClick={() => handleCopyLink(view)} className="p-1 text-slate-400 hover:text-indigo-600" title="Copy link">
+              {copiedId === view.id ? <Check size={13} className="text-emerald-500" /> : <LinkIcon size={13} />}
+            </button>
+            {canManage(view) && (
+              <button onClick={() => handleDelete(view)} className="p-1 text-slate-400 hover:text-red-600" title="Delete view">
+                <Trash2 size={13} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 hover:bg-slate-50 transition-colors max-w-[220px]"
+      >
+        <Bookmark size={16} className={`mr-2 shrink-0 ${activeView ? 'text-indigo-600' : 'text-slate-400'}`} />
+        <span className="truncate">{activeView ? activeView.name : 'Views'}</span>
+        {isModified && <span className="ml-1 text-indigo-500" title="Unsaved changes">*</span>}
+        <ChevronDown size={14} className="ml-2 text-slate-400 shrink-0" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 md:left-0 md:right-auto top-full mt-1 z-40 w-72 bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+          <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+            <div className="py-1">
+              <button
+                onClick={() => { onApply(null); setIsOpen(false); }}
+                className={`w-full flex items-center px-3 py-1.5 text-left text-sm text-slate-700 ${!activeViewId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                {!activeViewId ? <Check size={14} className="mr-2 text-indigo-600" /> : <span className="w-[14px] mr-2" />}
+                Default view
+              </button>
+            </div>
+            {renderGroup('My views', views.filter(v => !v.projectId))}
+            {renderGroup('Shared with projects', views.filter(v => v.projectId))}
+          </div>
+          <div className="border-t border-slate-100 py-1 bg-slate-50/60">
+            {activeView && isModified && canManage(activeView) && (
+              <button
+                onClick={() => { updateSavedView({ ...activeView, config }); setIsOpen(false); }}
+                className="w-full flex items-center px-3 py-1.5 text-left text-sm text-indigo-600 hover:bg-slate-100"
+              >
+                <Save size={14} className="mr-2" /> Update "{activeView.name}"
+              </button>
+            )}
+            <button onClick={openSaveModal} className="w-full flex items-center px-3 py-1.5 text-left text-sm text-slate-700 hover:bg-slate-100">
+              <Plus size={14} className="mr-2" /> Save current view...
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Modal isOpen={isSaveModalOpen} onClose={() => setIsSaveModalOpen(false)} title="Save View" maxWidth="max-w-md">
+        <form onSubmit={handleSave} className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Name</label>
+            <input
+              autoFocus
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. My open bugs"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Visibility</label>
+            <div className="space-y-2">
+              <label className="flex items-center text-sm text-slate-700 cursor-pointer">
+                <input type="radio" checked={!shareProjectId} onChange={() => setShareProjectId('')} className="mr-2" />
+                <Lock size={14} className="mr-1.5 text-slate-400" /> Personal
+              </label>
+              <label className="flex items-center text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={!!shareProjectId}
+                  onChange={() => setShareProjectId(config.filters.projectId !== 'all' ? config.filters.projectId : shareableProjects[0]?.id || '')}
+                  disabled={shareableProjects.length === 0}
+                  className="mr-2"
+                />
+                <Users size={14} className="mr-1.5 text-slate-400" /> Shared with a project
+              </label>
+              {shareProjectId && (
+                <select
+                  value={shareProjectId}
+                  onChange={e => setShareProjectId(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {shareableProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              )}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">Shared views are listed for everyone who can access the project.</p>
+          </div>
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={() => setIsSaveModalOpen(false)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+            <button type="submit" disabled={!name.trim()} className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50">Save View</button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, CheckSquare, ListChecks, MessageCircle, MessageSquare, Paperclip, CornerDownLeft, Loader2 } from 'lucide-react';
+import { useApp } from '../store';
+import { ChatMessage } from '../types';
+import { SearchResult, SearchResultKind, searchAll } from '../search';
+
+// Wait for a pause in typing before searching the stored chat history
+const HISTORY_SEARCH_DELAY = 250;
+
+const KIND_META: Record<SearchResultKind, { label: string; icon: React.ElementType }> = {
+  task: { label: 'Task', icon: CheckSquare },
+  subtask: { label: 'Subtask', icon: ListChecks },
+  comment: { label: 'Comment', icon: MessageCircle },
+  message: { label: 'Message', icon: MessageSquare },
+  attachment: { label: 'File', icon: Paperclip }
+};
+
+// Global search opened with Ctrl/Cmd+K; the parent decides how to open the selected result
+export const SearchPalette: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (result: SearchResult) => void;
+}> = ({ isOpen, onClose, onSelect }) => {
+  const { currentUser, tasks, projects, messages, groups, users, deletedMessageIds, searchMessages } = useApp();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [storedMatches, setStoredMatches] = useState<ChatMessage[]>([]);
+  const [isSearchingHistory, setIsSearchingHistory] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      setStoredMatches([]);
+    }
+  }, [isOpen]);
+
+  // Only the latest pages of each chat are loaded, so older messages are found on the server
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setStoredMatches([]);
+      setIsSearchingHistory(false);
+      return;
+    }
+    let cancelled = false;
+    setIsSearchingHistory(true);
+    const timeout = setTimeout(async () => {
+      const found = await searchMessages(query);
+      if (cancelled) return;
+      setStoredMatches(found);
+      setIsSearchingHistory(false);
+    }, HISTORY_SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, isOpen]);
+
+  // Keep the highlighted result in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen || !currentUser) return null;
+
+  const loadedIds = new Set(messages.map(m => m.id));
+  const results = searchAll(query, {
+    viewer: currentUser, tasks, projects, groups, users, hiddenMessageIds: deletedMessageIds,
+    messages: [...messages, ...storedMatches.filter(m => !loadedIds.has(m.id))]
+  });
+
+  const select = (result: SearchResult | undefined) => {
+    if (!result) return;
+    onSelect(result);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-start justify-center bg-black/50 backdrop-blur-sm p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[70vh]"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 border-b border-slate-100 shrink-0">
+          <Search size={18} className="text-slate-400 shrink-0" />
+          <input
+            autoFocus
+            value={query}
+            onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks, comments, messages and files..."
+            className="flex-1 px-3 py-4 text-sm text-slate-800 outline-none bg-transparent"
+          />
+          <kbd className="hidden md:inline text-[10px] font-bold text-slate-400 border border-slate-200 rounded px-1.5 py-0.5">ESC</kbd>
+        </div>
+
+        <div ref={listRef} className="overflow-y-auto custom-scrollbar flex-1 min-h-0">
+          {query.trim() && results.length === 0 && !isSearchingHistory && (
+            <div className="px-4 py-10 text-center text-sm text-slate-400">No results for "{query.trim()}"</div>
+          )}
+          {query.trim() && isSearchingHistory && (
+            <div className="flex items-center justify-center px-4 py-2 text-xs text-slate-400">
+              <Loader2 size={12} className="animate-spin mr-1.5" /> Searching older messages...
+            </div>
+          )}
+          {!query.trim() && (
+            <div className="px-4 py-10 text-center text-sm text-slate-400">Type to search everything you have access to.</div>
+          )}
+          {results.map((result, index) => {
+            const { label, icon: Icon } = KIND_META[result.kind];
+            const isActive = index === activeIndex;
+            return (
+              <button
+                key={result.key}
+                data-index={index}
+                onClick={() => select(result)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={`w-full flex items-start px-4 py-3 text-left transition-colors ${isActive ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <div className={`mt-0.5 p-1.5 rounded-lg shrink-0 ${isActive ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-500'}`}>
+                  <Icon size={14} />
+                </div>
+                <div className="flex-1 min-w-0 ml-3">
+                  <div className="flex items-center">
+                    <span className="text-sm font-medium text-slate-800 truncate">{result.title}</span>
+                    <span className="ml-2 text-[10px] font-bold uppercase text-slate-400 shrink-0">{label}</span>
+                  </div>
+                  {result.snippet && <p className="text-xs text-slate-500 truncate">{result.snippet}</p>}
+                  <p className="text-[11px] text-slate-400 truncate">{result.context}</p>
+                </div>
+                {isActive && <CornerDownLeft size={14} className="text-indigo-400 mt-1 ml-2 shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
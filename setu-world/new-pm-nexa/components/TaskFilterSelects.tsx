@@ -0,0 +1,77 @@
+import React from 'react';
+import { useApp } from '../store';
+import { canReadProject } from '../policy';
+import { getProjectLabels } from '../labels';
+import { TaskCategory } from '../types';
+
+const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  [TaskCategory.TASK]: 'Task',
+  [TaskCategory.ISSUE]: 'Issue',
+  [TaskCategory.BUG]: 'Bug',
+  [TaskCategory.STORY]: 'Story',
+};
+
+const SELECT_CLASS = 'w-full md:w-auto px-2 py-1.5 md:px-3 md:py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs md:text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-100';
+
+// Project / category / label / assignee selects bound to the shared taskFilters in the store
+export const TaskFilterSelects: React.FC = () => {
+  const { projects, users, currentUser, taskFilters, setTaskFilters } = useApp();
+
+  // Labels belong to a project, so across all projects each option names its project
+  const visibleProjects = projects.filter(p => canReadProject(currentUser, p.id));
+  const labelProjects = taskFilters.projectId === 'all' ? visibleProjects : visibleProjects.filter(p => p.id === taskFilters.projectId);
+  const labelOptions = labelProjects.flatMap(p => (p.labels || []).map(l => ({
+    id: l.id,
+    name: taskFilters.projectId === 'all' ? `${p.name} / ${l.name}` : l.name
+  })));
+
+  const changeProject = (projectId: string) => {
+    const keepsLabel = projectId === 'all' || getProjectLabels(projects, projectId).some(l => l.id === taskFilters.labelId);
+    setTaskFilters({ ...taskFilters, projectId, labelId: keepsLabel ? taskFilters.labelId : 'all' });
+  };
+
+  return (
+    <>
+      {/* Compute Visible Projects */}
+      <select
+        value={taskFilters.projectId}
+        onChange={e => changeProject(e.target.value)}
+        className={SELECT_CLASS}
+      >
+        <option value="all">All Projects</option>
+        {visibleProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+
+      <select
+        value={taskFilters.category}
+        onChange={e => setTaskFilters({ ...taskFilters, category: e.target.value as TaskCategory | 'all' })}
+        className={SELECT_CLASS}
+      >
+        <option value="all">All Categories</option>
+        {Object.values(TaskCategory).map(c => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+      </select>
+
+      {(labelOptions.length > 0 || taskFilters.labelId !== 'all') && (
+        <select
+          value={taskFilters.labelId}
+          onChange={e => setTaskFilters({ ...taskFilters, labelId: e.target.value })}
+          className={`${SELECT_CLASS} md:max-w-[180px]`}
+        >
+          <option value="all">All Labels</option>
+          {labelOptions.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      )}
+
+      <select
+        value={taskFilters.assigneeId}
+        onChange={e => setTaskFilters({ ...taskFilters, assigneeId: e.target.value })}
+        className={`${SELECT_CLASS} md:max-w-[150px]`}
+      >
+        <option value="all">All Assignees</option>
+        <option value="me">Assigned to Me</option>
+        <option value="unassigned">Unassigned</option>
+        {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+      </select>
+    </>
+  );
+};
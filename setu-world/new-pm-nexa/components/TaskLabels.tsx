@@ -0,0 +1,60 @@
+import React from 'react';
+import { Check, Tag } from 'lucide-react';
+import { TaskLabel } from '../types';
+import { STATUS_COLORS } from '../workflow';
+import { toggleLabelId } from '../labels';
+
+const labelBadge = (label: TaskLabel) => (STATUS_COLORS[label.color] || STATUS_COLORS.slate).badge;
+
+// Read-only chips for cards and lists
+export const LabelChips: React.FC<{ labels: TaskLabel[]; className?: string }> = ({ labels, className = '' }) => {
+  if (labels.length === 0) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {labels.map(label => (
+        <span key={label.id} className={`inline-flex items-center px-1.5 py-0.5 rounded border text-[10px] font-semibold max-w-[140px] ${labelBadge(label)}`}>
+          <span className="truncate">{label.name}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+// Toggleable chips for the task and subtask editors
+export const LabelPicker: React.FC<{
+  labels: TaskLabel[]; // The project's labels
+  value: string[] | undefined;
+  onChange: (labelIds: string[]) => void;
+  readOnly?: boolean;
+}> = ({ labels, value, onChange, readOnly }) => {
+  if (labels.length === 0) {
+    return (
+      <p className="flex items-center text-xs text-slate-400 italic">
+        <Tag size={12} className="mr-1.5" /> This project has no labels yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {labels.map(label => {
+        const selected = !!value?.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            disabled={readOnly}
+            onClick={() => onChange(toggleLabelId(value, label.id))}
+            className={`inline-flex items-center px-2 py-1 rounded-full border text-xs font-medium transition-all disabled:cursor-default ${selected
+              ? labelBadge(label)
+              : 'bg-white border-slate-200 text-slate-400 hover:text-slate-600 hover:border-slate-300'
+              } ${readOnly && !selected ? 'hidden' : ''}`}
+          >
+            {selected && <Check size={12} className="mr-1" />}
+            {label.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
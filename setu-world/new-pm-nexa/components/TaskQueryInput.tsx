@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Search, AlertCircle } from 'lucide-react';
+import { QueryError, TaskQueryContext, getQuerySuggestions } from '../taskQuery';
+
+// Filter bar input for the task query language, with field/value autocomplete and parse errors below
+export const TaskQueryInput: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  context: TaskQueryContext;
+  errors: QueryError[];
+}> = ({ value, onChange, context, errors }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = isOpen ? getQuerySuggestions(value, cursor, context) : null;
+  const items = suggestions?.items || [];
+
+  const syncCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (index: number) => {
+    const item = items[index];
+    if (!suggestions || !item) return;
+    // Values end the clause; field names keep the cursor after the colon for the value
+    const rest = value.slice(suggestions.to);
+    const separator = item.insert.endsWith(':') || rest.startsWith(' ') ? '' : ' ';
+    const next = value.slice(0, suggestions.from) + item.insert + separator + rest;
+    const position = suggestions.from + item.insert.length + (item.insert.endsWith(':') ? 0 : 1);
+    onChange(next);
+    setCursor(position);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (items.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(Math.min(activeIndex, items.length - 1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 min-w-[200px]">
+      <Search size={16} className="absolute left-3 top-[18px] -translate-y-1/2 text-slate-400" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search or filter, e.g. status:in_progress assignee:me due:<today"
+        value={value}
+        onChange={e => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={e => ['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key) && syncCursor()}
+        onClick={() => { syncCursor(); setIsOpen(true); }}
+        onFocus={() => { syncCursor(); setIsOpen(true); }}
+        onBlur={() => setIsOpen(false)}
+        spellCheck={false}
+        className={`w-full pl-9 pr-4 py-2 bg-slate-50 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:bg-white transition-all ${errors.length > 0 ? 'border-red-300 focus:ring-red-400' : 'border-slate-200 focus:ring-indigo-500'}`}
+      />
+
+      {items.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-30 bg-white border border-slate-200 rounded-lg shadow-lg py-1 max-h-64 overflow-y-auto custom-scrollbar">
+          {items.map((item, index) => (
+            <button
+              key={item.insert}
+              type="button"
+              // mousedown keeps focus in the input so the list does not close first
+              onMouseDown={e => { e.preventDefault(); accept(index); }}
+              onMouseMove={() => setActiveIndex(index)}
+              className={`w-full flex items-center justify-between px-3 py-1.5 text-left text-sm ${index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'}`}
+            >
+              <span className="font-mono">{item.label}</span>
+              {item.description && <span className="ml-3 text-xs text-slate-400 truncate">{item.description}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-1.5 space-y-0.5">
+          {errors.map(error => (
+            <p key={`${error.start}:${error.message}`} className="flex items-center text-xs text-red-600">
+              <AlertCircle size={12} className="mr-1 shrink-0" />
+              <span className="font-mono mr-1.5">{value.slice(error.start, error.end)}</span>
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { useApp } from '../store';
+import { canWriteProject } from '../policy';
+import { Task, TimeEntry } from '../types';
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${m}:${s}` : `${m}:${s}`;
+};
+
+// Start/stop timer for one task; shows the elapsed time while it runs
+export const TaskTimerButton: React.FC<{
+  task: Task;
+  compact?: boolean;
+  onStop?: (entry: TimeEntry) => void;
+}> = ({ task, compact = false, onStop }) => {
+  const { currentUser, activeTimer, startTimer, stopTimer } = useApp();
+  const isRunning = !!currentUser && activeTimer?.userId === currentUser.id && activeTimer.taskId === task.id;
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!canWriteProject(currentUser, task.projectId)) return null;
+
+  const toggle = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isRunning) {
+      const entry = await stopTimer();
+      if (entry) onStop?.(entry);
+    } else {
+      await startTimer(task.id);
+    }
+  };
+
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={toggle}
+        className={`flex items-center p-1.5 rounded-md transition-colors ${isRunning ? 'text-rose-600 bg-rose-50 hover:bg-rose-100' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-50'}`}
+        title={isRunning ? 'Stop timer and log time' : 'Start timer'}
+      >
+        {isRunning ? <Square size={12} fill="currentColor" /> : <Play size={14} />}
+        {isRunning && activeTimer && <span className="ml-1 text-[10px] font-bold font-mono">{formatElapsed(now - activeTimer.startedAt)}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      className={`flex items-center px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${isRunning ? 'bg-rose-600 text-white hover:bg-rose-700' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+    >
+      {isRunning ? <Square size={12} fill="currentColor" className="mr-1.5" /> : <Play size={12} className="mr-1.5" />}
+      {isRunning && activeTimer ? `Stop · ${formatElapsed(now - activeTimer.startedAt)}` : 'Start Timer'}
+    </button>
+  );
+};
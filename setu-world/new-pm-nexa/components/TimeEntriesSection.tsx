@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useApp } from '../store';
+import { isAdmin } from '../policy';
+import { TimeEntry } from '../types';
+import { toDateOnly, parseDateOnly } from '../dateUtils';
+import { formatDuration, parseDuration, sumMinutes } from '../timeTracking';
+
+// Logged time list plus a manual entry form, shared by the task and subtask editors
+export const TimeEntriesSection: React.FC<{
+  entries: TimeEntry[];
+  onChange: (entries: TimeEntry[]) => void;
+  readOnly: boolean;
+  estimateHours?: number;
+}> = ({ entries, onChange, readOnly, estimateHours }) => {
+  const { users, currentUser } = useApp();
+  const [date, setDate] = useState(() => toDateOnly(new Date()));
+  const [duration, setDuration] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const total = sumMinutes(entries);
+
+  const addEntry = () => {
+    if (!currentUser) return;
+    const minutes = parseDuration(duration);
+    if (!minutes) {
+      setError('Use hours like 1.5, or 1h 30m.');
+      return;
+    }
+    onChange([...entries, { id: 'te-' + Date.now(), userId: currentUser.id, date, minutes, note: note.trim(), createdAt: Date.now() }]);
+    setDuration('');
+    setNote('');
+    setError('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold text-slate-700">{formatDuration(total)} logged</span>
+        {estimateHours !== undefined && (
+          <span className={total > estimateHours * 60 ? 'text-red-500 font-semibold' : 'text-slate-400'}>
+            of {formatDuration(estimateHours * 60)} estimated
+          </span>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={date}
+              onChange={e => setDate(e.target.value || toDateOnly(new Date()))}
+              className="w-[130px] px-2 py-1.5 text-xs border border-slate-200 rounded-lg outline-none focus:border-indigo-500 bg-white"
+            />
+            <input
+              value={duration}
+              onChange={e => { setDuration(e.target.value); setError(''); }}
+              onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addEntry(); } }}
+              placeholder="1h 30m"
+              className="w-20 px-2 py-1.5 text-xs border border-slate-200 rounded-lg outline-none focus:border-indigo-500 bg-white"
+            />
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addEntry(); } }}
+              placeholder="Note"
+              className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-slate-200 rounded-lg outline-none focus:border-indigo-500 bg-white"
+            />
+            <button
+              type="button"
+              onClick={addEntry}
+              disabled={!duration.trim()}
+              className="p-1.5 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+            >
+              <Plus size={18} />
+            </button>
+          </div>
+          {error && <p className="text-[11px] text-red-500">{error}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {[...entries].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt).map(entry => {
+          const user = users.find(u => u.id === entry.userId);
+          const canRemove = !readOnly && (entry.userId === currentUser?.id || isAdmin(currentUser));
+          return (
+            <div key={entry.id} className="flex items-center bg-white border border-slate-200 p-2 rounded-lg group text-xs">
+              {user && <img src={user.avatar} title={user.name} className="w-5 h-5 rounded-full mr-2 shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center text-slate-700">
+                  <span className="font-bold mr-2">{formatDuration(entry.minutes)}</span>
+                  <span className="text-slate-400">{parseDateOnly(entry.date).toLocaleDateString()}</span>
+                </div>
+                {entry.note && <div className="text-slate-500 truncate">{entry.note}</div>}
+              </div>
+              {canRemove && (
+                <button
+                  type="button"
+                  onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                  className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove entry"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {entries.length === 0 && <p className="text-xs text-slate-400 italic">No time logged yet.</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Within this distance (px) of the bottom the list keeps following new items
+const STICK_THRESHOLD = 48;
+// Within this distance (px) of the top older items are requested
+const LOAD_THRESHOLD = 200;
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedHeight?: number; // Used until an item has been measured
+  overscan?: number; // Extra pixels rendered above and below the viewport
+  className?: string;
+  header?: React.ReactNode; // Above the first item, e.g. a "loading older messages" row
+  empty?: React.ReactNode;
+  onReachTop?: () => void;
+  scrollToKey?: string | null; // Centres this item when it changes
+}
+
+/**
+ * Windowed list for chat-style histories: only the items near the viewport are mounted.
+ * Heights are measured as items render. The list starts at the bottom, follows new items while
+ * scrolled to the bottom, and keeps the item at the top of the viewport in place when items
+ * are added above it.
+ */
+export const VirtualList = <T,>({
+  items, getKey, renderItem, estimatedHeight = 72, overscan = 600, className = '', header, empty, onReachTop, scrollToKey
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const heights = useRef(new Map<string, number>());
+  const stickToBottom = useRef(true);
+  const anchor = useRef<{ key: string; delta: number } | null>(null); // Top item and its distance above the viewport top
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  const keys = items.map(getKey);
+  const offsets = [0];
+  keys.forEach((key, i) => offsets.push(offsets[i] + (heights.current.get(key) ?? estimatedHeight)));
+  const totalHeight = offsets[keys.length];
+
+  // Index of the item at `y`, measured from the top of the first item
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = keys.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (offsets[mid] <= y) low = mid;
+      else high = mid - 1;
+    }
+    return Math.max(0, low);
+  };
+
+  // The header and container padding sit above the first item
+  const getContentTop = () => contentRef.current?.offsetTop ?? 0;
+  const visibleTop = viewport.top - getContentTop();
+  const start = indexAt(visibleTop - overscan);
+  const end = Math.min(keys.length, indexAt(visibleTop + viewport.height + overscan) + 1);
+
+  const getObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const element = entry.target as HTMLElement;
+          if (!element.isConnected) {
+            observerRef.current?.unobserve(element);
+            return;
+          }
+          const key = element.dataset.key;
+          if (key && heights.current.get(key) !== element.offsetHeight) {
+            heights.current.set(key, element.offsetHeight);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(v => v + 1);
+      });
+    }
+    return observerRef.current;
+  };
+
+  const measureRef = useCallback((element: HTMLDivElement | null) => {
+    if (element) getObserver().observe(element);
+  }, []);
+
+  const updateViewport = () => {
+    const el = containerRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight <= STICK_THRESHOLD;
+    if (keys.length > 0) {
+      const contentTop = getContentTop();
+      const index = indexAt(el.scrollTop - contentTop);
+      anchor.current = { key: keys[index], delta: el.scrollTop - contentTop - offsets[index] };
+    }
+    setViewport({ top: el.scrollTop, height: el.clientHeight });
+  };
+
+  // Track the container's own size (window resizes, call panels opening)
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport(prev => ({ ...prev, height: el.clientHeight })));
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      observerRef.current?.disconnect();
+    };
+  }, []);
+
+  // After every render: stay at the bottom, or keep the anchored item where it was
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    if (stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    } else if (anchor.current) {
+      const index = keys.indexOf(anchor.current.key);
+      if (index === -1) return;
+      const target = getContentTop() + offsets[index] + anchor.current.delta;
+      if (Math.abs(el.scrollTop - target) > 1) el.scrollTop = target;
+    }
+    if (el.scrollTop !== viewport.top || el.clientHeight !== viewport.height) {
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+    }
+  });
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    const index = scrollToKey ? keys.indexOf(scrollToKey) : -1;
+    if (!el || index === -1) return;
+    const itemHeight = offsets[index + 1] - offsets[index];
+    el.scrollTop = getContentTop() + offsets[index] - (el.clientHeight - itemHeight) / 2;
+    updateViewport();
+  }, [scrollToKey, items.length]);
+
+  // Ask for older items while the top is in view, including when everything fits on screen
+  useEffect(() => {
+    const el = containerRef.current;
+    if (onReachTop && el && el.scrollTop <= LOAD_THRESHOLD) onReachTop();
+  });
+
+  return (
+    <div ref={containerRef} onScroll={updateViewport} className={className} style={{ position: 'relative', overflowAnchor: 'none' }}>
+      {header}
+      {items.length === 0 ? empty : (
+        <div ref={contentRef} style={{ paddingTop: offsets[start], paddingBottom: totalHeight - offsets[end] }}>
+          {items.slice(start, end).map((item, i) => (
+            <div key={keys[start + i]} data-key={keys[start + i]} ref={measureRef} className="flow-root">
+              {renderItem(item, start + i)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -24,7 +24,6 @@ export const INITIAL_USERS: User[] = [
     id: 'u1',
     name: 'Admin User',
     username: 'admin',
-    password: 'admin123',
     role: UserRole.ADMIN,
     avatar: 'https://picsum.photos/200/200?random=1',
     isOnline: true,
@@ -34,7 +33,6 @@ export const INITIAL_USERS: User[] = [
     id: 'u2',
     name: 'Sarah Engineer',
     username: 'sarah',
-    password: 'password',
     role: UserRole.MEMBER,
     avatar: 'https://picsum.photos/200/200?random=2',
     isOnline: true,
@@ -44,7 +42,6 @@ export const INITIAL_USERS: User[] = [
     id: 'u3',
     name: 'Mike Designer',
     username: 'mike',
-    password: 'password',
     role: UserRole.MEMBER,
     avatar: 'https://picsum.photos/200/200?random=3',
     isOnline: false,
@@ -165,4 +162,12 @@ export const INITIAL_TASKS: Task[] = [
     comments: [],
     subtasks: []
   }
-];
\ No newline at end of file
+];
+
+// Legacy plaintext logins for the seeded accounts, keyed by username.
+// Only used to migrate each account to a salted hash on its first successful login.
+export const LEGACY_SEED_PASSWORDS: Record<string, string> = {
+  admin: 'admin123',
+  sarah: 'password',
+  mike: 'password'
+};
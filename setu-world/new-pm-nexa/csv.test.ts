@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain\r\n');
+  });
+
+  it('prefixes text that a spreadsheet would evaluate as a formula', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tx', 'a=b']])).toBe("'=SUM(A1:A2),'+1,'-1,'@cmd,'\tx,a=b\r\n");
+  });
+
+  it('keeps numbers numeric', () => {
+    expect(toCsv([[-1.5, 0, null, undefined]])).toBe('-1.5,0,,\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Title', 'Note'], ['a,b', 'say "hi"\r\nagain']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('round-trips text that needed the formula guard', () => {
+    const rows = [['-item', '- one\n- two', '=1+1', '+1', '@here', "'quoted", "'-kept"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
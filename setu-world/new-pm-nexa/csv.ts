@@ -0,0 +1,78 @@
+/**
+ * CSV helpers (RFC 4180) shared by the exports and imports.
+ * Fields containing a comma, quote or newline are quoted, with quotes doubled.
+ * Text that a spreadsheet would run as a formula gets a leading apostrophe, which parseCsv removes again.
+ */
+
+// Excel, Sheets and LibreOffice evaluate cells starting with these characters. Text that already starts
+// with apostrophes before one of them gets one more, so parseCsv can always remove exactly one.
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+const escapeField = (value: string | number | null | undefined) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Numbers are written as is so negative values stay numeric
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | null | undefined)[][]) =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+
+// Undoes the formula guard of escapeField, so exported text reads back as it was written
+const unescapeField = (field: string) =>
+  field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field;
+
+/** Splits CSV text into rows of fields. Accepts CRLF or LF line ends and a leading byte order mark. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unescapeField(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(unescapeField(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // The last line may not end with a line break
+  if (field || row.length) {
+    row.push(unescapeField(field));
+    rows.push(row);
+  }
+  return rows;
+};
+
+/** Save `content` as a file through a temporary object URL. */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Lowercase, dash-separated name for downloads. */
+export const toFileSlug = (name: string) => name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'export';
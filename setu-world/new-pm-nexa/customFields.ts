@@ -0,0 +1,65 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Project, Task, User } from './types';
+import { parseDateOnly } from './dateUtils';
+
+/**
+ * Per-project custom fields. Definitions live on the project, values on the task keyed by field id.
+ * Across projects fields are matched by name (ignoring case), so a "Customer" field defined in two
+ * projects is one list column, one filter and one chart grouping.
+ */
+
+export const CUSTOM_FIELD_TYPES: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Single select',
+  multi_select: 'Multi select',
+  user: 'User'
+};
+
+export const hasFieldOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select';
+
+export const getProjectCustomFields = (projects: Project[], projectId: string): CustomFieldDefinition[] =>
+  projects.find(p => p.id === projectId)?.customFields || [];
+
+const fieldKey = (name: string) => name.trim().toLowerCase();
+
+/** One definition per field name; the first project's definition wins. */
+export const mergeCustomFields = (projects: Project[]): CustomFieldDefinition[] => {
+  const merged = new Map<string, CustomFieldDefinition>();
+  projects.forEach(p => (p.customFields || []).forEach(f => {
+    if (!merged.has(fieldKey(f.name))) merged.set(fieldKey(f.name), f);
+  }));
+  return Array.from(merged.values());
+};
+
+export const isEmptyFieldValue = (value: CustomFieldValue | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/** The field called `name` in the task's project, with the task's value; null when the project has no such field. */
+export const getTaskFieldValue = (projects: Project[], task: Task, name: string) => {
+  const field = getProjectCustomFields(projects, task.projectId).find(f => fieldKey(f.name) === fieldKey(name));
+  return field ? { field, value: task.customFields?.[field.id] } : null;
+};
+
+/** Display strings of a value: one per multi-select option, none when empty. */
+export const getFieldValueLabels = (field: CustomFieldDefinition, value: CustomFieldValue | undefined, users: User[]): string[] => {
+  if (value === undefined || isEmptyFieldValue(value)) return [];
+  if (Array.isArray(value)) return value;
+  if (field.type === 'user') return [users.find(u => u.id === value)?.name || 'Unknown user'];
+  if (field.type === 'date') return [parseDateOnly(String(value)).toLocaleDateString()];
+  return [String(value)];
+};
+
+export const formatFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined, users: User[]) =>
+  getFieldValueLabels(field, value, users).join(', ');
+
+/** Returns an error message, or null when the definitions can be saved. */
+export const validateCustomFields = (fields: CustomFieldDefinition[]): string | null => {
+  const names = fields.map(f => fieldKey(f.name));
+  if (names.some(name => !name)) return 'Every custom field needs a name.';
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) return `The custom field "${duplicate}" is defined twice.`;
+  const withoutOptions = fields.find(f => hasFieldOptions(f.type) && !(f.options || []).some(o => o.trim()));
+  if (withoutOptions) return `Add at least one option to "${withoutOptions.name}".`;
+  return null;
+};
@@ -0,0 +1,12 @@
+import { DataRepository } from './repository';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+export * from './repository';
+export { createSupabaseRepository } from './supabaseRepository';
+export { createMemoryRepository } from './memoryRepository';
+
+// Set VITE_DATA_SOURCE=memory in .env.local to run the app without a Supabase project
+export const repository: DataRepository = import.meta.env.VITE_DATA_SOURCE === 'memory'
+  ? createMemoryRepository()
+  : createSupabaseRepository();
@@ -0,0 +1,383 @@
+import type { User, Project, Task, Sprint, SavedView, ChatMessage, ReadReceipt, Reaction, Group, Notification, AuthSession } from '../types';
+import { INITIAL_USERS, INITIAL_PROJECTS, INITIAL_TASKS, LEGACY_SEED_PASSWORDS } from '../constants';
+import { DataRepository, RepositoryChange, RepositoryListener, compareMessagesDesc, getMessageChatId, isMessageBefore, isMessageInConversation, matchesMessageSearch } from './repository';
+
+interface MemorySeed {
+  users?: User[];
+  /** Plaintext passwords keyed by username, hashed on first successful login. */
+  legacyPasswords?: Record<string, string>;
+  projects?: Project[];
+  tasks?: Task[];
+  sprints?: Sprint[];
+  savedViews?: SavedView[];
+  messages?: ChatMessage[];
+  reactions?: Reaction[];
+  groups?: Group[];
+  notifications?: Notification[];
+}
+
+// Deep copy so callers can never mutate the backing store by accident
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// --- Password Hashing (PBKDF2 via Web Crypto) ---
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface PasswordHash {
+  salt: string;
+  hash: string;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (byteLength: number) => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const hashPassword = async (password: string, salt = randomHex(16)): Promise<PasswordHash> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations: 100000, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return { salt, hash: toHex(bits) };
+};
+
+const verifyPassword = async (password: string, stored: PasswordHash) =>
+  (await hashPassword(password, stored.salt)).hash === stored.hash;
+
+/**
+ * In-memory repository for offline use and tests.
+ * Seeded from constants.ts by default. Mutations emit the same change events the
+ * Supabase realtime channel would, so the AppProvider behaves identically.
+ */
+export const createMemoryRepository = (seed: MemorySeed = {}): DataRepository => {
+  let users: User[] = clone(seed.users ?? INITIAL_USERS);
+  let projects: Project[] = clone(seed.projects ?? INITIAL_PROJECTS);
+  let tasks: Task[] = clone(seed.tasks ?? INITIAL_TASKS);
+  let sprints: Sprint[] = clone(seed.sprints ?? []);
+  let savedViews: SavedView[] = clone(seed.savedViews ?? []);
+  let messages: ChatMessage[] = clone(seed.messages ?? []);
+  let reactions: Reaction[] = clone(seed.reactions ?? []);
+  let groups: Group[] = clone(seed.groups ?? []);
+  let notifications: Notification[] = clone(seed.notifications ?? []);
+  const legacyPasswords: Record<string, string> = { ...(seed.legacyPasswords ?? LEGACY_SEED_PASSWORDS) };
+  const passwordHashes = new Map<string, PasswordHash>(); // userId -> hash
+  const sessions = new Map<string, AuthSession & { revoked: boolean }>();
+  const deletedMessages = new Map<string, Set<string>>(); // userId -> messageIds
+  let readReceipts: ReadReceipt[] = [];
+  const listeners = new Set<RepositoryListener>();
+
+  const emit = (change: RepositoryChange) => {
+    const snapshot = clone(change);
+    listeners.forEach(l => l(snapshot));
+  };
+
+  const mustFind = <T extends { id: string },>(rows: T[], id: string, label: string) => {
+    const row = rows.find(r => r.id === id);
+    if (!row) throw new Error(`${label} ${id} not found`);
+    return row;
+  };
+
+  const sessionUser = (token: string) => {
+    const session = sessions.get(token);
+    if (!session || session.revoked || session.expiresAt <= Date.now()) return null;
+    return users.find(u => u.id === session.userId) ?? null;
+  };
+
+  const requireSessionUser = (token: string) => {
+    const user = sessionUser(token);
+    if (!user) throw new Error('Not authenticated');
+    return user;
+  };
+
+  const revokeSessions = (userId: string, exceptToken?: string) => {
+    sessions.forEach((session, token) => {
+      if (session.userId === userId && token !== exceptToken) session.revoked = true;
+    });
+  };
+
+  // Mirrors public.unread_messages: newer than the reader's receipt, or the legacy flag without one
+  const isUnreadFor = (m: ChatMessage, userId: string) => {
+    if (m.senderId === userId) return false;
+    if (m.recipientId && m.recipientId !== userId &&
+      !groups.some(g => g.id === m.recipientId && g.memberIds.includes(userId))) return false;
+    const receipt = readReceipts.find(r => r.userId === userId && r.chatId === getMessageChatId(m, userId));
+    return receipt ? m.timestamp > receipt.lastReadTimestamp : !m.isRead;
+  };
+
+  return {
+    auth: {
+      signIn: async (username, password) => {
+        const user = users.find(u => u.username === username);
+        if (!user) return null;
+
+        const stored = passwordHashes.get(user.id);
+        if (stored) {
+          if (!await verifyPassword(password, stored)) return null;
+        } else {
+          // Legacy seed: compare once, then replace with a salted hash
+          if (legacyPasswords[username] !== password) return null;
+          passwordHashes.set(user.id, await hashPassword(password));
+          delete legacyPasswords[username];
+        }
+
+        const session: AuthSession = { token: randomHex(32), userId: user.id, expiresAt: Date.now() + SESSION_TTL_MS };
+        sessions.set(session.token, { ...session, revoked: false });
+        return { user: clone(user), session };
+      },
+      getSessionUser: async (token) => {
+        const user = sessionUser(token);
+        return user ? clone(user) : null;
+      },
+      signOut: async (token) => {
+        const session = sessions.get(token);
+        if (session) session.revoked = true;
+      },
+      // Every call passes its token explicitly; there is no ambient session to attach
+      attachSession: () => {},
+      changePassword: async (token, oldPassword, newPassword) => {
+        const user = requireSessionUser(token);
+        const stored = passwordHashes.get(user.id);
+        if (!stored || !await verifyPassword(oldPassword, stored)) return false;
+        passwordHashes.set(user.id, await hashPassword(newPassword));
+        // Sign out every other device
+        revokeSessions(user.id, token);
+        return true;
+      },
+      setPassword: async (token, userId, newPassword) => {
+        if (requireSessionUser(token).role !== 'ADMIN') throw new Error('Admin privileges required');
+        mustFind(users, userId, 'User');
+        passwordHashes.set(userId, await hashPassword(newPassword));
+        revokeSessions(userId);
+      }
+    },
+
+    users: {
+      list: async () => clone(users),
+      create: async (u) => {
+        users = [...users, clone(u)];
+        emit({ table: 'users', eventType: 'INSERT', record: u });
+      },
+      update: async (u) => {
+        mustFind(users, u.id, 'User');
+        users = users.map(existing => existing.id === u.id ? clone(u) : existing);
+        emit({ table: 'users', eventType: 'UPDATE', record: u });
+      },
+      remove: async (id) => {
+        users = users.filter(u => u.id !== id);
+        passwordHashes.delete(id);
+        revokeSessions(id);
+        emit({ table: 'users', eventType: 'DELETE', id });
+      }
+    },
+
+    projects: {
+      list: async () => clone(projects),
+      create: async (p) => {
+        projects = [...projects, clone(p)];
+        emit({ table: 'projects', eventType: 'INSERT', record: p });
+      },
+      update: async (p) => {
+        mustFind(projects, p.id, 'Project');
+        projects = projects.map(existing => existing.id === p.id ? clone(p) : existing);
+        emit({ table: 'projects', eventType: 'UPDATE', record: p });
+      },
+      remove: async (id) => {
+        projects = projects.filter(p => p.id !== id);
+        emit({ table: 'projects', eventType: 'DELETE', id });
+      }
+    },
+
+    tasks: {
+      list: async () => clone(tasks),
+      create: async (t) => {
+        tasks = [...tasks, clone(t)];
+        emit({ table: 'tasks', eventType: 'INSERT', record: t });
+      },
+      update: async (t) => {
+        mustFind(tasks, t.id, 'Task');
+        tasks = tasks.map(existing => existing.id === t.id ? { ...clone(t), projectId: existing.projectId, createdAt: existing.createdAt } : existing);
+        emit({ table: 'tasks', eventType: 'UPDATE', record: mustFind(tasks, t.id, 'Task') });
+      },
+      updatePositions: async (positions) => {
+        positions.forEach(p => {
+          const updated = { ...mustFind(tasks, p.id, 'Task'), status: p.status, order: p.order };
+          tasks = tasks.map(t => t.id === p.id ? updated : t);
+          emit({ table: 'tasks', eventType: 'UPDATE', record: updated });
+        });
+      },
+      assignSprint: async (taskIds, sprintId) => {
+        taskIds.forEach(id => {
+          const updated = { ...mustFind(tasks, id, 'Task'), sprintId };
+          tasks = tasks.map(t => t.id === id ? updated : t);
+          emit({ table: 'tasks', eventType: 'UPDATE', record: updated });
+        });
+      },
+      remove: async (id) => {
+        tasks = tasks.filter(t => t.id !== id);
+        emit({ table: 'tasks', eventType: 'DELETE', id });
+      },
+      removeByProject: async (projectId) => {
+        const removed = tasks.filter(t => t.projectId === projectId);
+        tasks = tasks.filter(t => t.projectId !== projectId);
+        removed.forEach(t => emit({ table: 'tasks', eventType: 'DELETE', id: t.id }));
+      }
+    },
+
+    sprints: {
+      list: async () => clone(sprints),
+      create: async (s) => {
+        sprints = [...sprints, clone(s)];
+        emit({ table: 'sprints', eventType: 'INSERT', record: s });
+      },
+      update: async (s) => {
+        mustFind(sprints, s.id, 'Sprint');
+        sprints = sprints.map(existing => existing.id === s.id ? { ...clone(s), projectId: existing.projectId } : existing);
+        emit({ table: 'sprints', eventType: 'UPDATE', record: mustFind(sprints, s.id, 'Sprint') });
+      },
+      remove: async (id) => {
+        sprints = sprints.filter(s => s.id !== id);
+        emit({ table: 'sprints', eventType: 'DELETE', id });
+      },
+      removeByProject: async (projectId) => {
+        const removed = sprints.filter(s => s.projectId === projectId);
+        sprints = sprints.filter(s => s.projectId !== projectId);
+        removed.forEach(s => emit({ table: 'sprints', eventType: 'DELETE', id: s.id }));
+      }
+    },
+
+    savedViews: {
+      list: async () => clone(savedViews),
+      create: async (v) => {
+        savedViews = [...savedViews, clone(v)];
+        emit({ table: 'saved_views', eventType: 'INSERT', record: v });
+      },
+      update: async (v) => {
+        mustFind(savedViews, v.id, 'Saved view');
+        savedViews = savedViews.map(existing => existing.id === v.id ? { ...clone(v), ownerId: existing.ownerId } : existing);
+        emit({ table: 'saved_views', eventType: 'UPDATE', record: mustFind(savedViews, v.id, 'Saved view') });
+      },
+      remove: async (id) => {
+        savedViews = savedViews.filter(v => v.id !== id);
+        emit({ table: 'saved_views', eventType: 'DELETE', id });
+      },
+      removeByProject: async (projectId) => {
+        const removed = savedViews.filter(v => v.projectId === projectId);
+        savedViews = savedViews.filter(v => v.projectId !== projectId);
+        removed.forEach(v => emit({ table: 'saved_views', eventType: 'DELETE', id: v.id }));
+      }
+    },
+
+    messages: {
+      list: async (opts) => {
+        const { chatId, threadId, userId = '', before, search, unreadOnly, limit, order = 'desc' } = opts || {};
+        const matching = messages.filter(m =>
+          (!chatId || isMessageInConversation(m, chatId, userId)) &&
+          (!threadId || m.id === threadId || m.parentId === threadId) &&
+          (!before || isMessageBefore(m, before)) &&
+          (!search || (!m.deletedAt && matchesMessageSearch(m, search))) &&
+          (!unreadOnly || isUnreadFor(m, userId))
+        );
+        // Pages are cut from the newest end, then returned in the requested order
+        const newest = matching.sort(compareMessagesDesc).slice(0, limit || undefined);
+        return clone(order === 'asc' ? newest.reverse() : newest);
+      },
+      send: async (m) => {
+        if (messages.some(existing => existing.id === m.id)) return;
+        messages = [...messages, { ...clone(m), isRead: false }];
+        emit({ table: 'messages', eventType: 'INSERT', record: m });
+      },
+      create: async (m) => {
+        messages = [...messages, { ...clone(m), isRead: false }];
+        emit({ table: 'messages', eventType: 'INSERT', record: m });
+      },
+      update: async (m) => {
+        const existing = messages.find(x => x.id === m.id);
+        if (!existing) return;
+        const updated = { ...clone(m), isRead: existing.isRead };
+        messages = messages.map(x => x.id === m.id ? updated : x);
+        emit({ table: 'messages', eventType: 'UPDATE', record: updated });
+      },
+      markChatRead: async (chatId, userId, timestamp) => {
+        const existing = readReceipts.find(r => r.userId === userId && r.chatId === chatId);
+        if (existing && existing.lastReadTimestamp >= timestamp) return;
+        const receipt: ReadReceipt = { userId, chatId, lastReadTimestamp: timestamp };
+        readReceipts = [...readReceipts.filter(r => r !== existing), receipt];
+        emit({ table: 'read_receipts', eventType: existing ? 'UPDATE' : 'INSERT', record: receipt });
+      },
+      listDeletedIds: async (userId) => Array.from(deletedMessages.get(userId) ?? []),
+      hideForUser: async (userId, messageIds) => {
+        const set = deletedMessages.get(userId) ?? new Set<string>();
+        messageIds.forEach(id => set.add(id));
+        deletedMessages.set(userId, set);
+      },
+      listReadReceipts: async () => clone(readReceipts)
+    },
+
+    reactions: {
+      list: async (targetType, targetIds) => {
+        const ids = new Set(targetIds);
+        return clone(reactions.filter(r => r.targetType === targetType && ids.has(r.targetId)));
+      },
+      add: async (r) => {
+        if (reactions.some(existing => existing.targetType === r.targetType && existing.targetId === r.targetId &&
+          existing.userId === r.userId && existing.emoji === r.emoji)) return;
+        reactions = [...reactions, clone(r)];
+        emit({ table: 'reactions', eventType: 'INSERT', record: r });
+      },
+      remove: async (id) => {
+        reactions = reactions.filter(r => r.id !== id);
+        emit({ table: 'reactions', eventType: 'DELETE', id });
+      }
+    },
+
+    groups: {
+      list: async () => clone(groups),
+      create: async (g) => {
+        groups = [...groups, clone(g)];
+        emit({ table: 'groups', eventType: 'INSERT', record: g });
+      },
+      update: async (g) => {
+        mustFind(groups, g.id, 'Group');
+        groups = groups.map(existing => existing.id === g.id ? clone(g) : existing);
+      },
+      remove: async (id) => {
+        groups = groups.filter(g => g.id !== id);
+      }
+    },
+
+    notifications: {
+      list: async () => clone([...notifications].sort((a, b) => b.timestamp - a.timestamp)),
+      create: async (n) => {
+        notifications = [...notifications, clone(n)];
+        emit({ table: 'notifications', eventType: 'INSERT', record: n });
+      },
+      markRead: async (id) => {
+        const updated = { ...mustFind(notifications, id, 'Notification'), read: true };
+        notifications = notifications.map(n => n.id === id ? updated : n);
+        emit({ table: 'notifications', eventType: 'UPDATE', record: updated });
+      },
+      markAllRead: async (recipientId) => {
+        notifications = notifications.map(n => {
+          if (n.recipientId !== recipientId || n.read) return n;
+          const updated = { ...n, read: true };
+          emit({ table: 'notifications', eventType: 'UPDATE', record: updated });
+          return updated;
+        });
+      }
+    },
+
+    attachments: {
+      // Object URLs only live as long as the page, which matches the lifetime of this store
+      upload: async (file) => URL.createObjectURL(file)
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,208 @@
+import type { User, Project, Task, Sprint, SavedView, ChatMessage, MessageCursor, ReadReceipt, Reaction, ReactionTargetType, Group, Notification, AuthSession } from '../types';
+
+/**
+ * Data-access layer used by the AppProvider and the modules.
+ * Every read/write against the backend goes through one of these repositories so the
+ * app can run against Supabase or against the in-memory store (see memoryRepository.ts).
+ *
+ * Implementations throw on failure; callers decide whether to log, alert or roll back.
+ */
+
+export interface AuthRepository {
+  /** Verify credentials server-side and open a session. Resolves null on bad credentials. */
+  signIn(username: string, password: string): Promise<{ user: User; session: AuthSession } | null>;
+  /** Resolve a session token to its user. Resolves null if the session expired or was revoked. */
+  getSessionUser(token: string): Promise<User | null>;
+  /** Revoke the session server-side. */
+  signOut(token: string): Promise<void>;
+  /**
+   * Identify later requests (and live updates) as this session's user; null for anonymous.
+   * signIn, getSessionUser and signOut do this themselves; call it for a session restored from storage
+   * before anything else loads, since row-level access depends on it.
+   */
+  attachSession(token: string | null): void;
+  /** Resolves false if `oldPassword` does not match. */
+  changePassword(token: string, oldPassword: string, newPassword: string): Promise<boolean>;
+  /** Admin only: set the password of another account (new users, resets). */
+  setPassword(token: string, userId: string, newPassword: string): Promise<void>;
+}
+
+export interface UserRepository {
+  list(): Promise<User[]>;
+  create(user: User): Promise<void>;
+  update(user: User): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface ProjectRepository {
+  list(): Promise<Project[]>;
+  create(project: Project): Promise<void>;
+  update(project: Project): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface TaskPosition {
+  id: string;
+  status: string;
+  order: number;
+}
+
+export interface TaskRepository {
+  list(): Promise<Task[]>;
+  create(task: Task): Promise<void>;
+  update(task: Task): Promise<void>;
+  /** Persist only status + order for a batch of tasks (Kanban drag & drop). */
+  updatePositions(positions: TaskPosition[]): Promise<void>;
+  /** Persist only sprint membership for a batch of tasks; undefined moves them to the backlog. */
+  assignSprint(taskIds: string[], sprintId: string | undefined): Promise<void>;
+  remove(id: string): Promise<void>;
+  removeByProject(projectId: string): Promise<void>;
+}
+
+export interface SprintRepository {
+  list(): Promise<Sprint[]>;
+  create(sprint: Sprint): Promise<void>;
+  update(sprint: Sprint): Promise<void>;
+  remove(id: string): Promise<void>;
+  removeByProject(projectId: string): Promise<void>;
+}
+
+export interface SavedViewRepository {
+  /** Views of the current user plus the ones shared with projects they can read. */
+  list(): Promise<SavedView[]>;
+  create(view: SavedView): Promise<void>;
+  update(view: SavedView): Promise<void>;
+  remove(id: string): Promise<void>;
+  /** Shared views only; personal views do not belong to a project. */
+  removeByProject(projectId: string): Promise<void>;
+}
+
+// Chats are 'general', a group id ('g-*') or, for direct messages, the other user's id
+export interface MessageListOptions {
+  chatId?: string; // Every chat visible to the caller when unset
+  threadId?: string; // A thread's first message and all of its replies
+  userId?: string; // The viewer; required with a direct-message chatId and with unreadOnly
+  before?: MessageCursor; // Only messages before this one in (timestamp, id) order
+  search?: string; // Messages whose text or attachment names contain every word (case-insensitive)
+  unreadOnly?: boolean; // Messages from others to userId newer than userId's read receipt for their chat (legacy isRead without one)
+  limit?: number; // Every matching message when unset
+  order?: 'asc' | 'desc';
+}
+
+export interface MessageRepository {
+  /** Messages matching `opts`; with order 'desc' and a limit this is one page of history, newest first. */
+  list(opts?: MessageListOptions): Promise<ChatMessage[]>;
+  /** Persist a message sent by the current user. */
+  send(message: ChatMessage): Promise<void>;
+  /** Persist a message created on behalf of someone else (e.g. missed call entries). */
+  create(message: ChatMessage): Promise<void>;
+  /** Store an edit or a delete-for-everyone tombstone; every reader sees the change. */
+  update(message: ChatMessage): Promise<void>;
+  /** Record that `userId` has read `chatId` up to `timestamp`; other readers are not affected. */
+  markChatRead(chatId: string, userId: string, timestamp: number): Promise<void>;
+  listDeletedIds(userId: string): Promise<string[]>;
+  /** Hide messages for a single user (per-user "clear chat"). */
+  hideForUser(userId: string, messageIds: string[]): Promise<void>;
+  /** Every user's read position in the chats the caller can see. */
+  listReadReceipts(): Promise<ReadReceipt[]>;
+}
+
+export interface ReactionRepository {
+  /** Reactions on the given messages or comments, so they load with the page that shows them. */
+  list(targetType: ReactionTargetType, targetIds: string[]): Promise<Reaction[]>;
+  /** Resolves without a change if the user already reacted with this emoji. */
+  add(reaction: Reaction): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface GroupRepository {
+  list(): Promise<Group[]>;
+  create(group: Group): Promise<void>;
+  update(group: Group): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface NotificationRepository {
+  list(): Promise<Notification[]>;
+  create(notification: Notification): Promise<void>;
+  markRead(id: string): Promise<void>;
+  markAllRead(recipientId: string): Promise<void>;
+}
+
+export interface AttachmentRepository {
+  /** Upload a file and return its public URL. `prefix` is used to namespace the stored file name. */
+  upload(file: File, prefix?: string): Promise<string>;
+}
+
+// --- Change Feed ---
+// Mirrors Supabase postgres_changes, but already mapped to app types.
+export type RepositoryChange =
+  | { table: 'users'; eventType: 'INSERT' | 'UPDATE'; record: User }
+  | { table: 'users'; eventType: 'DELETE'; id: string }
+  | { table: 'projects'; eventType: 'INSERT' | 'UPDATE'; record: Project }
+  | { table: 'projects'; eventType: 'DELETE'; id: string }
+  | { table: 'tasks'; eventType: 'INSERT' | 'UPDATE'; record: Task }
+  | { table: 'tasks'; eventType: 'DELETE'; id: string }
+  | { table: 'sprints'; eventType: 'INSERT' | 'UPDATE'; record: Sprint }
+  | { table: 'sprints'; eventType: 'DELETE'; id: string }
+  | { table: 'saved_views'; eventType: 'INSERT' | 'UPDATE'; record: SavedView }
+  | { table: 'saved_views'; eventType: 'DELETE'; id: string }
+  | { table: 'messages'; eventType: 'INSERT' | 'UPDATE'; record: ChatMessage }
+  | { table: 'read_receipts'; eventType: 'INSERT' | 'UPDATE'; record: ReadReceipt }
+  | { table: 'reactions'; eventType: 'INSERT'; record: Reaction }
+  | { table: 'reactions'; eventType: 'DELETE'; id: string }
+  | { table: 'groups'; eventType: 'INSERT' | 'UPDATE'; record: Group }
+  | { table: 'groups'; eventType: 'DELETE'; id: string }
+  | { table: 'notifications'; eventType: 'INSERT' | 'UPDATE'; record: Notification };
+
+export type RepositoryListener = (change: RepositoryChange) => void;
+
+export interface DataRepository {
+  auth: AuthRepository;
+  users: UserRepository;
+  projects: ProjectRepository;
+  tasks: TaskRepository;
+  sprints: SprintRepository;
+  savedViews: SavedViewRepository;
+  messages: MessageRepository;
+  reactions: ReactionRepository;
+  groups: GroupRepository;
+  notifications: NotificationRepository;
+  attachments: AttachmentRepository;
+  /** Subscribe to remote changes. Returns an unsubscribe function. */
+  subscribe(listener: RepositoryListener): () => void;
+}
+
+/** Shared helper: does `message` belong to `chatId` as seen by `userId`? */
+export const isMessageInChat = (message: ChatMessage, chatId: string, userId: string) =>
+  (chatId === 'general' && !message.recipientId) ||
+  (chatId.startsWith('g-') && message.recipientId === chatId) ||
+  (message.senderId === chatId && message.recipientId === userId);
+
+/** Newest first by timestamp, then id: the order message pages are cut in. */
+export const compareMessagesDesc = (a: ChatMessage, b: ChatMessage) =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+export const isMessageBefore = (message: ChatMessage, cursor: MessageCursor) =>
+  message.timestamp < cursor.timestamp || (message.timestamp === cursor.timestamp && message.id < cursor.id);
+
+/** Whether the message text or one of its attachment names contains every word of `query`. */
+export const matchesMessageSearch = (message: ChatMessage, query: string) => {
+  const haystack = [message.text, ...(message.attachments || []).map(a => a.name)].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+};
+
+/** The chat id `message` has as seen by `userId` (one of its participants); the inverse of isMessageInConversation. */
+export const getMessageChatId = (message: ChatMessage, userId: string) =>
+  !message.recipientId ? 'general'
+    : message.recipientId.startsWith('g-') ? message.recipientId
+      : message.senderId === userId ? message.recipientId : message.senderId;
+
+/** Like isMessageInChat, but also counts the viewer's own direct messages to `chatId`. */
+export const isMessageInConversation = (message: ChatMessage, chatId: string, userId: string) =>
+  isMessageInChat(message, chatId, userId) ||
+  (message.senderId === userId && message.recipientId === chatId && !chatId.startsWith('g-'));
+
+/** Storage-safe file name, unique per upload. */
+export const buildAttachmentFileName = (file: File, prefix?: string) =>
+  `${Date.now()}_${prefix ? prefix + '_' : ''}${Math.random().toString(36).substr(2, 9)}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
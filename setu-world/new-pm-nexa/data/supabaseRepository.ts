@@ -0,0 +1,648 @@
+import type { User, Project, Task, Sprint, SavedView, ChatMessage, ReadReceipt, Reaction, Group, Notification } from '../types';
+import { supabase, fetchMessages, setSessionToken } from '../supabaseClient';
+import { DataRepository, RepositoryListener, buildAttachmentFileName } from './repository';
+
+// --- Data Mappers (DB Snake_case to App CamelCase) ---
+export const mapUserFromDB = ({ password, password_hash, ...u }: any): User => ({
+  ...u,
+  isOnline: u.is_online,
+  projectAccess: u.project_access,
+  dashboardConfig: u.dashboard_config
+});
+export const mapTaskFromDB = (t: any): Task => ({
+  ...t,
+  projectId: t.project_id,
+  assigneeId: t.assignee_id,
+  startDate: t.start_date || undefined,
+  dueDate: t.due_date,
+  order: t.order,
+  subtasks: t.subtasks || [],
+  attachments: t.attachments || [],
+  comments: t.comments || [],
+  links: t.links || [],
+  sprintId: t.sprint_id || undefined,
+  storyPoints: t.story_points ?? undefined,
+  estimateHours: t.estimate_hours ?? undefined,
+  completedAt: t.completed_at ?? undefined,
+  timeEntries: t.time_entries || [],
+  labelIds: t.label_ids || [],
+  customFields: t.custom_fields || {},
+  createdAt: t.created_at
+});
+export const mapSprintFromDB = (s: any): Sprint => ({
+  id: s.id,
+  projectId: s.project_id,
+  name: s.name,
+  goal: s.goal || '',
+  startDate: s.start_date,
+  endDate: s.end_date,
+  state: s.state,
+  createdAt: s.created_at,
+  closedAt: s.closed_at || undefined
+});
+export const mapSavedViewFromDB = (v: any): SavedView => ({
+  id: v.id,
+  name: v.name,
+  ownerId: v.owner_id,
+  projectId: v.project_id || undefined,
+  config: v.config,
+  createdAt: v.created_at
+});
+export const mapProjectFromDB = (p: any): Project => ({
+  id: p.id,
+  name: p.name,
+  description: p.description,
+  memberIds: p.member_ids || [],
+  attachments: [],
+  comments: [],
+  workflow: p.workflow || undefined,
+  transitionRules: p.transition_rules || undefined,
+  labels: p.labels || undefined,
+  customFields: p.custom_fields || undefined
+});
+export const mapGroupFromDB = (g: any): Group => ({
+  ...g,
+  memberIds: g.member_ids,
+  createdBy: g.created_by,
+  createdAt: g.created_at
+});
+export const mapMessageFromDB = (m: any): ChatMessage => ({
+  id: m.id,
+  senderId: m.sender_id,
+  recipientId: m.recipient_id,
+  text: m.text,
+  timestamp: m.timestamp,
+  type: m.type,
+  attachments: m.attachments,
+  isRead: m.is_read || false,
+  parentId: m.parent_id || undefined,
+  editedAt: m.edited_at ?? undefined,
+  revisions: m.revisions || undefined,
+  deletedAt: m.deleted_at ?? undefined,
+  deletedBy: m.deleted_by || undefined
+});
+export const mapReadReceiptFromDB = (r: any): ReadReceipt => ({
+  userId: r.user_id,
+  chatId: r.chat_id,
+  lastReadTimestamp: r.last_read_timestamp
+});
+export const mapReactionFromDB = (r: any): Reaction => ({
+  id: r.id,
+  targetType: r.target_type,
+  targetId: r.target_id,
+  userId: r.user_id,
+  emoji: r.emoji,
+  createdAt: r.created_at
+});
+export const mapNotificationFromDB = (n: any): Notification => ({
+  id: n.id,
+  recipientId: n.recipient_id,
+  senderId: n.sender_id,
+  type: n.type,
+  title: n.title,
+  message: n.message,
+  timestamp: n.timestamp,
+  read: n.read,
+  linkTo: n.link_to
+});
+
+// PostgREST `or` filter selecting one conversation (see isMessageInConversation)
+const chatFilter = (chatId: string, userId: string) => {
+  if (chatId === 'general') return 'recipient_id.is.null';
+  if (chatId.startsWith('g-')) return `recipient_id.eq.${chatId}`;
+  return `and(sender_id.eq.${chatId},recipient_id.eq.${userId}),and(sender_id.eq.${userId},recipient_id.eq.${chatId})`;
+};
+
+// --- App CamelCase to DB Snake_case ---
+// Credential columns are not readable by API roles, so always select explicitly
+const USER_COLUMNS = 'id, name, username, role, avatar, is_online, project_access, dashboard_config';
+
+const userToDB = (u: User) => ({
+  name: u.name,
+  username: u.username,
+  role: u.role,
+  avatar: u.avatar,
+  project_access: u.projectAccess,
+  dashboard_config: u.dashboardConfig
+});
+
+const taskToDB = (t: Task) => ({
+  title: t.title,
+  description: t.description,
+  status: t.status,
+  category: t.category,
+  assignee_id: t.assigneeId || null, // Explicitly set null if undefined to unassign
+  priority: t.priority,
+  start_date: t.startDate || null,
+  due_date: t.dueDate || null,
+  attachments: t.attachments,
+  comments: t.comments,
+  subtasks: t.subtasks,
+  links: t.links || [],
+  sprint_id: t.sprintId || null,
+  story_points: t.storyPoints ?? null,
+  estimate_hours: t.estimateHours ?? null,
+  completed_at: t.completedAt ?? null,
+  time_entries: t.timeEntries || [],
+  label_ids: t.labelIds || [],
+  custom_fields: t.customFields || {},
+  order: t.order
+});
+
+const sprintToDB = (s: Sprint) => ({
+  name: s.name,
+  goal: s.goal,
+  start_date: s.startDate,
+  end_date: s.endDate,
+  state: s.state,
+  closed_at: s.closedAt ?? null
+});
+
+const savedViewToDB = (v: SavedView) => ({
+  name: v.name,
+  project_id: v.projectId || null,
+  config: v.config
+});
+
+const messageToDB = (m: ChatMessage) => ({
+  id: m.id,
+  sender_id: m.senderId,
+  recipient_id: m.recipientId,
+  text: m.text,
+  timestamp: m.timestamp,
+  type: m.type,
+  attachments: m.attachments,
+  parent_id: m.parentId || null
+});
+
+// Only the columns an edit or delete-for-everyone may change
+const messageChangesToDB = (m: ChatMessage) => ({
+  text: m.text,
+  attachments: m.attachments,
+  edited_at: m.editedAt ?? null,
+  revisions: m.revisions || null,
+  deleted_at: m.deletedAt ?? null,
+  deleted_by: m.deletedBy || null
+});
+
+const REACTION_ID_BATCH = 100;
+
+const check = (error: { message: string } | null, context: string) => {
+  if (error) throw new Error(`${context}: ${error.message}`);
+};
+
+export const createSupabaseRepository = (): DataRepository => ({
+  // Backed by the auth_* functions in supabase/migrations (bcrypt hashes + sessions table)
+  auth: {
+    signIn: async (username, password) => {
+      const { data, error } = await supabase.rpc('auth_login', { p_username: username, p_password: password });
+      check(error, 'Login failed');
+      if (!data) return null;
+      setSessionToken(data.token);
+      return {
+        user: mapUserFromDB(data.user),
+        session: { token: data.token, userId: data.user_id, expiresAt: data.expires_at }
+      };
+    },
+    getSessionUser: async (token) => {
+      const { data, error } = await supabase.rpc('auth_session_user', { p_token: token });
+      check(error, 'Session lookup failed');
+      if (!data) return null;
+      setSessionToken(token);
+      return mapUserFromDB(data);
+    },
+    signOut: async (token) => {
+      const { error } = await supabase.rpc('auth_logout', { p_token: token });
+      setSessionToken(null);
+      check(error, 'Logout failed');
+    },
+    attachSession: token => setSessionToken(token),
+    changePassword: async (token, oldPassword, newPassword) => {
+      const { data, error } = await supabase.rpc('auth_change_password', {
+        p_token: token,
+        p_old_password: oldPassword,
+        p_new_password: newPassword
+      });
+      check(error, 'Change password failed');
+      return data === true;
+    },
+    setPassword: async (token, userId, newPassword) => {
+      const { error } = await supabase.rpc('auth_set_password', {
+        p_token: token,
+        p_user_id: userId,
+        p_new_password: newPassword
+      });
+      check(error, 'Set password failed');
+    }
+  },
+
+  users: {
+    list: async () => {
+      const { data, error } = await supabase.from('users').select(USER_COLUMNS);
+      check(error, 'List users failed');
+      return (data || []).map(mapUserFromDB);
+    },
+    create: async (u) => {
+      const { error } = await supabase.from('users').insert({ id: u.id, ...userToDB(u) });
+      check(error, 'Add user failed');
+    },
+    update: async (u) => {
+      const { error } = await supabase.from('users').update(userToDB(u)).eq('id', u.id);
+      check(error, 'Update user failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('users').delete().eq('id', id);
+      check(error, 'Delete user failed');
+    }
+  },
+
+  projects: {
+    list: async () => {
+      const { data, error } = await supabase.from('projects').select('*');
+      check(error, 'List projects failed');
+      return (data || []).map(mapProjectFromDB);
+    },
+    create: async (p) => {
+      // Use only schema-defined columns to prevent errors
+      const { error } = await supabase.from('projects').insert({
+        id: p.id,
+        name: p.name,
+        description: p.description,
+        member_ids: p.memberIds,
+        workflow: p.workflow ?? null,
+        transition_rules: p.transitionRules ?? null,
+        labels: p.labels ?? null,
+        custom_fields: p.customFields ?? null
+      });
+      check(error, 'Create project failed');
+    },
+    update: async (p) => {
+      const { error } = await supabase.from('projects').update({
+        name: p.name,
+        description: p.description,
+        member_ids: p.memberIds,
+        workflow: p.workflow ?? null,
+        transition_rules: p.transitionRules ?? null,
+        labels: p.labels ?? null,
+        custom_fields: p.customFields ?? null
+      }).eq('id', p.id);
+      check(error, 'Update project failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('projects').delete().eq('id', id);
+      check(error, 'Delete project failed');
+    }
+  },
+
+  tasks: {
+    list: async () => {
+      const { data, error } = await supabase.from('tasks').select('*');
+      check(error, 'List tasks failed');
+      return (data || []).map(mapTaskFromDB);
+    },
+    create: async (t) => {
+      const { error } = await supabase.from('tasks').insert({
+        id: t.id,
+        project_id: t.projectId,
+        created_at: t.createdAt,
+        ...taskToDB(t)
+      });
+      check(error, 'Create task failed');
+    },
+    update: async (t) => {
+      const { error } = await supabase.from('tasks').update(taskToDB(t)).eq('id', t.id);
+      check(error, 'Update task failed');
+    },
+    updatePositions: async (positions) => {
+      const results = await Promise.all(positions.map(p =>
+        supabase.from('tasks').update({ status: p.status, order: p.order }).eq('id', p.id)
+      ));
+      results.forEach(r => check(r.error, 'Move task failed'));
+    },
+    assignSprint: async (taskIds, sprintId) => {
+      if (taskIds.length === 0) return;
+      const { error } = await supabase.from('tasks').update({ sprint_id: sprintId ?? null }).in('id', taskIds);
+      check(error, 'Assign sprint failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('tasks').delete().eq('id', id);
+      check(error, 'Delete task failed');
+    },
+    removeByProject: async (projectId) => {
+      const { error } = await supabase.from('tasks').delete().eq('project_id', projectId);
+      check(error, 'Delete project tasks failed');
+    }
+  },
+
+  sprints: {
+    list: async () => {
+      const { data, error } = await supabase.from('sprints').select('*');
+      check(error, 'List sprints failed');
+      return (data || []).map(mapSprintFromDB);
+    },
+    create: async (s) => {
+      const { error } = await supabase.from('sprints').insert({
+        id: s.id,
+        project_id: s.projectId,
+        created_at: s.createdAt,
+        ...sprintToDB(s)
+      });
+      check(error, 'Create sprint failed');
+    },
+    update: async (s) => {
+      const { error } = await supabase.from('sprints').update(sprintToDB(s)).eq('id', s.id);
+      check(error, 'Update sprint failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('sprints').delete().eq('id', id);
+      check(error, 'Delete sprint failed');
+    },
+    removeByProject: async (projectId) => {
+      const { error } = await supabase.from('sprints').delete().eq('project_id', projectId);
+      check(error, 'Delete project sprints failed');
+    }
+  },
+
+  savedViews: {
+    list: async () => {
+      // Row-level security limits this to own views and views shared with readable projects
+      const { data, error } = await supabase.from('saved_views').select('*');
+      check(error, 'List saved views failed');
+      return (data || []).map(mapSavedViewFromDB);
+    },
+    create: async (v) => {
+      const { error } = await supabase.from('saved_views').insert({
+        id: v.id,
+        owner_id: v.ownerId,
+        created_at: v.createdAt,
+        ...savedViewToDB(v)
+      });
+      check(error, 'Create saved view failed');
+    },
+    update: async (v) => {
+      const { error } = await supabase.from('saved_views').update(savedViewToDB(v)).eq('id', v.id);
+      check(error, 'Update saved view failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('saved_views').delete().eq('id', id);
+      check(error, 'Delete saved view failed');
+    },
+    removeByProject: async (projectId) => {
+      const { error } = await supabase.from('saved_views').delete().eq('project_id', projectId);
+      check(error, 'Delete project saved views failed');
+    }
+  },
+
+  messages: {
+    list: async (opts) => {
+      const { chatId, threadId, userId = '', before, search, unreadOnly, limit, order } = opts || {};
+      if (unreadOnly || search) {
+        // Compared against the caller's read receipts, or matched over the whole stored history, server-side
+        // (see 20261019150000_read_receipts.sql and 20261019160000_message_search.sql)
+        const { data, error } = unreadOnly
+          ? await supabase.rpc('unread_messages', { p_limit: limit || null })
+          : await supabase.rpc('search_messages', { p_terms: search!.toLowerCase().split(/\s+/).filter(Boolean), p_limit: limit || null });
+        check(error, unreadOnly ? 'List unread messages failed' : 'Search messages failed');
+        const newest = (data || []).map(mapMessageFromDB);
+        return order === 'asc' ? newest.reverse() : newest;
+      }
+      const or = threadId ? `id.eq.${threadId},parent_id.eq.${threadId}`
+        : chatId ? chatFilter(chatId, userId) : undefined;
+      // Fetch messages from public.messages via helper that normalizes rows
+      try {
+        return await fetchMessages({ limit: limit ?? 0, or, before, order });
+      } catch (e) {
+        // Fallback: try decrypted_messages if public.messages is unavailable
+        const { data } = await supabase.from('decrypted_messages').select('*').order('timestamp', { ascending: opts?.order === 'asc' });
+        return (data || []).map(mapMessageFromDB);
+      }
+    },
+    send: async (m) => {
+      // 1. Persist to DB (Encrypted) via RPC
+      const { error } = await supabase.rpc('send_encrypted_message', {
+        p_id: m.id,
+        p_sender_id: m.senderId,
+        p_recipient_id: m.recipientId,
+        p_text: m.text,
+        p_type: m.type,
+        p_attachments: m.attachments,
+        p_timestamp: m.timestamp
+      });
+      if (error) console.error("Error sending encrypted message (RPC):", error);
+
+      // 2. Also write to public.messages so the UI (which reads public.messages) is populated.
+      const { error: insertErr } = await supabase.from('messages').insert(messageToDB(m));
+      if (insertErr) {
+        // Only fatal if the RPC failed too; otherwise the encrypted copy exists
+        if (error) check(insertErr, 'Fallback insert to public.messages failed');
+        console.warn('Insert to public.messages returned error (non-fatal):', insertErr);
+      }
+    },
+    create: async (m) => {
+      const { error } = await supabase.from('messages').insert(messageToDB(m));
+      check(error, 'Create message failed');
+    },
+    update: async (m) => {
+      const { error } = await supabase.from('messages').update(messageChangesToDB(m)).eq('id', m.id);
+      check(error, 'Update message failed');
+    },
+    markChatRead: async (chatId, userId, timestamp) => {
+      // One row per reader and chat (see 20261019150000_read_receipts.sql); the trigger there keeps it from moving back
+      const { error } = await supabase.from('read_receipts').upsert({
+        user_id: userId,
+        chat_id: chatId,
+        last_read_timestamp: timestamp
+      }, { onConflict: 'user_id,chat_id' });
+      check(error, 'Mark messages read failed');
+    },
+    listDeletedIds: async (userId) => {
+      const { data, error } = await supabase.from('deleted_messages').select('message_id').eq('user_id', userId);
+      check(error, 'List deleted messages failed');
+      return (data || []).map(d => d.message_id);
+    },
+    hideForUser: async (userId, messageIds) => {
+      const { error } = await supabase.from('deleted_messages').insert(messageIds.map(messageId => ({
+        id: 'dm-' + Date.now() + Math.random().toString(36).substr(2, 9),
+        user_id: userId,
+        message_id: messageId,
+        timestamp: Date.now()
+      })));
+      check(error, 'Failed to delete chat history');
+    },
+    listReadReceipts: async () => {
+      const { data, error } = await supabase.from('read_receipts').select('*');
+      check(error, 'List read receipts failed');
+      return (data || []).map(mapReadReceiptFromDB);
+    }
+  },
+
+  reactions: {
+    list: async (targetType, targetIds) => {
+      // Batched so long id lists stay within the request URL limit
+      const result: Reaction[] = [];
+      for (let i = 0; i < targetIds.length; i += REACTION_ID_BATCH) {
+        const { data, error } = await supabase.from('reactions').select('*')
+          .eq('target_type', targetType)
+          .in('target_id', targetIds.slice(i, i + REACTION_ID_BATCH));
+        check(error, 'List reactions failed');
+        result.push(...(data || []).map(mapReactionFromDB));
+      }
+      return result;
+    },
+    add: async (r) => {
+      // One row per user, target and emoji; a duplicate click is not an error
+      const { error } = await supabase.from('reactions').upsert({
+        id: r.id,
+        target_type: r.targetType,
+        target_id: r.targetId,
+        user_id: r.userId,
+        emoji: r.emoji,
+        created_at: r.createdAt
+      }, { onConflict: 'target_type,target_id,user_id,emoji', ignoreDuplicates: true });
+      check(error, 'Add reaction failed');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('reactions').delete().eq('id', id);
+      check(error, 'Remove reaction failed');
+    }
+  },
+
+  groups: {
+    list: async () => {
+      const { data, error } = await supabase.from('groups').select('*');
+      check(error, 'List groups failed');
+      return (data || []).map(mapGroupFromDB);
+    },
+    create: async (g) => {
+      const { error } = await supabase.from('groups').insert({
+        id: g.id,
+        name: g.name,
+        member_ids: g.memberIds,
+        created_by: g.createdBy,
+        created_at: g.createdAt
+      });
+      check(error, 'Error creating group');
+    },
+    update: async (g) => {
+      const { error } = await supabase.from('groups').update({
+        name: g.name,
+        member_ids: g.memberIds
+      }).eq('id', g.id);
+      check(error, 'Error updating group');
+    },
+    remove: async (id) => {
+      const { error } = await supabase.from('groups').delete().eq('id', id);
+      check(error, 'Error deleting group');
+    }
+  },
+
+  notifications: {
+    list: async () => {
+      const { data, error } = await supabase.from('notifications').select('*').order('timestamp', { ascending: false });
+      check(error, 'List notifications failed');
+      return (data || []).map(mapNotificationFromDB);
+    },
+    create: async (n) => {
+      const { error } = await supabase.from('notifications').insert({
+        id: n.id,
+        recipient_id: n.recipientId,
+        sender_id: n.senderId,
+        type: n.type,
+        title: n.title,
+        message: n.message,
+        timestamp: n.timestamp,
+        read: n.read,
+        link_to: n.linkTo
+      });
+      check(error, 'Create notification failed');
+    },
+    markRead: async (id) => {
+      const { error } = await supabase.from('notifications').update({ read: true }).eq('id', id);
+      check(error, 'Mark notification read failed');
+    },
+    markAllRead: async (recipientId) => {
+      const { error } = await supabase.from('notifications').update({ read: true }).eq('recipient_id', recipientId);
+      check(error, 'Clear notifications failed');
+    }
+  },
+
+  attachments: {
+    upload: async (file, prefix) => {
+      const fileName = buildAttachmentFileName(file, prefix);
+      const { error } = await supabase.storage.from('attachments').upload(fileName, file);
+      check(error, 'File upload error');
+      const { data } = supabase.storage.from('attachments').getPublicUrl(fileName);
+      return data.publicUrl;
+    }
+  },
+
+  subscribe: (listener: RepositoryListener) => {
+    const channel = supabase.channel('db-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'tasks', eventType: 'DELETE', id: (payload.old as any).id });
+        else listener({ table: 'tasks', eventType: payload.eventType, record: mapTaskFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'sprints' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'sprints', eventType: 'DELETE', id: (payload.old as any).id });
+        else listener({ table: 'sprints', eventType: payload.eventType, record: mapSprintFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'saved_views' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'saved_views', eventType: 'DELETE', id: (payload.old as any).id });
+        else listener({ table: 'saved_views', eventType: payload.eventType, record: mapSavedViewFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, async payload => {
+        try {
+          if (payload.eventType === 'INSERT') {
+            // Try to fetch a decrypted view, but fall back to payload.new if unavailable
+            try {
+              const { data } = await supabase.from('decrypted_messages').select('*').eq('id', payload.new.id).single();
+              if (data) {
+                listener({ table: 'messages', eventType: 'INSERT', record: mapMessageFromDB(data) });
+                return;
+              }
+            } catch (e) {
+              // ignore and fallback to payload.new below
+            }
+            listener({ table: 'messages', eventType: 'INSERT', record: mapMessageFromDB(payload.new) });
+          }
+
+          // Handle UPDATE (reads, edits and deletes for everyone)
+          if (payload.eventType === 'UPDATE') {
+            listener({ table: 'messages', eventType: 'UPDATE', record: mapMessageFromDB(payload.new) });
+          }
+        } catch (e) {
+          console.error('Realtime messages handler error:', e);
+        }
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'read_receipts' }, payload => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          listener({ table: 'read_receipts', eventType: payload.eventType, record: mapReadReceiptFromDB(payload.new) });
+        }
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reactions' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'reactions', eventType: 'DELETE', id: (payload.old as any).id });
+        else if (payload.eventType === 'INSERT') listener({ table: 'reactions', eventType: 'INSERT', record: mapReactionFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'users' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'users', eventType: 'DELETE', id: (payload.old as any).id });
+        else listener({ table: 'users', eventType: payload.eventType, record: mapUserFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications' }, payload => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          listener({ table: 'notifications', eventType: payload.eventType, record: mapNotificationFromDB(payload.new) });
+        }
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, payload => {
+        if (payload.eventType === 'DELETE') listener({ table: 'projects', eventType: 'DELETE', id: (payload.old as any).id });
+        else listener({ table: 'projects', eventType: payload.eventType, record: mapProjectFromDB(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'groups' }, payload => {
+        if (payload.eventType === 'INSERT') listener({ table: 'groups', eventType: 'INSERT', record: mapGroupFromDB(payload.new) });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+});
@@ -0,0 +1,30 @@
+/**
+ * Helpers for date-only values.
+ * Task dates are stored as 'YYYY-MM-DD' strings (the format of <input type="date">)
+ * and are always interpreted in the browser's local time zone.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseDateOnly = (value: string): Date => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+export const toDateOnly = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Whole calendar days from `a` to `b` (DST-safe). */
+export const diffInDays = (a: Date, b: Date) =>
+  Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+export const addDaysToDateOnly = (value: string, days: number) => toDateOnly(addDays(parseDateOnly(value), days));
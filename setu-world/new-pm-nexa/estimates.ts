@@ -0,0 +1,87 @@
+import { Project, Task, WorkflowStatus } from './types';
+import { getProjectWorkflow, isDoneStatus } from './workflow';
+import { DAY_MS, addDays, diffInDays, parseDateOnly, startOfDay } from './dateUtils';
+
+/**
+ * Story point helpers for the burndown and velocity widgets.
+ * A task's size is its own storyPoints, or the sum of its subtasks' points when it has none.
+ * Completion times come from Task.completedAt, which the store keeps in sync with status changes.
+ */
+
+// Fibonacci-style scale offered by the editors
+export const STORY_POINT_SCALE = [1, 2, 3, 5, 8, 13, 21];
+
+export const VELOCITY_WEEKS = 8;
+export const PROJECT_BURNDOWN_DAYS = 28;
+
+export const getTaskPoints = (task: Task) =>
+  task.storyPoints ?? task.subtasks.reduce((sum, s) => sum + (s.storyPoints || 0), 0);
+
+/** Stamps or clears completedAt after `task.status` changed from `previousStatus`. */
+export const withCompletion = (task: Task, workflow: WorkflowStatus[], previousStatus: string): Task => {
+  const isDone = isDoneStatus(workflow, task.status);
+  if (isDone && !isDoneStatus(workflow, previousStatus)) return { ...task, completedAt: Date.now() };
+  if (!isDone && task.completedAt) return { ...task, completedAt: undefined };
+  return task;
+};
+
+// Tasks finished before completedAt existed count as done since the beginning
+const getCompletedTime = (task: Task, projects: Project[]) => {
+  if (!isDoneStatus(getProjectWorkflow(projects, task.projectId), task.status)) return undefined;
+  return task.completedAt ?? 0;
+};
+
+export interface BurndownPoint {
+  label: string;
+  remaining: number | null; // null for days that have not happened yet
+  ideal?: number;
+}
+
+/**
+ * Remaining points at the end of each day from `start` to `end` ('YYYY-MM-DD', inclusive).
+ * Sprint burndowns count their whole scope from day one and draw an ideal line;
+ * project burndowns only count tasks once they were created.
+ */
+export const buildBurndown = (tasks: Task[], projects: Project[], start: string, end: string, isSprint: boolean): BurndownPoint[] => {
+  const first = parseDateOnly(start);
+  const days = Math.max(diffInDays(first, parseDateOnly(end)), 0) + 1;
+  const today = startOfDay(new Date());
+  const total = tasks.reduce((sum, t) => sum + getTaskPoints(t), 0);
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = addDays(first, i);
+    const dayEnd = day.getTime() + DAY_MS;
+    const remaining = tasks
+      .filter(t => isSprint || t.createdAt < dayEnd)
+      .filter(t => {
+        const completed = getCompletedTime(t, projects);
+        return completed === undefined || completed >= dayEnd;
+      })
+      .reduce((sum, t) => sum + getTaskPoints(t), 0);
+
+    return {
+      label: day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      remaining: day > today ? null : remaining,
+      ideal: isSprint ? Math.round((total - (total * i) / Math.max(days - 1, 1)) * 10) / 10 : undefined
+    };
+  });
+};
+
+/** Points completed per week (weeks start on Sunday, like the calendar), oldest first. */
+export const buildVelocity = (tasks: Task[], projects: Project[], weeks = VELOCITY_WEEKS) => {
+  const today = startOfDay(new Date());
+  const thisWeek = addDays(today, -today.getDay());
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = addDays(thisWeek, (i - weeks + 1) * 7);
+    const weekEnd = addDays(weekStart, 7).getTime();
+    const points = tasks
+      .filter(t => {
+        const completed = getCompletedTime(t, projects);
+        return !!completed && completed >= weekStart.getTime() && completed < weekEnd;
+      })
+      .reduce((sum, t) => sum + getTaskPoints(t), 0);
+
+    return { name: weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), value: points };
+  });
+};
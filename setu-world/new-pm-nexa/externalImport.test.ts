@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { Project, TaskCategory, TaskStatus, User, UserRole } from './types';
+import { toCsv } from './csv';
+import { parseJiraCsv, parseTrelloBoard, planExternalImport, reconcile } from './externalImport';
+
+const project: Project = { id: 'p1', name: 'Web App', description: '', memberIds: [], attachments: [], comments: [] };
+
+const users: User[] = [
+  { id: 'u1', name: 'Ann Lee', username: 'ann', role: UserRole.MEMBER, avatar: '', projectAccess: {} },
+  { id: 'u2', name: 'Bob Stone', username: 'Bob', role: UserRole.MEMBER, avatar: '', projectAccess: {} }
+];
+
+const trelloBoard = {
+  lists: [
+    { id: 'l1', name: 'To Do' },
+    { id: 'l2', name: 'Done' },
+    { id: 'l3', name: 'Old', closed: true }
+  ],
+  members: [{ id: 'm1', username: 'ann' }],
+  cards: [
+    {
+      id: '5e6a1b2c0000000000000001', name: ' Card one ', desc: 'Details', idList: 'l1',
+      labels: [{ name: '' }, { name: 'Bug' }], idMembers: ['m1'], due: '2024-03-12T12:00:00.000Z'
+    },
+    { id: '5e6a1b2d0000000000000002', name: 'Card two', idList: 'l2', labels: [], idMembers: [] },
+    { id: '5e6a1b2e0000000000000003', name: 'Archived card', idList: 'l1', closed: true },
+    { id: '5e6a1b2f0000000000000004', name: 'On an archived list', idList: 'l3' }
+  ],
+  checklists: [
+    { idCard: '5e6a1b2c0000000000000001', pos: 2, checkItems: [{ name: 'Ship', state: 'incomplete', pos: 1 }] },
+    {
+      idCard: '5e6a1b2c0000000000000001', pos: 1, checkItems: [
+        { name: 'Review', state: 'incomplete', pos: 2 },
+        { name: 'Write', state: 'complete', pos: 1 }
+      ]
+    }
+  ]
+};
+
+const JIRA_HEADER = ['Summary', 'Issue key', 'Issue id', 'Issue Type', 'Status', 'Priority', 'Assignee', 'Due Date', 'Created', 'Parent id', 'Custom field (Story Points)', 'Description'];
+
+const jiraCsv = toCsv([
+  JIRA_HEADER,
+  ['Login bug', 'WEB-1', '101', 'Bug', 'In Progress', 'Highest', 'ann', '12/Mar/24 10:15 AM', '01/Feb/2024', '', '3', 'Fails on Safari'],
+  ['Signup form', 'WEB-2', '102', 'Story', 'Done', 'Minor', 'bob', '2024-04-05T12:00:00', '05/Jan/24 12:05 AM', '', '', ''],
+  ['Write test', 'WEB-3', '103', 'Sub-task', 'To Do', 'Medium', 'ann', '', '10/Mar/24 14:30', '101', '', ''],
+  ['Edge case', 'WEB-4', '104', 'Sub-task', 'To Do', '', '', '', '', 'WEB-3', '', ''],
+  ['Orphan', 'WEB-5', '105', 'Sub-task', 'Backlog', 'Unknown', 'carol', '31/Xyz/24', '', '999', 'many', ''],
+  ['', '', '', '', '', '', '', '', '', '', '', '']
+]);
+
+describe('parseTrelloBoard', () => {
+  const board = parseTrelloBoard(JSON.stringify(trelloBoard));
+
+  it('reads open cards with their list, first named label, first member and due date', () => {
+    expect(board.items.map(i => i.title)).toEqual(['Card one', 'Card two']);
+    expect(board.items[0]).toMatchObject({
+      row: 1, sourceId: '5e6a1b2c0000000000000001', description: 'Details', status: 'To Do', type: 'Bug',
+      assignee: 'ann', dueDate: '2024-03-12', createdAt: parseInt('5e6a1b2c', 16) * 1000
+    });
+    expect(board.items[1]).toMatchObject({ status: 'Done', type: undefined, assignee: undefined, dueDate: undefined });
+    expect(board).toMatchObject({ source: 'trello', statuses: ['To Do', 'Done'], types: ['Bug'], members: ['ann'] });
+  });
+
+  it('turns checklists into ordered checklist items', () => {
+    expect(board.items[0].checklist).toEqual([
+      { title: 'Write', done: true },
+      { title: 'Review', done: false },
+      { title: 'Ship', done: false }
+    ]);
+  });
+
+  it('rejects files that are not Trello boards', () => {
+    expect(() => parseTrelloBoard('{')).toThrow('not valid JSON');
+    expect(() => parseTrelloBoard('{"cards": []}')).toThrow('not a Trello board export');
+  });
+});
+
+describe('parseJiraCsv', () => {
+  const board = parseJiraCsv(jiraCsv);
+  const [login, signup, test, edge, orphan] = board.items;
+
+  it('reads issues, skipping blank rows', () => {
+    expect(board.items).toHaveLength(5);
+    expect(login).toMatchObject({
+      row: 2, sourceId: '101', sourceKey: 'WEB-1', title: 'Login bug', description: 'Fails on Safari',
+      status: 'In Progress', type: 'Bug', priority: 'high', assignee: 'ann', storyPoints: 3
+    });
+    expect(board).toMatchObject({ source: 'jira', types: ['Bug', 'Story', 'Sub-task'], members: ['ann', 'bob', 'carol'] });
+  });
+
+  it('maps Jira priorities and ignores unknown ones and bad numbers', () => {
+    expect([login, signup, test, edge, orphan].map(i => i.priority)).toEqual(['high', 'low', 'medium', 'medium', 'medium']);
+    expect(orphan.storyPoints).toBeUndefined();
+  });
+
+  it('parses every Jira date format', () => {
+    expect(login.dueDate).toBe('2024-03-12');
+    expect(login.createdAt).toBe(new Date(2024, 1, 1).getTime()); // 4-digit year, no time
+    expect(signup.createdAt).toBe(new Date(2024, 0, 5, 0, 5).getTime()); // 12 AM is midnight
+    expect(test.createdAt).toBe(new Date(2024, 2, 10, 14, 30).getTime()); // 24-hour time
+    expect(signup.dueDate).toBe('2024-04-05'); // Anything else goes through Date.parse
+    expect(orphan.dueDate).toBeUndefined(); // Unknown month
+    expect(edge.createdAt).toBeUndefined();
+  });
+
+  it('keeps parent ids and keys for sub-tasks', () => {
+    expect([test.parentId, edge.parentId, orphan.parentId]).toEqual(['101', 'WEB-3', '999']);
+  });
+
+  it('rejects files without Summary and Status columns', () => {
+    expect(() => parseJiraCsv('Key,Title\r\nA,B\r\n')).toThrow('not a Jira export');
+  });
+});
+
+describe('reconcile and planExternalImport', () => {
+  const board = parseJiraCsv(jiraCsv);
+  const guess = reconcile(board, project, users);
+
+  it('guesses columns, categories and users', () => {
+    expect(guess).toEqual({
+      statuses: { 'In Progress': TaskStatus.IN_PROGRESS, Done: TaskStatus.DONE, 'To Do': TaskStatus.TODO, Backlog: '' },
+      types: { Bug: TaskCategory.BUG, Story: TaskCategory.STORY, 'Sub-task': TaskCategory.TASK },
+      members: { ann: 'u1', bob: 'u2', carol: '' }
+    });
+  });
+
+  it('blocks the import while a status has no column', () => {
+    const plan = planExternalImport(board, project, guess);
+    expect(plan.issues.filter(i => i.severity === 'error').map(i => i.message)).toEqual(['Choose a column for status "Backlog".']);
+  });
+
+  it('builds tasks with subtasks and reports what it changed', () => {
+    const plan = planExternalImport(board, project, { ...guess, statuses: { ...guess.statuses, Backlog: TaskStatus.TODO } });
+    expect(plan.issues.every(i => i.severity === 'warning')).toBe(true);
+    expect(plan.issues.map(i => i.message)).toEqual([
+      'No user for "carol"; their items will be unassigned.',
+      '"Edge case" is a sub-task of the sub-task "Write test"; it becomes a subtask of "Login bug".',
+      'Parent "999" is not in the file; "Orphan" becomes a task.'
+    ]);
+
+    expect(plan.tasks.map(t => t.title)).toEqual(['Login bug', 'Signup form', 'Orphan']);
+    const [login, signup, orphan] = plan.tasks;
+    expect(login).toMatchObject({ projectId: 'p1', status: TaskStatus.IN_PROGRESS, category: TaskCategory.BUG, assigneeId: 'u1', completedAt: undefined });
+    expect(login.subtasks.map(s => [s.title, s.completed])).toEqual([['Write test', false], ['Edge case', false]]);
+    expect(signup).toMatchObject({ status: TaskStatus.DONE, assigneeId: 'u2' });
+    expect(signup.completedAt).toBeDefined();
+    expect(orphan).toMatchObject({ status: TaskStatus.TODO, assigneeId: undefined });
+    expect(plan.subtaskCount).toBe(2);
+  });
+
+  it('reports sub-tasks whose parents form a loop and imports them as tasks', () => {
+    const looped = parseJiraCsv(toCsv([
+      ['Summary', 'Issue id', 'Status', 'Parent id'],
+      ['A', '1', 'To Do', '2'],
+      ['B', '2', 'To Do', '1']
+    ]));
+    const plan = planExternalImport(looped, project, reconcile(looped, project, users));
+    expect(plan.tasks.map(t => t.title)).toEqual(['A', 'B']);
+    expect(plan.issues.map(i => i.message)).toEqual([
+      'The parents of "A" form a loop; it becomes a task.',
+      'The parents of "B" form a loop; it becomes a task.'
+    ]);
+  });
+
+  it('turns Trello checklist items into subtasks in done or open columns', () => {
+    const trello = parseTrelloBoard(JSON.stringify(trelloBoard));
+    const plan = planExternalImport(trello, project, reconcile(trello, project, users));
+    expect(plan.issues).toEqual([]);
+    const [first, second] = plan.tasks;
+    expect(first).toMatchObject({ status: TaskStatus.TODO, category: TaskCategory.BUG, assigneeId: 'u1', dueDate: '2024-03-12' });
+    expect(first.subtasks.map(s => [s.title, s.completed, s.status])).toEqual([
+      ['Write', true, TaskStatus.DONE],
+      ['Review', false, TaskStatus.TODO],
+      ['Ship', false, TaskStatus.TODO]
+    ]);
+    expect(second).toMatchObject({ status: TaskStatus.DONE, category: TaskCategory.TASK });
+    expect(plan.subtaskCount).toBe(3);
+  });
+});
@@ -0,0 +1,329 @@
+import { Project, SubTask, Task, TaskCategory, User } from './types';
+import { firstStatusOf, getWorkflow } from './workflow';
+import { parseCsv } from './csv';
+import { toDateOnly } from './dateUtils';
+import { ImportIssue, ImportPlan, resolveStatus } from './projectTransfer';
+
+/**
+ * Importers for Trello board exports (JSON) and Jira issue exports (CSV).
+ * Both are first read into an ExternalBoard; the source's lists or statuses, issue types
+ * and members are then reconciled with the target project's columns, TaskCategory and
+ * existing users before any task is built. Trello checklist items and Jira sub-tasks
+ * become subtasks; Trello cards use their first label as the issue type.
+ */
+
+export type ExternalSource = 'trello' | 'jira';
+
+export const EXTERNAL_SOURCES: Record<ExternalSource, { label: string; statusName: string; typeName: string; accept: string }> = {
+  trello: { label: 'Trello', statusName: 'list', typeName: 'label', accept: '.json,application/json' },
+  jira: { label: 'Jira', statusName: 'status', typeName: 'issue type', accept: '.csv,text/csv' }
+};
+
+interface ExternalItem {
+  row: number; // Card position (Trello) or spreadsheet row (Jira)
+  sourceId: string;
+  sourceKey?: string; // Jira issue key, which newer exports use for parents
+  title: string;
+  description: string;
+  status: string;
+  type?: string;
+  priority: Task['priority'];
+  assignee?: string; // Username in the source system
+  dueDate?: string;
+  storyPoints?: number;
+  createdAt?: number;
+  parentId?: string;
+  checklist: { title: string; done: boolean }[];
+}
+
+export interface ExternalBoard {
+  source: ExternalSource;
+  items: ExternalItem[];
+  statuses: string[];
+  types: string[];
+  members: string[];
+}
+
+/** Source value → target; '' marks a status or type that still needs a choice, or a member left unassigned. */
+export interface Reconciliation {
+  statuses: Record<string, string>;
+  types: Record<string, TaskCategory | ''>;
+  members: Record<string, string>;
+}
+
+const unique = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter((v): v is string => !!v)));
+
+const toBoard = (source: ExternalSource, items: ExternalItem[]): ExternalBoard => ({
+  source,
+  items,
+  statuses: unique(items.map(i => i.status)),
+  types: unique(items.map(i => i.type)),
+  members: unique(items.map(i => i.assignee))
+});
+
+// --- Trello ---
+
+// Trello ids start with the creation time in seconds, as 8 hex digits
+const trelloCreatedAt = (id: string) => {
+  const seconds = parseInt(id.slice(0, 8), 16);
+  return isNaN(seconds) ? undefined : seconds * 1000;
+};
+
+export const parseTrelloBoard = (text: string): ExternalBoard => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(data?.cards) || !Array.isArray(data?.lists)) throw new Error('The file is not a Trello board export.');
+
+  const lists = new Map<string, any>(data.lists.map((l: any) => [l.id, l]));
+  const members = new Map<string, string>((data.members || []).map((m: any) => [m.id, m.username]));
+  const checklists: any[] = data.checklists || [];
+
+  // Archived cards and cards on archived lists are left behind
+  const items = data.cards
+    .filter((card: any) => !card.closed && !lists.get(card.idList)?.closed)
+    .map((card: any, index: number): ExternalItem => ({
+      row: index + 1,
+      sourceId: card.id,
+      title: String(card.name || '').trim(),
+      description: card.desc || '',
+      status: lists.get(card.idList)?.name || 'Unknown list',
+      type: card.labels?.find((l: any) => l.name)?.name,
+      priority: 'medium',
+      assignee: members.get(card.idMembers?.[0]),
+      dueDate: card.due ? toDateOnly(new Date(card.due)) : undefined,
+      createdAt: trelloCreatedAt(card.id),
+      checklist: checklists
+        .filter(cl => cl.idCard === card.id)
+        .sort((a, b) => a.pos - b.pos)
+        .flatMap(cl => [...(cl.checkItems || [])]
+          .sort((a: any, b: any) => a.pos - b.pos)
+          .map((item: any) => ({ title: String(item.name || '').trim(), done: item.state === 'complete' })))
+    }));
+
+  return toBoard('trello', items);
+};
+
+// --- Jira ---
+
+const JIRA_PRIORITIES: Record<string, Task['priority']> = {
+  highest: 'high', high: 'high', critical: 'high', blocker: 'high',
+  medium: 'medium', major: 'medium',
+  low: 'low', lowest: 'low', minor: 'low', trivial: 'low'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Jira exports dates like "12/Mar/24 10:15 AM"; anything else goes through Date.parse. */
+const parseJiraDate = (value: string): Date | undefined => {
+  const match = value.trim().match(/^(\d{1,2})\/([a-z]{3})\/(\d{2}|\d{4})(?:\s+(\d{1,2}):(\d{2})\s*(am|pm)?)?$/i);
+  if (match) {
+    const [, day, month, year, hour = '0', minute = '0', meridiem] = match;
+    const monthIndex = MONTHS.indexOf(month.toLowerCase());
+    if (monthIndex === -1) return undefined;
+    let hours = Number(hour) % 12;
+    if (!meridiem) hours = Number(hour);
+    else if (meridiem.toLowerCase() === 'pm') hours += 12;
+    return new Date(Number(year.length === 2 ? `20${year}` : year), monthIndex, Number(day), hours, Number(minute));
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time);
+};
+
+export const parseJiraCsv = (text: string): ExternalBoard => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(h => h.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const summary = column('summary');
+  const status = column('status');
+  if (summary === -1 || status === -1) throw new Error('The file is not a Jira export (it needs Summary and Status columns).');
+
+  const at = (cells: string[], index: number) => (index === -1 ? '' : (cells[index] || '').trim());
+  const index = {
+    id: column('issue id'),
+    key: column('issue key'),
+    type: column('issue type'),
+    priority: column('priority'),
+    assignee: column('assignee'),
+    description: column('description'),
+    due: column('due date', 'due'),
+    created: column('created'),
+    parent: column('parent id', 'parent'),
+    points: column('custom field (story points)', 'custom field (story point estimate)', 'story points')
+  };
+
+  const items = rows
+    .map((cells, i) => ({ cells, row: i + 2 }))
+    .filter(({ cells }) => cells.some(c => c.trim()))
+    .map(({ cells, row }): ExternalItem => {
+      const due = parseJiraDate(at(cells, index.due));
+      const points = Number(at(cells, index.points));
+      return {
+        row,
+        sourceId: at(cells, index.id) || at(cells, index.key) || `row-${row}`,
+        sourceKey: at(cells, index.key) || undefined,
+        title: at(cells, summary),
+        description: at(cells, index.description),
+        status: at(cells, status) || 'Unknown status',
+        type: at(cells, index.type) || undefined,
+        priority: JIRA_PRIORITIES[at(cells, index.priority).toLowerCase()] || 'medium',
+        assignee: at(cells, index.assignee) || undefined,
+        dueDate: at(cells, index.due) && due ? toDateOnly(due) : undefined,
+        storyPoints: at(cells, index.points) && !isNaN(points) ? points : undefined,
+        createdAt: parseJiraDate(at(cells, index.created))?.getTime(),
+        parentId: at(cells, index.parent) || undefined,
+        checklist: []
+      };
+    });
+
+  return toBoard('jira', items);
+};
+
+// --- Reconciliation ---
+
+const TYPE_HINTS: [RegExp, TaskCategory][] = [
+  [/bug|defect/i, TaskCategory.BUG],
+  [/story|feature/i, TaskCategory.STORY],
+  [/issue|incident|problem/i, TaskCategory.ISSUE],
+  [/task|chore|sub-?task/i, TaskCategory.TASK]
+];
+
+const DONE_HINT = /done|closed|resolved|complete/i;
+
+/** First guess: columns by name, done-like statuses to the first done column, types by keyword, members by username. */
+export const reconcile = (board: ExternalBoard, project: Project, users: User[]): Reconciliation => {
+  const workflow = getWorkflow(project);
+  return {
+    statuses: Object.fromEntries(board.statuses.map(s => [
+      s,
+      resolveStatus(project, s)?.id || (DONE_HINT.test(s) && workflow.some(c => c.category === 'done') ? firstStatusOf(workflow, 'done') : '')
+    ])),
+    types: Object.fromEntries(board.types.map(t => [t, TYPE_HINTS.find(([hint]) => hint.test(t))?.[1] || ''])),
+    members: Object.fromEntries(board.members.map(m => [m, users.find(u => u.username.toLowerCase() === m.toLowerCase())?.id || '']))
+  };
+};
+
+/** How many source items use each status, type or member, for the reconciliation step. */
+export const countBy = (board: ExternalBoard, key: 'status' | 'type' | 'assignee') =>
+  board.items.reduce((acc, item) => {
+    const value = item[key];
+    if (value) acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+// --- Plan ---
+
+/** Dry run of an external board into `project`; blocked while a status or type has no target. */
+export const planExternalImport = (board: ExternalBoard, project: Project, reconciliation: Reconciliation): ImportPlan => {
+  const { statusName, typeName } = EXTERNAL_SOURCES[board.source];
+  const workflow = getWorkflow(project);
+  const issues: ImportIssue[] = [
+    ...board.statuses.filter(s => !reconciliation.statuses[s]).map(s => ({
+      row: 0, severity: 'error' as const, message: `Choose a column for ${statusName} "${s}".`
+    })),
+    ...board.types.filter(t => !reconciliation.types[t]).map(t => ({
+      row: 0, severity: 'error' as const, message: `Choose a category for ${typeName} "${t}".`
+    })),
+    ...board.members.filter(m => !reconciliation.members[m]).map(m => ({
+      row: 0, severity: 'warning' as const, message: `No user for "${m}"; their items will be unassigned.`
+    }))
+  ];
+
+  const byId = new Map<string, ExternalItem>();
+  board.items.forEach(item => {
+    byId.set(item.sourceId, item);
+    if (item.sourceKey) byId.set(item.sourceKey, item);
+  });
+
+  const common = (item: ExternalItem) => ({
+    title: item.title,
+    description: item.description,
+    status: reconciliation.statuses[item.status],
+    category: (item.type && reconciliation.types[item.type]) || TaskCategory.TASK,
+    priority: item.priority,
+    assigneeId: (item.assignee && reconciliation.members[item.assignee]) || undefined,
+    dueDate: item.dueDate,
+    storyPoints: item.storyPoints,
+    attachments: [],
+    comments: [],
+    createdAt: item.createdAt ?? Date.now()
+  });
+
+  const checklistSubtasks = (item: ExternalItem, taskIndex: number): SubTask[] =>
+    item.checklist.map((entry, i) => ({
+      id: `st-${Date.now()}-${taskIndex}-${i}`,
+      title: entry.title,
+      description: '',
+      completed: entry.done,
+      status: firstStatusOf(workflow, entry.done ? 'done' : 'open'),
+      category: TaskCategory.TASK,
+      priority: 'medium',
+      attachments: [],
+      comments: [],
+      createdAt: item.createdAt ?? Date.now()
+    }));
+
+  const isValid = (item: ExternalItem) => {
+    if (!item.title) {
+      issues.push({ row: item.row, severity: 'error', message: 'Title is empty.' });
+      return false;
+    }
+    return !!reconciliation.statuses[item.status];
+  };
+
+  // Sub-tasks whose parent is missing from the file are imported as tasks of their own
+  const parentOf = (item: ExternalItem) => (item.parentId ? byId.get(item.parentId) : undefined);
+  board.items
+    .filter(item => item.parentId && !parentOf(item))
+    .forEach(item => issues.push({ row: item.row, severity: 'warning', message: `Parent "${item.parentId}" is not in the file; "${item.title}" becomes a task.` }));
+
+  // Subtasks do not nest, so a sub-task of a sub-task goes under the top-level item above it.
+  // undefined for top-level items and for parents that loop back, which become tasks
+  const rootOf = (item: ExternalItem) => {
+    const seen = new Set([item]);
+    let current = item;
+    for (let parent = parentOf(current); parent; parent = parentOf(current)) {
+      if (seen.has(parent)) return undefined;
+      seen.add(parent);
+      current = parent;
+    }
+    return current === item ? undefined : current;
+  };
+  board.items.forEach(item => {
+    const parent = parentOf(item);
+    if (!parent) return;
+    const root = rootOf(item);
+    if (!root) issues.push({ row: item.row, severity: 'warning', message: `The parents of "${item.title}" form a loop; it becomes a task.` });
+    else if (root !== parent) issues.push({ row: item.row, severity: 'warning', message: `"${item.title}" is a sub-task of the sub-task "${parent.title}"; it becomes a subtask of "${root.title}".` });
+  });
+
+  const tasks: Task[] = [];
+  let subtaskCount = 0;
+  board.items.filter(item => !rootOf(item)).forEach((item, index) => {
+    if (!isValid(item)) return;
+    const status = workflow.find(s => s.id === reconciliation.statuses[item.status]);
+    const children = board.items
+      .filter(child => rootOf(child) === item && isValid(child))
+      .map((child, i): SubTask => ({
+        ...common(child),
+        id: `st-${Date.now()}-${index}-sub-${i}`,
+        completed: workflow.find(s => s.id === reconciliation.statuses[child.status])?.category === 'done'
+      }));
+    const subtasks = [...checklistSubtasks(item, index), ...children];
+    subtaskCount += subtasks.length;
+
+    tasks.push({
+      ...common(item),
+      id: `t-${Date.now()}-${index}`,
+      projectId: project.id,
+      subtasks,
+      completedAt: status?.category === 'done' ? Date.now() : undefined
+    });
+  });
+
+  return { tasks, subtaskCount, issues: issues.sort((a, b) => a.row - b.row) };
+};
@@ -0,0 +1,160 @@
+import { Project, Task, SubTask, User } from './types';
+import { canReadProject } from './policy';
+import { getProjectWorkflow, isDoneStatus } from './workflow';
+import { addDaysToDateOnly } from './dateUtils';
+import { buildPath } from './routes';
+
+/**
+ * RFC 5545 (iCalendar) export of a user's assigned due dates.
+ * Every task and subtask becomes one all-day VEVENT or VTODO whose UID is derived
+ * from its id, so re-importing the file updates entries instead of duplicating them.
+ */
+
+export type ICalEntryType = 'event' | 'todo';
+
+export interface ICalExportOptions {
+  user: User;
+  tasks: Task[];
+  projects: Project[];
+  projectId: string | 'all';
+  entryType: ICalEntryType;
+  baseUrl: string; // Origin the task links point back to
+}
+
+const UID_DOMAIN = 'setu.app';
+const CRLF = '\r\n';
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 octets are folded with CRLF + space (RFC 5545 §3.1)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join(CRLF + ' ');
+};
+
+const formatDate = (dateOnly: string) => dateOnly.replace(/-/g, '');
+
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const getTaskUrl = (baseUrl: string, taskId: string) => `${baseUrl.replace(/\/$/, '')}${buildPath({ name: 'task', taskId })}`;
+
+interface DueItem {
+  uid: string;
+  summary: string;
+  description: string;
+  due: string;
+  url: string;
+  project?: Project;
+  done: boolean;
+  priority: Task['priority'];
+}
+
+// iCalendar PRIORITY: 1 is highest, 9 lowest
+const PRIORITY_VALUES: Record<Task['priority'], number> = { high: 1, medium: 5, low: 9 };
+
+const collectItems = ({ user, tasks, projects, projectId, baseUrl }: ICalExportOptions): DueItem[] =>
+  tasks
+    .filter(t => canReadProject(user, t.projectId) && (projectId === 'all' || t.projectId === projectId))
+    .flatMap(task => {
+      const project = projects.find(p => p.id === task.projectId);
+      const url = getTaskUrl(baseUrl, task.id);
+      const items: DueItem[] = [];
+
+      if (task.dueDate && task.assigneeId === user.id) {
+        items.push({
+          uid: `task-${task.id}@${UID_DOMAIN}`,
+          summary: task.title,
+          description: [task.description, url].filter(Boolean).join('\n\n'),
+          due: task.dueDate,
+          url,
+          project,
+          done: isDoneStatus(getProjectWorkflow(projects, task.projectId), task.status),
+          priority: task.priority
+        });
+      }
+
+      task.subtasks
+        .filter((s: SubTask) => s.dueDate && s.assigneeId === user.id)
+        .forEach(s => {
+          items.push({
+            uid: `subtask-${task.id}-${s.id}@${UID_DOMAIN}`,
+            summary: s.title,
+            description: [`Subtask of "${task.title}"`, s.description, url].filter(Boolean).join('\n\n'),
+            due: s.dueDate!,
+            url,
+            project,
+            done: s.completed,
+            priority: s.priority
+          });
+        });
+
+      return items;
+    });
+
+const buildComponent = (item: DueItem, entryType: ICalEntryType, stamp: string) => {
+  const lines = [
+    entryType === 'event' ? 'BEGIN:VEVENT' : 'BEGIN:VTODO',
+    `UID:${item.uid}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(item.summary)}`,
+    `DESCRIPTION:${escapeText(item.description)}`,
+    `URL:${item.url}`,
+    `PRIORITY:${PRIORITY_VALUES[item.priority] ?? 0}`
+  ];
+  if (item.project) lines.push(`CATEGORIES:${escapeText(item.project.name)}`);
+
+  if (entryType === 'event') {
+    // All-day event: DTEND is exclusive, so it is the day after the due date
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(item.due)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDaysToDateOnly(item.due, 1))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  } else {
+    lines.push(
+      `DUE;VALUE=DATE:${formatDate(item.due)}`,
+      `STATUS:${item.done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      'END:VTODO'
+    );
+  }
+  return lines;
+};
+
+/** Returns the .ics file body and how many entries it contains. */
+export const buildICalendar = (options: ICalExportOptions) => {
+  const items = collectItems(options);
+  const stamp = formatTimestamp(new Date());
+  const project = options.projects.find(p => p.id === options.projectId);
+  const calendarName = project ? `Setu – ${project.name}` : 'Setu – My Tasks';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Setu//Project Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...items.flatMap(item => buildComponent(item, options.entryType, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return { content: lines.map(foldLine).join(CRLF) + CRLF, count: items.length };
+};
@@ -0,0 +1,25 @@
+import { Project, TaskLabel } from './types';
+
+/**
+ * Per-project labels. Tasks and subtasks store label ids; a label removed from its project
+ * simply stops showing, so editing the label list never has to rewrite tasks.
+ */
+
+export const getProjectLabels = (projects: Project[], projectId: string): TaskLabel[] =>
+  projects.find(p => p.id === projectId)?.labels || [];
+
+/** Labels of a task or subtask, in the project's order; unknown ids are skipped. */
+export const resolveLabels = (labels: TaskLabel[], labelIds: string[] | undefined) =>
+  labelIds?.length ? labels.filter(l => labelIds.includes(l.id)) : [];
+
+export const toggleLabelId = (labelIds: string[] | undefined, labelId: string) =>
+  labelIds?.includes(labelId) ? labelIds.filter(id => id !== labelId) : [...(labelIds || []), labelId];
+
+/** Returns an error message, or null when the labels can be saved. */
+export const validateLabels = (labels: TaskLabel[]): string | null => {
+  if (labels.some(l => !l.name.trim())) return 'Every label needs a name.';
+  const names = labels.map(l => l.name.trim().toLowerCase());
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) return `The label "${duplicate}" is defined twice.`;
+  return null;
+};
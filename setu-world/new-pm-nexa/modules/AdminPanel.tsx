@@ -1,18 +1,41 @@
 import React, { useState } from 'react';
 import { useApp } from '../store';
-import { UserRole, User, ProjectAccessLevel, Project } from '../types';
-import { Trash2, UserPlus, Shield, User as UserIcon, Settings, Lock, Search, KeyRound, LayoutGrid, Eye, EyeOff, FolderPlus, Folder, PenLine, Users as UsersIcon, AlertTriangle } from 'lucide-react';
+import { UserRole, User, ProjectAccessLevel, Project, WorkflowStatus, StatusColor, TransitionRule, TransitionEffect, TaskLabel, CustomFieldDefinition, CustomFieldType } from '../types';
+import { Trash2, UserPlus, Shield, User as UserIcon, Settings, Lock, Search, KeyRound, LayoutGrid, Eye, EyeOff, FolderPlus, Folder, PenLine, Users as UsersIcon, AlertTriangle, Plus, ArrowUp, ArrowDown, Download, Upload, FileText, FileJson, AlertCircle } from 'lucide-react';
 import { Modal } from '../components/Modal';
+import { DEFAULT_WORKFLOW, DEFAULT_TRANSITION_RULES, STATUS_COLORS, getWorkflow, getTransitionRules, getStatusLabel, validateWorkflow } from '../workflow';
+import { validateLabels } from '../labels';
+import { CUSTOM_FIELD_TYPES, hasFieldOptions, validateCustomFields } from '../customFields';
+import { ImportField, IMPORT_FIELDS, buildProjectCsv, buildProjectJson, guessColumnMapping, hasImportErrors, planCsvImport, planJsonImport } from '../projectTransfer';
+import { EXTERNAL_SOURCES, ExternalBoard, ExternalSource, Reconciliation, parseJiraCsv, parseTrelloBoard, planExternalImport, reconcile } from '../externalImport';
+import { downloadFile, parseCsv, toFileSlug } from '../csv';
+import { ImportReconciliation } from '../components/ImportReconciliation';
+import { AdminSection } from '../routes';
 
-export const AdminPanel: React.FC = () => {
+type ImportSource = 'setu' | ExternalSource;
+
+// A file picked for import; CSV files are parsed once so the column mapping can change freely.
+// Trello and Jira files are read into a board up front, or keep the reason they could not be read.
+interface ImportFile {
+  name: string;
+  kind: 'csv' | 'json';
+  text: string;
+  rows: string[][];
+  board?: ExternalBoard;
+  error?: string;
+}
+
+// The open section comes from the URL (/admin/users, /admin/projects)
+export const AdminPanel: React.FC<{
+  section: AdminSection;
+  onSectionChange: (section: AdminSection) => void;
+}> = ({ section: activeSection, onSectionChange: setActiveSection }) => {
   const {
-    users, projects, currentUser,
-    addUser, updateUser, deleteUser,
-    addProject, updateProject, deleteProject
+    users, projects, tasks, currentUser,
+    addUser, updateUser, deleteUser, resetUserPassword,
+    addProject, updateProject, deleteProject, importTasks
   } = useApp();
 
-  const [activeSection, setActiveSection] = useState<'users' | 'projects'>('users');
-
   // --- User Management State ---
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -37,9 +60,25 @@ export const AdminPanel: React.FC = () => {
 
   const [projectFormData, setProjectFormData] = useState({
     name: '',
-    description: ''
+    description: '',
+    workflow: DEFAULT_WORKFLOW as WorkflowStatus[],
+    transitionRules: DEFAULT_TRANSITION_RULES as TransitionRule[],
+    labels: [] as TaskLabel[],
+    customFields: [] as CustomFieldDefinition[]
   });
 
+  // --- Import / Export State ---
+  const [projectToExport, setProjectToExport] = useState<Project | null>(null);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [importSource, setImportSource] = useState<ImportSource>('setu');
+  const [importProjectId, setImportProjectId] = useState('');
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [columnMapping, setColumnMapping] = useState<(ImportField | '')[]>([]);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [suggestedReconciliation, setSuggestedReconciliation] = useState<Reconciliation | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
   if (currentUser?.role !== UserRole.ADMIN) {
     return (
       <div className="flex items-center justify-center h-full text-slate-500">
@@ -72,7 +111,7 @@ export const AdminPanel: React.FC = () => {
     setUserFormData({
       name: user.name,
       username: user.username,
-      password: user.password,
+      password: '', // Never known client-side; leave blank to keep the current one
       role: user.role,
       projectAccess: access
     });
@@ -82,28 +121,28 @@ export const AdminPanel: React.FC = () => {
 
   const handleUserSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!userFormData.name || !userFormData.username || !userFormData.password) return;
+    if (!userFormData.name || !userFormData.username) return;
+    if (!editingUser && !userFormData.password) return;
 
     if (editingUser) {
       updateUser({
         ...editingUser,
         name: userFormData.name,
         username: userFormData.username,
-        password: userFormData.password,
         role: userFormData.role,
         projectAccess: userFormData.projectAccess
       });
+      if (userFormData.password) resetUserPassword(editingUser.id, userFormData.password);
     } else {
       addUser({
         id: crypto.randomUUID(),
         name: userFormData.name,
         username: userFormData.username,
-        password: userFormData.password,
         role: userFormData.role,
         avatar: `https://api.dicebear.com/9.x/avataaars/svg?seed=${userFormData.username}`,
         projectAccess: userFormData.projectAccess,
         isOnline: false
-      });
+      }, userFormData.password);
     }
     setIsUserModalOpen(false);
   };
@@ -118,7 +157,7 @@ export const AdminPanel: React.FC = () => {
   // --- Project Actions ---
   const openAddProjectModal = () => {
     setEditingProject(null);
-    setProjectFormData({ name: '', description: '' });
+    setProjectFormData({ name: '', description: '', workflow: DEFAULT_WORKFLOW, transitionRules: DEFAULT_TRANSITION_RULES, labels: [], customFields: [] });
     setIsProjectModalOpen(true);
   };
 
@@ -126,7 +165,11 @@ export const AdminPanel: React.FC = () => {
     setEditingProject(project);
     setProjectFormData({
       name: project.name,
-      description: project.description
+      description: project.description,
+      workflow: getWorkflow(project),
+      transitionRules: getTransitionRules(project),
+      labels: project.labels || [],
+      customFields: project.customFields || []
     });
     setIsProjectModalOpen(true);
   };
@@ -135,18 +178,223 @@ export const AdminPanel: React.FC = () => {
     e.preventDefault();
     if (!projectFormData.name) return;
 
+    const workflowError = validateWorkflow(projectFormData.workflow);
+    if (workflowError) {
+      alert(workflowError);
+      return;
+    }
+    // Options are typed as comma-separated text; tidy them before validating
+    const customFields = projectFormData.customFields.map(f => ({
+      ...f,
+      name: f.name.trim(),
+      options: hasFieldOptions(f.type) ? Array.from(new Set((f.options || []).map(o => o.trim()).filter(Boolean))) : undefined
+    }));
+    const definitionError = validateLabels(projectFormData.labels) || validateCustomFields(customFields);
+    if (definitionError) {
+      alert(definitionError);
+      return;
+    }
+    // Projects on the default workflow keep it unset so future default changes apply to them
+    const workflow = JSON.stringify(projectFormData.workflow) === JSON.stringify(DEFAULT_WORKFLOW) ? undefined : projectFormData.workflow;
+    const transitionRules = JSON.stringify(projectFormData.transitionRules) === JSON.stringify(DEFAULT_TRANSITION_RULES) ? undefined : projectFormData.transitionRules;
+    const labels = projectFormData.labels.map(l => ({ ...l, name: l.name.trim() }));
+
     if (editingProject) {
       updateProject({
         ...editingProject,
         name: projectFormData.name,
-        description: projectFormData.description
+        description: projectFormData.description,
+        workflow,
+        transitionRules,
+        labels,
+        customFields
       });
     } else {
-      addProject(projectFormData.name, projectFormData.description);
+      addProject(projectFormData.name, projectFormData.description, workflow, transitionRules, labels, customFields);
     }
     setIsProjectModalOpen(false);
   };
 
+  // --- Import / Export ---
+  const handleProjectExport = () => {
+    if (!projectToExport) return;
+    const fileName = toFileSlug(projectToExport.name);
+    if (exportFormat === 'json') {
+      downloadFile(buildProjectJson(projectToExport, tasks), `${fileName}.json`, 'application/json');
+    } else {
+      downloadFile(buildProjectCsv(projectToExport, tasks, users), `${fileName}.csv`, 'text/csv;charset=utf-8');
+    }
+    setProjectToExport(null);
+  };
+
+  const openImportModal = () => {
+    setImportProjectId(projects[0]?.id || '');
+    changeImportSource('setu');
+    setIsImportModalOpen(true);
+  };
+
+  const changeImportSource = (source: ImportSource) => {
+    setImportSource(source);
+    setImportFile(null);
+    setColumnMapping([]);
+    setReconciliation(null);
+    setSuggestedReconciliation(null);
+  };
+
+  // Column matches depend on the target project, so they are guessed again when it changes
+  const startReconciliation = (board: ExternalBoard, projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    const guess = reconcile(board, project, users);
+    setReconciliation(guess);
+    setSuggestedReconciliation(guess);
+  };
+
+  const changeImportProject = (projectId: string) => {
+    setImportProjectId(projectId);
+    if (importFile?.board) startReconciliation(importFile.board, projectId);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+
+    if (importSource !== 'setu') {
+      const kind = importSource === 'trello' ? 'json' : 'csv';
+      try {
+        const board = importSource === 'trello' ? parseTrelloBoard(text) : parseJiraCsv(text);
+        setImportFile({ name: file.name, kind, text, rows: [], board });
+        startReconciliation(board, importProjectId);
+      } catch (error) {
+        setImportFile({ name: file.name, kind, text, rows: [], error: (error as Error).message });
+        setReconciliation(null);
+      }
+      return;
+    }
+
+    const kind = /\.json$/i.test(file.name) || text.trimStart().startsWith('{') ? 'json' : 'csv';
+    const rows = kind === 'csv' ? parseCsv(text) : [];
+    setImportFile({ name: file.name, kind, text, rows });
+    setColumnMapping(guessColumnMapping(rows[0] || []));
+  };
+
+  // Dry run: recomputed on every change and only written when the admin confirms
+  const importProject = projects.find(p => p.id === importProjectId);
+  const importPlan = !importFile || !importProject ? null
+    : importFile.error ? { tasks: [], subtaskCount: 0, issues: [{ row: 0, severity: 'error' as const, message: importFile.error }] }
+    : importFile.board ? (reconciliation ? planExternalImport(importFile.board, importProject, reconciliation) : null)
+    : importFile.kind === 'json' ? planJsonImport(importFile.text, importProject, users)
+    : planCsvImport(importFile.rows, columnMapping, importProject, users);
+
+  const getIssueLocation = (row: number) => {
+    if (!row) return importFile?.board ? 'Mapping' : 'File';
+    if (importFile?.kind === 'csv') return `Row ${row}`;
+    return importSource === 'trello' ? `Card ${row}` : `Task ${row}`;
+  };
+
+  const handleImport = async () => {
+    if (!importPlan || hasImportErrors(importPlan)) return;
+    setIsImporting(true);
+    const created = await importTasks(importPlan.tasks);
+    setIsImporting(false);
+    if (created < importPlan.tasks.length) {
+      alert(`Imported ${created} of ${importPlan.tasks.length} tasks. The rest could not be saved.`);
+      return;
+    }
+    setIsImportModalOpen(false);
+  };
+
+  // --- Workflow Editing ---
+  const updateWorkflowColumn = (index: number, changes: Partial<WorkflowStatus>) => {
+    setProjectFormData(prev => ({
+      ...prev,
+      workflow: prev.workflow.map((s, i) => i === index ? { ...s, ...changes } : s)
+    }));
+  };
+
+  const moveWorkflowColumn = (index: number, direction: -1 | 1) => {
+    setProjectFormData(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.workflow.length) return prev;
+      const workflow = [...prev.workflow];
+      [workflow[index], workflow[target]] = [workflow[target], workflow[index]];
+      return { ...prev, workflow };
+    });
+  };
+
+  const addWorkflowColumn = () => {
+    setProjectFormData(prev => ({
+      ...prev,
+      workflow: [...prev.workflow, { id: 'st-' + Date.now(), name: '', category: 'open', color: 'violet' }]
+    }));
+  };
+
+  const removeWorkflowColumn = (index: number) => {
+    setProjectFormData(prev => ({ ...prev, workflow: prev.workflow.filter((_, i) => i !== index) }));
+  };
+
+  const updateTransitionRule = (index: number, changes: Partial<TransitionRule>) => {
+    setProjectFormData(prev => ({
+      ...prev,
+      transitionRules: prev.transitionRules.map((r, i) => i === index ? { ...r, ...changes } : r)
+    }));
+  };
+
+  const addTransitionRule = () => {
+    setProjectFormData(prev => ({
+      ...prev,
+      transitionRules: [...prev.transitionRules, { from: '*', to: '*', effect: 'require_reason' }]
+    }));
+  };
+
+  const removeTransitionRule = (index: number) => {
+    setProjectFormData(prev => ({ ...prev, transitionRules: prev.transitionRules.filter((_, i) => i !== index) }));
+  };
+
+  // --- Label Editing ---
+  const updateLabel = (index: number, changes: Partial<TaskLabel>) => {
+    setProjectFormData(prev => ({
+      ...prev,
+      labels: prev.labels.map((l, i) => i === index ? { ...l, ...changes } : l)
+    }));
+  };
+
+  const addLabel = () => {
+    setProjectFormData(prev => ({
+      ...prev,
+      labels: [...prev.labels, { id: 'lb-' + Date.now(), name: '', color: 'blue' }]
+    }));
+  };
+
+  const removeLabel = (index: number) => {
+    setProjectFormData(prev => ({ ...prev, labels: prev.labels.filter((_, i) => i !== index) }));
+  };
+
+  // --- Custom Field Editing ---
+  const updateCustomField = (index: number, changes: Partial<CustomFieldDefinition>) => {
+    setProjectFormData(prev => ({
+      ...prev,
+      customFields: prev.customFields.map((f, i) => i === index ? { ...f, ...changes } : f)
+    }));
+  };
+
+  const addCustomField = () => {
+    setProjectFormData(prev => ({
+      ...prev,
+      customFields: [...prev.customFields, { id: 'cf-' + Date.now(), name: '', type: 'text' }]
+    }));
+  };
+
+  const removeCustomField = (index: number) => {
+    setProjectFormData(prev => ({ ...prev, customFields: prev.customFields.filter((_, i) => i !== index) }));
+  };
+
+  // Columns that still hold tasks cannot be removed (the store rejects it as well)
+  const isColumnInUse = (statusId: string) =>
+    !!editingProject && tasks.some(t => t.projectId === editingProject.id && t.status === statusId);
+
   // --- Filtering ---
   const filteredUsers = users.filter(user =>
     user.name.toLowerCase().includes(userSearchTerm.toLowerCase()) ||
@@ -287,12 +535,21 @@ export const AdminPanel: React.FC = () => {
                 onChange={(e) => setProjectSearchTerm(e.target.value)}
               />
             </div>
-            <button
-              onClick={openAddProjectModal}
-              className="flex items-center bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg transition-colors shadow-sm shrink-0 font-medium text-sm"
-            >
-              <FolderPlus size={16} className="mr-2" /> Add Project
-            </button>
+            <div className="flex items-center space-x-2 shrink-0">
+              <button
+                onClick={openImportModal}
+                disabled={projects.length === 0}
+                className="flex items-center bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-2 rounded-lg transition-colors shadow-sm font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Upload size={16} className="mr-2" /> Import Tasks
+              </button>
+              <button
+                onClick={openAddProjectModal}
+                className="flex items-center bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg transition-colors shadow-sm font-medium text-sm"
+              >
+                <FolderPlus size={16} className="mr-2" /> Add Project
+              </button>
+            </div>
           </div>
 
           {/* PROJECTS TABLE */}
@@ -323,6 +580,13 @@ export const AdminPanel: React.FC = () => {
                       <td className="hidden md:table-cell px-6 py-4 text-slate-500 truncate max-w-xs">{project.description}</td>
                       <td className="px-6 py-4 text-right">
                         <div className="flex justify-end space-x-1">
+                          <button
+                            onClick={() => setProjectToExport(project)}
+                            className="text-slate-400 hover:text-indigo-600 p-1.5 hover:bg-indigo-50 rounded transition-colors"
+                            title="Export Project"
+                          >
+                            <Download size={18} />
+                          </button>
                           <button
                             onClick={() => openEditProjectModal(project)}
                             className="text-slate-400 hover:text-indigo-600 p-1.5 hover:bg-indigo-50 rounded transition-colors"
@@ -438,12 +702,12 @@ export const AdminPanel: React.FC = () => {
                   <div className="relative">
                     <KeyRound size={18} className="absolute left-3 top-3 text-slate-400" />
                     <input
-                      required
+                      required={!editingUser}
                       type={showPassword ? "text" : "password"}
                       className="w-full pl-10 pr-10 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm transition-all bg-slate-50 focus:bg-white font-mono tracking-wide"
                       value={userFormData.password}
                       onChange={e => setUserFormData({ ...userFormData, password: e.target.value })}
-                      placeholder="Secret123"
+                      placeholder={editingUser ? "Leave blank to keep current" : "Secret123"}
                     />
                     <button
                       type="button"
@@ -552,6 +816,244 @@ export const AdminPanel: React.FC = () => {
                 placeholder="Project goals and details..."
               />
             </div>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase">Workflow Columns</label>
+                <button
+                  type="button"
+                  onClick={addWorkflowColumn}
+                  className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} className="mr-1" /> Add Column
+                </button>
+              </div>
+              <div className="space-y-2">
+                {projectFormData.workflow.map((column, index) => (
+                  <div key={column.id} className="flex items-center gap-2 p-2 bg-slate-50 border border-slate-200 rounded-lg">
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${STATUS_COLORS[column.color]?.dot || STATUS_COLORS.slate.dot}`}></span>
+                    <input
+                      type="text"
+                      value={column.name}
+                      onChange={e => updateWorkflowColumn(index, { name: e.target.value })}
+                      placeholder="Column name"
+                      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+                    />
+                    <select
+                      value={column.category}
+                      onChange={e => updateWorkflowColumn(index, { category: e.target.value as WorkflowStatus['category'] })}
+                      className="px-2 py-1.5 border border-slate-200 rounded text-xs outline-none bg-white"
+                      title="Done columns count as completed work"
+                    >
+                      <option value="open">Open</option>
+                      <option value="done">Done</option>
+                    </select>
+                    <select
+                      value={column.color}
+                      onChange={e => updateWorkflowColumn(index, { color: e.target.value as StatusColor })}
+                      className="px-2 py-1.5 border border-slate-200 rounded text-xs outline-none bg-white capitalize"
+                    >
+                      {(Object.keys(STATUS_COLORS) as StatusColor[]).map(color => (
+                        <option key={color} value={color}>{color}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={column.wipLimit ?? ''}
+                      onChange={e => updateWorkflowColumn(index, { wipLimit: e.target.value ? Number(e.target.value) : undefined })}
+                      placeholder="WIP"
+                      title="Work-in-progress limit (blank for none)"
+                      className="w-16 px-2 py-1.5 border border-slate-200 rounded text-xs outline-none bg-white"
+                    />
+                    <div className="flex items-center shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => moveWorkflowColumn(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                        title="Move left"
+                      >
+                        <ArrowUp size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveWorkflowColumn(index, 1)}
+                        disabled={index === projectFormData.workflow.length - 1}
+                        className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                        title="Move right"
+                      >
+                        <ArrowDown size={14} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeWorkflowColumn(index)}
+                        disabled={isColumnInUse(column.id) || projectFormData.workflow.length === 1}
+                        className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                        title={isColumnInUse(column.id) ? 'Column still has tasks' : 'Remove column'}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase">Transition Rules</label>
+                <button
+                  type="button"
+                  onClick={addTransitionRule}
+                  className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} className="mr-1" /> Add Rule
+                </button>
+              </div>
+              {projectFormData.transitionRules.length === 0 && (
+                <p className="text-xs text-slate-400 italic">Any column can move to any other column.</p>
+              )}
+              <div className="space-y-2">
+                {projectFormData.transitionRules.map((rule, index) => (
+                  <div key={index} className="flex items-center gap-2 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs">
+                    <select
+                      value={rule.from}
+                      onChange={e => updateTransitionRule(index, { from: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded outline-none bg-white"
+                    >
+                      <option value="*">Any column</option>
+                      {projectFormData.workflow.map(s => <option key={s.id} value={s.id}>{s.name || 'Untitled'}</option>)}
+                    </select>
+                    <span className="text-slate-400 shrink-0">to</span>
+                    <select
+                      value={rule.to}
+                      onChange={e => updateTransitionRule(index, { to: e.target.value })}
+                      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded outline-none bg-white"
+                    >
+                      <option value="*">Any column</option>
+                      {projectFormData.workflow.map(s => <option key={s.id} value={s.id}>{s.name || 'Untitled'}</option>)}
+                    </select>
+                    <select
+                      value={rule.effect}
+                      onChange={e => updateTransitionRule(index, { effect: e.target.value as TransitionEffect })}
+                      className="px-2 py-1.5 border border-slate-200 rounded outline-none bg-white"
+                    >
+                      <option value="require_reason">Needs reason</option>
+                      <option value="deny">Not allowed</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeTransitionRule(index)}
+                      className="p-1 text-slate-400 hover:text-red-600 shrink-0"
+                      title="Remove rule"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase">Labels</label>
+                <button
+                  type="button"
+                  onClick={addLabel}
+                  className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} className="mr-1" /> Add Label
+                </button>
+              </div>
+              {projectFormData.labels.length === 0 && (
+                <p className="text-xs text-slate-400 italic">No labels yet.</p>
+              )}
+              <div className="space-y-2">
+                {projectFormData.labels.map((label, index) => (
+                  <div key={label.id} className="flex items-center gap-2 p-2 bg-slate-50 border border-slate-200 rounded-lg">
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${STATUS_COLORS[label.color]?.dot || STATUS_COLORS.slate.dot}`}></span>
+                    <input
+                      type="text"
+                      value={label.name}
+                      onChange={e => updateLabel(index, { name: e.target.value })}
+                      placeholder="Label name"
+                      className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+                    />
+                    <select
+                      value={label.color}
+                      onChange={e => updateLabel(index, { color: e.target.value as StatusColor })}
+                      className="px-2 py-1.5 border border-slate-200 rounded text-xs outline-none bg-white capitalize"
+                    >
+                      {(Object.keys(STATUS_COLORS) as StatusColor[]).map(color => (
+                        <option key={color} value={color}>{color}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeLabel(index)}
+                      className="p-1 text-slate-400 hover:text-red-600 shrink-0"
+                      title="Remove label"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-500 uppercase">Custom Fields</label>
+                <button
+                  type="button"
+                  onClick={addCustomField}
+                  className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus size={14} className="mr-1" /> Add Field
+                </button>
+              </div>
+              {projectFormData.customFields.length === 0 && (
+                <p className="text-xs text-slate-400 italic">No custom fields yet.</p>
+              )}
+              <div className="space-y-2">
+                {projectFormData.customFields.map((field, index) => (
+                  <div key={field.id} className="p-2 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={field.name}
+                        onChange={e => updateCustomField(index, { name: e.target.value })}
+                        placeholder="Field name, e.g. Customer"
+                        className="flex-1 min-w-0 px-2 py-1.5 border border-slate-200 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+                      />
+                      <select
+                        value={field.type}
+                        onChange={e => updateCustomField(index, { type: e.target.value as CustomFieldType })}
+                        className="px-2 py-1.5 border border-slate-200 rounded text-xs outline-none bg-white"
+                      >
+                        {(Object.keys(CUSTOM_FIELD_TYPES) as CustomFieldType[]).map(type => (
+                          <option key={type} value={type}>{CUSTOM_FIELD_TYPES[type]}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeCustomField(index)}
+                        className="p-1 text-slate-400 hover:text-red-600 shrink-0"
+                        title="Remove field"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    {hasFieldOptions(field.type) && (
+                      <input
+                        type="text"
+                        value={(field.options || []).join(',')}
+                        onChange={e => updateCustomField(index, { options: e.target.value.split(',') })}
+                        placeholder="Options, separated by commas"
+                        className="w-full px-2 py-1.5 border border-slate-200 rounded text-xs outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
 
           <div className="pt-6 mt-6 border-t border-slate-100 flex justify-end space-x-3">
@@ -571,6 +1073,219 @@ export const AdminPanel: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      {/* --- Project Export Modal --- */}
+      <Modal
+        isOpen={!!projectToExport}
+        onClose={() => setProjectToExport(null)}
+        title={`Export ${projectToExport?.name || 'Project'}`}
+        maxWidth="max-w-md"
+        className="h-auto"
+      >
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['csv', 'CSV', 'One row per task and subtask, for spreadsheets', FileText],
+              ['json', 'JSON', 'Every field, for importing back into a project', FileJson]
+            ] as const).map(([value, label, hint, Icon]) => (
+              <button
+                key={value}
+                onClick={() => setExportFormat(value)}
+                className={`p-3 rounded-xl text-left border transition-all ${exportFormat === value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                <Icon size={20} className={exportFormat === value ? 'text-indigo-600' : 'text-slate-400'} />
+                <div className={`text-sm font-bold mt-2 ${exportFormat === value ? 'text-indigo-700' : 'text-slate-700'}`}>{label}</div>
+                <div className="text-xs text-slate-500">{hint}</div>
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {tasks.filter(t => t.projectId === projectToExport?.id).length} tasks with their subtasks, comments and attachment details will be exported.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setProjectToExport(null)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleProjectExport}
+              className="flex items-center px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium shadow-md shadow-indigo-200 transition-colors"
+            >
+              <Download size={16} className="mr-2" /> Download .{exportFormat}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* --- Task Import Modal --- */}
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        title="Import Tasks"
+        maxWidth="max-w-3xl"
+      >
+        <div className="px-6 pb-6 pt-2 space-y-6">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Source</label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['setu', 'Project Export (CSV / JSON)'],
+                ['trello', `${EXTERNAL_SOURCES.trello.label} Board (JSON)`],
+                ['jira', `${EXTERNAL_SOURCES.jira.label} Issues (CSV)`]
+              ] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => changeImportSource(value)}
+                  className={`py-2.5 px-2 rounded-lg text-sm font-medium border transition-all ${importSource === value ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Into Project</label>
+              <select
+                value={importProjectId}
+                onChange={e => changeImportProject(e.target.value)}
+                className="w-full px-3 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+              >
+                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">
+                File ({importSource === 'setu' ? '.csv or .json' : importSource === 'trello' ? '.json' : '.csv'})
+              </label>
+              <label className="flex items-center w-full px-3 py-2.5 border border-dashed border-slate-300 rounded-lg text-sm text-slate-600 hover:border-indigo-400 hover:bg-indigo-50/50 cursor-pointer transition-colors">
+                <Upload size={16} className="mr-2 text-slate-400 shrink-0" />
+                <span className="truncate">{importFile ? importFile.name : 'Choose a file...'}</span>
+                <input
+                  type="file"
+                  accept={importSource === 'setu' ? '.csv,.json,text/csv,application/json' : EXTERNAL_SOURCES[importSource].accept}
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+              </label>
+            </div>
+          </div>
+
+          {/* Reconciliation */}
+          {importFile?.board && importProject && reconciliation && suggestedReconciliation && (
+            <ImportReconciliation
+              board={importFile.board}
+              project={importProject}
+              users={users}
+              value={reconciliation}
+              suggested={suggestedReconciliation}
+              onChange={setReconciliation}
+            />
+          )}
+
+          {/* Column Mapping */}
+          {importSource === 'setu' && importFile?.kind === 'csv' && importFile.rows.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Column Mapping</label>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-64 overflow-y-auto custom-scrollbar">
+                {importFile.rows[0].map((header, index) => (
+                  <div key={index} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-slate-700 truncate">{header || `Column ${index + 1}`}</div>
+                      <div className="text-xs text-slate-400 truncate">{importFile.rows[1]?.[index] || '—'}</div>
+                    </div>
+                    <select
+                      value={columnMapping[index] || ''}
+                      onChange={e => setColumnMapping(prev => prev.map((field, i) => i === index ? e.target.value as ImportField | '' : field))}
+                      className="w-44 px-2 py-1.5 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value="">Ignore</option>
+                      {IMPORT_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Dry Run */}
+          {importPlan && importProject && (
+            <div className="space-y-3">
+              <label className="block text-xs font-bold text-slate-500 uppercase">Preview</label>
+              <div className={`p-3 rounded-lg text-sm font-medium ${hasImportErrors(importPlan) ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700'}`}>
+                {hasImportErrors(importPlan)
+                  ? 'Fix the errors below before importing.'
+                  : `${importPlan.tasks.length} tasks and ${importPlan.subtaskCount} subtasks will be added to ${importProject.name}.`}
+              </div>
+
+              {importPlan.issues.length > 0 && (
+                <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-48 overflow-y-auto custom-scrollbar">
+                  {importPlan.issues.map((issue, index) => (
+                    <div key={index} className="flex items-start px-3 py-2 text-xs">
+                      {issue.severity === 'error'
+                        ? <AlertCircle size={14} className="text-red-500 mr-2 mt-px shrink-0" />
+                        : <AlertTriangle size={14} className="text-amber-500 mr-2 mt-px shrink-0" />}
+                      <span className="text-slate-400 w-16 shrink-0">{getIssueLocation(issue.row)}</span>
+                      <span className="text-slate-700">{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {importPlan.tasks.length > 0 && (
+                <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-left text-xs">
+                    <thead className="bg-slate-50 border-b border-slate-100">
+                      <tr>
+                        <th className="px-3 py-2 font-semibold text-slate-600">Title</th>
+                        <th className="px-3 py-2 font-semibold text-slate-600">Status</th>
+                        <th className="px-3 py-2 font-semibold text-slate-600">Assignee</th>
+                        <th className="px-3 py-2 font-semibold text-slate-600 text-right">Subtasks</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {importPlan.tasks.slice(0, 10).map(t => (
+                        <tr key={t.id}>
+                          <td className="px-3 py-2 text-slate-700 truncate max-w-[240px]">{t.title}</td>
+                          <td className="px-3 py-2 text-slate-500">{getStatusLabel(getWorkflow(importProject), t.status)}</td>
+                          <td className="px-3 py-2 text-slate-500">{users.find(u => u.id === t.assigneeId)?.name || 'Unassigned'}</td>
+                          <td className="px-3 py-2 text-slate-500 text-right">{t.subtasks.length}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {importPlan.tasks.length > 10 && (
+                    <div className="px-3 py-2 text-xs text-slate-400 bg-slate-50 border-t border-slate-100">and {importPlan.tasks.length - 10} more</div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="pt-6 border-t border-slate-100 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setIsImportModalOpen(false)}
+              className="px-5 py-2.5 text-slate-500 hover:bg-slate-100 hover:text-slate-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!importPlan || hasImportErrors(importPlan) || importPlan.tasks.length === 0 || isImporting}
+              className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg text-sm shadow-lg shadow-indigo-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : 'Import Tasks'}
+            </button>
+          </div>
+        </div>
+      </Modal>
       <Modal
         isOpen={!!userToDelete}
         onClose={() => setUserToDelete(null)}
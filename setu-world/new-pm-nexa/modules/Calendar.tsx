@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { canWriteProject } from '../policy';
+import { Task, SubTask } from '../types';
+import { buildPath, navigate } from '../routes';
+import { ChevronLeft, ChevronRight, SlidersHorizontal, CheckSquare } from 'lucide-react';
+import { TaskFilterSelects } from '../components/TaskFilterSelects';
+import { matchesSubtaskFilters, matchesTaskFilters } from '../taskFilters';
+import { getProjectWorkflow, getStatusColor, isDoneStatus } from '../workflow';
+import { addDays, diffInDays, parseDateOnly, startOfDay, toDateOnly } from '../dateUtils';
+
+// One task or subtask placed on its due date
+interface CalendarItem {
+  key: string;
+  task: Task;
+  subtask?: SubTask;
+  date: string;
+  title: string;
+  done: boolean;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+export const CalendarView: React.FC = () => {
+  const { tasks, projects, users, currentUser, taskFilters, updateTask } = useApp();
+  const [mode, setMode] = useState<'month' | 'week'>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const today = startOfDay(new Date());
+
+  // --- Items ---
+  // Tasks and subtasks are filtered separately: a subtask shows by its own assignee, category and labels
+  const items: CalendarItem[] = tasks
+    .flatMap(task => {
+      const workflow = getProjectWorkflow(projects, task.projectId);
+      const own: CalendarItem[] = task.dueDate && matchesTaskFilters(task, taskFilters, currentUser)
+        ? [{ key: task.id, task, date: task.dueDate, title: task.title, done: isDoneStatus(workflow, task.status) }]
+        : [];
+      const subtasks = task.subtasks
+        .filter(s => s.dueDate && matchesSubtaskFilters(task, s, taskFilters, currentUser))
+        .map(s => ({ key: `${task.id}:${s.id}`, task, subtask: s, date: s.dueDate!, title: s.title, done: s.completed }));
+      return [...own, ...subtasks];
+    });
+
+  const itemsByDate = items.reduce((acc, item) => {
+    (acc[item.date] = acc[item.date] || []).push(item);
+    return acc;
+  }, {} as Record<string, CalendarItem[]>);
+
+  // --- Visible Days ---
+  const gridStart = mode === 'month'
+    ? startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1))
+    : startOfWeek(cursor);
+  const gridEnd = mode === 'month'
+    ? addDays(startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0)), 6)
+    : addDays(gridStart, 6);
+  const days = Array.from({ length: diffInDays(gridStart, gridEnd) + 1 }, (_, i) => addDays(gridStart, i));
+
+  const step = (direction: -1 | 1) => {
+    setCursor(mode === 'month'
+      ? new Date(cursor.getFullYear(), cursor.getMonth() + direction, 1)
+      : addDays(cursor, direction * 7));
+  };
+
+  const heading = mode === 'month'
+    ? cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `${gridStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${gridEnd.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  // --- Rescheduling ---
+  const reschedule = (item: CalendarItem, date: string) => {
+    if (item.date === date || !canWriteProject(currentUser, item.task.projectId)) return;
+    if (item.subtask) {
+      updateTask({
+        ...item.task,
+        subtasks: item.task.subtasks.map(s => s.id === item.subtask!.id ? { ...s, dueDate: date } : s)
+      });
+    } else {
+      // Keep the timeline range valid when the due date moves before the start date
+      const startDate = item.task.startDate && item.task.startDate > date ? date : item.task.startDate;
+      updateTask({ ...item.task, dueDate: date, startDate });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    const item = items.find(i => i.key === draggedKey);
+    if (item) reschedule(item, date);
+    setDraggedKey(null);
+    setDropTarget(null);
+  };
+
+  const openItem = (item: CalendarItem) => {
+    navigate(buildPath({ name: 'task', taskId: item.task.id, subtaskId: item.subtask?.id }));
+  };
+
+  const renderItem = (item: CalendarItem) => {
+    const workflow = getProjectWorkflow(projects, item.task.projectId);
+    const editable = canWriteProject(currentUser, item.task.projectId);
+    const overdue = !item.done && parseDateOnly(item.date) < today;
+    const assignee = users.find(u => u.id === (item.subtask ? item.subtask.assigneeId : item.task.assigneeId));
+
+    return (
+      <div
+        key={item.key}
+        draggable={editable}
+        onDragStart={e => {
+          setDraggedKey(item.key);
+          e.dataTransfer.setData('text/plain', item.key);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => { setDraggedKey(null); setDropTarget(null); }}
+        onClick={() => openItem(item)}
+        title={item.subtask ? `${item.title} (subtask of ${item.task.title})` : item.title}
+        className={`flex items-center px-1.5 py-1 rounded-md text-[11px] font-medium border truncate transition-colors
+          ${editable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}
+          ${item.done ? 'bg-slate-50 text-slate-400 border-slate-100 line-through' : overdue ? 'bg-red-50 text-red-700 border-red-100' : 'bg-white text-slate-700 border-slate-200 hover:border-indigo-300'}
+          ${draggedKey === item.key ? 'opacity-50' : ''}`}
+      >
+        {item.subtask ? (
+          <CheckSquare size={10} className="mr-1 shrink-0 text-slate-400" />
+        ) : (
+          <span className={`w-1.5 h-1.5 rounded-full mr-1.5 shrink-0 ${getStatusColor(workflow, item.task.status).dot}`}></span>
+        )}
+        <span className="truncate flex-1">{item.title}</span>
+        {assignee && mode === 'week' && (
+          <img src={assignee.avatar} className="w-4 h-4 rounded-full ml-1 shrink-0" />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 md:p-6 pb-4 md:pb-6">
+      {/* Header Controls */}
+      <div className="flex flex-col space-y-4 mb-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-800">Calendar</h1>
+            <p className="text-slate-500 text-sm">Task and subtask due dates</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center bg-white border border-slate-200 rounded-lg shadow-sm">
+              <button onClick={() => step(-1)} className="p-2 text-slate-500 hover:text-indigo-600" title="Previous">
+                <ChevronLeft size={18} />
+              </button>
+              <button onClick={() => setCursor(today)} className="px-3 py-1.5 text-sm font-medium text-slate-700 hover:text-indigo-600 border-x border-slate-200">
+                Today
+              </button>
+              <button onClick={() => step(1)} className="p-2 text-slate-500 hover:text-indigo-600" title="Next">
+                <ChevronRight size={18} />
+              </button>
+            </div>
+            <div className="flex bg-slate-100 p-1 rounded-lg shrink-0">
+              {(['month', 'week'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium capitalize transition-all ${mode === m ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Filters Bar */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-800 px-1">{heading}</h2>
+          <div className="grid grid-cols-3 gap-2 w-full md:flex md:w-auto md:items-center md:space-x-2 shrink-0">
+            <SlidersHorizontal size={16} className="text-slate-400 ml-2 mr-1 hidden md:block" />
+            <TaskFilterSelects />
+          </div>
+        </div>
+      </div>
+
+      {/* Calendar Grid */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col min-h-0">
+        <div className="grid grid-cols-7 bg-slate-50 border-b border-slate-200 shrink-0">
+          {WEEKDAYS.map(d => (
+            <div key={d} className="px-2 py-2 text-xs font-semibold text-slate-500 uppercase text-center">{d}</div>
+          ))}
+        </div>
+        <div className={`grid grid-cols-7 flex-1 overflow-y-auto custom-scrollbar ${mode === 'month' ? 'auto-rows-[minmax(110px,1fr)]' : 'auto-rows-[minmax(420px,1fr)]'}`}>
+          {days.map(day => {
+            const date = toDateOnly(day);
+            const dayItems = itemsByDate[date] || [];
+            const isToday = diffInDays(today, day) === 0;
+            const inMonth = mode === 'week' || day.getMonth() === cursor.getMonth();
+            const visibleItems = mode === 'month' ? dayItems.slice(0, 4) : dayItems;
+
+            return (
+              <div
+                key={date}
+                onDragOver={e => { e.preventDefault(); setDropTarget(date); }}
+                onDragLeave={() => setDropTarget(prev => prev === date ? null : prev)}
+                onDrop={e => handleDrop(e, date)}
+                className={`border-r border-b border-slate-100 p-1.5 flex flex-col min-w-0 transition-colors
+                  ${inMonth ? 'bg-white' : 'bg-slate-50/60'}
+                  ${dropTarget === date ? 'bg-indigo-50 ring-2 ring-inset ring-indigo-300' : ''}`}
+              >
+                <div className="flex justify-end mb-1">
+                  <span className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${isToday ? 'bg-indigo-600 text-white font-bold' : inMonth ? 'text-slate-600' : 'text-slate-300'}`}>
+                    {day.getDate()}
+                  </span>
+                </div>
+                <div className="space-y-1 min-w-0">
+                  {visibleItems.map(renderItem)}
+                  {dayItems.length > visibleItems.length && (
+                    <button
+                      onClick={() => { setMode('week'); setCursor(day); }}
+                      className="w-full text-left px-1.5 text-[11px] font-medium text-indigo-600 hover:underline"
+                    >
+                      +{dayItems.length - visibleItems.length} more
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,34 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useApp } from '../store';
-import { supabase } from '../supabaseClient';
+import { repository } from '../data';
 import {
   Send, Phone, Mic, MicOff,
   Monitor, PhoneOff, Search, Users, ChevronLeft,
   Paperclip, FileText, Image as ImageIcon, X, Plus, Check, BellRing,
   Maximize2, Minimize2, PictureInPicture, UserPlus, Layout, MoreVertical, Trash2,
-  PhoneMissed, Pin, PinOff, Maximize
+  PhoneMissed, Pin, PinOff, Maximize, Loader2, MessagesSquare, Ban, CheckCheck
 } from 'lucide-react';
-import { User, Attachment, Group, NotificationType } from '../types';
+import { User, Attachment, Group, NotificationType, ChatMessage } from '../types';
 import { Modal } from '../components/Modal';
-
-export const Communication: React.FC = () => {
+import { VirtualList } from '../components/VirtualList';
+import { MessageThread } from '../components/MessageThread';
+import { ReactionBar } from '../components/ReactionBar';
+import { checkMessageEdit, checkMessageDelete } from '../policy';
+import { summarizeReactions } from '../reactions';
+import { buildPath, navigate } from '../routes';
+
+// Opens a chat and scrolls to one of its messages (e.g. a /chat/:id route); null chatId is the team chat
+export interface ChatFocus {
+  chatId: string | null;
+  messageId?: string;
+  threadId?: string; // Opens the replies to this message
+  call?: boolean; // Asks whether to start a call in the chat
+  requestedAt: number; // Lets the same message be focused twice in a row
+}
+
+export const Communication: React.FC<{ focus?: ChatFocus | null }> = ({ focus }) => {
   const {
-    messages, addMessage, currentUser, users, groups, createGroup, markChatRead, getUnreadCount,
+    messages, chatHistory, loadOlderMessages, loadThread, addMessage, getMessageReaders, typingUsers, setTyping, editMessage, deleteMessageForEveryone, reactions, toggleReaction, currentUser, users, groups, createGroup, markChatRead, getUnreadCount,
     startCall, startGroupCall, addToCall, endCall, isInCall, activeCallData, localStream, remoteStreams, isScreenSharing, toggleScreenShare,
     isMicOn, isCameraOn, toggleMic, deletedMessageIds, clearChatHistory, hasAudioDevice, updateGroup, deleteGroup
   } = useApp();
@@ -26,6 +41,10 @@ export const Communication: React.FC = () => {
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [viewMode, setViewMode] = useState<'default' | 'fullscreen' | 'pip'>('default');
   const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<ChatMessage | null>(null);
 
   // Call UI State
   const [pinnedUserId, setPinnedUserId] = useState<string | null>(null);
@@ -52,7 +71,6 @@ export const Communication: React.FC = () => {
 
   // Video Refs
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const fileMapRef = useRef<Map<string, File>>(new Map());
 
@@ -88,28 +106,57 @@ export const Communication: React.FC = () => {
     const isMobile = window.innerWidth < 768; // 768px is md breakpoint
     if (isMobile && !showMobileChat) return;
 
-    // Check if there are any unread messages for this chat
-    const hasUnread = messages.some(m => {
-      if (deletedMessageIds.has(m.id)) return false;
-
-      const isTarget = (currentChatId === 'general' && !m.recipientId) ||
-        (currentChatId.startsWith('g-') && m.recipientId === currentChatId) ||
-        (m.senderId === currentChatId && m.recipientId === currentUser.id); // For DMs, sender is the chat ID
-
-      return isTarget && !m.isRead && m.senderId !== currentUser.id;
-    });
-
-    if (hasUnread) {
+    // Check if there are any unread messages for this chat (per reader, see ReadReceipt)
+    if (getUnreadCount(currentChatId) > 0) {
       markChatRead(currentChatId);
     }
   }, [messages, selectedChat, showMobileChat, currentUser, markChatRead, deletedMessageIds]);
 
-  // Handle auto-scroll to bottom of chat
+  // Startup only loads recent messages, so fetch the latest page of a chat when it is first opened
+  const currentChatId = selectedChat ? selectedChat.id : 'general';
+  useEffect(() => {
+    if (currentUser && !chatHistory[currentChatId]) loadOlderMessages(currentChatId);
+  }, [currentChatId, currentUser?.id]);
+
+  // Open the requested chat once it is loaded; the message list scrolls to the highlighted message
+  const appliedFocus = useRef<ChatFocus | null>(null);
   useEffect(() => {
-    if (messagesContainerRef.current) {
-      messagesContainerRef.current.scrollTop = messagesContainerRef.current.scrollHeight;
+    if (!focus) {
+      // Back to the plain /chat route: the chat list on mobile
+      setShowMobileChat(false);
+      return;
     }
-  }, [messages, isInCall, attachments, selectedChat, deletedMessageIds]);
+    if (appliedFocus.current === focus) return;
+    const chat = focus.chatId ? groups.find(g => g.id === focus.chatId) || users.find(u => u.id === focus.chatId) : null;
+    if (focus.chatId && !chat) return;
+    appliedFocus.current = focus;
+    handleChatSelect(chat || null);
+    if (focus.chatId) setHiddenChatIds(prev => prev.filter(id => id !== focus.chatId));
+    setHighlightedMessageId(focus.messageId || null);
+    setOpenThreadId(focus.threadId || null);
+    if (focus.threadId && !messages.some(m => m.id === focus.threadId)) loadThread(focus.threadId);
+    if (focus.call) {
+      // One-shot: drop ?call so reloading or going back does not ask again
+      navigate(buildPath({ name: 'chat', chatId: focus.chatId, messageId: focus.messageId, threadId: focus.threadId }), true);
+      if (!isInCall) {
+        setConfirmModal({
+          isOpen: true,
+          title: 'Start Call',
+          message: `Start a call with ${chat ? chat.name : 'the team'}?`,
+          onConfirm: () => {
+            setConfirmModal(null);
+            startChatCall(chat || null);
+          }
+        });
+      }
+    }
+  }, [focus, groups, users]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, selectedChat]);
 
   // Restore hidden chats if a new message arrives
   useEffect(() => {
@@ -165,18 +212,10 @@ export const Communication: React.FC = () => {
         const file = fileMapRef.current.get(att.id);
         if (file) {
           try {
-            const fileName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-            const { error: uploadError } = await supabase.storage.from('attachments').upload(fileName, file);
-
-            if (uploadError) {
-              console.error('File upload error:', uploadError);
-              return att;
-            }
-
-            const { data: { publicUrl } } = supabase.storage.from('attachments').getPublicUrl(fileName);
+            const publicUrl = await repository.attachments.upload(file);
             return { ...att, url: publicUrl };
           } catch (err) {
-            console.error('File processing error:', err);
+            console.error('File upload error:', err);
             return att;
           }
         }
@@ -218,6 +257,34 @@ export const Communication: React.FC = () => {
     fileMapRef.current.delete(id);
   };
 
+  // Chat choices go through the URL so they land in the browser history; the focus effect selects the chat
+  const openChat = (chat: User | Group | null) => navigate(buildPath({ name: 'chat', chatId: chat ? chat.id : null }));
+  const openThread = (threadId: string | undefined) => navigate(buildPath({ name: 'chat', chatId: selectedChat ? selectedChat.id : null, threadId }));
+
+  const saveMessageEdit = () => {
+    if (!editingMessage) return;
+    editMessage(editingMessage.id, editingMessage.text);
+    setEditingMessage(null);
+  };
+
+  const confirmDeleteForEveryone = (messageId: string) => {
+    setConfirmModal({
+      isOpen: true,
+      title: 'Delete Message',
+      message: 'Delete this message for everyone? Others will see that a message was deleted.',
+      onConfirm: () => {
+        deleteMessageForEveryone(messageId);
+        setConfirmModal(null);
+      }
+    });
+  };
+
+  const handleThreadReply = (text: string) => {
+    if (!openThreadId) return;
+    addMessage(text, selectedChat?.id, [], openThreadId);
+    if (selectedChat) setManualChatIds(prev => [...prev, selectedChat.id]);
+  };
+
   const handleChatSelect = (chat: User | Group | null) => {
     setSelectedChat(chat);
     setShowMobileChat(true);
@@ -256,6 +323,7 @@ export const Communication: React.FC = () => {
         if (selectedChat?.id === chatId) {
           setSelectedChat(null);
           setShowMobileChat(false);
+          navigate(buildPath({ name: 'chat' }), true);
         }
       }
     });
@@ -275,6 +343,7 @@ export const Communication: React.FC = () => {
         if (selectedChat?.id === groupId) {
           setSelectedChat(null);
           setShowMobileChat(false);
+          navigate(buildPath({ name: 'chat' }), true);
         }
       }
     });
@@ -302,19 +371,19 @@ export const Communication: React.FC = () => {
     setAddMembersSearchTerm('');
   };
 
-  const handleStartCall = () => {
-    if (selectedChat && isUser(selectedChat)) {
-      startCall(selectedChat.id);
+  const startChatCall = (chat: User | Group | null) => {
+    if (chat && isUser(chat)) {
+      startCall(chat.id);
     } else {
       // Team Chat or Group Chat
       let recipients: string[] = [];
 
-      if (!selectedChat) {
+      if (!chat) {
         // Team Chat: Invite all other users
         recipients = users.filter(u => u.id !== currentUser?.id).map(u => u.id);
-      } else if (isGroup(selectedChat)) {
+      } else if (isGroup(chat)) {
         // Group Chat: Invite all other group members
-        recipients = selectedChat.memberIds.filter(id => id !== currentUser?.id);
+        recipients = chat.memberIds.filter(id => id !== currentUser?.id);
       }
 
       if (recipients.length > 0) {
@@ -323,6 +392,8 @@ export const Communication: React.FC = () => {
     }
   };
 
+  const handleStartCall = () => startChatCall(selectedChat);
+
   const handleInviteUser = (userId: string) => {
     addToCall(userId);
     setIsInviteModalOpen(false);
@@ -339,7 +410,7 @@ export const Communication: React.FC = () => {
         setHiddenChatIds(prev => prev.filter(id => id !== user.id));
         // Mark as manually opened
         setManualChatIds(prev => [...prev, user.id]);
-        handleChatSelect(user);
+        openChat(user);
       }
     } else {
       // Group Chat
@@ -347,6 +418,7 @@ export const Communication: React.FC = () => {
       const newGroupId = await createGroup(newGroupName, selectedUserIdsForGroup);
       if (newGroupId) {
         setManualChatIds(prev => [...prev, newGroupId]);
+        navigate(buildPath({ name: 'chat', chatId: newGroupId }));
       }
     }
     setIsNewChatModalOpen(false);
@@ -398,9 +470,31 @@ export const Communication: React.FC = () => {
     return hasHistory;
   };
 
-  // Filter messages based on selection and deleted status
+  const currentHistory = chatHistory[currentChatId];
+  const typingNames = (typingUsers[currentChatId] || [])
+    .filter(id => id !== currentUser?.id)
+    .map(id => users.find(u => u.id === id)?.name.split(' ')[0] || 'Someone');
+
+  // "Seen by" line under the newest message; a direct message has a single reader
+  const getSeenByLabel = (msg: ChatMessage) => {
+    const readerIds = getMessageReaders(msg).filter(id => id !== currentUser?.id);
+    if (readerIds.length === 0) return null;
+    if (selectedChat && isUser(selectedChat)) return 'Seen';
+    const names = readerIds.map(id => users.find(u => u.id === id)?.name.split(' ')[0] || 'Unknown');
+    return names.length > 3 ? `Seen by ${names.slice(0, 3).join(', ')} and ${names.length - 3} more` : `Seen by ${names.join(', ')}`;
+  };
+
+  // Thread replies, keyed by the message they answer
+  const repliesByParent = new Map<string, ChatMessage[]>();
+  messages.forEach(m => {
+    if (!m.parentId || deletedMessageIds.has(m.id)) return;
+    repliesByParent.set(m.parentId, [...(repliesByParent.get(m.parentId) || []), m]);
+  });
+  const threadParent = openThreadId ? messages.find(m => m.id === openThreadId && !deletedMessageIds.has(m.id)) : undefined;
+
+  // Filter messages based on selection and deleted status; replies only show in their thread
   const currentMessages = messages.filter(msg => {
-    if (deletedMessageIds.has(msg.id)) return false;
+    if (deletedMessageIds.has(msg.id) || msg.parentId) return false;
 
     if (!selectedChat) {
       return !msg.recipientId;
@@ -833,7 +927,7 @@ export const Communication: React.FC = () => {
         <div className="flex-1 overflow-y-auto p-2 space-y-1">
           {/* Team Chat Option */}
           <button
-            onClick={() => handleChatSelect(null)}
+            onClick={() => openChat(null)}
             className={`w-full flex items-center p-3 rounded-lg transition-colors ${selectedChat === null ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-white hover:shadow-sm text-slate-700'
               }`}
           >
@@ -856,7 +950,7 @@ export const Communication: React.FC = () => {
               {filteredGroups.map(group => (
                 <div key={group.id} className="relative group/item">
                   <button
-                    onClick={() => handleChatSelect(group)}
+                    onClick={() => openChat(group)}
                     className={`w-full flex items-center p-3 rounded-lg transition-colors ${isGroup(selectedChat) && selectedChat.id === group.id ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-white hover:shadow-sm text-slate-700'
                       }`}
                   >
@@ -936,7 +1030,7 @@ export const Communication: React.FC = () => {
             return (
               <div key={user.id} className="relative group/item">
                 <button
-                  onClick={() => handleChatSelect(user)}
+                  onClick={() => openChat(user)}
                   className={`w-full flex items-center p-3 rounded-lg transition-colors ${isUser(selectedChat) && selectedChat.id === user.id ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-white hover:shadow-sm text-slate-700'
                     }`}
                 >
@@ -959,7 +1053,7 @@ export const Communication: React.FC = () => {
                     </div>
                     <div className={`text-xs truncate ${unread > 0 ? 'font-medium text-slate-800' : 'opacity-70'}`}>
                       {lastMsg
-                        ? (lastMsg.type === 'missed_call' ? '📞 Missed Call' : lastMsg.attachments?.length ? `📎 ${lastMsg.attachments.length} attachment(s)` : lastMsg.text)
+                        ? (lastMsg.type === 'missed_call' ? '📞 Missed Call' : lastMsg.deletedAt ? 'Message deleted' : lastMsg.attachments?.length ? `📎 ${lastMsg.attachments.length} attachment(s)` : lastMsg.text)
                         : 'Start a conversation'}
                     </div>
                   </div>
@@ -1002,7 +1096,7 @@ export const Communication: React.FC = () => {
         <div className="h-16 px-4 border-b border-slate-100 flex justify-between items-center bg-white shrink-0 z-10 shadow-sm relative">
           <div className="flex items-center">
             <button
-              onClick={() => setShowMobileChat(false)}
+              onClick={() => navigate(buildPath({ name: 'chat' }))}
               className="md:hidden mr-2 p-2 -ml-2 text-slate-500 hover:bg-slate-100 rounded-full"
             >
               <ChevronLeft size={20} />
@@ -1269,12 +1363,22 @@ export const Communication: React.FC = () => {
         }
 
         {/* Main Content Area (Messages OR Call Interface Placeholder) */}
-        {/* Messages List - using ref for container */}
-        <div
-          ref={messagesContainerRef}
-          className="flex-1 overflow-y-auto p-4 space-y-2 bg-slate-50/50 min-h-0"
-        >
-          {currentMessages.length === 0 && (
+        {/* Messages List - windowed; older pages load when scrolled to the top */}
+        <VirtualList
+          key={currentChatId}
+          items={currentMessages}
+          getKey={msg => msg.id}
+          onReachTop={() => loadOlderMessages(currentChatId)}
+          scrollToKey={highlightedMessageId}
+          className="flex-1 overflow-y-auto p-4 bg-slate-50/50 min-h-0"
+          header={currentHistory?.isLoading ? (
+            <div className="flex items-center justify-center text-xs text-slate-400 py-2">
+              <Loader2 size={14} className="animate-spin mr-1.5" /> Loading older messages...
+            </div>
+          ) : currentHistory && !currentHistory.hasMore && currentMessages.length > 0 && (
+            <p className="text-center text-[10px] uppercase tracking-wider text-slate-300 py-2">Beginning of conversation</p>
+          )}
+          empty={!currentHistory?.isLoading && (
             <div className="flex flex-col items-center justify-center h-full text-slate-400 opacity-60">
               <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4 text-slate-300">
                 <Send size={24} />
@@ -1283,18 +1387,23 @@ export const Communication: React.FC = () => {
               <p className="text-xs">Say hello to start the conversation!</p>
             </div>
           )}
-
-          {currentMessages.map((msg, idx) => {
+          renderItem={(msg, idx) => {
             const isMe = msg.senderId === currentUser?.id;
             const sender = users.find(u => u.id === msg.senderId);
             const isMissedCall = msg.type === 'missed_call';
+            const replyCount = repliesByParent.get(msg.id)?.length || 0;
+            const isDeleted = !!msg.deletedAt;
+            const isEditing = editingMessage?.id === msg.id;
+            const canEdit = checkMessageEdit(currentUser, msg).allowed;
+            const canDelete = checkMessageDelete(currentUser, msg).allowed;
+            const seenByLabel = idx === currentMessages.length - 1 ? getSeenByLabel(msg) : null;
 
             // Logic for grouping
             const isLastInSequence = idx === currentMessages.length - 1 || currentMessages[idx + 1].senderId !== msg.senderId;
             const isFirstInSequence = idx === 0 || currentMessages[idx - 1].senderId !== msg.senderId;
 
             return (
-              <div key={msg.id} className={`flex ${isMe ? 'justify-end' : 'justify-start'} group mb-1 animate-in slide-in-from-bottom-1 duration-200`}>
+              <div id={`message-${msg.id}`} className={`flex ${isMe ? 'justify-end' : 'justify-start'} group mb-3 animate-in slide-in-from-bottom-1 duration-200 rounded-xl transition-colors ${highlightedMessageId === msg.id ? 'bg-amber-100/70' : ''}`}>
                 <div className={`flex max-w-[85%] md:max-w-[70%] ${isMe ? 'flex-row-reverse' : 'flex-row'} items-end`}>
 
                   {/* Avatar Column */}
@@ -1315,6 +1424,8 @@ export const Communication: React.FC = () => {
                     {/* Message Bubble */}
                     <div className={`px-4 py-2 shadow-sm text-sm leading-relaxed max-w-full break-words ${isMissedCall
                       ? 'bg-red-50 border border-red-100 text-red-800 rounded-2xl'
+                      : isDeleted || isEditing
+                        ? 'bg-white border border-dashed border-slate-200 text-slate-400 rounded-2xl'
                       : isMe
                         ? 'bg-indigo-600 text-white rounded-2xl rounded-tr-sm'
                         : 'bg-white border border-slate-100 text-slate-800 rounded-2xl rounded-tl-sm'
@@ -1326,6 +1437,32 @@ export const Communication: React.FC = () => {
                           </div>
                           <span className="font-medium">Missed Call</span>
                         </div>
+                      ) : isDeleted ? (
+                        <div className="flex items-center italic">
+                          <Ban size={14} className="mr-1.5 shrink-0" />
+                          {msg.deletedBy && msg.deletedBy !== msg.senderId ? 'This message was removed by an admin' : 'This message was deleted'}
+                        </div>
+                      ) : isEditing ? (
+                        <form
+                          onSubmit={e => { e.preventDefault(); saveMessageEdit(); }}
+                          className="flex flex-col items-end space-y-2 min-w-[220px]"
+                        >
+                          <textarea
+                            value={editingMessage.text}
+                            onChange={e => setEditingMessage({ id: msg.id, text: e.target.value })}
+                            onKeyDown={e => {
+                              if (e.key === 'Escape') setEditingMessage(null);
+                              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveMessageEdit(); }
+                            }}
+                            rows={2}
+                            autoFocus
+                            className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-sm text-slate-800 outline-none focus:border-indigo-300 focus:ring-2 focus:ring-indigo-100 resize-none"
+                          />
+                          <div className="flex space-x-2 text-xs">
+                            <button type="button" onClick={() => setEditingMessage(null)} className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded">Cancel</button>
+                            <button type="submit" disabled={!editingMessage.text.trim()} className="px-2 py-1 bg-indigo-600 text-white font-semibold rounded hover:bg-indigo-700 disabled:opacity-50">Save</button>
+                          </div>
+                        </form>
                       ) : (
                         <>
                           {msg.text && <p className="whitespace-pre-wrap">{msg.text}</p>}
@@ -1355,20 +1492,95 @@ export const Communication: React.FC = () => {
                       )}
                     </div>
 
+                    {/* Reactions */}
+                    {!isMissedCall && !isDeleted && (
+                      <ReactionBar
+                        summaries={summarizeReactions(reactions, 'message', msg.id)}
+                        users={users}
+                        currentUserId={currentUser?.id}
+                        onToggle={emoji => toggleReaction('message', msg.id, emoji)}
+                        align={isMe ? 'end' : 'start'}
+                        className="mt-1"
+                      />
+                    )}
+
+                    {/* Replies */}
+                    {replyCount > 0 && (
+                      <button
+                        onClick={() => openThread(msg.id)}
+                        className={`flex items-center mt-1 px-2 py-0.5 rounded-full text-[11px] font-semibold transition-colors ${openThreadId === msg.id ? 'bg-indigo-100 text-indigo-700' : 'text-indigo-600 hover:bg-indigo-50'}`}
+                      >
+                        <MessagesSquare size={12} className="mr-1" />
+                        {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                      </button>
+                    )}
+
                     {/* Timestamp Below */}
-                    <span className={`text-[10px] text-slate-300 mt-1 ${isMe ? 'mr-1' : 'ml-1'}`}>
-                      {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </span>
+                    <div className={`flex items-center mt-1 ${isMe ? 'mr-1 flex-row-reverse' : 'ml-1'}`}>
+                      <span className="text-[10px] text-slate-300">
+                        {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                      {msg.editedAt && !isDeleted && (
+                        <button
+                          onClick={() => setHistoryMessage(msg)}
+                          className="mx-1 text-[10px] text-slate-400 hover:text-indigo-600 hover:underline"
+                          title={`Edited ${new Date(msg.editedAt).toLocaleString()}`}
+                        >
+                          (edited)
+                        </button>
+                      )}
+                      {!isMissedCall && !isDeleted && !isEditing && (
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => openThread(msg.id)}
+                            className="mx-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600"
+                          >
+                            Reply in thread
+                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => setEditingMessage({ id: msg.id, text: msg.text })}
+                              className="mx-1 text-[10px] font-medium text-slate-400 hover:text-indigo-600"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() => confirmDeleteForEveryone(msg.id)}
+                              className="mx-1 text-[10px] font-medium text-slate-400 hover:text-red-600"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Read Receipts */}
+                    {seenByLabel && (
+                      <span className={`flex items-center text-[10px] text-slate-400 mt-0.5 ${isMe ? 'mr-1' : 'ml-1'}`}>
+                        <CheckCheck size={12} className="mr-1 text-indigo-400" /> {seenByLabel}
+                      </span>
+                    )}
 
                   </div>
                 </div>
               </div>
             );
-          })}
-        </div>
+          }}
+        />
 
         {/* Input Area (Same as before) */}
         <div className="p-4 bg-white border-t border-slate-100 flex-shrink-0">
+          {/* Typing Indicator */}
+          {typingNames.length > 0 && (
+            <div className="-mt-2 mb-2 ml-1 text-[11px] text-slate-400 italic">
+              {typingNames.length === 1 ? `${typingNames[0]} is typing…`
+                : typingNames.length === 2 ? `${typingNames[0]} and ${typingNames[1]} are typing…`
+                  : 'Several people are typing…'}
+            </div>
+          )}
           {/* Attachment Previews */}
           {attachments.length > 0 && (
             <div className="flex gap-2 overflow-x-auto mb-3 pb-2">
@@ -1412,7 +1624,11 @@ export const Communication: React.FC = () => {
             <input
               type="text"
               value={inputText}
-              onChange={e => setInputText(e.target.value)}
+              onChange={e => {
+                setInputText(e.target.value);
+                setTyping(currentChatId, e.target.value.trim().length > 0);
+              }}
+              onBlur={() => setTyping(currentChatId, false)}
               placeholder={`Message ${selectedChat ? selectedChat.name.split(' ')[0] : 'Team'}...`}
               className="flex-1 bg-transparent border-none outline-none focus:ring-0 text-sm text-slate-800 placeholder-slate-400 py-3 max-h-32"
             />
@@ -1431,6 +1647,23 @@ export const Communication: React.FC = () => {
         </div>
       </div >
 
+      {/* Thread Panel */}
+      {openThreadId && (
+        <MessageThread
+          key={openThreadId}
+          parent={threadParent}
+          replies={repliesByParent.get(openThreadId) || []}
+          users={users}
+          reactions={reactions}
+          currentUserId={currentUser?.id}
+          onToggleReaction={(messageId, emoji) => toggleReaction('message', messageId, emoji)}
+          chatName={selectedChat ? selectedChat.name : 'Team Chat'}
+          onSend={handleThreadReply}
+          onClose={() => openThread(undefined)}
+          onOpenAttachment={setPreviewAttachment}
+        />
+      )}
+
       {/* New Chat Modal (No changes here) */}
       < Modal
         isOpen={isNewChatModalOpen}
@@ -1519,6 +1752,30 @@ export const Communication: React.FC = () => {
           </div>
         </div>
       </Modal >
+      {/* Edit History Modal */}
+      <Modal
+        isOpen={!!historyMessage}
+        onClose={() => setHistoryMessage(null)}
+        title="Edit History"
+        maxWidth="max-w-md"
+      >
+        {historyMessage && (
+          <div className="p-6 space-y-3">
+            {[...(historyMessage.revisions || []), { text: historyMessage.text, timestamp: historyMessage.editedAt ?? historyMessage.timestamp }]
+              .reverse()
+              .map((revision, i) => (
+                <div key={i} className={`p-3 rounded-lg border ${i === 0 ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+                  <div className="flex justify-between text-[10px] uppercase tracking-wider text-slate-400 mb-1">
+                    <span>{i === 0 ? 'Current' : i === (historyMessage.revisions || []).length ? 'Original' : 'Earlier version'}</span>
+                    <span>{new Date(revision.timestamp).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{revision.text || <span className="italic text-slate-400">No text</span>}</p>
+                </div>
+              ))}
+          </div>
+        )}
+      </Modal>
+
       <Modal
         isOpen={!!previewAttachment}
         onClose={() => setPreviewAttachment(null)}
@@ -1,12 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useApp } from '../store';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid, LineChart, Line } from 'recharts';
 import {
   CheckCircle2, Circle, Clock, ListTodo, Plus, Trash2,
-  Layout, BarChart3, PieChart as PieChartIcon, X, AlertTriangle, Bug, BookOpen, User as UserIcon, Check
+  Layout, BarChart3, PieChart as PieChartIcon, X, AlertTriangle, Bug, BookOpen, User as UserIcon, Check,
+  TrendingDown, Gauge
 } from 'lucide-react';
-import { TaskStatus, TaskCategory, DashboardWidget, WidgetType, ChartType, GroupBy, ColorTheme, WidgetFilter } from '../types';
+import { Task, TaskStatus, TaskCategory, DashboardWidget, WidgetType, ChartType, GroupBy, ColorTheme, WidgetFilter } from '../types';
 import { Modal } from '../components/Modal';
+import { canReadProject } from '../policy';
+import { STATUS_COLORS, getProjectWorkflow, getStatusLabel, getStatusColor, matchesStatusFilter, mergeWorkflows } from '../workflow';
+import { getProjectLabels, resolveLabels } from '../labels';
+import { getFieldValueLabels, getTaskFieldValue, mergeCustomFields } from '../customFields';
+import { getActiveSprint, getProjectSprints } from '../sprints';
+import { PROJECT_BURNDOWN_DAYS, VELOCITY_WEEKS, buildBurndown, buildVelocity } from '../estimates';
+import { addDaysToDateOnly, toDateOnly } from '../dateUtils';
 
 const COLORS = {
   blue: '#3b82f6',
@@ -39,18 +47,28 @@ const ICON_MAP: Record<string, React.ElementType> = {
   'user': UserIcon
 };
 
+const DEFAULT_WIDGET_TITLES: Record<WidgetType, string> = {
+  card: 'New Metric',
+  chart: 'New Chart',
+  burndown: 'Burndown',
+  velocity: 'Velocity'
+};
+
 // --- Default Configuration ---
 const DEFAULT_WIDGETS: DashboardWidget[] = [
   { id: 'w1', type: 'card', title: 'Total Tasks', icon: 'list', colorTheme: 'indigo', filter: { status: 'all', priority: 'all', category: 'all' } },
   { id: 'w2', type: 'card', title: 'In Progress', icon: 'clock', colorTheme: 'blue', filter: { status: TaskStatus.IN_PROGRESS, priority: 'all', category: 'all' } },
-  { id: 'w3', type: 'card', title: 'Completed', icon: 'check', colorTheme: 'green', filter: { status: TaskStatus.DONE, priority: 'all', category: 'all' } },
+  { id: 'w3', type: 'card', title: 'Completed', icon: 'check', colorTheme: 'green', filter: { status: 'done', priority: 'all', category: 'all' } },
   { id: 'w4', type: 'card', title: 'Pending', icon: 'circle', colorTheme: 'slate', filter: { status: TaskStatus.TODO, priority: 'all', category: 'all' } },
   { id: 'w5', type: 'chart', title: 'Task Status Distribution', chartType: 'pie', groupBy: 'status' },
   { id: 'w6', type: 'chart', title: 'Tasks by Priority', chartType: 'bar', groupBy: 'priority' },
 ];
 
 export const Dashboard: React.FC = () => {
-  const { tasks, currentUser, users, updateUser } = useApp();
+  const { tasks, currentUser, users, updateUser, projects, sprints } = useApp();
+  const readableProjects = projects.filter(p => canReadProject(currentUser, p.id));
+  const filterStatuses = mergeWorkflows(readableProjects);
+  const customFields = mergeCustomFields(readableProjects);
 
   // State initialization from current user config or defaults
   const [widgets, setWidgets] = useState<DashboardWidget[]>(
@@ -72,6 +90,11 @@ export const Dashboard: React.FC = () => {
   // Chart Form
   const [newChartType, setNewChartType] = useState<ChartType>('pie');
   const [newChartGroup, setNewChartGroup] = useState<GroupBy>('status');
+  const [newChartField, setNewChartField] = useState('');
+
+  // Burndown / Velocity Form ('active' follows whichever sprint is running)
+  const [newWidgetProject, setNewWidgetProject] = useState<string>('all');
+  const [newWidgetSprint, setNewWidgetSprint] = useState<string>('active');
 
   // Sync with DB if user updates come in
   useEffect(() => {
@@ -97,32 +120,52 @@ export const Dashboard: React.FC = () => {
     if (!filter) return 0;
     return tasks.filter(t => {
       // Permission Check
-      if (currentUser?.role !== 'ADMIN') {
-        const accessLevel = currentUser?.projectAccess?.[t.projectId] || 'none';
-        if (accessLevel === 'none') return false;
-      }
+      if (!canReadProject(currentUser, t.projectId)) return false;
 
-      if (filter.status !== 'all' && t.status !== filter.status) return false;
+      if (!matchesStatusFilter(getProjectWorkflow(projects, t.projectId), t.status, filter.status)) return false;
       if (filter.priority !== 'all' && t.priority !== filter.priority) return false;
       if (filter.category !== 'all' && t.category !== filter.category) return false;
+      if (filter.customField && filter.customFieldValue) {
+        const value = filter.customFieldValue.toLowerCase();
+        if (!getCustomFieldLabels(t, filter.customField).some(l => l.toLowerCase() === value)) return false;
+      }
       return true;
     }).length;
   };
 
-  const calculateChartData = (groupBy: GroupBy | undefined) => {
+  // Display values of the task's field with this name; empty when unset or not defined in its project
+  const getCustomFieldLabels = (task: Task, name: string) => {
+    const entry = getTaskFieldValue(projects, task, name);
+    return entry ? getFieldValueLabels(entry.field, entry.value, users) : [];
+  };
+
+  // Values seen on readable tasks plus the choices of select fields, for the card filter
+  const getCustomFieldValueOptions = (name: string) => {
+    const values = new Set<string>();
+    readableProjects.forEach(p => (p.customFields || [])
+      .filter(f => f.name.trim().toLowerCase() === name.trim().toLowerCase())
+      .forEach(f => (f.options || []).forEach(o => values.add(o))));
+    tasks.forEach(t => {
+      if (canReadProject(currentUser, t.projectId)) getCustomFieldLabels(t, name).forEach(l => values.add(l));
+    });
+    return Array.from(values).sort((a, b) => a.localeCompare(b));
+  };
+
+  const calculateChartData = (groupBy: GroupBy | undefined, customField?: string) => {
     if (!groupBy) return [];
     const counts: Record<string, number> = {};
+    const statusColors: Record<string, string> = {};
 
     tasks.forEach(t => {
       // Permission Check
-      if (currentUser?.role !== 'ADMIN') {
-        const accessLevel = currentUser?.projectAccess?.[t.projectId] || 'none';
-        if (accessLevel === 'none') return;
-      }
+      if (!canReadProject(currentUser, t.projectId)) return;
 
       let key = 'Unknown';
       if (groupBy === 'status') {
-        key = t.status === TaskStatus.TODO ? 'To Do' : t.status === TaskStatus.IN_PROGRESS ? 'In Progress' : 'Done';
+        // Grouped by column name so projects sharing a column name share a slice
+        const workflow = getProjectWorkflow(projects, t.projectId);
+        key = getStatusLabel(workflow, t.status);
+        statusColors[key] = statusColors[key] || getStatusColor(workflow, t.status).hex;
       } else if (groupBy === 'priority') {
         key = t.priority.charAt(0).toUpperCase() + t.priority.slice(1);
       } else if (groupBy === 'category') {
@@ -130,6 +173,26 @@ export const Dashboard: React.FC = () => {
       } else if (groupBy === 'assignee') {
         const u = users.find(u => u.id === t.assigneeId);
         key = u ? u.name.split(' ')[0] : 'Unassigned';
+      } else if (groupBy === 'label') {
+        // Grouped by label name across projects; a task counts once for every label it carries
+        const labels = resolveLabels(getProjectLabels(projects, t.projectId), t.labelIds);
+        if (labels.length > 0) {
+          labels.forEach(l => {
+            counts[l.name] = (counts[l.name] || 0) + 1;
+            statusColors[l.name] = statusColors[l.name] || (STATUS_COLORS[l.color] || STATUS_COLORS.slate).hex;
+          });
+          return;
+        }
+        key = 'No label';
+      } else if (groupBy === 'custom_field') {
+        // Only projects defining the field take part; multi-select values count once per option
+        if (!customField || !getTaskFieldValue(projects, t, customField)) return;
+        const labels = getCustomFieldLabels(t, customField);
+        if (labels.length > 0) {
+          labels.forEach(l => { counts[l] = (counts[l] || 0) + 1; });
+          return;
+        }
+        key = 'No value';
       }
       counts[key] = (counts[key] || 0) + 1;
     });
@@ -138,32 +201,56 @@ export const Dashboard: React.FC = () => {
       name: k,
       value: counts[k],
       // Assign specific colors for common keys if pie chart
-      color: k === 'To Do' ? COLORS.slate :
-        k === 'In Progress' ? COLORS.blue :
-          k === 'Done' ? COLORS.green :
-            k === 'High' ? COLORS.red :
-              k === 'Medium' ? COLORS.orange :
-                k === 'Low' ? COLORS.blue :
-                  // Random fallback from palette
-                  Object.values(COLORS)[Math.floor(Math.random() * Object.values(COLORS).length)]
+      color: statusColors[k] ? statusColors[k] :
+        k === 'High' ? COLORS.red :
+          k === 'Medium' ? COLORS.orange :
+            k === 'Low' ? COLORS.blue :
+              // Random fallback from palette
+              Object.values(COLORS)[Math.floor(Math.random() * Object.values(COLORS).length)]
     }));
   };
 
+  const getWidgetTasks = (projectId: string | undefined) => tasks.filter(t =>
+    canReadProject(currentUser, t.projectId) && (!projectId || projectId === 'all' || t.projectId === projectId)
+  );
+
+  // Sprint burndowns span the sprint; otherwise the last PROJECT_BURNDOWN_DAYS days
+  const calculateBurndown = (widget: DashboardWidget) => {
+    const projectId = widget.projectId && widget.projectId !== 'all' ? widget.projectId : undefined;
+    if (projectId && widget.sprintId) {
+      const sprint = widget.sprintId === 'active'
+        ? getActiveSprint(sprints, projectId)
+        : sprints.find(s => s.id === widget.sprintId);
+      if (!sprint) return { data: [], caption: 'No active sprint' };
+      const sprintTasks = tasks.filter(t => t.sprintId === sprint.id);
+      return { data: buildBurndown(sprintTasks, projects, sprint.startDate, sprint.endDate, true), caption: sprint.name };
+    }
+    const today = toDateOnly(new Date());
+    return {
+      data: buildBurndown(getWidgetTasks(projectId), projects, addDaysToDateOnly(today, 1 - PROJECT_BURNDOWN_DAYS), today, false),
+      caption: `Last ${PROJECT_BURNDOWN_DAYS} days`
+    };
+  };
+
   const handleAddWidget = () => {
     const newId = 'w-' + Date.now();
     const widget: DashboardWidget = {
       id: newId,
       type: newWidgetType,
-      title: newWidgetTitle || (newWidgetType === 'card' ? 'New Metric' : 'New Chart'),
+      title: newWidgetTitle || DEFAULT_WIDGET_TITLES[newWidgetType],
     };
 
     if (newWidgetType === 'card') {
       widget.icon = newWidgetIcon;
       widget.colorTheme = newWidgetTheme;
       widget.filter = newWidgetFilter;
-    } else {
+    } else if (newWidgetType === 'chart') {
       widget.chartType = newChartType;
       widget.groupBy = newChartGroup;
+      if (newChartGroup === 'custom_field') widget.customField = newChartField;
+    } else {
+      widget.projectId = newWidgetProject;
+      if (newWidgetType === 'burndown' && newWidgetProject !== 'all' && newWidgetSprint) widget.sprintId = newWidgetSprint;
     }
 
     const updatedWidgets = [...widgets, widget];
@@ -184,10 +271,14 @@ export const Dashboard: React.FC = () => {
   const resetForm = () => {
     setNewWidgetTitle('');
     setNewWidgetFilter({ status: 'all', priority: 'all', category: 'all' });
+    setNewChartGroup('status');
+    setNewChartField('');
+    setNewWidgetProject('all');
+    setNewWidgetSprint('active');
   };
 
   const cards = widgets.filter(w => w.type === 'card');
-  const charts = widgets.filter(w => w.type === 'chart');
+  const charts = widgets.filter(w => w.type !== 'card');
 
   return (
     <div className="p-6 space-y-6 animate-in fade-in duration-500 pb-24 md:pb-6">
@@ -271,13 +362,43 @@ export const Dashboard: React.FC = () => {
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {charts.map(widget => {
-          const data = calculateChartData(widget.groupBy);
+          const data = widget.type === 'chart' ? calculateChartData(widget.groupBy, widget.customField) : [];
+          const burndown = widget.type === 'burndown' ? calculateBurndown(widget) : null;
+          const velocity = widget.type === 'velocity' ? buildVelocity(getWidgetTasks(widget.projectId), projects) : [];
+          const averageVelocity = velocity.length ? Math.round(velocity.reduce((sum, w) => sum + w.value, 0) / velocity.length * 10) / 10 : 0;
+          const widgetProject = projects.find(p => p.id === widget.projectId);
           return (
             <div key={widget.id} className="relative group bg-white p-6 rounded-xl shadow-sm border border-slate-100 animate-in slide-in-from-bottom-2 duration-500">
-              <h3 className="text-lg font-semibold text-slate-800 mb-4">{widget.title}</h3>
+              <div className="flex items-baseline justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-slate-800">{widget.title}</h3>
+                {widget.type === 'burndown' && burndown && (
+                  <span className="text-xs text-slate-400 truncate">{widgetProject ? `${widgetProject.name} · ` : ''}{burndown.caption}</span>
+                )}
+                {widget.type === 'velocity' && (
+                  <span className="text-xs text-slate-400 truncate">{widgetProject ? `${widgetProject.name} · ` : ''}avg {averageVelocity} pts/week</span>
+                )}
+              </div>
               <div className="h-64">
                 <ResponsiveContainer width="100%" height="100%">
-                  {widget.chartType === 'pie' ? (
+                  {widget.type === 'burndown' && burndown ? (
+                    <LineChart data={burndown.data} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="label" axisLine={false} tickLine={false} fontSize={12} minTickGap={16} />
+                      <YAxis axisLine={false} tickLine={false} fontSize={12} allowDecimals={false} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="ideal" name="Ideal" stroke={COLORS.slate} strokeDasharray="5 5" dot={false} />
+                      <Line type="monotone" dataKey="remaining" name="Remaining points" stroke={COLORS.indigo} strokeWidth={2} dot={false} connectNulls={false} />
+                    </LineChart>
+                  ) : widget.type === 'velocity' ? (
+                    <BarChart data={velocity} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={12} />
+                      <YAxis axisLine={false} tickLine={false} fontSize={12} allowDecimals={false} />
+                      <Tooltip cursor={{ fill: '#f8fafc' }} formatter={(value: number) => [`${value} pts`, 'Completed']} />
+                      <Bar dataKey="value" fill={COLORS.green} radius={[4, 4, 0, 0]} barSize={28} />
+                    </BarChart>
+                  ) : widget.chartType === 'pie' ? (
                     <PieChart>
                       <Pie
                         data={data}
@@ -356,6 +477,20 @@ export const Dashboard: React.FC = () => {
               <BarChart3 size={32} className="mb-2" />
               <span className="font-semibold text-sm">Chart</span>
             </button>
+            <button
+              onClick={() => setNewWidgetType('burndown')}
+              className={`p-4 rounded-xl border-2 flex flex-col items-center transition-all ${newWidgetType === 'burndown' ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 hover:border-slate-300'}`}
+            >
+              <TrendingDown size={32} className="mb-2" />
+              <span className="font-semibold text-sm">Burndown</span>
+            </button>
+            <button
+              onClick={() => setNewWidgetType('velocity')}
+              className={`p-4 rounded-xl border-2 flex flex-col items-center transition-all ${newWidgetType === 'velocity' ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 hover:border-slate-300'}`}
+            >
+              <Gauge size={32} className="mb-2" />
+              <span className="font-semibold text-sm">Velocity</span>
+            </button>
           </div>
 
           {/* Common Fields */}
@@ -365,7 +500,7 @@ export const Dashboard: React.FC = () => {
               type="text"
               value={newWidgetTitle}
               onChange={e => setNewWidgetTitle(e.target.value)}
-              placeholder={newWidgetType === 'card' ? 'e.g. Critical Bugs' : 'e.g. Workload by Assignee'}
+              placeholder={newWidgetType === 'card' ? 'e.g. Critical Bugs' : newWidgetType === 'chart' ? 'e.g. Workload by Assignee' : DEFAULT_WIDGET_TITLES[newWidgetType]}
               className="w-full px-3 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
             />
           </div>
@@ -416,9 +551,11 @@ export const Dashboard: React.FC = () => {
                     className="w-full px-2 py-1.5 border border-slate-200 rounded text-sm outline-none"
                   >
                     <option value="all">All Statuses</option>
-                    <option value={TaskStatus.TODO}>To Do</option>
-                    <option value={TaskStatus.IN_PROGRESS}>In Progress</option>
-                    <option value={TaskStatus.DONE}>Done</option>
+                    <option value="open">Any Open Column</option>
+                    <option value="done">Any Done Column</option>
+                    {filterStatuses.map(s => (
+                      <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -450,7 +587,71 @@ export const Dashboard: React.FC = () => {
                     <option value={TaskCategory.STORY}>Story</option>
                   </select>
                 </div>
+
+                {customFields.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Custom Field</label>
+                      <select
+                        value={newWidgetFilter.customField || ''}
+                        onChange={e => setNewWidgetFilter({ ...newWidgetFilter, customField: e.target.value || undefined, customFieldValue: undefined })}
+                        className="w-full px-2 py-1.5 border border-slate-200 rounded text-sm outline-none"
+                      >
+                        <option value="">Any</option>
+                        {customFields.map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Value</label>
+                      <select
+                        value={newWidgetFilter.customFieldValue || ''}
+                        onChange={e => setNewWidgetFilter({ ...newWidgetFilter, customFieldValue: e.target.value || undefined })}
+                        disabled={!newWidgetFilter.customField}
+                        className="w-full px-2 py-1.5 border border-slate-200 rounded text-sm outline-none disabled:opacity-50"
+                      >
+                        <option value="">Any</option>
+                        {newWidgetFilter.customField && getCustomFieldValueOptions(newWidgetFilter.customField).map(v => (
+                          <option key={v} value={v}>{v}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : newWidgetType === 'burndown' || newWidgetType === 'velocity' ? (
+            // Burndown / Velocity Options
+            <div className="space-y-4 animate-in fade-in">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Project</label>
+                <select
+                  value={newWidgetProject}
+                  onChange={e => { setNewWidgetProject(e.target.value); setNewWidgetSprint('active'); }}
+                  className="w-full px-3 py-2 border border-slate-200 rounded-lg outline-none"
+                >
+                  <option value="all">All Projects</option>
+                  {readableProjects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
               </div>
+              {newWidgetType === 'burndown' && newWidgetProject !== 'all' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">Scope</label>
+                  <select
+                    value={newWidgetSprint}
+                    onChange={e => setNewWidgetSprint(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg outline-none"
+                  >
+                    <option value="active">Current Sprint</option>
+                    <option value="">Whole Project (last {PROJECT_BURNDOWN_DAYS} days)</option>
+                    {getProjectSprints(sprints, newWidgetProject).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+              )}
+              <p className="text-xs text-slate-500">
+                {newWidgetType === 'burndown'
+                  ? 'Remaining story points per day. Tasks without points count their subtasks\' points.'
+                  : `Story points completed per week over the last ${VELOCITY_WEEKS} weeks.`}
+              </p>
             </div>
           ) : (
             // Chart Specific Options
@@ -478,14 +679,25 @@ export const Dashboard: React.FC = () => {
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-2">Group Data By</label>
                 <select
-                  value={newChartGroup}
-                  onChange={e => setNewChartGroup(e.target.value as GroupBy)}
+                  value={newChartGroup === 'custom_field' ? `custom_field:${newChartField}` : newChartGroup}
+                  onChange={e => {
+                    // Custom fields are listed as "custom_field:<name>"
+                    const [group, ...name] = e.target.value.split(':');
+                    setNewChartGroup(group as GroupBy);
+                    setNewChartField(name.join(':'));
+                  }}
                   className="w-full px-3 py-2 border border-slate-200 rounded-lg outline-none"
                 >
                   <option value="status">Task Status</option>
                   <option value="priority">Task Priority</option>
                   <option value="category">Task Category</option>
                   <option value="assignee">Assignee</option>
+                  <option value="label">Label</option>
+                  {customFields.length > 0 && (
+                    <optgroup label="Custom Fields">
+                      {customFields.map(f => <option key={f.id} value={`custom_field:${f.name}`}>{f.name}</option>)}
+                    </optgroup>
+                  )}
                 </select>
               </div>
             </div>
@@ -1,16 +1,38 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useApp } from '../store';
-import { supabase } from '../supabaseClient';
-import { Task, TaskStatus, SubTask, Attachment, Comment, User, UserRole, NotificationType, TaskCategory, Project } from '../types';
+import { repository } from '../data';
+import { canReadProject, canWriteProject } from '../policy';
+import { Task, SubTask, Attachment, Comment, User, UserRole, NotificationType, TaskCategory, Project, WorkflowStatus, TaskLink, TaskLinkType, Sprint, TimeEntry, SavedView, SavedViewConfig, TaskSort, TaskSortField, TaskViewMode, CustomFieldDefinition, CustomFieldValue } from '../types';
+import { addDays, addDaysToDateOnly, diffInDays, parseDateOnly, startOfDay, toDateOnly } from '../dateUtils';
+import { LINK_TYPE_LABELS, checkBlockerCycle, getOpenBlockers, getTaskLinks, isTaskBlocked } from '../taskLinks';
+import { findStatus, firstStatusOf, getProjectWorkflow, getStatusColor, getStatusLabel, getWorkflow, isDoneStatus, mergeWorkflows, requiresTransitionReason } from '../workflow';
+import { getNextSprint, getProjectSprints, getUnfinishedSprintTasks, matchesSprintFilter } from '../sprints';
+import { STORY_POINT_SCALE, getTaskPoints } from '../estimates';
+import { formatDuration, getTaskLoggedMinutes } from '../timeTracking';
+import { TaskQueryContext, compileTaskQuery } from '../taskQuery';
+import { getProjectLabels, resolveLabels } from '../labels';
+import { formatFieldValue, getProjectCustomFields, getTaskFieldValue, mergeCustomFields } from '../customFields';
+import { summarizeReactions } from '../reactions';
 import {
   Pencil, Plus, CheckSquare, Square, LockKeyhole,
   X, Calendar, Clock, Paperclip, Trash2, Send,
   Minus, FileText, Download, Share2, ChevronDown, ChevronUp, Eye,
   Bookmark, AlertTriangle, Bug, BookOpen, CheckCircle2, Check, User as UserIcon,
-  LayoutGrid, List, Search, SlidersHorizontal, ArrowUpDown, MoreVertical, Settings,
-  Link as LinkIcon, Circle
+  LayoutGrid, List, SlidersHorizontal, ArrowUpDown, MoreVertical, Settings,
+  Link as LinkIcon, Circle, Ban, GanttChart, Layers, Play, Flag
 } from 'lucide-react';
 import { Modal } from '../components/Modal';
+import { buildPath, navigate } from '../routes';
+import { TaskQueryInput } from '../components/TaskQueryInput';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { LabelChips, LabelPicker } from '../components/TaskLabels';
+import { CustomFieldInput } from '../components/CustomFieldInput';
+import { ReactionBar } from '../components/ReactionBar';
+import { TaskFilterSelects } from '../components/TaskFilterSelects';
+import { TaskTimerButton } from '../components/TaskTimerButton';
+import { TimeEntriesSection } from '../components/TimeEntriesSection';
+import { matchesTaskFilters, sortTasks } from '../taskFilters';
+import { DEFAULT_TASK_SORT, DEFAULT_VIEW_CONFIG, VIEW_URL_PARAM, withViewDefaults } from '../savedViews';
 
 // --- Category Helpers ---
 const CATEGORY_STYLES = {
@@ -92,16 +114,18 @@ const TaskCardItem: React.FC<{
     };
   }, [isAssigning, assigningSubtaskId]);
 
-  const { currentUser } = useApp();
-  const hasProjectWrite = currentUser?.role === 'ADMIN' || (currentUser?.projectAccess?.[task.projectId] === 'write');
+  const { currentUser, projects, tasks } = useApp();
+  const workflow = getProjectWorkflow(projects, task.projectId);
+  const linkCount = getTaskLinks(task, tasks).length;
+  const openBlockers = getOpenBlockers(task, tasks, projects);
+  const hasProjectWrite = canWriteProject(currentUser, task.projectId);
   // Allow editing for admins or anyone with write OR read access (as per requirements to change state/assignee/comments)
-  const hasAccess = currentUser?.role === 'ADMIN' || (currentUser?.projectAccess?.[task.projectId] !== undefined && currentUser?.projectAccess?.[task.projectId] !== 'none');
-  const isEditable = canEdit && hasAccess;
+  const isEditable = canEdit && hasProjectWrite;
 
   const toggleSubtaskCompletion = (subtaskId: string) => {
     if (!isEditable) return;
     const updatedSubtasks = task.subtasks.map(s =>
-      s.id === subtaskId ? { ...s, completed: !s.completed, status: !s.completed ? TaskStatus.DONE : TaskStatus.TODO } : s
+      s.id === subtaskId ? { ...s, completed: !s.completed, status: firstStatusOf(workflow, !s.completed ? 'done' : 'open') } : s
     );
     onUpdateTask({ ...task, subtasks: updatedSubtasks });
   };
@@ -150,10 +174,28 @@ const TaskCardItem: React.FC<{
           <span className={`px-2 py-0.5 rounded-lg text-[10px] font-bold border capitalize ${priorityStyle}`}>
             {task.priority}
           </span>
+          {getTaskPoints(task) > 0 && (
+            <span className="px-1.5 py-0.5 rounded-lg text-[10px] font-bold border bg-indigo-50 text-indigo-600 border-indigo-100" title="Story points">
+              {getTaskPoints(task)} pts
+            </span>
+          )}
+          {openBlockers.length > 0 ? (
+            <span
+              className="flex items-center px-1.5 py-0.5 rounded-lg text-[10px] font-bold border bg-red-50 text-red-600 border-red-100"
+              title={`Blocked by ${openBlockers.map(b => b.title).join(', ')}`}
+            >
+              <Ban size={10} className="mr-1" /> Blocked
+            </span>
+          ) : linkCount > 0 && (
+            <span className="flex items-center px-1.5 py-0.5 rounded-lg text-[10px] font-bold border bg-slate-50 text-slate-500 border-slate-200" title={`${linkCount} linked task${linkCount > 1 ? 's' : ''}`}>
+              <LinkIcon size={10} className="mr-1" /> {linkCount}
+            </span>
+          )}
         </div>
 
         {/* Fixed visibility for action buttons */}
         <div className="flex items-center space-x-1">
+          <TaskTimerButton task={task} compact />
           <button
             onClick={(e) => { e.stopPropagation(); setIsExpanded(!isExpanded); }}
             className="text-slate-400 hover:text-indigo-600 p-1.5 rounded-md hover:bg-slate-50 transition-colors"
@@ -178,6 +220,7 @@ const TaskCardItem: React.FC<{
           <h4 className="font-semibold text-slate-800 text-sm leading-snug break-words">
             {task.title}
           </h4>
+          <LabelChips labels={resolveLabels(getProjectLabels(projects, task.projectId), task.labelIds)} className="mt-1.5" />
 
           {/* Due Date moved below title */}
           {task.dueDate && (
@@ -353,13 +396,12 @@ const TaskCardItem: React.FC<{
 
 // --- KanbanColumn Component ---
 interface ColumnProps {
-  status: TaskStatus;
-  title: string;
+  column: WorkflowStatus;
   tasks: Task[];
   canEdit: boolean;
   users: User[];
   onDragOver: (e: React.DragEvent) => void;
-  onDrop: (e: React.DragEvent, status: TaskStatus, index?: number) => void;
+  onDrop: (e: React.DragEvent, status: string, index?: number) => void;
   onDragStart: (e: React.DragEvent, taskId: string) => void;
   onEditTask: (task: Task) => void;
   onEditSubtask: (task: Task, subtask: SubTask) => void;
@@ -367,7 +409,7 @@ interface ColumnProps {
 }
 
 const KanbanColumn: React.FC<ColumnProps> = ({
-  status, title, tasks, canEdit, users,
+  column, tasks, canEdit, users,
   onDragOver, onDrop, onDragStart, onEditTask, onEditSubtask, onUpdateTask
 }) => {
   const sortedTasks = [...tasks].sort((a, b) => (a.order || 0) - (b.order || 0));
@@ -376,24 +418,31 @@ const KanbanColumn: React.FC<ColumnProps> = ({
     const targetIndex = sortedTasks.findIndex(t => t.id === targetTaskId);
     if (targetIndex === -1) return;
     const newIndex = position === 'before' ? targetIndex : targetIndex + 1;
-    onDrop(e, status, newIndex);
+    onDrop(e, column.id, newIndex);
   };
   return (
     <div
       onDragOver={onDragOver}
-      onDrop={(e) => onDrop(e, status)}
+      onDrop={(e) => onDrop(e, column.id)}
       className="bg-slate-50/50 p-4 rounded-xl min-h-[500px] flex flex-col border border-slate-100 md:h-full"
     >
       <div className="flex justify-between items-center mb-4 sticky top-0 bg-slate-50/50 backdrop-blur-sm p-1 z-10">
         <h3 className="font-bold text-slate-700 flex items-center text-sm uppercase tracking-wide">
-          <span className={`w-2.5 h-2.5 rounded-full mr-2.5 shadow-sm ${status === TaskStatus.TODO ? 'bg-slate-400' :
-            status === TaskStatus.IN_PROGRESS ? 'bg-blue-500' : 'bg-emerald-500'
-            }`}></span>
-          {title}
+          <span className={`w-2.5 h-2.5 rounded-full mr-2.5 shadow-sm ${getStatusColor([column], column.id).dot}`}></span>
+          {column.name}
         </h3>
-        <span className="text-xs text-slate-500 font-bold px-2.5 py-1 bg-white rounded-lg border border-slate-200 shadow-sm">
-          {tasks.length}
-        </span>
+        {column.wipLimit ? (
+          <span
+            title={`WIP limit: ${column.wipLimit} per project`}
+            className={`text-xs font-bold px-2.5 py-1 rounded-lg border shadow-sm ${tasks.length >= column.wipLimit ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white text-slate-500 border-slate-200'}`}
+          >
+            {tasks.length} / {column.wipLimit}
+          </span>
+        ) : (
+          <span className="text-xs text-slate-500 font-bold px-2.5 py-1 bg-white rounded-lg border border-slate-200 shadow-sm">
+            {tasks.length}
+          </span>
+        )}
       </div>
       <div className="space-y-4 flex-1 overflow-y-auto pr-1 pb-2 custom-scrollbar [&::-webkit-scrollbar]:hidden [scrollbar-width:none]">
         {sortedTasks.map(task => (
@@ -426,9 +475,31 @@ interface ListViewProps {
   users: User[];
   onEditTask: (task: Task) => void;
   visibleColumns: string[];
+  customFields: CustomFieldDefinition[]; // Extra columns, matched to each task's project by name
+  sort: TaskSort;
+  onSortChange: (sort: TaskSort) => void;
 }
 
-const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleColumns }) => {
+const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleColumns, customFields, sort, onSortChange }) => {
+  const { projects, tasks: allTasks } = useApp();
+
+  // Clicking a header sorts ascending, then descending, then back to the board order
+  const toggleSort = (field: TaskSortField) => {
+    if (sort.field !== field) onSortChange({ field, direction: 'asc' });
+    else if (sort.direction === 'asc') onSortChange({ field, direction: 'desc' });
+    else onSortChange(DEFAULT_TASK_SORT);
+  };
+
+  const SortHeader = ({ field, label, className = '' }: { field: TaskSortField, label: string, className?: string }) => (
+    <th className={`px-6 py-4 font-semibold text-slate-700 ${className}`}>
+      <button onClick={() => toggleSort(field)} className={`inline-flex items-center hover:text-indigo-600 ${sort.field === field ? 'text-indigo-600' : ''}`}>
+        {label}
+        {sort.field === field
+          ? (sort.direction === 'asc' ? <ChevronUp size={14} className="ml-1" /> : <ChevronDown size={14} className="ml-1" />)
+          : <ArrowUpDown size={12} className="ml-1 text-slate-300" />}
+      </button>
+    </th>
+  );
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col min-h-0">
@@ -436,19 +507,24 @@ const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleCo
         <table className="w-full text-left text-sm border-collapse">
           <thead className="bg-slate-50 border-b border-slate-200 sticky top-0 z-10">
             <tr>
-              <th className="px-6 py-4 font-semibold text-slate-700 w-1/3">Title</th>
-              {visibleColumns.includes('status') && <th className="px-6 py-4 font-semibold text-slate-700">Status</th>}
-              {visibleColumns.includes('priority') && <th className="px-6 py-4 font-semibold text-slate-700">Priority</th>}
-              {visibleColumns.includes('category') && <th className="px-6 py-4 font-semibold text-slate-700">Category</th>}
-              {visibleColumns.includes('assignee') && <th className="px-6 py-4 font-semibold text-slate-700">Assignee</th>}
-              {visibleColumns.includes('dueDate') && <th className="px-6 py-4 font-semibold text-slate-700">Due Date</th>}
-              {visibleColumns.includes('created') && <th className="px-6 py-4 font-semibold text-slate-700 text-right">Created</th>}
+              <SortHeader field="title" label="Title" className="w-1/3" />
+              {visibleColumns.includes('status') && <SortHeader field="status" label="Status" />}
+              {visibleColumns.includes('priority') && <SortHeader field="priority" label="Priority" />}
+              {visibleColumns.includes('category') && <SortHeader field="category" label="Category" />}
+              {visibleColumns.includes('assignee') && <SortHeader field="assignee" label="Assignee" />}
+              {visibleColumns.includes('dueDate') && <SortHeader field="dueDate" label="Due Date" />}
+              {customFields.map(field => (
+                <th key={field.id} className="px-6 py-4 font-semibold text-slate-700 whitespace-nowrap">{field.name}</th>
+              ))}
+              {visibleColumns.includes('created') && <SortHeader field="created" label="Created" className="text-right" />}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
-            {tasks.map(task => {
+            {sortTasks(tasks, sort, projects, users).map(task => {
               const assignee = users.find(u => u.id === task.assigneeId);
               const categoryConfig = CATEGORY_STYLES[task.category] || CATEGORY_STYLES[TaskCategory.TASK];
+              const workflow = getProjectWorkflow(projects, task.projectId);
+              const statusColor = getStatusColor(workflow, task.status);
 
               return (
                 <tr
@@ -459,7 +535,13 @@ const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleCo
                   <td className="px-6 py-3">
                     <div className="flex items-center">
                       <div className="font-medium text-slate-800">{task.title}</div>
+                      {isTaskBlocked(task, allTasks, projects) && (
+                        <span className="ml-2 flex items-center text-[10px] font-bold text-red-600 uppercase" title="Has open blockers">
+                          <Ban size={12} className="mr-0.5" /> Blocked
+                        </span>
+                      )}
                     </div>
+                    <LabelChips labels={resolveLabels(getProjectLabels(projects, task.projectId), task.labelIds)} className="mt-1" />
                     {task.subtasks.length > 0 && (
                       <div className="text-xs text-slate-400 mt-1 flex items-center">
                         <CheckSquare size={10} className="mr-1" />
@@ -469,15 +551,9 @@ const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleCo
                   </td>
                   {visibleColumns.includes('status') && (
                     <td className="px-6 py-3">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${task.status === TaskStatus.TODO ? 'bg-slate-100 text-slate-600 border-slate-200' :
-                        task.status === TaskStatus.IN_PROGRESS ? 'bg-blue-50 text-blue-700 border-blue-100' :
-                          'bg-green-50 text-green-700 border-green-100'
-                        }`}>
-                        <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${task.status === TaskStatus.TODO ? 'bg-slate-400' :
-                          task.status === TaskStatus.IN_PROGRESS ? 'bg-blue-500' :
-                            'bg-green-500'
-                          }`}></span>
-                        {task.status === TaskStatus.TODO ? 'To Do' : task.status === TaskStatus.IN_PROGRESS ? 'In Progress' : 'Done'}
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${statusColor.badge}`}>
+                        <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${statusColor.dot}`}></span>
+                        {getStatusLabel(workflow, task.status)}
                       </span>
                     </td>
                   )}
@@ -523,6 +599,15 @@ const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleCo
                       ) : <span className="text-slate-300">-</span>}
                     </td>
                   )}
+                  {customFields.map(column => {
+                    const entry = getTaskFieldValue(projects, task, column.name);
+                    const text = entry ? formatFieldValue(entry.field, entry.value, users) : '';
+                    return (
+                      <td key={column.id} className="px-6 py-3 text-sm text-slate-600 max-w-[200px] truncate" title={text}>
+                        {text || <span className="text-slate-300">-</span>}
+                      </td>
+                    );
+                  })}
                   {visibleColumns.includes('created') && (
                     <td className="px-6 py-3 text-right text-slate-500 text-xs font-mono">
                       {new Date(task.createdAt).toLocaleDateString()}
@@ -545,20 +630,657 @@ const ListView: React.FC<ListViewProps> = ({ tasks, users, onEditTask, visibleCo
   );
 }
 
+// --- Timeline View Components ---
+const TIMELINE_DAY_WIDTH = 32;
+const TIMELINE_LABEL_WIDTH = 260;
+
+type TimelineEdge = 'start' | 'end' | 'move';
+
+interface TimelineDrag {
+  taskId: string;
+  edge: TimelineEdge;
+  originX: number;
+  deltaDays: number;
+}
+
+// Tasks without an explicit start date begin on the day they were created
+const getTimelineStart = (task: Task) => task.startDate || toDateOnly(new Date(task.createdAt));
+
+/** Start/end of a scheduled task, with an in-progress drag applied. Dates never cross over. */
+const getTimelineRange = (task: Task, drag?: TimelineDrag | null) => {
+  let start = getTimelineStart(task);
+  let end = task.dueDate!;
+  if (start > end) start = end;
+  if (drag && drag.taskId === task.id && drag.deltaDays !== 0) {
+    if (drag.edge !== 'end') start = addDaysToDateOnly(start, drag.deltaDays);
+    if (drag.edge !== 'start') end = addDaysToDateOnly(end, drag.deltaDays);
+    if (start > end) {
+      if (drag.edge === 'start') start = end;
+      else end = start;
+    }
+  }
+  return { start, end };
+};
+
+interface TimelineViewProps {
+  tasks: Task[];
+  users: User[];
+  onEditTask: (task: Task) => void;
+  onUpdateTask: (task: Task) => void;
+}
+
+const TimelineView: React.FC<TimelineViewProps> = ({ tasks, users, onEditTask, onUpdateTask }) => {
+  const { projects, currentUser, tasks: allTasks } = useApp();
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+  const dragRef = useRef<TimelineDrag | null>(null);
+  const suppressClickRef = useRef(false);
+  // The drag listeners outlive renders; a drop must apply to the latest task, not the one at drag start
+  const allTasksRef = useRef(allTasks);
+  const onUpdateTaskRef = useRef(onUpdateTask);
+  allTasksRef.current = allTasks;
+  onUpdateTaskRef.current = onUpdateTask;
+
+  const scheduled = tasks.filter(t => t.dueDate);
+  const unscheduledCount = tasks.length - scheduled.length;
+
+  // Visible range: every scheduled task plus today, padded on both sides
+  const today = startOfDay(new Date());
+  const bounds = scheduled.flatMap(t => {
+    const { start, end } = getTimelineRange(t);
+    return [parseDateOnly(start), parseDateOnly(end)];
+  });
+  const rangeStart = addDays(new Date(Math.min(today.getTime(), ...bounds.map(d => d.getTime()))), -3);
+  const rangeEnd = addDays(new Date(Math.max(today.getTime(), ...bounds.map(d => d.getTime()))), 7);
+  const days = Array.from({ length: Math.max(diffInDays(rangeStart, rangeEnd) + 1, 28) }, (_, i) => addDays(rangeStart, i));
+  const trackWidth = days.length * TIMELINE_DAY_WIDTH;
+
+  // Project -> assignee lanes
+  const groups = projects
+    .filter(p => scheduled.some(t => t.projectId === p.id))
+    .map(project => {
+      const projectTasks = scheduled.filter(t => t.projectId === project.id);
+      const assigneeIds = Array.from(new Set(projectTasks.map(t => t.assigneeId || '')));
+      return {
+        project,
+        lanes: assigneeIds.map(assigneeId => ({
+          assigneeId,
+          assignee: users.find(u => u.id === assigneeId),
+          tasks: projectTasks
+            .filter(t => (t.assigneeId || '') === assigneeId)
+            .sort((a, b) => getTimelineRange(a).start.localeCompare(getTimelineRange(b).start))
+        }))
+      };
+    });
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const deltaDays = Math.round((e.clientX - current.originX) / TIMELINE_DAY_WIDTH);
+      if (deltaDays !== current.deltaDays) {
+        dragRef.current = { ...current, deltaDays };
+        setDrag(dragRef.current);
+      }
+    };
+
+    const handleMouseUp = () => {
+      const current = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (!current || current.deltaDays === 0) return;
+      // Swallow only the click that ends this drag; when the mouse is released off the bar there is none
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+      const task = allTasksRef.current.find(t => t.id === current.taskId);
+      if (!task || !task.dueDate) return;
+      const { start, end } = getTimelineRange(task, current);
+      onUpdateTaskRef.current({ ...task, startDate: start, dueDate: end });
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag?.taskId]);
+
+  const beginDrag = (e: React.MouseEvent, task: Task, edge: TimelineEdge) => {
+    if (!canWriteProject(currentUser, task.projectId)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { taskId: task.id, edge, originX: e.clientX, deltaDays: 0 };
+    setDrag(dragRef.current);
+  };
+
+  const handleBarClick = (task: Task) => {
+    // A drag ends with a click on the same bar; don't open the editor for it
+    if (suppressClickRef.current) return;
+    onEditTask(task);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col min-h-0">
+      <div className="overflow-auto custom-scrollbar flex-1 select-none">
+        <div style={{ width: TIMELINE_LABEL_WIDTH + trackWidth }} className="relative">
+          {/* Day Header */}
+          <div className="flex sticky top-0 z-20 bg-slate-50 border-b border-slate-200">
+            <div style={{ width: TIMELINE_LABEL_WIDTH }} className="sticky left-0 z-10 bg-slate-50 px-4 py-2 text-xs font-semibold text-slate-700 border-r border-slate-200 shrink-0">
+              Task
+            </div>
+            {days.map(day => {
+              const isToday = diffInDays(today, day) === 0;
+              const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+              return (
+                <div
+                  key={day.getTime()}
+                  style={{ width: TIMELINE_DAY_WIDTH }}
+                  className={`shrink-0 py-1 text-center text-[10px] leading-tight border-r border-slate-100 ${isToday ? 'bg-indigo-50 text-indigo-600 font-bold' : isWeekend ? 'text-slate-300' : 'text-slate-500'}`}
+                >
+                  {day.getDate() === 1 || day.getTime() === days[0].getTime() ? (
+                    <div className="font-semibold text-slate-600">{day.toLocaleDateString(undefined, { month: 'short' })}</div>
+                  ) : (
+                    <div>&nbsp;</div>
+                  )}
+                  <div>{day.getDate()}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {groups.map(group => (
+            <div key={group.project.id}>
+              <div className="flex bg-slate-100/70 border-b border-slate-200">
+                <div style={{ width: TIMELINE_LABEL_WIDTH }} className="sticky left-0 z-10 bg-slate-100 px-4 py-2 text-xs font-bold text-slate-700 uppercase tracking-wide border-r border-slate-200 shrink-0 truncate">
+                  {group.project.name}
+                </div>
+                <div style={{ width: trackWidth }} />
+              </div>
+
+              {group.lanes.map(lane => (
+                <div key={lane.assigneeId || 'unassigned'}>
+                  <div className="flex border-b border-slate-100">
+                    <div style={{ width: TIMELINE_LABEL_WIDTH }} className="sticky left-0 z-10 bg-white px-4 py-1.5 flex items-center text-xs text-slate-500 border-r border-slate-200 shrink-0">
+                      {lane.assignee ? (
+                        <>
+                          <img src={lane.assignee.avatar} className="w-5 h-5 rounded-full mr-2 border border-slate-200" />
+                          <span className="truncate">{lane.assignee.name}</span>
+                        </>
+                      ) : (
+                        <span className="italic">Unassigned</span>
+                      )}
+                    </div>
+                    <div style={{ width: trackWidth }} />
+                  </div>
+
+                  {lane.tasks.map(task => {
+                    const { start, end } = getTimelineRange(task, drag);
+                    const offset = diffInDays(rangeStart, parseDateOnly(start));
+                    const length = diffInDays(parseDateOnly(start), parseDateOnly(end)) + 1;
+                    const workflow = getProjectWorkflow(projects, task.projectId);
+                    const blockers = getOpenBlockers(task, allTasks, projects);
+                    const editable = canWriteProject(currentUser, task.projectId);
+
+                    return (
+                      <div key={task.id} className="flex border-b border-slate-50 hover:bg-slate-50/60 group">
+                        <button
+                          type="button"
+                          onClick={() => onEditTask(task)}
+                          style={{ width: TIMELINE_LABEL_WIDTH }}
+                          className="sticky left-0 z-10 bg-white group-hover:bg-slate-50 pl-8 pr-4 py-2 flex items-center text-left text-sm text-slate-700 border-r border-slate-200 shrink-0"
+                        >
+                          <span className={`w-1.5 h-1.5 rounded-full mr-2 shrink-0 ${getStatusColor(workflow, task.status).dot}`}></span>
+                          <span className="truncate">{task.title}</span>
+                          {blockers.length > 0 && <Ban size={12} className="ml-1.5 text-red-500 shrink-0" />}
+                        </button>
+                        <div style={{ width: trackWidth }} className="relative">
+                          {/* Today marker */}
+                          <div
+                            style={{ left: diffInDays(rangeStart, today) * TIMELINE_DAY_WIDTH + TIMELINE_DAY_WIDTH / 2 }}
+                            className="absolute top-0 bottom-0 w-px bg-indigo-200"
+                          />
+                          <div
+                            onMouseDown={e => beginDrag(e, task, 'move')}
+                            onClick={() => handleBarClick(task)}
+                            style={{ left: offset * TIMELINE_DAY_WIDTH + 2, width: length * TIMELINE_DAY_WIDTH - 4 }}
+                            title={`${task.title}\n${parseDateOnly(start).toLocaleDateString()} – ${parseDateOnly(end).toLocaleDateString()}${blockers.length > 0 ? `\nBlocked by ${blockers.map(b => b.title).join(', ')}` : ''}`}
+                            className={`absolute top-1.5 bottom-1.5 rounded-md shadow-sm flex items-center overflow-hidden ${getStatusColor(workflow, task.status).dot} ${isDoneStatus(workflow, task.status) ? 'opacity-60' : ''} ${blockers.length > 0 ? 'ring-2 ring-red-400' : ''} ${editable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${drag?.taskId === task.id ? 'ring-2 ring-indigo-400' : ''}`}
+                          >
+                            {editable && (
+                              <div
+                                onMouseDown={e => beginDrag(e, task, 'start')}
+                                className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-black/10"
+                                title="Drag to change the start date"
+                              />
+                            )}
+                            <span className="px-2.5 text-[11px] font-medium text-white truncate">{task.title}</span>
+                            {editable && (
+                              <div
+                                onMouseDown={e => beginDrag(e, task, 'end')}
+                                className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-black/10"
+                                title="Drag to change the due date"
+                              />
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {groups.length === 0 && (
+            <div className="px-6 py-12 text-center text-slate-400 text-sm">
+              No tasks with due dates match the current filters.
+            </div>
+          )}
+        </div>
+      </div>
+      {unscheduledCount > 0 && (
+        <div className="px-4 py-2 border-t border-slate-100 text-xs text-slate-400 shrink-0">
+          {unscheduledCount} task{unscheduledCount > 1 ? 's' : ''} without a due date {unscheduledCount > 1 ? 'are' : 'is'} not shown.
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Backlog View Components ---
+interface BacklogViewProps {
+  project?: Project; // Sprints belong to one project, so planning needs a project filter
+  tasks: Task[];
+  users: User[];
+  onEditTask: (task: Task) => void;
+}
+
+type SprintForm = Pick<Sprint, 'name' | 'goal' | 'startDate' | 'endDate'>;
+
+const SPRINT_LENGTH_DAYS = 14;
+
+const formatSprintDates = (sprint: Sprint) =>
+  `${parseDateOnly(sprint.startDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${parseDateOnly(sprint.endDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+const BacklogView: React.FC<BacklogViewProps> = ({ project, tasks, users, onEditTask }) => {
+  const { projects, tasks: allTasks, sprints, currentUser, addSprint, updateSprint, deleteSprint, closeSprint, moveTaskToSprint } = useApp();
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+
+  // Sprint form: null when closed, 'new' or the sprint being edited
+  const [editingSprint, setEditingSprint] = useState<Sprint | 'new' | null>(null);
+  const [sprintForm, setSprintForm] = useState<SprintForm>({ name: '', goal: '', startDate: '', endDate: '' });
+
+  // Close sprint dialog; '' means the backlog
+  const [closingSprint, setClosingSprint] = useState<Sprint | null>(null);
+  const [closeDestination, setCloseDestination] = useState('');
+
+  if (!project) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 flex-1 flex flex-col items-center justify-center text-center p-12 text-slate-400">
+        <Layers size={32} className="mb-3 opacity-50" />
+        <p className="font-medium text-slate-600">Select a project to plan its sprints.</p>
+        <p className="text-sm">Sprints and the backlog are kept per project.</p>
+      </div>
+    );
+  }
+
+  const workflow = getWorkflow(project);
+  const editable = canWriteProject(currentUser, project.id);
+  const projectSprints = getProjectSprints(sprints, project.id);
+  const openSprints = projectSprints.filter(s => s.state !== 'closed');
+  const closedSprints = projectSprints.filter(s => s.state === 'closed');
+  const activeSprint = openSprints.find(s => s.state === 'active');
+
+  // Same order as the board: column first, then the card order within the column
+  const columnIndex = (task: Task) => {
+    const index = workflow.findIndex(s => s.id === task.status);
+    return index === -1 ? 0 : index;
+  };
+  const sortTasks = (list: Task[]) =>
+    [...list].sort((a, b) => columnIndex(a) - columnIndex(b) || (a.order || 0) - (b.order || 0));
+
+  const projectTasks = tasks.filter(t => t.projectId === project.id);
+  const sprintTasks = (sprintId?: string) => sortTasks(projectTasks.filter(t => (t.sprintId || undefined) === sprintId));
+
+  // --- Drag & Drop ---
+  const handleDrop = (e: React.DragEvent, sprintId?: string) => {
+    e.preventDefault();
+    if (draggedTaskId) moveTaskToSprint(draggedTaskId, sprintId);
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  // --- Sprint Form ---
+  const openNewSprint = () => {
+    const last = openSprints[openSprints.length - 1];
+    const startDate = last ? addDaysToDateOnly(last.endDate, 1) : toDateOnly(new Date());
+    setSprintForm({
+      name: `Sprint ${projectSprints.length + 1}`,
+      goal: '',
+      startDate,
+      endDate: addDaysToDateOnly(startDate, SPRINT_LENGTH_DAYS - 1)
+    });
+    setEditingSprint('new');
+  };
+
+  const openEditSprint = (sprint: Sprint) => {
+    setSprintForm({ name: sprint.name, goal: sprint.goal, startDate: sprint.startDate, endDate: sprint.endDate });
+    setEditingSprint(sprint);
+  };
+
+  const saveSprint = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingSprint === 'new') {
+      addSprint({ id: 'sp-' + Date.now(), projectId: project.id, state: 'planned', createdAt: Date.now(), ...sprintForm });
+    } else if (editingSprint) {
+      updateSprint({ ...editingSprint, ...sprintForm });
+    }
+    setEditingSprint(null);
+  };
+
+  const openCloseSprint = (sprint: Sprint) => {
+    setCloseDestination(getNextSprint(sprints, sprint)?.id || '');
+    setClosingSprint(sprint);
+  };
+
+  const confirmCloseSprint = () => {
+    if (!closingSprint) return;
+    closeSprint(closingSprint.id, closeDestination || undefined);
+    setClosingSprint(null);
+  };
+
+  const renderTaskRow = (task: Task) => {
+    const assignee = users.find(u => u.id === task.assigneeId);
+    const statusColor = getStatusColor(workflow, task.status);
+    const categoryConfig = CATEGORY_STYLES[task.category] || CATEGORY_STYLES[TaskCategory.TASK];
+
+    return (
+      <div
+        key={task.id}
+        draggable={editable}
+        onDragStart={e => {
+          setDraggedTaskId(task.id);
+          e.dataTransfer.setData('text/plain', task.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => { setDraggedTaskId(null); setDropTarget(null); }}
+        onClick={() => onEditTask(task)}
+        className={`flex items-center px-4 py-2.5 bg-white hover:bg-slate-50 transition-colors text-sm ${editable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${draggedTaskId === task.id ? 'opacity-50' : ''}`}
+      >
+        <span className={`w-6 h-6 rounded flex items-center justify-center mr-3 shrink-0 ${categoryConfig.color.split(' ')[0]} ${categoryConfig.color.split(' ')[1]}`}>
+          <categoryConfig.icon size={14} />
+        </span>
+        <span className={`flex-1 truncate font-medium ${isDoneStatus(workflow, task.status) ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{task.title}</span>
+        <span className={`hidden sm:inline-flex items-center px-2 py-0.5 rounded-full text-[11px] font-medium border mr-3 shrink-0 ${statusColor.badge}`}>
+          <span className={`w-1.5 h-1.5 rounded-full mr-1.5 ${statusColor.dot}`}></span>
+          {getStatusLabel(workflow, task.status)}
+        </span>
+        <span className={`hidden sm:inline-flex px-2 py-0.5 rounded text-[11px] capitalize mr-3 shrink-0 ${PRIORITY_STYLES[task.priority]}`}>
+          {task.priority}
+        </span>
+        <span className="w-8 mr-3 text-right text-xs font-bold text-slate-500 shrink-0" title="Story points">
+          {getTaskPoints(task) || '–'}
+        </span>
+        {assignee ? (
+          <img src={assignee.avatar} title={assignee.name} className="w-6 h-6 rounded-full border border-slate-200 shrink-0" />
+        ) : (
+          <span className="w-6 h-6 rounded-full border border-dashed border-slate-300 shrink-0" title="Unassigned"></span>
+        )}
+      </div>
+    );
+  };
+
+  const renderSection = (key: string, header: React.ReactNode, list: Task[], sprintId?: string) => (
+    <div
+      key={key}
+      onDragOver={e => { if (editable) { e.preventDefault(); setDropTarget(key); } }}
+      onDragLeave={() => setDropTarget(prev => prev === key ? null : prev)}
+      onDrop={e => handleDrop(e, sprintId)}
+      className={`bg-white rounded-xl border shadow-sm overflow-hidden transition-colors ${dropTarget === key ? 'border-indigo-300 ring-2 ring-indigo-200' : 'border-slate-200'}`}
+    >
+      {header}
+      <div className="divide-y divide-slate-100 border-t border-slate-100">
+        {list.map(renderTaskRow)}
+        {list.length === 0 && (
+          <div className="px-4 py-6 text-center text-sm text-slate-400">
+            {editable ? 'Drag tasks here to plan them.' : 'No tasks.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4 pb-4">
+      {openSprints.map(sprint => {
+        const list = sprintTasks(sprint.id);
+        const done = list.filter(t => isDoneStatus(workflow, t.status)).length;
+
+        return renderSection(sprint.id, (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-4 py-3 bg-slate-50">
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <h3 className="font-bold text-slate-800 truncate">{sprint.name}</h3>
+                {sprint.state === 'active' && (
+                  <span className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-emerald-50 text-emerald-700 border border-emerald-100">Active</span>
+                )}
+                <span className="text-xs text-slate-400 whitespace-nowrap">{formatSprintDates(sprint)}</span>
+              </div>
+              {sprint.goal && <p className="text-xs text-slate-500 mt-0.5 truncate">{sprint.goal}</p>}
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <span className="text-xs text-slate-500 mr-1">
+                {done}/{list.length} done · {list.reduce((sum, t) => sum + getTaskPoints(t), 0)} pts
+              </span>
+              {editable && sprint.state === 'planned' && (
+                <button
+                  onClick={() => updateSprint({ ...sprint, state: 'active' })}
+                  disabled={!!activeSprint}
+                  title={activeSprint ? `Close "${activeSprint.name}" first` : 'Start sprint'}
+                  className="flex items-center px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Play size={12} className="mr-1" /> Start
+                </button>
+              )}
+              {editable && sprint.state === 'active' && (
+                <button
+                  onClick={() => openCloseSprint(sprint)}
+                  className="flex items-center px-3 py-1.5 text-xs font-bold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg"
+                >
+                  <Flag size={12} className="mr-1" /> Complete
+                </button>
+              )}
+              {editable && (
+                <>
+                  <button onClick={() => openEditSprint(sprint)} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-lg" title="Edit sprint">
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete "${sprint.name}"? Its tasks go back to the backlog.`)) deleteSprint(sprint.id);
+                    }}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-white rounded-lg"
+                    title="Delete sprint"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ), list, sprint.id);
+      })}
+
+      {renderSection('backlog', (
+        <div className="flex items-center justify-between px-4 py-3 bg-slate-50">
+          <div className="flex items-center space-x-2">
+            <h3 className="font-bold text-slate-800">Backlog</h3>
+            <span className="text-xs text-slate-400">{sprintTasks(undefined).length} tasks</span>
+          </div>
+          {editable && (
+            <button
+              onClick={openNewSprint}
+              className="flex items-center px-3 py-1.5 text-xs font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg"
+            >
+              <Plus size={12} className="mr-1" /> New Sprint
+            </button>
+          )}
+        </div>
+      ), sprintTasks(undefined))}
+
+      {closedSprints.length > 0 && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <button
+            onClick={() => setShowClosed(!showClosed)}
+            className="w-full flex items-center justify-between px-4 py-3 text-sm font-semibold text-slate-600 hover:bg-slate-50"
+          >
+            <span>Closed Sprints ({closedSprints.length})</span>
+            {showClosed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+          {showClosed && (
+            <div className="divide-y divide-slate-100 border-t border-slate-100">
+              {closedSprints.map(sprint => (
+                <div key={sprint.id} className="flex items-center justify-between px-4 py-2.5 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium text-slate-700">{sprint.name}</span>
+                    <span className="text-xs text-slate-400 ml-2">{formatSprintDates(sprint)}</span>
+                  </div>
+                  <span className="text-xs text-slate-500 shrink-0">{projectTasks.filter(t => t.sprintId === sprint.id).length} tasks completed</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Sprint Form Modal */}
+      <Modal
+        isOpen={!!editingSprint}
+        onClose={() => setEditingSprint(null)}
+        title={editingSprint === 'new' ? 'New Sprint' : 'Edit Sprint'}
+        maxWidth="max-w-md"
+        className="h-auto"
+      >
+        <form onSubmit={saveSprint} className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Name</label>
+            <input
+              required
+              autoFocus
+              value={sprintForm.name}
+              onChange={e => setSprintForm({ ...sprintForm, name: e.target.value })}
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Goal</label>
+            <textarea
+              value={sprintForm.goal}
+              onChange={e => setSprintForm({ ...sprintForm, goal: e.target.value })}
+              placeholder="What should this sprint achieve?"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500 min-h-[70px] resize-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Start</label>
+              <input
+                type="date"
+                required
+                value={sprintForm.startDate}
+                onChange={e => setSprintForm({ ...sprintForm, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">End</label>
+              <input
+                type="date"
+                required
+                min={sprintForm.startDate}
+                value={sprintForm.endDate}
+                onChange={e => setSprintForm({ ...sprintForm, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setEditingSprint(null)} className="px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">
+              Cancel
+            </button>
+            <button type="submit" className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg">
+              {editingSprint === 'new' ? 'Create Sprint' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Close Sprint Modal */}
+      <Modal
+        isOpen={!!closingSprint}
+        onClose={() => setClosingSprint(null)}
+        title="Complete Sprint"
+        maxWidth="max-w-md"
+        className="h-auto"
+      >
+        {closingSprint && (() => {
+          const unfinished = getUnfinishedSprintTasks(closingSprint, allTasks, projects).length;
+          return (
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-slate-600">
+                <span className="font-bold text-slate-800">{closingSprint.name}</span> has
+                {' '}<span className="font-semibold">{unfinished}</span> unfinished task{unfinished === 1 ? '' : 's'}.
+                Finished tasks stay with the sprint.
+              </p>
+              {unfinished > 0 && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Move unfinished tasks to</label>
+                  <select
+                    value={closeDestination}
+                    onChange={e => setCloseDestination(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Backlog</option>
+                    {openSprints.filter(s => s.id !== closingSprint.id).map(s => (
+                      <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex justify-end space-x-3">
+                <button onClick={() => setClosingSprint(null)} className="px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">
+                  Cancel
+                </button>
+                <button onClick={confirmCloseSprint} className="px-5 py-2 text-sm font-bold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg">
+                  Complete Sprint
+                </button>
+              </div>
+            </div>
+          );
+        })()}
+      </Modal>
+    </div>
+  );
+};
+
 // --- Task Editor Component (UPDATED UI) ---
-const TaskEditor: React.FC<{
+export const TaskEditor: React.FC<{
   task: Task | null;
   onClose: () => void;
   projectId: string;
   readOnly: boolean;
 }> = ({ task, onClose, projectId, readOnly }) => {
-  const { addTask, updateTask, moveTask, users, triggerNotification, currentUser, deleteUser } = useApp();
+  const { addTask, updateTask, moveTask, users, triggerNotification, currentUser, deleteUser, projects, tasks, reactions, toggleReaction } = useApp();
   const [formData, setFormData] = useState<Task>(task || {
     id: 't-' + Date.now(),
     projectId,
     title: '',
     description: '',
-    status: TaskStatus.TODO,
+    status: firstStatusOf(getProjectWorkflow(projects, projectId), 'open'),
     category: TaskCategory.TASK,
     priority: 'medium',
     subtasks: [],
@@ -566,6 +1288,25 @@ const TaskEditor: React.FC<{
     comments: [],
     createdAt: Date.now()
   });
+  // Tasks without their own estimate are sized by their subtasks
+  const subtaskPoints = formData.subtasks.reduce((sum, s) => sum + (s.storyPoints || 0), 0);
+
+  const workflow = getProjectWorkflow(projects, formData.projectId);
+
+  const setCustomFieldValue = (fieldId: string, value: CustomFieldValue | undefined) => {
+    const { [fieldId]: _, ...rest } = formData.customFields || {};
+    setFormData({ ...formData, customFields: value === undefined ? rest : { ...rest, [fieldId]: value } });
+  };
+
+  // Links State
+  const [showLinks, setShowLinks] = useState(false);
+  const [showTime, setShowTime] = useState(false);
+  const [newLinkType, setNewLinkType] = useState<TaskLinkType>('blocked_by');
+  const [newLinkTaskId, setNewLinkTaskId] = useState('');
+  const resolvedLinks = getTaskLinks(formData, tasks);
+  const linkCandidates = tasks.filter(t =>
+    t.id !== formData.id && canReadProject(currentUser, t.projectId) && !resolvedLinks.some(l => l.task.id === t.id)
+  );
 
   const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
   const [newComment, setNewComment] = useState('');
@@ -606,20 +1347,50 @@ const TaskEditor: React.FC<{
           NotificationType.ASSIGNMENT,
           'New Task Assigned',
           `${currentUser?.name} assigned you to "${formData.title}"`,
-          formData.id
+          buildPath({ name: 'task', taskId: formData.id })
         );
       }
     }
     onClose();
   };
 
+  const buildLink = (): TaskLink => ({
+    id: 'l-' + Date.now(),
+    type: newLinkType,
+    taskId: newLinkTaskId,
+    createdBy: currentUser?.id,
+    createdAt: Date.now()
+  });
+
+  // Checked while picking so a blocker cycle is explained before it can be added
+  const linkCycle = newLinkTaskId
+    ? checkBlockerCycle({ ...formData, links: [...(formData.links || []), buildLink()] }, tasks)
+    : { allowed: true as const };
+
+  const addLink = () => {
+    if (!newLinkTaskId || !linkCycle.allowed) return;
+    setFormData({ ...formData, links: [...(formData.links || []), buildLink()] });
+    setNewLinkTaskId('');
+  };
+
+  const removeLink = (linkId: string) => {
+    setFormData({ ...formData, links: (formData.links || []).filter(l => l.id !== linkId) });
+  };
+
+  // Logged time auto-saves like comments; new tasks keep it until they are created
+  const updateTimeEntries = (timeEntries: TimeEntry[]) => {
+    const updatedTask = { ...formData, timeEntries };
+    setFormData(updatedTask);
+    if (task) updateTask(updatedTask);
+  };
+
   const addSubtask = () => {
     if (!newSubtaskTitle.trim()) return;
     const newSub: SubTask = {
       id: 'st-' + Date.now(),
       title: newSubtaskTitle,
       completed: false,
-      status: TaskStatus.TODO,
+      status: firstStatusOf(workflow, 'open'),
       category: TaskCategory.TASK,
       description: '',
       priority: 'medium',
@@ -660,26 +1431,18 @@ const TaskEditor: React.FC<{
 
       for (const file of files) {
         try {
-          const fileName = `${Date.now()}_task_${Math.random().toString(36).substr(2, 5)}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-          const { error } = await supabase.storage.from('attachments').upload(fileName, file);
-
-          if (error) {
-            console.error('Task attachment upload error:', error);
-            continue;
-          }
-
-          const { data } = supabase.storage.from('attachments').getPublicUrl(fileName);
+          const url = await repository.attachments.upload(file, 'task');
 
           newAttachments.push({
             id: Date.now().toString() + Math.random(),
             name: file.name,
             size: (file.size / 1024).toFixed(1) + ' KB',
             type: file.type,
-            url: data.publicUrl,
+            url,
             uploadedBy: currentUser?.id
           });
         } catch (err) {
-          console.error('Error processing task attachment:', err);
+          console.error('Task attachment upload error:', err);
         }
       }
 
@@ -932,6 +1695,13 @@ const TaskEditor: React.FC<{
                             <p className="text-sm text-slate-600 mt-1 break-words leading-relaxed">
                               {renderWithMentions(c.text, users)}
                             </p>
+                            <ReactionBar
+                              summaries={summarizeReactions(reactions, 'comment', c.id)}
+                              users={users}
+                              currentUserId={currentUser?.id}
+                              onToggle={emoji => toggleReaction('comment', c.id, emoji)}
+                              className="mt-2"
+                            />
                           </div>
                           {(c.userId === currentUser?.id || currentUser?.role === 'ADMIN') && (
                             <button
@@ -959,15 +1729,21 @@ const TaskEditor: React.FC<{
                     <select
                       value={formData.status}
                       onChange={e => {
-                        const newStatus = e.target.value as TaskStatus;
+                        const newStatus = e.target.value;
                         setFormData({ ...formData, status: newStatus });
                       }}
                       className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all appearance-none cursor-pointer"
                     >
-                      <option value={TaskStatus.TODO}>To Do</option>
-                      <option value={TaskStatus.IN_PROGRESS}>In Progress</option>
-                      <option value={TaskStatus.DONE}>Completed</option>
+                      {workflow.map(s => (
+                        <option key={s.id} value={s.id}>{s.name}</option>
+                      ))}
+                      {!findStatus(workflow, formData.status) && (
+                        <option value={formData.status}>{getStatusLabel(workflow, formData.status)}</option>
+                      )}
                     </select>
+                    {task && requiresTransitionReason(projects.find(p => p.id === task.projectId), task.status, formData.status) && (
+                      <p className="text-[11px] text-amber-600 mt-1.5">This change needs a reason: add a comment before saving.</p>
+                    )}
                   </div>
 
                   {/* Category */}
@@ -1004,7 +1780,7 @@ const TaskEditor: React.FC<{
                   </div>
 
                   {/* Priority */}
-                  <div>
+                  <div className="col-span-2">
                     <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Priority</label>
                     <select
                       disabled={readOnly}
@@ -1018,6 +1794,19 @@ const TaskEditor: React.FC<{
                     </select>
                   </div>
 
+                  {/* Start Date */}
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Start Date</label>
+                    <input
+                      readOnly={readOnly}
+                      type="date"
+                      value={formData.startDate || ''}
+                      max={formData.dueDate || undefined}
+                      onChange={e => setFormData({ ...formData, startDate: e.target.value || undefined })}
+                      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                    />
+                  </div>
+
                   {/* Due Date */}
                   <div>
                     <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Due Date</label>
@@ -1029,6 +1818,60 @@ const TaskEditor: React.FC<{
                       className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
                     />
                   </div>
+
+                  {/* Story Points */}
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Story Points</label>
+                    <select
+                      disabled={readOnly}
+                      value={formData.storyPoints ?? ''}
+                      onChange={e => setFormData({ ...formData, storyPoints: e.target.value ? Number(e.target.value) : undefined })}
+                      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all appearance-none cursor-pointer"
+                    >
+                      <option value="">{subtaskPoints > 0 ? `From subtasks (${subtaskPoints})` : 'None'}</option>
+                      {STORY_POINT_SCALE.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+
+                  {/* Estimate */}
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Estimate (Hours)</label>
+                    <input
+                      readOnly={readOnly}
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={formData.estimateHours ?? ''}
+                      onChange={e => setFormData({ ...formData, estimateHours: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                      placeholder="—"
+                      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                    />
+                  </div>
+
+                  {/* Labels */}
+                  <div className="col-span-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Labels</label>
+                    <LabelPicker
+                      labels={getProjectLabels(projects, formData.projectId)}
+                      value={formData.labelIds}
+                      onChange={labelIds => setFormData({ ...formData, labelIds })}
+                      readOnly={readOnly}
+                    />
+                  </div>
+
+                  {/* Custom Fields */}
+                  {getProjectCustomFields(projects, formData.projectId).map(field => (
+                    <div key={field.id} className={field.type === 'text' || field.type === 'multi_select' ? 'col-span-2' : ''}>
+                      <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block truncate" title={field.name}>{field.name}</label>
+                      <CustomFieldInput
+                        field={field}
+                        value={formData.customFields?.[field.id]}
+                        onChange={value => setCustomFieldValue(field.id, value)}
+                        users={users}
+                        readOnly={readOnly}
+                      />
+                    </div>
+                  ))}
                 </div>
 
                 {/* Subtasks Section */}
@@ -1070,7 +1913,7 @@ const TaskEditor: React.FC<{
                               <button
                                 type="button"
                                 onClick={() => {
-                                  const updatedSubtasks = formData.subtasks.map(s => s.id === sub.id ? { ...s, completed: !s.completed, status: !s.completed ? TaskStatus.DONE : TaskStatus.TODO } : s);
+                                  const updatedSubtasks = formData.subtasks.map(s => s.id === sub.id ? { ...s, completed: !s.completed, status: firstStatusOf(workflow, !s.completed ? 'done' : 'open') } : s);
                                   const updatedTask = { ...formData, subtasks: updatedSubtasks };
                                   setFormData(updatedTask);
                                 }}
@@ -1110,6 +1953,117 @@ const TaskEditor: React.FC<{
                   )}
                 </div>
 
+                {/* Linked Tasks Section */}
+                <div className="col-span-2 border-t border-slate-200/60 pt-4 pb-2">
+                  <div className="flex items-center justify-between mb-3">
+                    <button type="button" onClick={() => setShowLinks(!showLinks)} className="flex items-center text-xs font-bold text-slate-500 uppercase hover:text-indigo-600 transition-colors">
+                      {showLinks ? <Minus size={12} className="mr-1.5" /> : <Plus size={12} className="mr-1.5" />}
+                      LINKED TASKS ({resolvedLinks.length})
+                    </button>
+                    {isTaskBlocked(formData, tasks, projects) && (
+                      <span className="flex items-center text-[10px] font-bold text-red-600 uppercase"><Ban size={12} className="mr-1" /> Blocked</span>
+                    )}
+                  </div>
+
+                  {showLinks && (
+                    <div className="space-y-3 animate-in slide-in-from-top-2 duration-200 mb-4">
+                      {!readOnly && (
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={newLinkType}
+                            onChange={e => setNewLinkType(e.target.value as TaskLinkType)}
+                            className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg outline-none focus:border-indigo-500 bg-white"
+                          >
+                            {(['blocks', 'blocked_by', 'relates_to', 'duplicates'] as TaskLinkType[]).map(type => (
+                              <option key={type} value={type}>{LINK_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={newLinkTaskId}
+                            onChange={e => setNewLinkTaskId(e.target.value)}
+                            className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-slate-200 rounded-lg outline-none focus:border-indigo-500 bg-white"
+                          >
+                            <option value="">Select task...</option>
+                            {linkCandidates.map(t => (
+                              <option key={t.id} value={t.id}>{t.title}</option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={addLink}
+                            disabled={!newLinkTaskId || !linkCycle.allowed}
+                            className="p-1.5 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+                          >
+                            <Plus size={18} />
+                          </button>
+                        </div>
+                      )}
+                      {!readOnly && !linkCycle.allowed && (
+                        <p className="text-xs text-red-600">{linkCycle.reason}</p>
+                      )}
+
+                      <div className="space-y-2">
+                        {resolvedLinks.map(link => {
+                          const linkedWorkflow = getProjectWorkflow(projects, link.task.projectId);
+                          const isOpenBlocker = link.type === 'blocked_by' && !isDoneStatus(linkedWorkflow, link.task.status);
+                          return (
+                            <div key={link.id} className="flex items-center justify-between bg-white border border-slate-200 p-2 rounded-lg group">
+                              <div className="flex-1 min-w-0 mr-2">
+                                <div className={`text-[10px] font-bold uppercase ${isOpenBlocker ? 'text-red-500' : 'text-slate-400'}`}>{LINK_TYPE_LABELS[link.type]}</div>
+                                <div className="flex items-center text-sm text-slate-700">
+                                  <span className={`w-1.5 h-1.5 rounded-full mr-1.5 shrink-0 ${getStatusColor(linkedWorkflow, link.task.status).dot}`}></span>
+                                  <span className={`truncate ${isDoneStatus(linkedWorkflow, link.task.status) ? 'line-through text-slate-400' : ''}`}>{link.task.title}</span>
+                                </div>
+                              </div>
+                              {/* Links created from the other task are removed there */}
+                              {!readOnly && link.ownerId === formData.id && (
+                                <button
+                                  type="button"
+                                  onClick={() => removeLink(link.id)}
+                                  className="p-1 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                  title="Remove link"
+                                >
+                                  <Trash2 size={14} />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                        {resolvedLinks.length === 0 && (
+                          <p className="text-xs text-slate-400 italic">No linked tasks.</p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Time Tracking Section */}
+                <div className="col-span-2 border-t border-slate-200/60 pt-4 pb-2">
+                  <div className="flex items-center justify-between mb-3">
+                    <button type="button" onClick={() => setShowTime(!showTime)} className="flex items-center text-xs font-bold text-slate-500 uppercase hover:text-indigo-600 transition-colors">
+                      {showTime ? <Minus size={12} className="mr-1.5" /> : <Plus size={12} className="mr-1.5" />}
+                      TIME TRACKING ({formatDuration(getTaskLoggedMinutes(formData))})
+                    </button>
+                    {task && !readOnly && (
+                      <TaskTimerButton
+                        task={task}
+                        onStop={entry => setFormData(prev => ({ ...prev, timeEntries: [...(prev.timeEntries || []), entry] }))}
+                      />
+                    )}
+                  </div>
+
+                  {showTime && (
+                    <div className="animate-in slide-in-from-top-2 duration-200 mb-4">
+                      <TimeEntriesSection
+                        entries={formData.timeEntries || []}
+                        onChange={updateTimeEntries}
+                        readOnly={readOnly}
+                        estimateHours={formData.estimateHours}
+                      />
+                    </div>
+                  )}
+                </div>
+
               </div>
             </div>
           </div>
@@ -1224,7 +2178,7 @@ const TaskEditor: React.FC<{
 };
 
 // --- Subtask Editor Component ---
-const SubtaskEditor: React.FC<{
+export const SubtaskEditor: React.FC<{
   task: Task;
   subtask: SubTask;
   onClose: () => void;
@@ -1232,8 +2186,9 @@ const SubtaskEditor: React.FC<{
   onUpdate?: (subtask: SubTask) => void;
   onInstantUpdate?: (subtask: SubTask) => void;
 }> = ({ task, subtask, onClose, readOnly, onUpdate, onInstantUpdate }) => {
-  const { updateTask, users, currentUser } = useApp();
+  const { updateTask, users, currentUser, projects, reactions, toggleReaction } = useApp();
   const [formData, setFormData] = useState<SubTask>(subtask);
+  const workflow = getProjectWorkflow(projects, task.projectId);
   const [newComment, setNewComment] = useState('');
   const [showAttachments, setShowAttachments] = useState(false);
   const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
@@ -1300,26 +2255,18 @@ const SubtaskEditor: React.FC<{
 
       for (const file of files) {
         try {
-          const fileName = `${Date.now()}_subtask_${Math.random().toString(36).substr(2, 5)}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-          const { error } = await supabase.storage.from('attachments').upload(fileName, file);
-
-          if (error) {
-            console.error('Subtask attachment upload error:', error);
-            continue;
-          }
-
-          const { data } = supabase.storage.from('attachments').getPublicUrl(fileName);
+          const url = await repository.attachments.upload(file, 'subtask');
 
           newAttachments.push({
             id: Date.now().toString() + Math.random(),
             name: file.name,
             size: (file.size / 1024).toFixed(1) + ' KB',
             type: file.type,
-            url: data.publicUrl,
+            url,
             uploadedBy: currentUser?.id
           });
         } catch (err) {
-          console.error('Error processing subtask attachment:', err);
+          console.error('Subtask attachment upload error:', err);
         }
       }
 
@@ -1567,6 +2514,13 @@ const SubtaskEditor: React.FC<{
                             <p className="text-sm text-slate-600 mt-1 break-words leading-relaxed">
                               {renderWithMentions(c.text, users)}
                             </p>
+                            <ReactionBar
+                              summaries={summarizeReactions(reactions, 'comment', c.id)}
+                              users={users}
+                              currentUserId={currentUser?.id}
+                              onToggle={emoji => toggleReaction('comment', c.id, emoji)}
+                              className="mt-2"
+                            />
                           </div>
                           {(c.userId === currentUser?.id || currentUser?.role === 'ADMIN') && (
                             <button
@@ -1591,17 +2545,27 @@ const SubtaskEditor: React.FC<{
                   {/* Status / Completed */}
                   <div className="col-span-2">
                     <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">State</label>
-                    <button
-                      type="button"
-                      onClick={() => setFormData({ ...formData, completed: !formData.completed, status: !formData.completed ? TaskStatus.DONE : TaskStatus.TODO })}
-                      className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-sm font-medium transition-all ${formData.completed
-                        ? 'bg-green-50 border-green-200 text-green-700'
-                        : 'bg-white border-slate-200 text-slate-700 hover:border-indigo-300'
-                        }`}
-                    >
-                      <span>{formData.completed ? 'Completed' : 'Incomplete'}</span>
-                      {formData.completed ? <CheckCircle2 size={16} /> : <Circle size={16} />}
-                    </button>
+                    {/* Subtasks share the parent project's workflow; done columns mark them completed */}
+                    <div className="relative">
+                      <select
+                        value={formData.status}
+                        onChange={e => setFormData({ ...formData, status: e.target.value, completed: isDoneStatus(workflow, e.target.value) })}
+                        className={`w-full pl-3 pr-9 py-2 rounded-lg border text-sm font-medium shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all appearance-none cursor-pointer ${formData.completed
+                          ? 'bg-green-50 border-green-200 text-green-700'
+                          : 'bg-white border-slate-200 text-slate-700 hover:border-indigo-300'
+                          }`}
+                      >
+                        {workflow.map(s => (
+                          <option key={s.id} value={s.id}>{s.name}</option>
+                        ))}
+                        {!findStatus(workflow, formData.status) && (
+                          <option value={formData.status}>{getStatusLabel(workflow, formData.status)}</option>
+                        )}
+                      </select>
+                      <span className={`absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none ${formData.completed ? 'text-green-700' : 'text-slate-400'}`}>
+                        {formData.completed ? <CheckCircle2 size={16} /> : <Circle size={16} />}
+                      </span>
+                    </div>
                   </div>
 
                   {/* Category (Subtask category typically matches parent but can differ) */}
@@ -1663,6 +2627,57 @@ const SubtaskEditor: React.FC<{
                       className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
                     />
                   </div>
+
+                  {/* Story Points */}
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Story Points</label>
+                    <select
+                      disabled={readOnly}
+                      value={formData.storyPoints ?? ''}
+                      onChange={e => setFormData({ ...formData, storyPoints: e.target.value ? Number(e.target.value) : undefined })}
+                      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all appearance-none cursor-pointer"
+                    >
+                      <option value="">None</option>
+                      {STORY_POINT_SCALE.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                  </div>
+
+                  {/* Estimate */}
+                  <div>
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Estimate (Hours)</label>
+                    <input
+                      readOnly={readOnly}
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={formData.estimateHours ?? ''}
+                      onChange={e => setFormData({ ...formData, estimateHours: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                      placeholder="—"
+                      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-medium text-slate-700 shadow-sm outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                    />
+                  </div>
+
+                  {/* Labels */}
+                  <div className="col-span-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase mb-1.5 block">Labels</label>
+                    <LabelPicker
+                      labels={getProjectLabels(projects, task.projectId)}
+                      value={formData.labelIds}
+                      onChange={labelIds => setFormData({ ...formData, labelIds })}
+                      readOnly={readOnly}
+                    />
+                  </div>
+                </div>
+
+                {/* Time Tracking */}
+                <div className="border-t border-slate-200/60 pt-4">
+                  <label className="text-xs font-bold text-slate-500 uppercase mb-3 block">Time Tracking</label>
+                  <TimeEntriesSection
+                    entries={formData.timeEntries || []}
+                    onChange={timeEntries => handleAutoSave({ ...formData, timeEntries })}
+                    readOnly={readOnly}
+                    estimateHours={formData.estimateHours}
+                  />
                 </div>
 
               </div>
@@ -1748,26 +2763,55 @@ const SubtaskEditor: React.FC<{
 };
 
 export const KanbanBoard: React.FC = () => {
-  const { tasks, users, updateTask, moveTask, currentUser, projects } = useApp();
-  const [viewMode, setViewMode] = useState<'board' | 'list'>('board');
-  const [searchTerm, setSearchTerm] = useState('');
-
-  // Filters
-  const [filterCategory, setFilterCategory] = useState<TaskCategory | 'all'>('all');
-  const [filterProject, setFilterProject] = useState<string | 'all'>('all');
-  const [filterAssignee, setFilterAssignee] = useState<string | 'all'>('all');
-  const [mobileStatus, setMobileStatus] = useState<TaskStatus>(TaskStatus.TODO);
-
-  // Modal State
-  const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
+  const { tasks, users, updateTask, moveTask, currentUser, projects, sprints, taskFilters, setTaskFilters, savedViews } = useApp();
+  const [viewMode, setViewMode] = useState<TaskViewMode>('board');
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<TaskSort>(DEFAULT_TASK_SORT); // List view only
+
+  // Filters (project / category / assignee are shared with the calendar via the store)
+  const filterProject = taskFilters.projectId;
+  const [showBlockedOnly, setShowBlockedOnly] = useState(false); // List view only
+  const [filterSprint, setFilterSprint] = useState('all'); // 'all' | 'active' | 'backlog' | sprint id
+  const [mobileStatus, setMobileStatus] = useState<string | null>(null);
+
+  // Saved views; a ?view=<id> link is applied once the views have loaded
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const linkedViewId = useRef(new URLSearchParams(window.location.search).get(VIEW_URL_PARAM));
+  const viewConfig: SavedViewConfig = { filters: taskFilters, query, sprint: filterSprint, blockedOnly: showBlockedOnly, viewMode, sort };
+
+  const applyView = (view: SavedView | null) => {
+    const config = view ? withViewDefaults(view.config) : DEFAULT_VIEW_CONFIG;
+    setTaskFilters(config.filters);
+    setQuery(config.query);
+    setFilterSprint(config.sprint);
+    setShowBlockedOnly(config.blockedOnly);
+    setViewMode(config.viewMode);
+    setSort(config.sort);
+    setActiveViewId(view?.id ?? null);
+
+    const url = new URL(window.location.href);
+    if (view) url.searchParams.set(VIEW_URL_PARAM, view.id);
+    else url.searchParams.delete(VIEW_URL_PARAM);
+    navigate(url.pathname + url.search, true);
+  };
+
+  useEffect(() => {
+    const view = savedViews.find(v => v.id === linkedViewId.current);
+    if (!view) return;
+    linkedViewId.current = null;
+    applyView(view);
+  }, [savedViews]);
 
-  // Subtask Modal State
-  const [editingSubtaskData, setEditingSubtaskData] = useState<{ task: Task, subtask: SubTask } | null>(null);
+  // New task modal; existing tasks open through their /tasks URL (rendered by App)
+  const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
 
   // Drag State
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
 
+  // Drops that need a reason comment before moveTask accepts them
+  const [pendingMove, setPendingMove] = useState<{ task: Task, status: string, index?: number } | null>(null);
+  const [moveReason, setMoveReason] = useState('');
+
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
     setDraggedTaskId(taskId);
     e.dataTransfer.setData('text/plain', taskId);
@@ -1778,54 +2822,79 @@ export const KanbanBoard: React.FC = () => {
     e.preventDefault();
   };
 
-  const handleDrop = (e: React.DragEvent, status: TaskStatus, newIndex?: number) => {
+  const handleDrop = (e: React.DragEvent, status: string, newIndex?: number) => {
     e.preventDefault();
     if (draggedTaskId) {
-      moveTask(draggedTaskId, status, newIndex);
+      const task = tasks.find(t => t.id === draggedTaskId);
+      if (task && requiresTransitionReason(projects.find(p => p.id === task.projectId), task.status, status)) {
+        setMoveReason('');
+        setPendingMove({ task, status, index: newIndex });
+      } else {
+        moveTask(draggedTaskId, status, newIndex);
+      }
       setDraggedTaskId(null);
     }
   };
 
-  const filteredTasks = tasks.filter(t => {
-    // Permission Check
-    if (currentUser?.role !== 'ADMIN') {
-      const accessLevel = currentUser?.projectAccess?.[t.projectId] || 'none';
-      if (accessLevel === 'none') return false;
-    }
+  const confirmPendingMove = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingMove || !moveReason.trim()) return;
+    moveTask(pendingMove.task.id, pendingMove.status, pendingMove.index, moveReason);
+    setPendingMove(null);
+  };
+
+  // Sprints of the visible projects; closed ones stay selectable for review
+  const sprintOptions = (filterProject === 'all'
+    ? projects.filter(p => canReadProject(currentUser, p.id)).flatMap(p => getProjectSprints(sprints, p.id))
+    : getProjectSprints(sprints, filterProject));
+  const activeSprintFilter = ['all', 'active', 'backlog'].includes(filterSprint) || sprintOptions.some(s => s.id === filterSprint)
+    ? filterSprint
+    : 'all';
+
+  // Plain words still search titles and descriptions; field clauses narrow further (see taskQuery.ts)
+  const queryContext: TaskQueryContext = {
+    tasks, users, sprints, currentUser,
+    projects: projects.filter(p => canReadProject(currentUser, p.id))
+  };
+  const taskQuery = compileTaskQuery(query, queryContext);
 
-    const matchesSearch = t.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      t.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = filterCategory === 'all' || t.category === filterCategory;
-    const matchesProject = filterProject === 'all' || t.projectId === filterProject;
+  const filteredTasks = tasks.filter(t => {
+    const matchesQuery = taskQuery.matches(t);
 
-    let matchesAssignee = true;
-    if (filterAssignee === 'me') matchesAssignee = t.assigneeId === currentUser?.id;
-    else if (filterAssignee === 'unassigned') matchesAssignee = !t.assigneeId;
-    else if (filterAssignee !== 'all') matchesAssignee = t.assigneeId === filterAssignee;
+    // The backlog view shows every sprint, so the sprint filter does not apply there
+    const matchesSprint = viewMode === 'backlog' || matchesSprintFilter(t, activeSprintFilter, sprints);
 
-    return matchesSearch && matchesCategory && matchesProject && matchesAssignee;
+    return matchesQuery && matchesSprint && matchesTaskFilters(t, taskFilters, currentUser);
   });
 
-  const todoTasks = filteredTasks.filter(t => t.status === TaskStatus.TODO);
-  const inProgressTasks = filteredTasks.filter(t => t.status === TaskStatus.IN_PROGRESS);
-  const doneTasks = filteredTasks.filter(t => t.status === TaskStatus.DONE);
+  // Columns come from the selected project's workflow, or the union of all visible workflows
+  const boardProjects = filterProject === 'all'
+    ? projects.filter(p => canReadProject(currentUser, p.id))
+    : projects.filter(p => p.id === filterProject);
+  const columns = mergeWorkflows(boardProjects);
+  const activeMobileStatus = columns.some(c => c.id === mobileStatus) ? mobileStatus : columns[0]?.id;
+
+  // Tasks whose status was removed from their workflow stay visible in the first column
+  const getColumnTasks = (columnId: string) => filteredTasks.filter(t =>
+    t.status === columnId || (columnId === columns[0]?.id && !findStatus(columns, t.status))
+  );
 
   const canEdit = !!currentUser; // Assuming all logged in users can edit for now based on role logic in store/types
 
   const openNewTaskModal = () => {
-    setEditingTask(null);
     setIsTaskModalOpen(true);
   };
 
   const openEditTaskModal = (task: Task) => {
-    setEditingTask(task);
-    setIsTaskModalOpen(true);
+    navigate(buildPath({ name: 'task', taskId: task.id }));
   };
 
   const openEditSubtaskModal = (task: Task, subtask: SubTask) => {
-    setEditingSubtaskData({ task, subtask });
+    navigate(buildPath({ name: 'task', taskId: task.id, subtaskId: subtask.id }));
   };
 
+  const newTaskProjectId = filterProject !== 'all' ? filterProject : projects[0]?.id || '';
+
   return (
     <div className="flex flex-col h-full p-4 md:p-6 pb-4 md:pb-6">
       {/* Header Controls */}
@@ -1836,6 +2905,7 @@ export const KanbanBoard: React.FC = () => {
             <p className="text-slate-500 text-sm">Manage tasks and track progress</p>
           </div>
           <div className="flex items-center space-x-3 w-full md:w-auto">
+            <SavedViewsMenu config={viewConfig} activeViewId={activeViewId} onApply={applyView} />
             <div className="flex bg-slate-100 p-1 rounded-lg shrink-0">
               <button
                 onClick={() => setViewMode('board')}
@@ -1849,6 +2919,20 @@ export const KanbanBoard: React.FC = () => {
               >
                 <List size={18} />
               </button>
+              <button
+                onClick={() => setViewMode('timeline')}
+                className={`p-2 rounded-md transition-all ${viewMode === 'timeline' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                title="Timeline"
+              >
+                <GanttChart size={18} />
+              </button>
+              <button
+                onClick={() => setViewMode('backlog')}
+                className={`p-2 rounded-md transition-all ${viewMode === 'backlog' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                title="Backlog & Sprints"
+              >
+                <Layers size={18} />
+              </button>
             </div>
             <button
               onClick={openNewTaskModal}
@@ -1860,52 +2944,43 @@ export const KanbanBoard: React.FC = () => {
         </div>
 
         {/* Filters Bar */}
-        <div className="flex flex-col md:flex-row gap-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
-          <div className="relative flex-1 min-w-[200px]">
-            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
-            <input
-              type="text"
-              placeholder="Search tasks..."
-              value={searchTerm}
-              onChange={e => setSearchTerm(e.target.value)}
-              className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:bg-white transition-all"
-            />
-          </div>
+        <div className="flex flex-col md:flex-row md:items-start gap-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+          <TaskQueryInput value={query} onChange={setQuery} context={queryContext} errors={taskQuery.errors} />
 
           <div className="grid grid-cols-3 gap-2 w-full md:flex md:w-auto md:items-center md:space-x-2 shrink-0">
             <SlidersHorizontal size={16} className="text-slate-400 ml-2 mr-1 hidden md:block" />
 
-            {/* Compute Visible Projects */}
-            <select
-              value={filterProject}
-              onChange={e => setFilterProject(e.target.value)}
-              className="w-full md:w-auto px-2 py-1.5 md:px-3 md:py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs md:text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-100"
-            >
-              <option value="all">All Projects</option>
-              {projects
-                .filter(p => currentUser?.role === 'ADMIN' || (currentUser?.projectAccess?.[p.id] && currentUser.projectAccess[p.id] !== 'none'))
-                .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
-            </select>
-
-            <select
-              value={filterCategory}
-              onChange={e => setFilterCategory(e.target.value as any)}
-              className="w-full md:w-auto px-2 py-1.5 md:px-3 md:py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs md:text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-100"
-            >
-              <option value="all">All Categories</option>
-              {Object.values(TaskCategory).map(c => <option key={c} value={c}>{CATEGORY_STYLES[c].label}</option>)}
-            </select>
-
-            <select
-              value={filterAssignee}
-              onChange={e => setFilterAssignee(e.target.value)}
-              className="w-full md:w-auto px-2 py-1.5 md:px-3 md:py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs md:text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-100 md:max-w-[150px]"
-            >
-              <option value="all">All Assignees</option>
-              <option value="me">Assigned to Me</option>
-              <option value="unassigned">Unassigned</option>
-              {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
-            </select>
+            <TaskFilterSelects />
+
+            {viewMode !== 'backlog' && (
+              <select
+                value={activeSprintFilter}
+                onChange={e => setFilterSprint(e.target.value)}
+                className="w-full md:w-auto md:max-w-[180px] px-2 py-1.5 md:px-3 md:py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs md:text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-100"
+              >
+                <option value="all">All Sprints</option>
+                <option value="active">Active Sprint</option>
+                <option value="backlog">Backlog</option>
+                {sprintOptions.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {filterProject === 'all' ? `${projects.find(p => p.id === s.projectId)?.name} / ` : ''}{s.name}{s.state === 'closed' ? ' (closed)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {viewMode === 'list' && (
+              <button
+                onClick={() => setShowBlockedOnly(!showBlockedOnly)}
+                className={`w-full md:w-auto flex items-center justify-center px-2 py-1.5 md:px-3 md:py-2 border rounded-lg text-xs md:text-sm transition-colors whitespace-nowrap ${showBlockedOnly
+                  ? 'bg-red-50 border-red-200 text-red-600'
+                  : 'bg-slate-50 border-slate-200 text-slate-700 hover:bg-slate-100'
+                  }`}
+                title="Show only tasks with open blockers"
+              >
+                <Ban size={14} className="mr-1.5" /> Blocked
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -1913,16 +2988,16 @@ export const KanbanBoard: React.FC = () => {
       {/* Content Area */}
       {/* Mobile Status Tabs */}
       <div className="flex md:hidden space-x-1 mb-4 bg-slate-100 p-1 rounded-lg shrink-0">
-        {[TaskStatus.TODO, TaskStatus.IN_PROGRESS, TaskStatus.DONE].map(status => (
+        {columns.map(column => (
           <button
-            key={status}
-            onClick={() => setMobileStatus(status)}
-            className={`flex-1 py-2 text-xs font-bold rounded-md transition-all uppercase ${mobileStatus === status
+            key={column.id}
+            onClick={() => setMobileStatus(column.id)}
+            className={`flex-1 py-2 text-xs font-bold rounded-md transition-all uppercase ${activeMobileStatus === column.id
               ? 'bg-white text-indigo-600 shadow-sm ring-1 ring-black/5'
               : 'text-slate-500 hover:text-slate-700'
               }`}
           >
-            {status === TaskStatus.TODO ? 'To Do' : status === TaskStatus.IN_PROGRESS ? 'In Progress' : 'Done'}
+            {column.name}
           </button>
         ))}
       </div>
@@ -1930,81 +3005,95 @@ export const KanbanBoard: React.FC = () => {
       {viewMode === 'board' ? (
         <div className="flex-1 overflow-y-auto md:overflow-x-auto md:overflow-y-hidden custom-scrollbar">
           <div className="flex flex-col md:flex-row md:h-full gap-6">
-            <div className={`flex-1 min-w-[300px] md:h-full ${mobileStatus === TaskStatus.TODO ? 'block' : 'hidden md:block'}`}>
-              <KanbanColumn
-                status={TaskStatus.TODO}
-                title="To Do"
-                tasks={todoTasks}
-                canEdit={canEdit}
-                users={users}
-                onDragOver={handleDragOver}
-                onDrop={handleDrop}
-                onDragStart={handleDragStart}
-                onEditTask={openEditTaskModal}
-                onEditSubtask={openEditSubtaskModal}
-                onUpdateTask={updateTask}
-              />
-            </div>
-            <div className={`flex-1 min-w-[300px] md:h-full ${mobileStatus === TaskStatus.IN_PROGRESS ? 'block' : 'hidden md:block'}`}>
-              <KanbanColumn
-                status={TaskStatus.IN_PROGRESS}
-                title="In Progress"
-                tasks={inProgressTasks}
-                canEdit={canEdit}
-                users={users}
-                onDragOver={handleDragOver}
-                onDrop={handleDrop}
-                onDragStart={handleDragStart}
-                onEditTask={openEditTaskModal}
-                onEditSubtask={openEditSubtaskModal}
-                onUpdateTask={updateTask}
-              />
-            </div>
-            <div className={`flex-1 min-w-[300px] md:h-full ${mobileStatus === TaskStatus.DONE ? 'block' : 'hidden md:block'}`}>
-              <KanbanColumn
-                status={TaskStatus.DONE}
-                title="Done"
-                tasks={doneTasks}
-                canEdit={canEdit}
-                users={users}
-                onDragOver={handleDragOver}
-                onDrop={handleDrop}
-                onDragStart={handleDragStart}
-                onEditTask={openEditTaskModal}
-                onEditSubtask={openEditSubtaskModal}
-                onUpdateTask={updateTask}
-              />
-            </div>
+            {columns.map(column => (
+              <div key={column.id} className={`flex-1 min-w-[300px] md:h-full ${activeMobileStatus === column.id ? 'block' : 'hidden md:block'}`}>
+                <KanbanColumn
+                  column={column}
+                  tasks={getColumnTasks(column.id)}
+                  canEdit={canEdit}
+                  users={users}
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  onDragStart={handleDragStart}
+                  onEditTask={openEditTaskModal}
+                  onEditSubtask={openEditSubtaskModal}
+                  onUpdateTask={updateTask}
+                />
+              </div>
+            ))}
           </div>
         </div>
-      ) : (
+      ) : viewMode === 'list' ? (
         <ListView
-          tasks={filteredTasks}
+          tasks={showBlockedOnly ? filteredTasks.filter(t => isTaskBlocked(t, tasks, projects)) : filteredTasks}
           users={users}
           onEditTask={openEditTaskModal}
           visibleColumns={['status', 'priority', 'category', 'assignee', 'dueDate', 'created']}
+          customFields={mergeCustomFields(filterProject === 'all' ? queryContext.projects : queryContext.projects.filter(p => p.id === filterProject))}
+          sort={sort}
+          onSortChange={setSort}
+        />
+      ) : viewMode === 'timeline' ? (
+        <TimelineView
+          tasks={filteredTasks}
+          users={users}
+          onEditTask={openEditTaskModal}
+          onUpdateTask={updateTask}
+        />
+      ) : (
+        <BacklogView
+          project={projects.find(p => p.id === filterProject)}
+          tasks={filteredTasks}
+          users={users}
+          onEditTask={openEditTaskModal}
         />
       )}
 
-      {/* Task Modal */}
+      {/* New Task Modal */}
       {isTaskModalOpen && (
         <TaskEditor
-          task={editingTask}
+          task={null}
           onClose={() => setIsTaskModalOpen(false)}
-          projectId={editingTask?.projectId || (filterProject !== 'all' ? filterProject : projects[0]?.id || '')}
-          readOnly={!canEdit || (editingTask && (currentUser?.role !== 'ADMIN' && currentUser?.projectAccess?.[editingTask.projectId] !== 'write')) || (!editingTask && currentUser?.role !== 'ADMIN' && currentUser?.projectAccess?.[(filterProject !== 'all' ? filterProject : projects[0]?.id || '')] !== 'write')}
+          projectId={newTaskProjectId}
+          readOnly={!canEdit || !canWriteProject(currentUser, newTaskProjectId)}
         />
       )}
 
-      {/* Subtask Modal */}
-      {editingSubtaskData && (
-        <SubtaskEditor
-          task={editingSubtaskData.task}
-          subtask={editingSubtaskData.subtask}
-          onClose={() => setEditingSubtaskData(null)}
-          readOnly={!canEdit || (currentUser?.role !== 'ADMIN' && currentUser?.projectAccess?.[editingSubtaskData.task.projectId] !== 'write')}
-        />
-      )}
+      {/* Transition Reason Modal */}
+      <Modal
+        isOpen={!!pendingMove}
+        onClose={() => setPendingMove(null)}
+        title="Reason Required"
+        maxWidth="max-w-md"
+        className="h-auto"
+      >
+        {pendingMove && (
+          <form onSubmit={confirmPendingMove} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              Moving <span className="font-bold text-slate-800">{pendingMove.task.title}</span> from
+              {' '}<span className="font-semibold">{getStatusLabel(getProjectWorkflow(projects, pendingMove.task.projectId), pendingMove.task.status)}</span> to
+              {' '}<span className="font-semibold">{getStatusLabel(getProjectWorkflow(projects, pendingMove.task.projectId), pendingMove.status)}</span> needs a reason.
+              It will be added as a comment on the task.
+            </p>
+            <textarea
+              autoFocus
+              required
+              value={moveReason}
+              onChange={e => setMoveReason(e.target.value)}
+              placeholder="Why is this task moving back?"
+              className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500 min-h-[90px] resize-none"
+            />
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={() => setPendingMove(null)} className="px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">
+                Cancel
+              </button>
+              <button type="submit" disabled={!moveReason.trim()} className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50">
+                Move Task
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
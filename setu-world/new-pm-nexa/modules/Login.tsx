@@ -2,7 +2,6 @@ import React, { useState } from 'react';
 import { useApp } from '../store';
 import { UserRole } from '../types';
 import { ShieldCheck, User as UserIcon, Lock, AlertCircle, Eye, EyeOff } from 'lucide-react';
-import { supabase } from '../supabaseClient';
 
 export const Login: React.FC = () => {
   const { login } = useApp();
@@ -19,34 +18,9 @@ export const Login: React.FC = () => {
     setLoading(true);
 
     try {
-      // Query Supabase for the user
-      const { data, error: fetchError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('username', username)
-        .eq('password', password)
-        .single();
-
-      if (fetchError || !data) {
-        setError('Invalid username or password.');
-        setLoading(false);
-        return;
-      }
-
-      if (data.role !== role) {
-        setError(`This account is not a ${role === UserRole.ADMIN ? 'Admin' : 'Member'} account.`);
-        setLoading(false);
-        return;
-      }
-
-      // Map DB snake_case to app CamelCase
-      const user = {
-        ...data,
-        isOnline: data.is_online,
-        projectAccess: data.project_access
-      };
-
-      login(user);
+      // Credentials are verified server-side; only a session token comes back
+      const loginError = await login(username, password, role);
+      if (loginError) setError(loginError);
     } catch (err) {
       setError('An unexpected error occurred.');
     } finally {
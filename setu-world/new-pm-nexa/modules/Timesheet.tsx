@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useApp } from '../store';
+import { buildPath, navigate } from '../routes';
+import { ChevronLeft, ChevronRight, Download, Clock } from 'lucide-react';
+import { TimesheetRow, collectTimeEntries, formatDuration, toHours } from '../timeTracking';
+import { downloadFile, toCsv, toFileSlug } from '../csv';
+import { addDays, diffInDays, parseDateOnly, startOfDay, toDateOnly } from '../dateUtils';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+// Hours per project for one week; entries on projects the viewer cannot read are left out
+interface ProjectRow {
+  key: string;
+  name: string;
+  minutesByDate: Record<string, number>;
+  total: number;
+}
+
+export const TimesheetView: React.FC = () => {
+  const { tasks, projects, users, currentUser } = useApp();
+  const [userId, setUserId] = useState(currentUser?.id || '');
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(startOfDay(new Date())));
+
+  const today = startOfDay(new Date());
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dates = days.map(toDateOnly);
+  const user = users.find(u => u.id === userId);
+
+  const rows = collectTimeEntries(tasks, projects, currentUser, userId, dates[0], dates[6]);
+
+  const projectRows = Object.values(rows.reduce((acc, { entry, task, project }) => {
+    const row = acc[task.projectId] = acc[task.projectId] || { key: task.projectId, name: project?.name || 'Unknown Project', minutesByDate: {}, total: 0 };
+    row.minutesByDate[entry.date] = (row.minutesByDate[entry.date] || 0) + entry.minutes;
+    row.total += entry.minutes;
+    return acc;
+  }, {} as Record<string, ProjectRow>)).sort((a, b) => a.name.localeCompare(b.name));
+
+  const dayTotal = (date: string) => projectRows.reduce((sum, r) => sum + (r.minutesByDate[date] || 0), 0);
+  const weekTotal = projectRows.reduce((sum, r) => sum + r.total, 0);
+
+  const heading = `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const handleExport = () => {
+    const csv = toCsv([
+      ['Date', 'User', 'Project', 'Task', 'Subtask', 'Hours', 'Note'],
+      ...rows.map(({ entry, task, subtask, project }) => [
+        entry.date,
+        user?.name || entry.userId,
+        project?.name || '',
+        task.title,
+        subtask?.title || '',
+        toHours(entry.minutes),
+        entry.note
+      ])
+    ]);
+    downloadFile(csv, `timesheet-${toFileSlug(user?.name || 'user')}-${dates[0]}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const openRow = ({ task, subtask }: TimesheetRow) => {
+    navigate(buildPath({ name: 'task', taskId: task.id, subtaskId: subtask?.id }));
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 md:p-6 pb-4 md:pb-6">
+      {/* Header Controls */}
+      <div className="flex flex-col space-y-4 mb-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-800">Timesheet</h1>
+            <p className="text-slate-500 text-sm">Hours logged per project and day</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center bg-white border border-slate-200 rounded-lg shadow-sm">
+              <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="p-2 text-slate-500 hover:text-indigo-600" title="Previous Week">
+                <ChevronLeft size={18} />
+              </button>
+              <button onClick={() => setWeekStart(startOfWeek(today))} className="px-3 py-1.5 text-sm font-medium text-slate-700 hover:text-indigo-600 border-x border-slate-200">
+                This Week
+              </button>
+              <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-2 text-slate-500 hover:text-indigo-600" title="Next Week">
+                <ChevronRight size={18} />
+              </button>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} className="mr-2" /> Export CSV
+            </button>
+          </div>
+        </div>
+
+        {/* Filters Bar */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-800 px-1">{heading}</h2>
+          <div className="flex items-center space-x-2 shrink-0">
+            {user && <img src={user.avatar} className="w-7 h-7 rounded-full" />}
+            <select
+              value={userId}
+              onChange={e => setUserId(e.target.value)}
+              className="bg-slate-50 border border-slate-200 text-slate-700 text-sm rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-indigo-500 cursor-pointer"
+            >
+              {users.map(u => <option key={u.id} value={u.id}>{u.id === currentUser?.id ? `${u.name} (You)` : u.name}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Weekly Totals */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto mb-6 shrink-0">
+        <table className="w-full text-sm min-w-[720px]">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500 uppercase">Project</th>
+              {days.map((day, i) => (
+                <th key={dates[i]} className={`px-2 py-2 text-center text-xs font-semibold uppercase ${diffInDays(today, day) === 0 ? 'text-indigo-600' : 'text-slate-500'}`}>
+                  {WEEKDAYS[i]} <span className="font-normal normal-case">{day.getDate()}</span>
+                </th>
+              ))}
+              <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500 uppercase">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projectRows.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-10 text-center text-slate-400 text-sm italic">No time logged this week.</td>
+              </tr>
+            ) : projectRows.map(row => (
+              <tr key={row.key} className="border-b border-slate-100">
+                <td className="px-4 py-2.5 font-medium text-slate-700 truncate max-w-[200px]">{row.name}</td>
+                {dates.map(date => (
+                  <td key={date} className="px-2 py-2.5 text-center text-slate-600">
+                    {row.minutesByDate[date] ? toHours(row.minutesByDate[date]) : <span className="text-slate-300">–</span>}
+                  </td>
+                ))}
+                <td className="px-4 py-2.5 text-right font-bold text-slate-800">{toHours(row.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {projectRows.length > 0 && (
+            <tfoot>
+              <tr className="bg-slate-50">
+                <td className="px-4 py-2.5 text-xs font-bold text-slate-500 uppercase">Total Hours</td>
+                {dates.map(date => (
+                  <td key={date} className="px-2 py-2.5 text-center font-bold text-slate-700">{dayTotal(date) ? toHours(dayTotal(date)) : ''}</td>
+                ))}
+                <td className="px-4 py-2.5 text-right font-bold text-indigo-600">{toHours(weekTotal)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex-1 flex flex-col min-h-0">
+        <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between shrink-0">
+          <h3 className="text-sm font-bold text-slate-700">Entries</h3>
+          <span className="text-xs text-slate-400">{rows.length} entr{rows.length === 1 ? 'y' : 'ies'} · {formatDuration(weekTotal)}</span>
+        </div>
+        <div className="overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+          {rows.map(row => (
+            <button
+              key={`${row.task.id}:${row.subtask?.id || ''}:${row.entry.id}`}
+              onClick={() => openRow(row)}
+              className="w-full flex items-center px-4 py-2.5 text-left hover:bg-slate-50 transition-colors"
+            >
+              <span className="text-xs text-slate-400 w-24 shrink-0">
+                {parseDateOnly(row.entry.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700 truncate">
+                  {row.subtask ? `${row.task.title} › ${row.subtask.title}` : row.task.title}
+                </p>
+                <p className="text-xs text-slate-400 truncate">
+                  {row.project?.name || 'Unknown Project'}{row.entry.note && ` · ${row.entry.note}`}
+                </p>
+              </div>
+              <span className="flex items-center text-xs font-bold text-slate-600 ml-3 shrink-0">
+                <Clock size={12} className="mr-1 text-slate-400" /> {formatDuration(row.entry.minutes)}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
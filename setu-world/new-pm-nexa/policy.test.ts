@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Group, Task, TaskCategory, User, UserRole, ProjectAccessLevel } from './types';
+import {
+  canReadMessage,
+  canReadProject,
+  canWriteProject,
+  checkCommentReaction,
+  checkMessageReaction,
+  checkProjectManage,
+  checkSprintManage,
+  checkTaskCreate,
+  checkTaskDelete,
+  checkTaskMove,
+  checkTaskUpdate,
+  checkTimeLog,
+  checkUserManage
+} from './policy';
+
+const PROJECT = 'p1';
+const OTHER_PROJECT = 'p2';
+
+const makeUser = (role: UserRole, access?: ProjectAccessLevel): User => ({
+  id: 'u1',
+  name: 'Test User',
+  username: 'test',
+  role,
+  avatar: '',
+  projectAccess: access ? { [PROJECT]: access } : {}
+});
+
+const task: Task = {
+  id: 't1',
+  projectId: PROJECT,
+  title: 'Task',
+  description: '',
+  status: 'todo',
+  category: TaskCategory.TASK,
+  subtasks: [],
+  priority: 'medium',
+  attachments: [],
+  comments: [{ id: 'c0', userId: 'u2', text: 'Existing', timestamp: 1 }],
+  createdAt: 1
+};
+
+const ownComment = { ...task, comments: [...task.comments, { id: 'c1', userId: 'u1', text: 'Mine', timestamp: 2 }] };
+const othersComment = { ...task, comments: [...task.comments, { id: 'c2', userId: 'u2', text: 'Not mine', timestamp: 2 }] };
+const retitled = { ...task, title: 'Renamed' };
+
+// Expected outcome per caller: ADMIN, then members with write, read and no access to the project
+const matrix: {
+  name: string;
+  admin: boolean;
+  write: boolean;
+  read: boolean;
+  none: boolean;
+  check: (user: User) => boolean;
+}[] = [
+  { name: 'read the project', admin: true, write: true, read: true, none: false, check: u => canReadProject(u, PROJECT) },
+  { name: 'write the project', admin: true, write: true, read: false, none: false, check: u => canWriteProject(u, PROJECT) },
+  { name: 'create a task', admin: true, write: true, read: false, none: false, check: u => checkTaskCreate(u, PROJECT).allowed },
+  { name: 'edit a task', admin: true, write: true, read: false, none: false, check: u => checkTaskUpdate(u, task, retitled).allowed },
+  { name: 'add an own comment', admin: true, write: true, read: true, none: false, check: u => checkTaskUpdate(u, task, ownComment).allowed },
+  { name: "add someone else's comment", admin: true, write: true, read: false, none: false, check: u => checkTaskUpdate(u, task, othersComment).allowed },
+  { name: 'move a task to another project', admin: true, write: false, read: false, none: false, check: u => checkTaskUpdate(u, task, { ...task, projectId: OTHER_PROJECT }).allowed },
+  { name: 'move a task between columns', admin: true, write: true, read: false, none: false, check: u => checkTaskMove(u, task).allowed },
+  { name: 'delete a task', admin: true, write: true, read: false, none: false, check: u => checkTaskDelete(u, task).allowed },
+  { name: 'log time', admin: true, write: true, read: false, none: false, check: u => checkTimeLog(u, task).allowed },
+  { name: 'manage sprints', admin: true, write: true, read: false, none: false, check: u => checkSprintManage(u, PROJECT).allowed },
+  { name: 'react to a comment', admin: true, write: true, read: true, none: false, check: u => checkCommentReaction(u, PROJECT).allowed },
+  { name: 'manage projects', admin: true, write: false, read: false, none: false, check: u => checkProjectManage(u).allowed },
+  { name: 'manage users', admin: true, write: false, read: false, none: false, check: u => checkUserManage(u).allowed }
+];
+
+const callers: { key: 'admin' | 'write' | 'read' | 'none'; user: User }[] = [
+  { key: 'admin', user: makeUser(UserRole.ADMIN) },
+  { key: 'write', user: makeUser(UserRole.MEMBER, 'write') },
+  { key: 'read', user: makeUser(UserRole.MEMBER, 'read') },
+  { key: 'none', user: makeUser(UserRole.MEMBER, 'none') }
+];
+
+describe('project access policy', () => {
+  for (const row of matrix) {
+    for (const { key, user } of callers) {
+      it(`${key} ${row[key] ? 'may' : 'may not'} ${row.name}`, () => {
+        expect(row.check(user)).toBe(row[key]);
+      });
+    }
+  }
+
+  it('treats a missing access entry like none', () => {
+    expect(canReadProject(makeUser(UserRole.MEMBER), PROJECT)).toBe(false);
+  });
+
+  it('denies anonymous callers with a reason', () => {
+    const decision = checkTaskCreate(null, PROJECT);
+    expect(decision.allowed).toBe(false);
+    if (!decision.allowed) expect(decision.reason).toMatch(/write access/);
+  });
+});
+
+describe('message access policy', () => {
+  const member = makeUser(UserRole.MEMBER);
+  const group: Group = { id: 'g-1', name: 'Group', memberIds: ['u1', 'u2'], createdAt: 1, createdBy: 'u2' };
+  const message = (senderId: string, recipientId?: string): ChatMessage =>
+    ({ id: 'm1', senderId, recipientId, text: 'Hi', timestamp: 1, type: 'text', attachments: [] });
+
+  const cases: { name: string; message: ChatMessage; groups: Group[]; readable: boolean }[] = [
+    { name: 'the team chat', message: message('u2'), groups: [], readable: true },
+    { name: 'a direct message to them', message: message('u2', 'u1'), groups: [], readable: true },
+    { name: 'their own direct message', message: message('u1', 'u2'), groups: [], readable: true },
+    { name: "someone else's direct message", message: message('u2', 'u3'), groups: [], readable: false },
+    { name: 'a group they belong to', message: message('u2', 'g-1'), groups: [group], readable: true },
+    { name: 'a group they left', message: message('u2', 'g-1'), groups: [{ ...group, memberIds: ['u2'] }], readable: false }
+  ];
+
+  for (const c of cases) {
+    it(`${c.readable ? 'lets' : 'does not let'} a member read and react to ${c.name}`, () => {
+      expect(canReadMessage(member, c.message, c.groups)).toBe(c.readable);
+      expect(checkMessageReaction(member, c.message, c.groups).allowed).toBe(c.readable);
+    });
+  }
+});
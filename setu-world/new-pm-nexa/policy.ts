@@ -0,0 +1,141 @@
+import { User, UserRole, ProjectAccessLevel, Task, SavedView, ChatMessage, Group } from './types';
+
+/**
+ * Access policy for every mutation in the app.
+ * The AppProvider runs each action through these checks before touching state or the repository,
+ * and the UI uses the same helpers to decide what to render as editable.
+ * The row-level policies in supabase/migrations mirror these rules server-side.
+ */
+
+export type PolicyDecision = { allowed: true } | { allowed: false; reason: string };
+
+const ALLOW: PolicyDecision = { allowed: true };
+const deny = (reason: string): PolicyDecision => ({ allowed: false, reason });
+
+export const isAdmin = (user: User | null | undefined) => user?.role === UserRole.ADMIN;
+
+/** Effective access level; admins always have write access. */
+export const getProjectAccess = (user: User | null | undefined, projectId: string): ProjectAccessLevel => {
+  if (!user) return 'none';
+  if (isAdmin(user)) return 'write';
+  return user.projectAccess?.[projectId] || 'none';
+};
+
+export const canReadProject = (user: User | null | undefined, projectId: string) =>
+  getProjectAccess(user, projectId) !== 'none';
+
+export const canWriteProject = (user: User | null | undefined, projectId: string) =>
+  getProjectAccess(user, projectId) === 'write';
+
+// --- Task Rules ---
+
+export const checkTaskCreate = (user: User | null, projectId: string): PolicyDecision =>
+  canWriteProject(user, projectId) ? ALLOW : deny('You do not have write access to this project.');
+
+const withoutComments = (task: Task) => JSON.stringify({ ...task, comments: [] });
+
+/** Readers may add or remove their own comments, and nothing else. */
+const isOwnCommentChange = (user: User, existing: Task, next: Task) => {
+  if (withoutComments(existing) !== withoutComments(next)) return false;
+  const before = new Set(existing.comments.map(c => c.id));
+  const after = new Set(next.comments.map(c => c.id));
+  const added = next.comments.filter(c => !before.has(c.id));
+  const removed = existing.comments.filter(c => !after.has(c.id));
+  return [...added, ...removed].every(c => c.userId === user.id);
+};
+
+/** `existing` is the stored task; `next` is the proposed version (may change project). */
+export const checkTaskUpdate = (user: User | null, existing: Task, next: Task = existing): PolicyDecision => {
+  if (!canWriteProject(user, existing.projectId)) {
+    if (user && canReadProject(user, existing.projectId) && isOwnCommentChange(user, existing, next)) return ALLOW;
+    return deny('You do not have write access to this project.');
+  }
+  if (next.projectId !== existing.projectId && !canWriteProject(user, next.projectId)) {
+    return deny('You do not have write access to the destination project.');
+  }
+  return ALLOW;
+};
+
+export const checkTaskDelete = (user: User | null, existing: Task): PolicyDecision =>
+  canWriteProject(user, existing.projectId) ? ALLOW : deny('You do not have write access to this project.');
+
+/** Drag & drop / status changes. */
+export const checkTaskMove = (user: User | null, existing: Task): PolicyDecision =>
+  checkTaskDelete(user, existing);
+
+/** Logging time edits the task, so it needs write access like any other edit. */
+export const checkTimeLog = (user: User | null, existing: Task): PolicyDecision =>
+  checkTaskDelete(user, existing);
+
+// --- Project Rules ---
+
+export const checkProjectManage = (user: User | null): PolicyDecision =>
+  isAdmin(user) ? ALLOW : deny('Admin privileges required to manage projects.');
+
+// --- Sprint Rules ---
+
+/** Sprint planning is part of the day-to-day work on a project, so writers manage sprints. */
+export const checkSprintManage = (user: User | null, projectId: string): PolicyDecision =>
+  canWriteProject(user, projectId) ? ALLOW : deny('You do not have write access to this project.');
+
+// --- Saved View Rules ---
+
+/** Readers can see a shared view, so anyone who can read the project may share one with it. */
+export const canReadSavedView = (user: User | null | undefined, view: SavedView) =>
+  !!user && (view.projectId ? canReadProject(user, view.projectId) : view.ownerId === user.id);
+
+/** Views belong to their owner (admins can tidy up shared ones); `next` is the proposed version. */
+export const checkSavedViewManage = (user: User | null, existing: SavedView, next: SavedView = existing): PolicyDecision => {
+  if (!user || (existing.ownerId !== user.id && !isAdmin(user))) return deny('Only the owner can change this view.');
+  if (next.projectId && !canReadProject(user, next.projectId)) return deny('You can only share views with projects you can access.');
+  return ALLOW;
+};
+
+// --- Message Rules ---
+
+/** Only the sender edits a message; missed calls and deleted messages stay as they are. */
+export const checkMessageEdit = (user: User | null, message: ChatMessage): PolicyDecision => {
+  if (!user || message.senderId !== user.id) return deny('You can only edit your own messages.');
+  if (message.deletedAt || message.type !== 'text') return deny('This message can no longer be edited.');
+  return ALLOW;
+};
+
+/** Senders delete their own messages for everyone; admins can remove any message. */
+export const checkMessageDelete = (user: User | null, message: ChatMessage): PolicyDecision => {
+  if (!user || (message.senderId !== user.id && !isAdmin(user))) return deny('You can only delete your own messages.');
+  if (message.deletedAt) return deny('This message was already deleted.');
+  return ALLOW;
+};
+
+/** The team chat is open to everyone; direct messages to their two users; group chats to current members. */
+export const canReadMessage = (user: User | null | undefined, message: ChatMessage, groups: Group[]) => {
+  if (!user) return false;
+  if (!message.recipientId) return true;
+  if (message.senderId === user.id || message.recipientId === user.id) return true;
+  return groups.some(g => g.id === message.recipientId && g.memberIds.includes(user.id));
+};
+
+// --- Reaction Rules ---
+
+/** Anyone who can read a message may react to it. */
+export const checkMessageReaction = (user: User | null, message: ChatMessage, groups: Group[]): PolicyDecision =>
+  canReadMessage(user, message, groups) ? ALLOW : deny('You are not a member of this chat.');
+
+/** Reacting to a comment is like commenting: anyone who can read the project may do it. */
+export const checkCommentReaction = (user: User | null, projectId: string): PolicyDecision =>
+  canReadProject(user, projectId) ? ALLOW : deny('You do not have access to this project.');
+
+// --- User Rules ---
+
+export const checkUserManage = (user: User | null): PolicyDecision =>
+  isAdmin(user) ? ALLOW : deny('Admin privileges required to manage users.');
+
+/** Members may edit their own profile, but never their own role or project access. */
+export const checkUserUpdate = (user: User | null, existing: User, next: User): PolicyDecision => {
+  if (isAdmin(user)) return ALLOW;
+  if (!user || user.id !== existing.id) return deny('You can only edit your own profile.');
+  if (next.role !== existing.role || JSON.stringify(next.projectAccess) !== JSON.stringify(existing.projectAccess)) {
+    return deny('Only admins can change roles or project access.');
+  }
+  return ALLOW;
+};
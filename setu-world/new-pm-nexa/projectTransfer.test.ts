@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Project, Task, TaskCategory, TaskStatus, User, UserRole } from './types';
+import { PROJECT_EXPORT_FORMAT, PROJECT_EXPORT_VERSION, planJsonImport } from './projectTransfer';
+
+const users: User[] = [{ id: 'u1', name: 'Ann', username: 'ann', role: UserRole.MEMBER, avatar: '', projectAccess: {} }];
+
+const makeProject = (id: string, name: string): Project =>
+  ({ id, name, description: '', memberIds: [], attachments: [], comments: [] });
+
+const source: Project = {
+  ...makeProject('p1', 'Source'),
+  labels: [{ id: 'l-bug', name: 'Bug', color: 'rose' }, { id: 'l-ui', name: 'UI', color: 'blue' }],
+  customFields: [
+    { id: 'f-customer', name: 'Customer', type: 'text' },
+    { id: 'f-size', name: 'Size', type: 'select', options: ['S', 'M', 'L'] },
+    { id: 'f-secret', name: 'Secret', type: 'text' }
+  ]
+};
+
+const target: Project = {
+  ...makeProject('p2', 'Target'),
+  labels: [{ id: 'l-other-bug', name: 'bug', color: 'rose' }],
+  customFields: [
+    { id: 'f-other-customer', name: 'Customer', type: 'text' },
+    { id: 'f-other-size', name: 'Size', type: 'select', options: ['S', 'M'] }
+  ]
+};
+
+const task: Task = {
+  id: 't1',
+  projectId: 'p1',
+  title: 'Imported',
+  description: '',
+  status: TaskStatus.TODO,
+  category: TaskCategory.TASK,
+  subtasks: [{
+    id: 'st1',
+    title: 'Step',
+    completed: false,
+    status: TaskStatus.TODO,
+    category: TaskCategory.TASK,
+    description: '',
+    priority: 'medium',
+    attachments: [],
+    comments: [{ id: 'c2', userId: 'u1', text: 'On the subtask', timestamp: 1 }],
+    createdAt: 1
+  }],
+  priority: 'medium',
+  attachments: [],
+  comments: [{ id: 'c1', userId: 'u1', text: 'On the task', timestamp: 1 }],
+  createdAt: 1,
+  labelIds: ['l-bug', 'l-ui'],
+  customFields: { 'f-customer': 'Acme', 'f-size': 'L', 'f-secret': 'x' },
+  timeEntries: [{ id: 'te1', userId: 'u1', date: '2026-10-01', minutes: 90, note: '', createdAt: 1 }]
+};
+
+const exportOf = (tasks: Task[]) => JSON.stringify({
+  format: PROJECT_EXPORT_FORMAT, version: PROJECT_EXPORT_VERSION, exportedAt: '', project: source, tasks
+});
+
+describe('planJsonImport', () => {
+  const plan = planJsonImport(exportOf([task]), target, users);
+  const [imported] = plan.tasks;
+  const warnings = plan.issues.filter(i => i.severity === 'warning').map(i => i.message);
+
+  it('maps labels and custom fields to the target project by name', () => {
+    expect(imported.labelIds).toEqual(['l-other-bug']);
+    expect(imported.customFields).toEqual({ 'f-other-customer': 'Acme' });
+  });
+
+  it('gives the task, its subtasks and all comments fresh ids', () => {
+    const [subtask] = imported.subtasks;
+    expect(imported.id).not.toBe(task.id);
+    expect(subtask.id).not.toBe('st1');
+    expect(imported.comments.map(c => c.id)).not.toContain('c1');
+    expect(subtask.comments.map(c => c.id)).not.toContain('c2');
+    expect(new Set([imported.id, subtask.id, ...imported.comments.map(c => c.id), ...subtask.comments.map(c => c.id)]).size).toBe(4);
+    expect(imported.comments[0].text).toBe('On the task');
+  });
+
+  it('drops logged time', () => {
+    expect(imported.timeEntries).toBeUndefined();
+  });
+
+  it('reports everything it drops', () => {
+    expect(warnings).toEqual([
+      expect.stringContaining('label "UI"'),
+      expect.stringContaining('"L" is not a valid Size'),
+      expect.stringContaining('custom field "Secret"'),
+      expect.stringContaining('1h 30m of logged time')
+    ]);
+  });
+});
@@ -0,0 +1,436 @@
+import { CustomFieldValue, Project, SubTask, Task, TaskCategory, TimeEntry, User } from './types';
+import { getWorkflow, getStatusLabel } from './workflow';
+import { toCsv } from './csv';
+import { parseDateOnly, toDateOnly } from './dateUtils';
+import { formatDuration } from './timeTracking';
+
+/**
+ * Project export and import.
+ * JSON exports keep every task field and are meant to be imported back as they are;
+ * CSV exports have one row per task or subtask for spreadsheets, and CSV imports map
+ * arbitrary columns onto task fields. Imports always get fresh task, subtask and comment ids
+ * in the target project, and imported tasks start in the backlog because sprints are not part of the export.
+ * Labels and custom fields are matched to the target project's by id, then by name;
+ * logged time stays with the source project so it is not counted twice.
+ */
+
+export const PROJECT_EXPORT_FORMAT = 'setu-project';
+export const PROJECT_EXPORT_VERSION = 1;
+
+export interface ProjectExport {
+  format: typeof PROJECT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+  tasks: Task[];
+}
+
+export type ImportField =
+  | 'type' | 'id' | 'parentId' | 'title' | 'description' | 'status' | 'category' | 'priority'
+  | 'assignee' | 'startDate' | 'dueDate' | 'storyPoints' | 'estimateHours' | 'createdAt';
+
+// Also the CSV export header, in this order (followed by the export-only columns)
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'type', label: 'Type', aliases: ['record type', 'issue level'] },
+  { field: 'id', label: 'ID', aliases: ['task id', 'key'] },
+  { field: 'parentId', label: 'Parent ID', aliases: ['parent', 'parent task'] },
+  { field: 'title', label: 'Title', aliases: ['name', 'summary', 'task'] },
+  { field: 'description', label: 'Description', aliases: ['details', 'notes'] },
+  { field: 'status', label: 'Status', aliases: ['state', 'column'] },
+  { field: 'category', label: 'Category', aliases: ['issue type', 'kind'] },
+  { field: 'priority', label: 'Priority', aliases: [] },
+  { field: 'assignee', label: 'Assignee', aliases: ['assigned to', 'owner'] },
+  { field: 'startDate', label: 'Start Date', aliases: ['start'] },
+  { field: 'dueDate', label: 'Due Date', aliases: ['due'] },
+  { field: 'storyPoints', label: 'Story Points', aliases: ['points'] },
+  { field: 'estimateHours', label: 'Estimate (Hours)', aliases: ['estimate', 'hours'] },
+  { field: 'createdAt', label: 'Created At', aliases: ['created'] }
+];
+
+const EXPORT_ONLY_COLUMNS = ['Comments', 'Attachments'];
+
+export interface ImportIssue {
+  row: number; // Spreadsheet row (header is row 1) or task position in a JSON file
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** Result of a dry run: nothing is written until the tasks are handed to the store. */
+export interface ImportPlan {
+  tasks: Task[];
+  subtaskCount: number;
+  issues: ImportIssue[];
+}
+
+// --- Export ---
+
+export const buildProjectJson = (project: Project, tasks: Task[]) => {
+  const data: ProjectExport = {
+    format: PROJECT_EXPORT_FORMAT,
+    version: PROJECT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project,
+    tasks: tasks.filter(t => t.projectId === project.id)
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const buildProjectCsv = (project: Project, tasks: Task[], users: User[]) => {
+  const workflow = getWorkflow(project);
+  const username = (id?: string) => users.find(u => u.id === id)?.username || '';
+  const comments = (item: Task | SubTask) =>
+    item.comments.map(c => `[${new Date(c.timestamp).toISOString()}] ${username(c.userId) || c.userId}: ${c.text}`).join('\n');
+  const attachments = (item: Task | SubTask) =>
+    item.attachments.map(a => `${a.name} (${a.size}, ${a.type})${a.url ? ` ${a.url}` : ''}`).join('\n');
+
+  const row = (type: 'task' | 'subtask', item: Task | SubTask, parentId = '') => [
+    type,
+    item.id,
+    parentId,
+    item.title,
+    item.description,
+    getStatusLabel(workflow, item.status),
+    item.category,
+    item.priority,
+    username(item.assigneeId),
+    'startDate' in item ? item.startDate : '',
+    item.dueDate,
+    item.storyPoints,
+    item.estimateHours,
+    new Date(item.createdAt).toISOString(),
+    comments(item),
+    attachments(item)
+  ];
+
+  return toCsv([
+    [...IMPORT_FIELDS.map(f => f.label), ...EXPORT_ONLY_COLUMNS],
+    ...tasks
+      .filter(t => t.projectId === project.id)
+      .flatMap(t => [row('task', t), ...t.subtasks.map(s => row('subtask', s, t.id))])
+  ]);
+};
+
+// --- Import helpers ---
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Guesses the field for each CSV header; unknown headers are ignored (''). */
+export const guessColumnMapping = (headers: string[]): (ImportField | '')[] => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const key = normalize(header);
+    const match = IMPORT_FIELDS.find(f =>
+      !used.has(f.field) && [f.label, f.field, ...f.aliases].some(name => normalize(name) === key));
+    if (!match) return '';
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+// Rejects impossible dates such as 2024-02-31 instead of rolling them over
+const isDateOnly = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateOnly(parseDateOnly(value)) === value;
+
+/** Workflow column by id or by name, case-insensitive. */
+export const resolveStatus = (project: Project, value: string) => {
+  const key = value.trim().toLowerCase();
+  return getWorkflow(project).find(s => s.id.toLowerCase() === key || s.name.trim().toLowerCase() === key);
+};
+
+/** User by username, id or display name, case-insensitive. */
+export const resolveUser = (users: User[], value: string) => {
+  const key = value.trim().toLowerCase();
+  return users.find(u => u.username.toLowerCase() === key || u.id.toLowerCase() === key || u.name.toLowerCase() === key);
+};
+
+const newId = (prefix: string, index: number | string) => `${prefix}-${Date.now()}-${index}`;
+
+// --- CSV Import ---
+
+/**
+ * Dry run of a CSV import into `project`. `rows[0]` is the header and `mapping[i]` is the field of column i.
+ * Rows whose type is "subtask" (or that name a parent) become subtasks of the task with that ID in the same file.
+ */
+export const planCsvImport = (rows: string[][], mapping: (ImportField | '')[], project: Project, users: User[]): ImportPlan => {
+  const issues: ImportIssue[] = [];
+  const workflow = getWorkflow(project);
+  const tasks: Task[] = [];
+  const tasksBySourceId = new Map<string, Task>();
+  const pendingSubtasks: { row: number; parentId: string; subtask: SubTask }[] = [];
+
+  if (!mapping.includes('title')) {
+    return { tasks: [], subtaskCount: 0, issues: [{ row: 1, severity: 'error', message: 'Map one column to Title.' }] };
+  }
+
+  rows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    if (cells.every(c => !c.trim())) return;
+    const get = (field: ImportField) => {
+      const column = mapping.indexOf(field);
+      return column === -1 ? '' : (cells[column] || '').trim();
+    };
+    const error = (message: string) => issues.push({ row: rowNumber, severity: 'error', message });
+    const warn = (message: string) => issues.push({ row: rowNumber, severity: 'warning', message });
+    let valid = true;
+
+    const title = get('title');
+    if (!title) {
+      error('Title is empty.');
+      valid = false;
+    }
+
+    const statusValue = get('status');
+    const status = statusValue ? resolveStatus(project, statusValue) : workflow[0];
+    if (!status) {
+      error(`Status "${statusValue}" is not a column of ${project.name}.`);
+      valid = false;
+    }
+
+    const categoryValue = get('category').toUpperCase();
+    const category = categoryValue ? Object.values(TaskCategory).find(c => c === categoryValue) : TaskCategory.TASK;
+    if (!category) {
+      error(`Category "${get('category')}" must be one of ${Object.values(TaskCategory).join(', ')}.`);
+      valid = false;
+    }
+
+    const priorityValue = get('priority').toLowerCase() || 'medium';
+    if (!['low', 'medium', 'high'].includes(priorityValue)) {
+      error(`Priority "${get('priority')}" must be low, medium or high.`);
+      valid = false;
+    }
+
+    const assigneeValue = get('assignee');
+    const assignee = assigneeValue ? resolveUser(users, assigneeValue) : undefined;
+    if (assigneeValue && !assignee) warn(`No user matches "${assigneeValue}"; the item will be unassigned.`);
+
+    const dates: Record<'startDate' | 'dueDate', string | undefined> = { startDate: undefined, dueDate: undefined };
+    (['startDate', 'dueDate'] as const).forEach(field => {
+      const value = get(field);
+      if (!value) return;
+      if (isDateOnly(value)) dates[field] = value;
+      else {
+        error(`${field === 'startDate' ? 'Start date' : 'Due date'} "${value}" must be YYYY-MM-DD.`);
+        valid = false;
+      }
+    });
+
+    const numbers: Record<'storyPoints' | 'estimateHours', number | undefined> = { storyPoints: undefined, estimateHours: undefined };
+    (['storyPoints', 'estimateHours'] as const).forEach(field => {
+      const value = get(field);
+      if (!value) return;
+      const number = Number(value);
+      if (isNaN(number) || number < 0) {
+        error(`${field === 'storyPoints' ? 'Story points' : 'Estimate'} "${value}" must be a positive number.`);
+        valid = false;
+      } else numbers[field] = number;
+    });
+
+    const createdValue = get('createdAt');
+    const createdAt = createdValue ? new Date(createdValue).getTime() : Date.now();
+    if (isNaN(createdAt)) {
+      error(`Created at "${createdValue}" is not a date.`);
+      valid = false;
+    }
+
+    if (!valid || !status || !category) return;
+
+    const common = {
+      title,
+      description: get('description'),
+      status: status.id,
+      category,
+      priority: priorityValue as Task['priority'],
+      assigneeId: assignee?.id,
+      dueDate: dates.dueDate,
+      storyPoints: numbers.storyPoints,
+      estimateHours: numbers.estimateHours,
+      attachments: [],
+      comments: [],
+      createdAt
+    };
+
+    const parentId = get('parentId');
+    if (get('type').toLowerCase() === 'subtask' || parentId) {
+      if (!parentId) {
+        error('Subtask rows need a Parent ID.');
+        return;
+      }
+      pendingSubtasks.push({
+        row: rowNumber,
+        parentId,
+        subtask: { ...common, id: newId('st', index), completed: status.category === 'done' }
+      });
+      return;
+    }
+
+    const task: Task = {
+      ...common,
+      id: newId('t', index),
+      projectId: project.id,
+      startDate: dates.startDate,
+      subtasks: [],
+      completedAt: status.category === 'done' ? Date.now() : undefined
+    };
+    tasks.push(task);
+    const sourceId = get('id');
+    if (sourceId) {
+      if (tasksBySourceId.has(sourceId)) warn(`ID "${sourceId}" is used by more than one task; subtasks attach to the first.`);
+      else tasksBySourceId.set(sourceId, task);
+    }
+  });
+
+  // Subtasks may come before their parent row, so they are attached once every task is known
+  let subtaskCount = 0;
+  pendingSubtasks.forEach(({ row, parentId, subtask }) => {
+    const parent = tasksBySourceId.get(parentId);
+    if (!parent) {
+      issues.push({ row, severity: 'error', message: `Parent ID "${parentId}" does not match a task in the file.` });
+      return;
+    }
+    parent.subtasks.push(subtask);
+    subtaskCount++;
+  });
+
+  return { tasks, subtaskCount, issues: issues.sort((a, b) => a.row - b.row) };
+};
+
+// --- JSON Import ---
+
+/** Dry run of a JSON export (from any project) into `project`. Statuses are matched by column id, then name. */
+export const planJsonImport = (text: string, project: Project, users: User[]): ImportPlan => {
+  const fail = (message: string): ImportPlan => ({ tasks: [], subtaskCount: 0, issues: [{ row: 0, severity: 'error', message }] });
+
+  let data: ProjectExport;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('The file is not valid JSON.');
+  }
+  if (data?.format !== PROJECT_EXPORT_FORMAT || !Array.isArray(data.tasks)) return fail('The file is not a project export.');
+  if (data.version > PROJECT_EXPORT_VERSION) return fail(`Export version ${data.version} is newer than this app supports.`);
+
+  const issues: ImportIssue[] = [];
+  const sourceWorkflow = data.project ? getWorkflow(data.project) : [];
+  const idMap = new Map(data.tasks.map((t, i) => [t.id, newId('t', i)]));
+
+  const mapStatus = (status: string, row: number, label: string) => {
+    const target = resolveStatus(project, status) || resolveStatus(project, getStatusLabel(sourceWorkflow, status));
+    if (!target) issues.push({ row, severity: 'error', message: `${label}: status "${getStatusLabel(sourceWorkflow, status)}" is not a column of ${project.name}.` });
+    return target;
+  };
+  const mapAssignee = (assigneeId: string | undefined, row: number, label: string) => {
+    if (!assigneeId || users.some(u => u.id === assigneeId)) return assigneeId;
+    issues.push({ row, severity: 'warning', message: `${label}: the assignee no longer exists; it will be unassigned.` });
+    return undefined;
+  };
+
+  const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const sourceLabels = data.project?.labels || [];
+  const targetLabels = project.labels || [];
+  const mapLabelIds = (labelIds: string[] | undefined, row: number, label: string) => {
+    if (!labelIds?.length) return undefined;
+    const mapped = labelIds.flatMap(id => {
+      const target = targetLabels.find(l => l.id === id);
+      if (target) return [target.id];
+      // Ids the source project no longer has were not shown there either
+      const source = sourceLabels.find(l => l.id === id);
+      if (!source) return [];
+      const byName = targetLabels.find(l => sameName(l.name, source.name));
+      if (byName) return [byName.id];
+      issues.push({ row, severity: 'warning', message: `${label}: label "${source.name}" is not a label of ${project.name}; it will be dropped.` });
+      return [];
+    });
+    return mapped.length ? Array.from(new Set(mapped)) : undefined;
+  };
+
+  const sourceFields = data.project?.customFields || [];
+  const targetFields = project.customFields || [];
+  const mapCustomFields = (values: Task['customFields'], row: number, label: string) => {
+    if (!values) return undefined;
+    const mapped: Record<string, CustomFieldValue> = {};
+    Object.entries(values).forEach(([fieldId, value]) => {
+      const source = sourceFields.find(f => f.id === fieldId);
+      const target = targetFields.find(f => f.id === fieldId && (!source || f.type === source.type))
+        || (source && targetFields.find(f => sameName(f.name, source.name) && f.type === source.type));
+      const name = source?.name || target?.name;
+      if (!target) {
+        if (name) issues.push({ row, severity: 'warning', message: `${label}: custom field "${name}" is not a field of ${project.name}; its value will be dropped.` });
+        return;
+      }
+      // Choices and users must exist in the target project as well
+      const options = target.options || [];
+      if (target.type === 'select' && !options.includes(String(value))
+        || target.type === 'user' && !users.some(u => u.id === value)) {
+        issues.push({ row, severity: 'warning', message: `${label}: "${value}" is not a valid ${target.name} in ${project.name}; it will be dropped.` });
+        return;
+      }
+      if (target.type === 'multi_select' && Array.isArray(value)) {
+        const kept = value.filter(option => options.includes(option));
+        if (kept.length < value.length) issues.push({ row, severity: 'warning', message: `${label}: some ${target.name} options are not in ${project.name}; they will be dropped.` });
+        if (kept.length) mapped[target.id] = kept;
+        return;
+      }
+      mapped[target.id] = value;
+    });
+    return Object.keys(mapped).length ? mapped : undefined;
+  };
+
+  const dropTimeEntries = (timeEntries: TimeEntry[] | undefined, row: number, label: string) => {
+    const minutes = (timeEntries || []).reduce((sum, e) => sum + e.minutes, 0);
+    if (minutes > 0) issues.push({ row, severity: 'warning', message: `${label}: ${formatDuration(minutes)} of logged time stays with the exported project and will not be imported.` });
+    return undefined;
+  };
+
+  let subtaskCount = 0;
+  const tasks = data.tasks.flatMap((source, index): Task[] => {
+    const row = index + 1;
+    if (typeof source?.title !== 'string' || !source.title.trim() || !Array.isArray(source.subtasks)) {
+      issues.push({ row, severity: 'error', message: 'Task is missing a title or its subtasks.' });
+      return [];
+    }
+    const label = `"${source.title}"`;
+    const status = mapStatus(source.status, row, label);
+    // Comment ids must stay unique across tasks: reactions are keyed by them
+    const copyComments = (comments: Task['comments'] | undefined, key: string) =>
+      (comments || []).map((c, i) => ({ ...c, id: newId('c', `${key}-${i}`) }));
+    const subtasks = source.subtasks.map((s, subtaskIndex) => {
+      const subtaskLabel = `${label} › "${s.title}"`;
+      const subtaskStatus = mapStatus(s.status, row, subtaskLabel);
+      return {
+        ...s,
+        id: newId('st', `${index}-${subtaskIndex}`),
+        comments: copyComments(s.comments, `${index}-${subtaskIndex}`),
+        status: subtaskStatus?.id || s.status,
+        completed: subtaskStatus ? subtaskStatus.category === 'done' : s.completed,
+        assigneeId: mapAssignee(s.assigneeId, row, subtaskLabel),
+        labelIds: mapLabelIds(s.labelIds, row, subtaskLabel),
+        timeEntries: dropTimeEntries(s.timeEntries, row, subtaskLabel)
+      };
+    });
+    if (!status) return [];
+    subtaskCount += subtasks.length;
+
+    return [{
+      ...source,
+      id: idMap.get(source.id)!,
+      projectId: project.id,
+      status: status.id,
+      assigneeId: mapAssignee(source.assigneeId, row, label),
+      labelIds: mapLabelIds(source.labelIds, row, label),
+      customFields: mapCustomFields(source.customFields, row, label),
+      timeEntries: dropTimeEntries(source.timeEntries, row, label),
+      subtasks,
+      attachments: source.attachments || [],
+      comments: copyComments(source.comments, String(index)),
+      // Links to tasks outside the file cannot be kept
+      links: (source.links || []).filter(l => idMap.has(l.taskId)).map(l => ({ ...l, taskId: idMap.get(l.taskId)! })),
+      sprintId: undefined,
+      order: undefined,
+      completedAt: status.category === 'done' ? source.completedAt ?? Date.now() : undefined
+    }];
+  });
+
+  return { tasks, subtaskCount, issues };
+};
+
+export const hasImportErrors = (plan: ImportPlan) => plan.issues.some(i => i.severity === 'error');
@@ -0,0 +1,40 @@
+import { Reaction, ReactionTargetType, Task, User } from './types';
+
+/**
+ * Emoji reactions on chat messages and task/subtask comments. Each user's emoji is its own
+ * stored row, so two people reacting at once never overwrite each other.
+ */
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '🎉', '😮', '😢', '👀', '✅'];
+
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+}
+
+/** Reactions on one target grouped by emoji, in the order each emoji was first used. */
+export const summarizeReactions = (reactions: Reaction[], targetType: ReactionTargetType, targetId: string): ReactionSummary[] => {
+  const byEmoji = new Map<string, string[]>();
+  reactions
+    .filter(r => r.targetType === targetType && r.targetId === targetId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(r => byEmoji.set(r.emoji, [...(byEmoji.get(r.emoji) || []), r.userId]));
+  return Array.from(byEmoji, ([emoji, userIds]) => ({ emoji, userIds }));
+};
+
+export const findOwnReaction = (reactions: Reaction[], targetType: ReactionTargetType, targetId: string, userId: string, emoji: string) =>
+  reactions.find(r => r.targetType === targetType && r.targetId === targetId && r.userId === userId && r.emoji === emoji);
+
+/** Tooltip text, e.g. "You, Priya and Sam". */
+export const describeReactors = (userIds: string[], users: User[], viewerId?: string) => {
+  const names = userIds.map(id => id === viewerId ? 'You' : users.find(u => u.id === id)?.name || 'Unknown user');
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+};
+
+/** The task holding a comment, whether it is on the task itself or on one of its subtasks. */
+export const findCommentTask = (tasks: Task[], commentId: string) =>
+  tasks.find(t => t.comments.some(c => c.id === commentId) || t.subtasks.some(s => s.comments.some(c => c.id === commentId)));
+
+/** Ids of every comment on the tasks and their subtasks, for loading their reactions. */
+export const getCommentIds = (tasks: Task[]) =>
+  tasks.flatMap(t => [...t.comments, ...t.subtasks.flatMap(s => s.comments)].map(c => c.id));
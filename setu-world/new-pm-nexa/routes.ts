@@ -0,0 +1,112 @@
+import { Notification, Task } from './types';
+
+/**
+ * URL routes of the app. The path is the source of truth for the open screen:
+ *   /                                   dashboard
+ *   /projects[/:projectId]              board, optionally filtered to one project (?view=<id> opens a saved view)
+ *   /tasks/:taskId[/subtasks/:subtaskId] task or subtask editor on top of the board
+ *   /calendar, /timesheet
+ *   /chat[/team | /:userOrGroupId]      chat list, team chat or a direct/group chat (?message=<id> highlights one,
+ *                                       ?thread=<id> opens the replies to a message, ?call=1 offers to call the chat)
+ *   /admin/users, /admin/projects
+ * vercel.json rewrites every path to index.html, so all of these can be opened directly.
+ */
+
+export type AppTab = 'dashboard' | 'projects' | 'calendar' | 'timesheet' | 'chat' | 'admin';
+
+export type AdminSection = 'users' | 'projects';
+
+export type AppRoute =
+  | { name: 'dashboard' | 'calendar' | 'timesheet' }
+  | { name: 'projects'; projectId?: string }
+  | { name: 'task'; taskId: string; subtaskId?: string }
+  | { name: 'chat'; chatId?: string | null; messageId?: string; threadId?: string; call?: boolean } // null is the team chat, undefined the chat list
+  | { name: 'admin'; section: AdminSection };
+
+// Fired by navigate(); the browser fires popstate for back/forward
+export const ROUTE_CHANGE_EVENT = 'app:navigate';
+
+const TEAM_CHAT_SEGMENT = 'team';
+
+export const parseRoute = (pathname: string, search = ''): AppRoute => {
+  const [section, id, child, childId] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const params = new URLSearchParams(search);
+
+  switch (section) {
+    case undefined:
+      // Saved view links used to point at the root
+      return params.has('view') ? { name: 'projects' } : { name: 'dashboard' };
+    case 'projects':
+      return { name: 'projects', projectId: id };
+    case 'tasks':
+      if (!id) return { name: 'projects' };
+      return { name: 'task', taskId: id, subtaskId: child === 'subtasks' ? childId : undefined };
+    case 'calendar':
+    case 'timesheet':
+      return { name: section };
+    case 'chat':
+      return {
+        name: 'chat',
+        chatId: id === undefined ? undefined : id === TEAM_CHAT_SEGMENT ? null : id,
+        messageId: params.get('message') || undefined,
+        threadId: params.get('thread') || undefined,
+        call: params.get('call') === '1' || undefined
+      };
+    case 'admin':
+      return { name: 'admin', section: id === 'projects' ? 'projects' : 'users' };
+    default:
+      return { name: 'dashboard' };
+  }
+};
+
+export const buildPath = (route: AppRoute): string => {
+  const segment = encodeURIComponent;
+  switch (route.name) {
+    case 'dashboard':
+      return '/';
+    case 'calendar':
+    case 'timesheet':
+      return `/${route.name}`;
+    case 'projects':
+      return route.projectId ? `/projects/${segment(route.projectId)}` : '/projects';
+    case 'task':
+      return `/tasks/${segment(route.taskId)}${route.subtaskId ? `/subtasks/${segment(route.subtaskId)}` : ''}`;
+    case 'chat': {
+      if (route.chatId === undefined) return '/chat';
+      const path = `/chat/${route.chatId === null ? TEAM_CHAT_SEGMENT : segment(route.chatId)}`;
+      const params = new URLSearchParams();
+      if (route.messageId) params.set('message', route.messageId);
+      if (route.threadId) params.set('thread', route.threadId);
+      if (route.call) params.set('call', '1');
+      return params.toString() ? `${path}?${params}` : path;
+    }
+    case 'admin':
+      return `/admin/${route.section}`;
+  }
+};
+
+/** Tab that shows the route; tasks open on top of whatever page was open (the board by default). */
+export const getRouteTab = (route: AppRoute, fallback: AppTab = 'projects'): AppTab =>
+  route.name === 'task' ? fallback : route.name;
+
+export const getCurrentPath = () => window.location.pathname + window.location.search;
+
+/** Pushes (or replaces) a history entry; does nothing when the URL would not change. */
+export const navigate = (path: string, replace = false) => {
+  if (path === getCurrentPath()) return;
+  if (replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+/** Where a notification leads. Older notifications hold a bare task or chat ID instead of a path. */
+export const getNotificationRoute = (notification: Notification, tasks: Task[]): AppRoute | null => {
+  const { linkTo } = notification;
+  if (!linkTo) return null;
+  if (linkTo.startsWith('/')) {
+    const [pathname, search] = linkTo.split('?');
+    return parseRoute(pathname, search);
+  }
+  if (tasks.some(t => t.id === linkTo)) return { name: 'task', taskId: linkTo };
+  return { name: 'chat', chatId: linkTo };
+};
@@ -0,0 +1,44 @@
+import { SavedView, SavedViewConfig, TaskSort, User } from './types';
+import { canReadSavedView } from './policy';
+import { DEFAULT_TASK_FILTERS } from './taskFilters';
+import { buildPath } from './routes';
+
+/**
+ * Saved Kanban views: a named filter set, query, view mode and sort order.
+ * Personal views are only listed for their owner; views with a projectId are shared with
+ * everyone who can read that project. A view is linked through `?view=<id>` in the URL.
+ */
+
+export const VIEW_URL_PARAM = 'view';
+
+export const DEFAULT_TASK_SORT: TaskSort = { field: 'manual', direction: 'asc' };
+
+export const DEFAULT_VIEW_CONFIG: SavedViewConfig = {
+  filters: DEFAULT_TASK_FILTERS,
+  query: '',
+  sprint: 'all',
+  blockedOnly: false,
+  viewMode: 'board',
+  sort: DEFAULT_TASK_SORT
+};
+
+export const getSavedViewUrl = (baseUrl: string, viewId: string) =>
+  `${baseUrl.replace(/\/$/, '')}${buildPath({ name: 'projects' })}?${VIEW_URL_PARAM}=${encodeURIComponent(viewId)}`;
+
+/** Views `user` can open: their personal ones first, then shared ones, each by name. */
+export const getVisibleSavedViews = (views: SavedView[], user: User | null) =>
+  views
+    .filter(v => canReadSavedView(user, v))
+    .sort((a, b) => Number(!!a.projectId) - Number(!!b.projectId) || a.name.localeCompare(b.name));
+
+// Older views may miss fields added later; defaults fill the gaps
+export const withViewDefaults = (config: Partial<SavedViewConfig>): SavedViewConfig => ({
+  ...DEFAULT_VIEW_CONFIG,
+  ...config,
+  filters: { ...DEFAULT_VIEW_CONFIG.filters, ...config.filters },
+  sort: { ...DEFAULT_VIEW_CONFIG.sort, ...config.sort }
+});
+
+/** True when the board shows exactly what the view stores (the query ignores outer spaces). */
+export const isSameViewConfig = (a: SavedViewConfig, b: SavedViewConfig) =>
+  JSON.stringify({ ...withViewDefaults(a), query: a.query.trim() }) === JSON.stringify({ ...withViewDefaults(b), query: b.query.trim() });
@@ -0,0 +1,148 @@
+import { Attachment, ChatMessage, Comment, Group, Project, Task, User } from './types';
+import { canReadProject } from './policy';
+
+/**
+ * Global search behind the Ctrl/Cmd+K palette.
+ * Every query term must appear somewhere in a result (case-insensitive); titles weigh more
+ * than bodies, and ties go to the most recent item. Tasks are limited to readable projects
+ * and messages to chats the viewer belongs to, minus the ones they cleared from their history.
+ */
+
+export type SearchResultKind = 'task' | 'subtask' | 'comment' | 'message' | 'attachment';
+
+// Where selecting a result leads: a task editor, or a chat (null is the team chat)
+export type SearchTarget =
+  | { type: 'task'; taskId: string; subtaskId?: string }
+  | { type: 'chat'; chatId: string | null; messageId: string };
+
+export interface SearchResult {
+  key: string;
+  kind: SearchResultKind;
+  title: string;
+  snippet: string;
+  context: string; // Project or chat name
+  timestamp: number;
+  target: SearchTarget;
+  score: number;
+}
+
+export interface SearchSources {
+  viewer: User;
+  tasks: Task[];
+  projects: Project[];
+  messages: ChatMessage[];
+  groups: Group[];
+  users: User[];
+  hiddenMessageIds: Set<string>;
+}
+
+export const SEARCH_RESULT_LIMIT = 50;
+const SNIPPET_RADIUS = 40;
+
+const toTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/** Text around the first matching term, with ellipses where it was cut. */
+export const getSnippet = (text: string, terms: string[]) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const hit = terms.map(t => lower.indexOf(t)).filter(i => i !== -1).sort((a, b) => a - b)[0];
+  if (hit === undefined) return flat.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, hit + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+// 0 when some term is missing; otherwise title hits count three times as much as body hits
+const scoreMatch = (terms: string[], title: string, body = '') => {
+  const t = title.toLowerCase();
+  const b = body.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const inTitle = t.includes(term);
+    if (!inTitle && !b.includes(term)) return 0;
+    score += inTitle ? 3 : 1;
+  }
+  if (terms.length > 1 && t.includes(terms.join(' '))) score += 2;
+  return score;
+};
+
+/** The chat a message belongs to for `viewer`, or undefined when they are not part of it. */
+const getMessageChat = (message: ChatMessage, viewer: User, groups: Group[], users: User[]) => {
+  if (!message.recipientId) return { chatId: null, name: 'Team Chat' };
+  const group = groups.find(g => g.id === message.recipientId);
+  if (group) return group.memberIds.includes(viewer.id) ? { chatId: group.id, name: group.name } : undefined;
+  if (message.senderId !== viewer.id && message.recipientId !== viewer.id) return undefined;
+  const partnerId = message.senderId === viewer.id ? message.recipientId : message.senderId;
+  return { chatId: partnerId, name: users.find(u => u.id === partnerId)?.name || 'Direct Message' };
+};
+
+export const searchAll = (query: string, sources: SearchSources, limit = SEARCH_RESULT_LIMIT): SearchResult[] => {
+  const terms = toTerms(query);
+  if (terms.length === 0) return [];
+  const { viewer, tasks, projects, messages, groups, users, hiddenMessageIds } = sources;
+  const results: SearchResult[] = [];
+  const userName = (id: string) => users.find(u => u.id === id)?.name || 'Unknown user';
+
+  const addComments = (comments: Comment[], parentTitle: string, context: string, target: SearchTarget, keyPrefix: string) =>
+    comments.forEach(c => {
+      const score = scoreMatch(terms, '', c.text);
+      if (score) results.push({
+        key: `${keyPrefix}:comment:${c.id}`, kind: 'comment', title: `${userName(c.userId)} on "${parentTitle}"`,
+        snippet: getSnippet(c.text, terms), context, timestamp: c.timestamp, target, score
+      });
+    });
+
+  const addAttachments = (attachments: Attachment[], parentTitle: string, context: string, timestamp: number, target: SearchTarget, keyPrefix: string) =>
+    attachments.forEach(a => {
+      const score = scoreMatch(terms, a.name);
+      if (score) results.push({
+        key: `${keyPrefix}:attachment:${a.id}`, kind: 'attachment', title: a.name,
+        snippet: `Attached to ${parentTitle}`, context, timestamp, target, score
+      });
+    });
+
+  tasks
+    .filter(t => canReadProject(viewer, t.projectId))
+    .forEach(task => {
+      const context = projects.find(p => p.id === task.projectId)?.name || 'Unknown project';
+      const target: SearchTarget = { type: 'task', taskId: task.id };
+      const score = scoreMatch(terms, task.title, task.description);
+      if (score) results.push({
+        key: task.id, kind: 'task', title: task.title, snippet: getSnippet(task.description, terms),
+        context, timestamp: task.createdAt, target, score
+      });
+      addComments(task.comments, task.title, context, target, task.id);
+      addAttachments(task.attachments, `"${task.title}"`, context, task.createdAt, target, task.id);
+
+      task.subtasks.forEach(subtask => {
+        const subtaskTarget: SearchTarget = { type: 'task', taskId: task.id, subtaskId: subtask.id };
+        const keyPrefix = `${task.id}:${subtask.id}`;
+        const subtaskScore = scoreMatch(terms, subtask.title, subtask.description);
+        if (subtaskScore) results.push({
+          key: keyPrefix, kind: 'subtask', title: subtask.title,
+          snippet: subtask.description ? getSnippet(subtask.description, terms) : `Subtask of "${task.title}"`,
+          context, timestamp: subtask.createdAt, target: subtaskTarget, score: subtaskScore
+        });
+        addComments(subtask.comments, subtask.title, context, subtaskTarget, keyPrefix);
+        addAttachments(subtask.attachments, `"${subtask.title}"`, context, subtask.createdAt, subtaskTarget, keyPrefix);
+      });
+    });
+
+  messages
+    .filter(m => !hiddenMessageIds.has(m.id))
+    .forEach(message => {
+      const chat = getMessageChat(message, viewer, groups, users);
+      if (!chat) return;
+      const target: SearchTarget = { type: 'chat', chatId: chat.chatId, messageId: message.id };
+      const score = message.type === 'text' ? scoreMatch(terms, '', message.text) : 0;
+      if (score) results.push({
+        key: message.id, kind: 'message', title: userName(message.senderId), snippet: getSnippet(message.text, terms),
+        context: chat.name, timestamp: message.timestamp, target, score
+      });
+      addAttachments(message.attachments || [], `a message from ${userName(message.senderId)}`, chat.name, message.timestamp, target, message.id);
+    });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, limit);
+};
@@ -0,0 +1,42 @@
+import { Project, Sprint, Task } from './types';
+import { getProjectWorkflow, isDoneStatus } from './workflow';
+
+/**
+ * Sprint planning helpers.
+ * Tasks join a sprint through `sprintId`; a task without one is in its project's backlog.
+ * Closing a sprint keeps finished tasks in it and moves the unfinished ones on.
+ */
+
+const STATE_ORDER: Record<Sprint['state'], number> = { active: 0, planned: 1, closed: 2 };
+
+/** Active sprint first, then planned sprints by start date, then closed ones (newest first). */
+export const getProjectSprints = (sprints: Sprint[], projectId: string) =>
+  sprints
+    .filter(s => s.projectId === projectId)
+    .sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+      (a.state === 'closed' ? b.startDate.localeCompare(a.startDate) : a.startDate.localeCompare(b.startDate)));
+
+export const getActiveSprint = (sprints: Sprint[], projectId: string) =>
+  sprints.find(s => s.projectId === projectId && s.state === 'active');
+
+/** The planned sprint that follows `sprint`, used as the default destination when closing it. */
+export const getNextSprint = (sprints: Sprint[], sprint: Sprint) =>
+  getProjectSprints(sprints, sprint.projectId).find(s => s.state === 'planned' && s.id !== sprint.id);
+
+export const getUnfinishedSprintTasks = (sprint: Sprint, tasks: Task[], projects: Project[]) =>
+  tasks.filter(t => t.sprintId === sprint.id && !isDoneStatus(getProjectWorkflow(projects, t.projectId), t.status));
+
+export const validateSprint = (sprint: Sprint): string | null => {
+  if (!sprint.name.trim()) return 'A sprint needs a name.';
+  if (!sprint.startDate || !sprint.endDate) return 'A sprint needs a start and an end date.';
+  if (sprint.endDate < sprint.startDate) return 'A sprint cannot end before it starts.';
+  return null;
+};
+
+/** Board filter: 'all', 'active' (any active sprint), 'backlog', or a sprint id. */
+export const matchesSprintFilter = (task: Task, filter: string, sprints: Sprint[]) => {
+  if (filter === 'all') return true;
+  if (filter === 'backlog') return !task.sprintId;
+  if (filter === 'active') return sprints.some(s => s.id === task.sprintId && s.state === 'active');
+  return task.sprintId === filter;
+};
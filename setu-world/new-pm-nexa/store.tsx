@@ -1,6 +1,19 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
-import { User, Project, Task, ChatMessage, UserRole, TaskStatus, Attachment, Group, ProjectAccessLevel, Notification, NotificationType, IncomingCall, SignalData } from './types';
-import { supabase, fetchMessages } from './supabaseClient';
+import { User, Project, Task, Sprint, SavedView, TimeEntry, ActiveTimer, ChatMessage, ChatHistoryState, ReadReceipt, Reaction, ReactionTargetType, UserRole, WorkflowStatus, TransitionRule, TaskLabel, CustomFieldDefinition, TaskFilters, Attachment, Group, ProjectAccessLevel, Notification, NotificationType, IncomingCall, SignalData, AuthSession } from './types';
+import { supabase } from './supabaseClient';
+import { repository, getMessageChatId } from './data';
+import { PolicyDecision, checkTaskCreate, checkTaskUpdate, checkTaskDelete, checkTaskMove, checkProjectManage, checkSprintManage, checkSavedViewManage, checkMessageEdit, checkMessageDelete, checkMessageReaction, checkCommentReaction, checkTimeLog, checkUserManage, checkUserUpdate } from './policy';
+import { validateLabels } from './labels';
+import { validateCustomFields } from './customFields';
+import { findCommentTask, findOwnReaction, getCommentIds } from './reactions';
+import { checkTaskPlacement, checkTransition, checkWipLimit, findStatus, getProjectWorkflow, getStatusLabel, getWorkflow, validateWorkflow } from './workflow';
+import { checkBlockerCycle, checkBlockers } from './taskLinks';
+import { DEFAULT_TASK_FILTERS } from './taskFilters';
+import { buildPath } from './routes';
+import { getUnfinishedSprintTasks, validateSprint } from './sprints';
+import { withCompletion } from './estimates';
+import { toDateOnly } from './dateUtils';
+import { SEARCH_RESULT_LIMIT } from './search';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 interface AppContextType {
@@ -8,7 +21,11 @@ interface AppContextType {
   users: User[];
   projects: Project[];
   tasks: Task[];
+  sprints: Sprint[];
+  savedViews: SavedView[];
   messages: ChatMessage[];
+  chatHistory: Record<string, ChatHistoryState>;
+  reactions: Reaction[];
   groups: Group[];
   notifications: Notification[];
   incomingCall: IncomingCall | null;
@@ -32,18 +49,38 @@ interface AppContextType {
   toggleMic: () => void;
   toggleCamera: () => void;
 
-  login: (u: User) => void;
+  // Resolves an error message, or null on success
+  login: (username: string, password: string, role: UserRole) => Promise<string | null>;
   logout: () => void;
-  addUser: (u: User) => void;
+  changePassword: (oldPassword: string, newPassword: string) => Promise<boolean>;
+  resetUserPassword: (userId: string, newPassword: string) => Promise<void>;
+  addUser: (u: User, password: string) => void;
   updateUser: (u: User) => void;
   deleteUser: (id: string) => void;
   addTask: (t: Task) => void;
+  // addTask for many tasks at once (imports): appended to the end of their columns; resolves to how many were created
+  importTasks: (tasks: Task[]) => Promise<number>;
   updateTask: (t: Task) => void;
   deleteTask: (id: string) => Promise<void>;
-  moveTask: (taskId: string, newStatus: TaskStatus, newIndex?: number) => Promise<void>;
-  addMessage: (text: string, recipientId?: string, attachments?: Attachment[]) => void;
+  moveTask: (taskId: string, newStatus: string, newIndex?: number, reason?: string) => Promise<void>;
+  // Sprint planning; a sprintId of undefined means the project backlog
+  addSprint: (s: Sprint) => void;
+  updateSprint: (s: Sprint) => void;
+  deleteSprint: (id: string) => Promise<void>;
+  closeSprint: (id: string, moveToSprintId?: string) => Promise<void>;
+  moveTaskToSprint: (taskId: string, sprintId?: string) => void;
+  // Saved Kanban views; only the owner (or an admin) may change or delete one
+  addSavedView: (v: SavedView) => void;
+  updateSavedView: (v: SavedView) => void;
+  deleteSavedView: (id: string) => Promise<void>;
+  addMessage: (text: string, recipientId?: string, attachments?: Attachment[], parentId?: string) => void;
+  // Senders edit their own messages; senders and admins delete a message for everyone, leaving a tombstone
+  editMessage: (id: string, text: string) => Promise<void>;
+  deleteMessageForEveryone: (id: string) => Promise<void>;
+  // Adds the current user's emoji to a chat message or comment, or takes it back
+  toggleReaction: (targetType: ReactionTargetType, targetId: string, emoji: string) => Promise<void>;
   createGroup: (name: string, memberIds: string[]) => Promise<string | null>;
-  addProject: (name: string, description: string) => void;
+  addProject: (name: string, description: string, workflow?: WorkflowStatus[], transitionRules?: TransitionRule[], labels?: TaskLabel[], customFields?: CustomFieldDefinition[]) => void;
   updateProject: (p: Project) => void;
   deleteProject: (id: string) => Promise<void>;
   updateGroup: (g: Group) => Promise<void>;
@@ -54,7 +91,15 @@ interface AppContextType {
   markNotificationRead: (id: string) => void;
   clearNotifications: () => void;
   markChatRead: (chatId: string) => void;
+  loadOlderMessages: (chatId: string) => Promise<void>;
+  loadThread: (parentId: string) => Promise<void>;
+  searchMessages: (query: string) => Promise<ChatMessage[]>;
   getUnreadCount: (chatId: string) => number;
+  // Other participants whose read position is at or past the message
+  getMessageReaders: (message: ChatMessage) => string[];
+  // Users typing in each chat (keyed as the current user sees the chat)
+  typingUsers: Record<string, string[]>;
+  setTyping: (chatId: string, isTyping: boolean) => void;
   totalUnreadChatCount: number;
 
   // Call Logic
@@ -69,6 +114,15 @@ interface AppContextType {
   // Preferences
   ringtone: string;
   setRingtone: (url: string) => void;
+
+  // Task filters shared by the board and the calendar
+  taskFilters: TaskFilters;
+  setTaskFilters: (filters: TaskFilters) => void;
+
+  // Time Tracking; stopping logs a TimeEntry on the task and resolves it
+  activeTimer: ActiveTimer | null;
+  startTimer: (taskId: string) => Promise<void>;
+  stopTimer: () => Promise<TimeEntry | null>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -81,11 +135,84 @@ const RTC_CONFIG: RTCConfiguration = {
   ]
 };
 
+const SESSION_KEY = 'nexus_pm_session';
+const USER_CACHE_KEY = 'nexus_pm_user';
+const TIMER_KEY = 'nexus_pm_timer';
+
+// Message history loads per chat, a page at a time
+const MESSAGE_PAGE_SIZE = 50;
+const RECENT_MESSAGE_LIMIT = 100;
+const UNREAD_MESSAGE_LIMIT = 500;
+
+// Typing signals repeat while typing continues; a peer that goes quiet longer than the timeout stops showing
+const TYPING_SIGNAL_INTERVAL = 3000;
+const TYPING_TIMEOUT = 6000;
+
+// Adds fetched messages to the list, skipping ones already held, in timestamp order
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const known = new Set(current.map(m => m.id));
+  const added = incoming.filter(m => {
+    if (known.has(m.id)) return false;
+    known.add(m.id);
+    return true;
+  });
+  return added.length ? [...current, ...added].sort((a, b) => a.timestamp - b.timestamp) : current;
+};
+
+// Adds a broadcast message, or takes its edited or deleted version when that is newer than the one held.
+// `actor` is the peer that broadcast it: the change must pass the same policy as a local edit or delete,
+// and only the content is taken, mirroring messages_guard_update.
+const upsertMessage = (current: ChatMessage[], incoming: ChatMessage, actor: User | null) => {
+  const existing = current.find(m => m.id === incoming.id);
+  if (!existing) return [...current, incoming];
+  const version = (m: ChatMessage) => m.deletedAt ?? m.editedAt ?? 0;
+  if (version(incoming) <= version(existing)) return current;
+
+  let updated: ChatMessage;
+  if (incoming.deletedAt) {
+    if (!checkMessageDelete(actor, existing).allowed) return current;
+    updated = { ...existing, text: '', attachments: [], revisions: undefined, deletedAt: incoming.deletedAt, deletedBy: actor!.id };
+  } else {
+    if (!checkMessageEdit(actor, existing).allowed) return current;
+    updated = {
+      ...existing,
+      text: incoming.text,
+      editedAt: incoming.editedAt,
+      revisions: [...(existing.revisions || []), { text: existing.text, timestamp: existing.editedAt ?? existing.timestamp }]
+    };
+  }
+  return current.map(m => m.id === incoming.id ? updated : m);
+};
+
+const readStoredSession = (): AuthSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    const session: AuthSession | null = stored ? JSON.parse(stored) : null;
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch (e) {
+    return null;
+  }
+};
+
 export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Initialize currentUser from localStorage if available
+  // Session token (opaque, server-issued). The cached profile is only trusted while a session exists.
+  const [storedSession] = useState(() => {
+    const session = readStoredSession();
+    // Before the first request: row-level access depends on who is asking
+    repository.auth.attachSession(session ? session.token : null);
+    return session;
+  });
+  const sessionRef = useRef<AuthSession | null>(storedSession);
+
+  // Initialize currentUser from the cached profile so the UI renders immediately; validated below
   const [currentUser, setCurrentUser] = useState<User | null>(() => {
     try {
-      const stored = localStorage.getItem('nexus_pm_user');
+      if (!sessionRef.current) {
+        // Drop profiles cached by older builds (they may still carry a plaintext password)
+        localStorage.removeItem(USER_CACHE_KEY);
+        return null;
+      }
+      const stored = localStorage.getItem(USER_CACHE_KEY);
       return stored ? JSON.parse(stored) : null;
     } catch (e) {
       return null;
@@ -95,7 +222,12 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [users, setUsers] = useState<User[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chatHistory, setChatHistory] = useState<Record<string, ChatHistoryState>>({});
+  const loadingChatsRef = useRef<Set<string>>(new Set());
+  const [reactions, setReactions] = useState<Reaction[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [deletedMessageIds, setDeletedMessageIds] = useState<Set<string>>(new Set());
@@ -129,6 +261,23 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.setItem('nexus_pm_ringtone', url);
   };
 
+  const [taskFilters, setTaskFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+
+  // Running timer survives reloads on this device
+  const [activeTimer, setActiveTimerState] = useState<ActiveTimer | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(TIMER_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  });
+
+  const setActiveTimer = (timer: ActiveTimer | null) => {
+    setActiveTimerState(timer);
+    if (timer) localStorage.setItem(TIMER_KEY, JSON.stringify(timer));
+    else localStorage.removeItem(TIMER_KEY);
+  };
+
   // WebRTC Refs - Now using a Map for multiple connections
   const peerConnectionsRef = useRef<Map<string, RTCPeerConnection>>(new Map());
   const signalingChannelRef = useRef<RealtimeChannel | null>(null);
@@ -155,62 +304,17 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     presentIdsRef.current = presentIds;
   }, [presentIds]);
 
-  // Map of ChatID -> Timestamp when current user last read it
-  const [lastReadTimestamps, setLastReadTimestamps] = useState<Record<string, number>>({});
+  // Every participant's read position per chat; the current user's ones drive unread counts
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  const lastReadTimestamps = React.useMemo(() => {
+    const map: Record<string, number> = {};
+    readReceipts.forEach(r => { if (r.userId === currentUser?.id) map[r.chatId] = r.lastReadTimestamp; });
+    return map;
+  }, [readReceipts, currentUser?.id]);
 
-  // --- Data Mappers (DB Snake_case to App CamelCase) ---
-  const mapUserFromDB = (u: any): User => ({
-    ...u,
-    isOnline: u.is_online,
-    projectAccess: u.project_access,
-    dashboardConfig: u.dashboard_config
-  });
-  const mapTaskFromDB = (t: any): Task => ({
-    ...t,
-    projectId: t.project_id,
-    assigneeId: t.assignee_id,
-    dueDate: t.due_date,
-    order: t.order,
-    subtasks: t.subtasks || [],
-    attachments: t.attachments || [],
-    comments: t.comments || [],
-    createdAt: t.created_at
-  });
-  const mapProjectFromDB = (p: any): Project => ({
-    id: p.id,
-    name: p.name,
-    description: p.description,
-    memberIds: p.member_ids || [],
-    attachments: [],
-    comments: []
-  });
-  const mapGroupFromDB = (g: any): Group => ({
-    ...g,
-    memberIds: g.member_ids,
-    createdBy: g.created_by,
-    createdAt: g.created_at
-  });
-  const mapMessageFromDB = (m: any): ChatMessage => ({
-    id: m.id,
-    senderId: m.sender_id,
-    recipientId: m.recipient_id,
-    text: m.text,
-    timestamp: m.timestamp,
-    type: m.type,
-    attachments: m.attachments,
-    isRead: m.is_read || false
-  });
-  const mapNotificationFromDB = (n: any): Notification => ({
-    id: n.id,
-    recipientId: n.recipient_id,
-    senderId: n.sender_id,
-    type: n.type,
-    title: n.title,
-    message: n.message,
-    timestamp: n.timestamp,
-    read: n.read,
-    linkTo: n.link_to
-  });
+  const [typingUsers, setTypingUsers] = useState<Record<string, string[]>>({});
+  const typingTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map()); // "chatId|userId" -> expiry
+  const lastTypingSignalRef = useRef<Map<string, number>>(new Map()); // chatId -> when TYPING was last sent
 
   // Keep Refs in sync with state
   useEffect(() => {
@@ -231,55 +335,84 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   }, []);
 
-  // --- 1. Fetch Initial Data from Supabase ---
+  // --- 1. Fetch Initial Data from Repository ---
+  // Reloaded for every signed-in user and cleared on logout, since what a user can read depends on who they are
   useEffect(() => {
-    const fetchData = async () => {
-      const { data: userData } = await supabase.from('users').select('*');
-      if (userData) setUsers(userData.map(mapUserFromDB));
-
-      const { data: projectData } = await supabase.from('projects').select('*');
-      if (projectData) setProjects(projectData.map(mapProjectFromDB));
-
-      const { data: taskData } = await supabase.from('tasks').select('*');
-      if (taskData) setTasks(taskData.map(mapTaskFromDB));
+    setProjects([]);
+    setTasks([]);
+    setSprints([]);
+    setSavedViews([]);
+    setReactions([]);
+    setGroups([]);
+    setNotifications([]);
+    if (!currentUser) {
+      setUsers([]);
+      return;
+    }
 
-      // Fetch messages from public.messages via helper that normalizes rows
+    // A later user's data must not be overwritten by an earlier user's slow responses
+    let active = true;
+    const load = async <T,>(label: string, fetch: () => Promise<T>, apply: (value: T) => void) => {
       try {
-        const msgs = await fetchMessages({ limit: 500, order: 'asc' });
-        if (msgs && msgs.length) setMessages(msgs);
-      } catch (e) {
-        // Fallback: try decrypted_messages if public.messages is unavailable
-        const { data: msgData } = await supabase.from('decrypted_messages').select('*').order('timestamp', { ascending: true });
-        if (msgData) setMessages(msgData.map(mapMessageFromDB));
-      }
+        const value = await fetch();
+        if (active) apply(value);
+      } catch (e) { console.error(`Error loading ${label}:`, e); }
+    };
 
-      const { data: groupData } = await supabase.from('groups').select('*');
-      if (groupData) setGroups(groupData.map(mapGroupFromDB));
+    const fetchData = async () => {
+      await load('users', repository.users.list, setUsers);
+      await load('projects', repository.projects.list, setProjects);
+      await load('tasks', repository.tasks.list, loadedTasks => {
+        setTasks(loadedTasks);
+        loadReactions('comment', getCommentIds(loadedTasks));
+      });
+      await load('sprints', repository.sprints.list, setSprints);
+      await load('saved views', repository.savedViews.list, setSavedViews);
 
-      const { data: notifData } = await supabase.from('notifications').select('*').order('timestamp', { ascending: false });
-      if (notifData) setNotifications(notifData.map(mapNotificationFromDB));
+      await load('groups', repository.groups.list, setGroups);
+      await load('notifications', repository.notifications.list, setNotifications);
     };
 
     fetchData();
-  }, []);
+    return () => { active = false; };
+  }, [currentUser?.id]);
 
-  // --- 1.1 Fetch Deleted Messages ---
+  // --- 1.1 Fetch Recent Messages ---
+  // Only the latest messages across all chats (for the chat list) and unread ones (for badges) load up front;
+  // each conversation pages in its own history when it is opened (see loadOlderMessages)
+  useEffect(() => {
+    setMessages([]);
+    setChatHistory({});
+    loadingChatsRef.current.clear();
+    if (!currentUser) return;
+
+    const userId = currentUser.id;
+    const fetchRecentMessages = async () => {
+      try {
+        const [recent, unread] = await Promise.all([
+          repository.messages.list({ limit: RECENT_MESSAGE_LIMIT, order: 'desc' }),
+          repository.messages.list({ userId, unreadOnly: true, limit: UNREAD_MESSAGE_LIMIT, order: 'desc' })
+        ]);
+        setMessages(prev => mergeMessages(prev, [...recent, ...unread]));
+        loadReactions('message', [...recent, ...unread].map(m => m.id));
+      } catch (e) { console.error("Error loading messages:", e); }
+    };
+    fetchRecentMessages();
+  }, [currentUser?.id]);
+
+  // --- 1.2 Fetch Deleted Messages ---
   useEffect(() => {
     if (currentUser) {
       const fetchDeletedAndRead = async () => {
         // Fetch Deleted Messages
-        const { data: deletedData } = await supabase.from('deleted_messages').select('message_id').eq('user_id', currentUser.id);
-        if (deletedData) {
-          setDeletedMessageIds(new Set(deletedData.map(d => d.message_id)));
-        }
+        try {
+          setDeletedMessageIds(new Set(await repository.messages.listDeletedIds(currentUser.id)));
+        } catch (e) { console.error("Error loading deleted messages:", e); }
 
         // Fetch Read Receipts
-        const { data: receipts } = await supabase.from('read_receipts').select('*').eq('user_id', currentUser.id);
-        if (receipts) {
-          const map: Record<string, number> = {};
-          receipts.forEach((r: any) => map[r.chat_id] = r.last_read_timestamp);
-          setLastReadTimestamps(map);
-        }
+        try {
+          setReadReceipts(await repository.messages.listReadReceipts());
+        } catch (e) { console.error("Error loading read receipts:", e); }
       };
       fetchDeletedAndRead();
     } else {
@@ -287,6 +420,22 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [currentUser]);
 
+  // --- 1.3 Validate Stored Session ---
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    repository.auth.getSessionUser(session.token)
+      .then(user => {
+        if (!user) {
+          clearSession();
+          return;
+        }
+        setCurrentUser(user);
+        localStorage.setItem(USER_CACHE_KEY, JSON.stringify(user));
+      })
+      .catch(e => console.error("Error validating session:", e));
+  }, []);
+
   // --- 1.5 Update Online Status via Presence (Handled in Signaling Effect) ---
   // No longer manual DB updates here to avoid stale status when tab is closed.
 
@@ -296,75 +445,73 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const freshUser = users.find(u => u.id === currentUser.id);
       if (freshUser && JSON.stringify(freshUser) !== JSON.stringify(currentUser)) {
         setCurrentUser(freshUser);
-        localStorage.setItem('nexus_pm_user', JSON.stringify(freshUser));
+        localStorage.setItem(USER_CACHE_KEY, JSON.stringify(freshUser));
       }
     }
   }, [users, currentUser]);
 
   // --- 2. Setup Realtime Subscriptions ---
   useEffect(() => {
-    const channel = supabase.channel('db-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, payload => {
-        if (payload.eventType === 'INSERT') setTasks(prev => [...prev, mapTaskFromDB(payload.new)]);
-        if (payload.eventType === 'UPDATE') setTasks(prev => prev.map(t => t.id === payload.new.id ? mapTaskFromDB(payload.new) : t));
-        if (payload.eventType === 'DELETE') setTasks(prev => prev.filter(t => t.id !== payload.old.id));
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, async payload => {
-        try {
-          if (payload.eventType === 'INSERT') {
-            // Try to fetch a decrypted view, but fall back to payload.new if unavailable
-            try {
-              const { data } = await supabase.from('decrypted_messages').select('*').eq('id', payload.new.id).single();
-              if (data) {
-                setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, mapMessageFromDB(data)]);
-                return;
-              }
-            } catch (e) {
-              // ignore and fallback to payload.new below
-            }
-
-            // Fallback: use payload.new directly
-            const row = payload.new;
-            const mapped = mapMessageFromDB(row);
-            setMessages(prev => prev.some(m => m.id === mapped.id) ? prev : [...prev, mapped]);
+    return repository.subscribe(change => {
+      switch (change.table) {
+        case 'tasks':
+          if (change.eventType === 'INSERT') setTasks(prev => prev.some(t => t.id === change.record.id) ? prev : [...prev, change.record]);
+          if (change.eventType === 'UPDATE') setTasks(prev => prev.map(t => t.id === change.record.id ? change.record : t));
+          if (change.eventType === 'DELETE') setTasks(prev => prev.filter(t => t.id !== change.id));
+          break;
+        case 'sprints':
+          if (change.eventType === 'INSERT') setSprints(prev => prev.some(s => s.id === change.record.id) ? prev : [...prev, change.record]);
+          if (change.eventType === 'UPDATE') setSprints(prev => prev.map(s => s.id === change.record.id ? change.record : s));
+          if (change.eventType === 'DELETE') setSprints(prev => prev.filter(s => s.id !== change.id));
+          break;
+        case 'saved_views':
+          if (change.eventType === 'INSERT') setSavedViews(prev => prev.some(v => v.id === change.record.id) ? prev : [...prev, change.record]);
+          if (change.eventType === 'UPDATE') setSavedViews(prev => prev.map(v => v.id === change.record.id ? change.record : v));
+          if (change.eventType === 'DELETE') setSavedViews(prev => prev.filter(v => v.id !== change.id));
+          break;
+        case 'messages':
+          if (change.eventType === 'INSERT') setMessages(prev => prev.some(m => m.id === change.record.id) ? prev : [...prev, change.record]);
+          // Handle UPDATE (reads, edits and deletes for everyone)
+          if (change.eventType === 'UPDATE') setMessages(prev => prev.map(m => m.id === change.record.id ? { ...m, ...change.record } : m));
+          break;
+        case 'read_receipts': {
+          const receipt = change.record;
+          setReadReceipts(prev => {
+            const existing = prev.find(r => r.userId === receipt.userId && r.chatId === receipt.chatId);
+            if (existing && existing.lastReadTimestamp >= receipt.lastReadTimestamp) return prev;
+            return [...prev.filter(r => r !== existing), receipt];
+          });
+          break;
+        }
+        case 'reactions':
+          if (change.eventType === 'INSERT') setReactions(prev => prev.some(r => r.id === change.record.id) ? prev : [...prev, change.record]);
+          if (change.eventType === 'DELETE') setReactions(prev => prev.filter(r => r.id !== change.id));
+          break;
+        case 'users':
+          if (change.eventType === 'UPDATE') {
+            const fresh = change.record;
+            setUsers(prev => prev.map(u => u.id === fresh.id ? { ...fresh, isOnline: presentIdsRef.current.has(u.id) } : u));
           }
-
-          // Handle UPDATE (e.g. Reads)
-          if (payload.eventType === 'UPDATE') {
-            setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...m, isRead: payload.new.is_read } : m));
+          if (change.eventType === 'INSERT') {
+            const fresh = change.record;
+            setUsers(prev => [...prev, { ...fresh, isOnline: presentIdsRef.current.has(fresh.id) }]);
           }
-        } catch (e) {
-          console.error('Realtime messages handler error:', e);
-        }
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'users' }, payload => {
-        if (payload.eventType === 'UPDATE') {
-          const fresh = mapUserFromDB(payload.new);
-          setUsers(prev => prev.map(u => u.id === fresh.id ? { ...fresh, isOnline: presentIdsRef.current.has(u.id) } : u));
-        }
-        if (payload.eventType === 'INSERT') {
-          const fresh = mapUserFromDB(payload.new);
-          setUsers(prev => [...prev, { ...fresh, isOnline: presentIdsRef.current.has(fresh.id) }]);
-        }
-        if (payload.eventType === 'DELETE') setUsers(prev => prev.filter(u => u.id !== payload.old.id));
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications' }, payload => {
-        if (payload.eventType === 'INSERT') setNotifications(prev => [mapNotificationFromDB(payload.new), ...prev]);
-        if (payload.eventType === 'UPDATE') setNotifications(prev => prev.map(n => n.id === payload.new.id ? mapNotificationFromDB(payload.new) : n));
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, payload => {
-        if (payload.eventType === 'INSERT') setProjects(prev => [...prev, mapProjectFromDB(payload.new)]);
-        if (payload.eventType === 'UPDATE') setProjects(prev => prev.map(p => p.id === payload.new.id ? mapProjectFromDB(payload.new) : p));
-        if (payload.eventType === 'DELETE') setProjects(prev => prev.filter(p => p.id !== payload.old.id));
-      })
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'groups' }, payload => {
-        if (payload.eventType === 'INSERT') setGroups(prev => [...prev, mapGroupFromDB(payload.new)]);
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
+          if (change.eventType === 'DELETE') setUsers(prev => prev.filter(u => u.id !== change.id));
+          break;
+        case 'notifications':
+          if (change.eventType === 'INSERT') setNotifications(prev => [change.record, ...prev]);
+          if (change.eventType === 'UPDATE') setNotifications(prev => prev.map(n => n.id === change.record.id ? change.record : n));
+          break;
+        case 'projects':
+          if (change.eventType === 'INSERT') setProjects(prev => prev.some(p => p.id === change.record.id) ? prev : [...prev, change.record]);
+          if (change.eventType === 'UPDATE') setProjects(prev => prev.map(p => p.id === change.record.id ? change.record : p));
+          if (change.eventType === 'DELETE') setProjects(prev => prev.filter(p => p.id !== change.id));
+          break;
+        case 'groups':
+          if (change.eventType === 'INSERT') setGroups(prev => prev.some(g => g.id === change.record.id) ? prev : [...prev, change.record]);
+          break;
+      }
+    });
   }, []);
 
   // --- 3. WebRTC Signaling & Realtime Presence via Supabase ---
@@ -479,30 +626,32 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
               const callerName = caller ? caller.name : 'Unknown User';
 
               // 1. Create Missed Call Notification
-              const { error: notifError } = await supabase.from('notifications').insert({
-                id: 'n-' + Date.now() + Math.random(),
-                recipient_id: currentUser.id,
-                sender_id: senderId,
-                type: NotificationType.MISSED_CALL,
-                title: 'Missed Call',
-                message: `You missed a call from ${callerName}`,
-                timestamp: Date.now(),
-                read: false,
-                link_to: senderId
-              });
-              if (notifError) console.error("Error creating missed call notification:", notifError);
+              try {
+                await repository.notifications.create({
+                  id: 'n-' + Date.now() + Math.random(),
+                  recipientId: currentUser.id,
+                  senderId: senderId,
+                  type: NotificationType.MISSED_CALL,
+                  title: 'Missed Call',
+                  message: `You missed a call from ${callerName}`,
+                  timestamp: Date.now(),
+                  read: false,
+                  linkTo: buildPath({ name: 'chat', chatId: senderId, call: true })
+                });
+              } catch (e) { console.error("Error creating missed call notification:", e); }
 
               // 2. Create Missed Call Chat Message
-              const { error: msgError } = await supabase.from('messages').insert({
-                id: 'm-' + Date.now() + Math.random(),
-                sender_id: senderId,
-                recipient_id: currentUser.id,
-                text: 'Missed Call',
-                timestamp: Date.now(),
-                type: 'missed_call',
-                attachments: []
-              });
-              if (msgError) console.error("Error creating missed call message:", msgError);
+              try {
+                await repository.messages.create({
+                  id: 'm-' + Date.now() + Math.random(),
+                  senderId: senderId,
+                  recipientId: currentUser.id,
+                  text: 'Missed Call',
+                  timestamp: Date.now(),
+                  type: 'missed_call',
+                  attachments: []
+                });
+              } catch (e) { console.error("Error creating missed call message:", e); }
 
               setIncomingCall(null);
             }
@@ -519,14 +668,29 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 text: incoming.text || incoming.body || incoming.message || '',
                 timestamp: incoming.timestamp || Date.now(),
                 type: incoming.type || 'text',
-                attachments: incoming.attachments || []
+                attachments: incoming.attachments || [],
+                parentId: incoming.parentId || incoming.parent_id || undefined,
+                editedAt: incoming.editedAt,
+                revisions: incoming.revisions,
+                deletedAt: incoming.deletedAt,
+                deletedBy: incoming.deletedBy
               } as ChatMessage;
 
-              setMessages(prev => prev.some(m => m.id === msg.id) ? prev : [...prev, msg]);
+              const actor = usersRef.current.find(u => u.id === senderId) || null;
+              setMessages(prev => upsertMessage(prev, msg, actor));
+              setRemoteTyping(getMessageChatId(msg, currentUser.id), senderId, false);
             } catch (e) { console.error('Error handling CHAT_MESSAGE', e); }
             break;
           }
 
+          case 'TYPING':
+          case 'TYPING_STOPPED': {
+            // Direct messages are addressed to us, so the chat is the sender's; team and group chats name themselves
+            const chatId = recipientId ? senderId : (signalPayload as { chatId?: string } | undefined)?.chatId;
+            if (chatId) setRemoteTyping(chatId, senderId, type === 'TYPING');
+            break;
+          }
+
           case 'SCREEN_STOPPED': {
             try {
               const { hasCameraFallback } = signalPayload as any;
@@ -568,6 +732,32 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [currentUser]); // DEPENDENCY REDUCED: No longer depends on isInCall or activeCallData
 
 
+  // Shows or clears a peer's typing indicator; it clears itself if no further TYPING signal arrives
+  const setRemoteTyping = (chatId: string, userId: string, isTyping: boolean) => {
+    const key = `${chatId}|${userId}`;
+    clearTimeout(typingTimeoutsRef.current.get(key));
+    typingTimeoutsRef.current.delete(key);
+    if (isTyping) typingTimeoutsRef.current.set(key, setTimeout(() => setRemoteTyping(chatId, userId, false), TYPING_TIMEOUT));
+
+    setTypingUsers(prev => {
+      const current = prev[chatId] || [];
+      if (current.includes(userId) === isTyping) return prev;
+      return { ...prev, [chatId]: isTyping ? [...current, userId] : current.filter(id => id !== userId) };
+    });
+  };
+
+  // Tells the other participants of `chatId` that the current user started or stopped typing
+  const setTyping = (chatId: string, isTyping: boolean) => {
+    if (!currentUser) return;
+    const lastSent = lastTypingSignalRef.current.get(chatId);
+    if (isTyping ? lastSent && Date.now() - lastSent < TYPING_SIGNAL_INTERVAL : !lastSent) return;
+    if (isTyping) lastTypingSignalRef.current.set(chatId, Date.now());
+    else lastTypingSignalRef.current.delete(chatId);
+
+    const isDirect = chatId !== 'general' && !chatId.startsWith('g-');
+    sendSignal(isTyping ? 'TYPING' : 'TYPING_STOPPED', isDirect ? chatId : undefined, isDirect ? {} : { chatId });
+  };
+
   const sendSignal = async (type: SignalData['type'], recipientId: string | undefined, payload: any) => {
     if (signalingChannelRef.current && currentUser) {
       if (!isSignalingConnectedRef.current) return;
@@ -602,119 +792,232 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // --- Actions ---
 
-  const login = async (user: User) => {
-    localStorage.setItem('nexus_pm_user', JSON.stringify(user));
-    setCurrentUser(user);
+  const login = async (username: string, password: string, role: UserRole): Promise<string | null> => {
+    let result: Awaited<ReturnType<typeof repository.auth.signIn>>;
+    try {
+      result = await repository.auth.signIn(username, password);
+    } catch (e) {
+      console.error("Login failed:", e);
+      return 'An unexpected error occurred.';
+    }
+    if (!result) return 'Invalid username or password.';
+
+    if (result.user.role !== role) {
+      repository.auth.signOut(result.session.token).catch(e => console.error("Logout failed:", e));
+      return `This account is not a ${role === UserRole.ADMIN ? 'Admin' : 'Member'} account.`;
+    }
+
+    sessionRef.current = result.session;
+    localStorage.setItem(SESSION_KEY, JSON.stringify(result.session));
+    localStorage.setItem(USER_CACHE_KEY, JSON.stringify(result.user));
+    setCurrentUser(result.user);
     // Presence handles online status automatically now
+    return null;
   };
 
-  const logout = async () => {
-    localStorage.removeItem('nexus_pm_user');
+  const clearSession = () => {
+    sessionRef.current = null;
+    repository.auth.attachSession(null);
+    localStorage.removeItem(SESSION_KEY);
+    localStorage.removeItem(USER_CACHE_KEY);
     setCurrentUser(null);
     setNotifications([]);
-    setLastReadTimestamps({});
+    setReadReceipts([]);
+    setTypingUsers({});
     setIncomingCall(null);
     setIsInCall(false);
     setDeletedMessageIds(new Set());
     cleanupCall();
   };
 
-  const addUser = async (user: User) => {
-    // Create in public.users table
-    const { error } = await supabase.from('users').insert({
-      id: user.id,
-      name: user.name,
-      username: user.username,
-      password: user.password,
-      role: user.role,
-      avatar: user.avatar,
-      project_access: user.projectAccess,
-      dashboard_config: user.dashboardConfig
-    });
-    if (error) console.error("Add user failed:", error);
+  const logout = async () => {
+    const session = sessionRef.current;
+    clearSession();
+    if (session) {
+      // Revoke server-side so the token cannot be replayed
+      try {
+        await repository.auth.signOut(session.token);
+      } catch (e) {
+        console.error("Logout failed:", e);
+      }
+    }
+  };
+
+  // Every mutation goes through the policy module first; denied actions never reach the repository
+  const enforce = (decision: PolicyDecision) => {
+    if (decision.allowed) return true;
+    console.warn("Action denied:", decision.reason);
+    alert(decision.reason);
+    return false;
+  };
+
+  const changePassword = async (oldPassword: string, newPassword: string) => {
+    if (!sessionRef.current) return false;
+    return repository.auth.changePassword(sessionRef.current.token, oldPassword, newPassword);
+  };
+
+  const resetUserPassword = async (userId: string, newPassword: string) => {
+    if (!sessionRef.current || !enforce(checkUserManage(currentUser))) return;
+    try {
+      await repository.auth.setPassword(sessionRef.current.token, userId, newPassword);
+    } catch (error) {
+      console.error("Set password failed:", error);
+    }
+  };
+
+  const addUser = async (user: User, password: string) => {
+    if (!enforce(checkUserManage(currentUser))) return;
+    try {
+      await repository.users.create(user);
+    } catch (error) {
+      console.error("Add user failed:", error);
+      return;
+    }
+    await resetUserPassword(user.id, password);
   };
 
   const updateUser = async (u: User) => {
-    const { error } = await supabase.from('users').update({
-      name: u.name,
-      username: u.username,
-      password: u.password,
-      role: u.role,
-      avatar: u.avatar,
-      project_access: u.projectAccess,
-      dashboard_config: u.dashboardConfig
-    }).eq('id', u.id);
-    if (error) console.error("Update user failed", error);
+    const existing = users.find(user => user.id === u.id) || (currentUser?.id === u.id ? currentUser : null);
+    if (!existing || !enforce(checkUserUpdate(currentUser, existing, u))) return;
+
+    try {
+      await repository.users.update(u);
+    } catch (error) {
+      console.error("Update user failed", error);
+    }
 
     if (currentUser?.id === u.id) {
       setCurrentUser(u);
-      localStorage.setItem('nexus_pm_user', JSON.stringify(u));
+      localStorage.setItem(USER_CACHE_KEY, JSON.stringify(u));
     }
   };
 
   const deleteUser = async (id: string) => {
-    await supabase.from('users').delete().eq('id', id);
+    if (!enforce(checkUserManage(currentUser))) return;
+    try {
+      await repository.users.remove(id);
+    } catch (error) {
+      console.error("Delete user failed:", error);
+    }
   };
 
   const addTask = async (t: Task) => {
+    if (!enforce(checkTaskCreate(currentUser, t.projectId))) return;
+    if (!enforce(checkTaskPlacement(projects.find(p => p.id === t.projectId), tasks, t))) return;
+    if (!enforce(checkBlockerCycle(t, tasks))) return;
+
     const projectTasks = tasks.filter(task => task.status === t.status && task.projectId === t.projectId);
     const maxOrder = projectTasks.reduce((max, curr) => Math.max(max, curr.order || 0), -1);
 
-    await supabase.from('tasks').insert({
-      id: t.id,
-      project_id: t.projectId,
-      title: t.title,
-      description: t.description,
-      status: t.status,
-      category: t.category,
-      assignee_id: t.assigneeId || null,
-      priority: t.priority,
-      due_date: t.dueDate || null,
-      attachments: t.attachments,
-      comments: t.comments,
-      subtasks: t.subtasks,
-      created_at: t.createdAt,
-      order: maxOrder + 1
-    });
+    try {
+      await repository.tasks.create({ ...t, order: maxOrder + 1 });
+    } catch (error) {
+      console.error("Create task failed:", error);
+    }
   };
 
-  const updateTask = async (t: Task) => {
+  const importTasks = async (newTasks: Task[]) => {
+    const projectIds = Array.from(new Set(newTasks.map(t => t.projectId)));
+    if (!projectIds.every(id => enforce(checkTaskCreate(currentUser, id)))) return 0;
+
+    // All or nothing: earlier tasks of the import count towards the WIP limits of later ones
+    const placed: Task[] = [];
+    for (const t of newTasks) {
+      if (!enforce(checkTaskPlacement(projects.find(p => p.id === t.projectId), [...tasks, ...placed], t))) return 0;
+      placed.push(t);
+    }
+
+    // Orders are assigned up front because `tasks` only catches up through the subscription
+    const nextOrder: Record<string, number> = {};
+    let created = 0;
+    for (const t of newTasks) {
+      const column = `${t.projectId}:${t.status}`;
+      if (nextOrder[column] === undefined) {
+        nextOrder[column] = tasks
+          .filter(task => task.status === t.status && task.projectId === t.projectId)
+          .reduce((max, curr) => Math.max(max, curr.order || 0), -1) + 1;
+      }
+      try {
+        await repository.tasks.create({ ...t, order: nextOrder[column]++ });
+        created++;
+      } catch (error) {
+        console.error("Import task failed:", error);
+      }
+    }
+    return created;
+  };
+
+  const updateTask = async (next: Task) => {
+    const existing = tasks.find(task => task.id === next.id);
+    if (!existing || !enforce(checkTaskUpdate(currentUser, existing, next))) return;
+    const t = withCompletion(next, getProjectWorkflow(projects, existing.projectId), existing.status);
+    const addsLinks = (t.links || []).some(link => !(existing.links || []).some(l => l.id === link.id));
+    if (addsLinks && !enforce(checkBlockerCycle(t, tasks))) return;
+
+    // Status changes from the editor follow the same workflow rules as drag & drop;
+    // a new comment from the editor counts as the reason
+    if (t.status !== existing.status) {
+      const project = projects.find(p => p.id === existing.projectId);
+      const hasReason = t.comments.some(c => c.userId === currentUser?.id && !existing.comments.some(e => e.id === c.id));
+      if (!enforce(checkTransition(project, existing.status, t.status, hasReason))) return;
+      if (!enforce(checkWipLimit(project, tasks, existing, t.status))) return;
+      if (!enforce(checkBlockers(t, t.status, tasks, projects))) return;
+    }
+
     // Optimistic Update
     setTasks(prev => prev.map(task => task.id === t.id ? t : task));
 
-    await supabase.from('tasks').update({
-      title: t.title,
-      description: t.description,
-      status: t.status,
-      category: t.category,
-      assignee_id: t.assigneeId || null, // Explicitly set null if undefined to unassign
-      priority: t.priority,
-      due_date: t.dueDate || null,
-      attachments: t.attachments,
-      comments: t.comments,
-      subtasks: t.subtasks,
-      order: t.order
-    }).eq('id', t.id);
+    try {
+      await repository.tasks.update(t);
+    } catch (error) {
+      console.error("Update task failed:", error);
+    }
   };
 
   const deleteTask = async (id: string) => {
-    await supabase.from('tasks').delete().eq('id', id);
+    const existing = tasks.find(task => task.id === id);
+    if (!existing || !enforce(checkTaskDelete(currentUser, existing))) return;
+
+    try {
+      await repository.tasks.remove(id);
+    } catch (error) {
+      console.error("Delete task failed:", error);
+    }
   };
 
-  const moveTask = async (taskId: string, s: TaskStatus, newIndex?: number) => {
+  const moveTask = async (taskId: string, s: string, newIndex?: number, reason?: string) => {
     // 1. Get current state and task
     const task = tasks.find(t => t.id === taskId);
-    if (!task) return;
+    if (!task || !enforce(checkTaskMove(currentUser, task))) return;
+
+    // The board may show columns from several projects; only the task's own workflow is valid
+    const target = findStatus(getProjectWorkflow(projects, task.projectId), s);
+    if (!target) {
+      alert(`"${s.replace(/_/g, ' ')}" is not a column in this task's project workflow.`);
+      return;
+    }
+    const project = projects.find(p => p.id === task.projectId);
+    if (!enforce(checkTransition(project, task.status, s, !!reason?.trim()))) return;
+    if (!enforce(checkWipLimit(project, tasks, task, s))) return;
+    if (!enforce(checkBlockers(task, s, tasks, projects))) return;
 
     // 2. Identify destination tasks (excluding the moved task if it was already in this column)
-    // We want the list of tasks in the target status, EXCLUDING the dragged task.
-    let destTasks = tasks.filter(t => t.status === s && t.id !== taskId);
+    // We want the list of tasks in the target status of the same project, EXCLUDING the dragged task.
+    // Ordering is per project (as in addTask), so a move never rewrites tasks the user cannot write.
+    let destTasks = tasks.filter(t => t.status === s && t.projectId === task.projectId && t.id !== taskId);
 
     // 3. Sort by current order to ensure correct insertion point
     destTasks.sort((a, b) => (a.order || 0) - (b.order || 0));
 
-    // 4. Insert task at new index
-    const updatedTask = { ...task, status: s };
+    // 4. Insert task at new index (the reason, if any, is kept as a comment on the task)
+    const reasonComment = reason?.trim() && currentUser
+      ? { id: Date.now().toString(), userId: currentUser.id, text: `Moved to ${target.name}: ${reason.trim()}`, timestamp: Date.now() }
+      : null;
+    const updatedTask = withCompletion(
+      { ...task, status: s, comments: reasonComment ? [...task.comments, reasonComment] : task.comments },
+      getProjectWorkflow(projects, task.projectId),
+      task.status
+    );
     if (newIndex !== undefined && newIndex >= 0 && newIndex <= destTasks.length) {
       destTasks.splice(newIndex, 0, updatedTask);
     } else {
@@ -742,9 +1045,17 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setTasks(newTasks);
 
     // 7. Persist to DB
-    await Promise.all(updates.map(u =>
-      supabase.from('tasks').update({ status: u.status, order: u.order }).eq('id', u.id)
-    ));
+    try {
+      // Reason comments and completion times are not part of the position batch, so such a move saves the
+      // whole task first; the server only accepts a reason-required move together with its comment
+      const savesWhole = !!reasonComment || updatedTask.completedAt !== task.completedAt;
+      if (savesWhole) await repository.tasks.update(updateMap.get(taskId)!);
+      await repository.tasks.updatePositions(updates
+        .filter(u => !savesWhole || u.id !== taskId)
+        .map(u => ({ id: u.id, status: u.status, order: u.order })));
+    } catch (error) {
+      console.error("Move task failed:", error);
+    }
 
     // 8. Notification
     if (task.status !== s && task.assigneeId) {
@@ -752,13 +1063,179 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         task.assigneeId,
         NotificationType.ASSIGNMENT,
         'Task Status Updated',
-        `Task "${task.title}" moved to ${s.replace('_', ' ')}`,
-        task.id
+        `Task "${task.title}" moved to ${target.name}`,
+        buildPath({ name: 'task', taskId: task.id })
       );
     }
   };
 
-  const addMessage = async (text: string, recipientId?: string, attachments: Attachment[] = []) => {
+  // --- Time Tracking ---
+  const stopTimer = async (): Promise<TimeEntry | null> => {
+    const timer = activeTimer;
+    setActiveTimer(null);
+    if (!timer || !currentUser || timer.userId !== currentUser.id) return null;
+    const task = tasks.find(t => t.id === timer.taskId);
+    if (!task) return null;
+
+    const entry: TimeEntry = {
+      id: 'te-' + Date.now(),
+      userId: currentUser.id,
+      date: toDateOnly(new Date(timer.startedAt)),
+      minutes: Math.max(1, Math.round((Date.now() - timer.startedAt) / 60000)),
+      note: '',
+      createdAt: Date.now()
+    };
+    await updateTask({ ...task, timeEntries: [...(task.timeEntries || []), entry] });
+    return entry;
+  };
+
+  // Starting a timer stops (and logs) the one already running
+  const startTimer = async (taskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || !currentUser || !enforce(checkTimeLog(currentUser, task))) return;
+    if (activeTimer?.userId === currentUser.id && activeTimer.taskId === taskId) return;
+    if (activeTimer) await stopTimer();
+    setActiveTimer({ userId: currentUser.id, taskId, startedAt: Date.now() });
+  };
+
+  // Dates must form a range and a project runs at most one sprint at a time
+  const checkSprint = (sprint: Sprint): PolicyDecision => {
+    const error = validateSprint(sprint);
+    if (error) return { allowed: false, reason: error };
+    const active = sprints.find(s => s.projectId === sprint.projectId && s.state === 'active' && s.id !== sprint.id);
+    if (sprint.state === 'active' && active) {
+      return { allowed: false, reason: `Close "${active.name}" before starting another sprint.` };
+    }
+    return { allowed: true };
+  };
+
+  const addSprint = async (s: Sprint) => {
+    if (!enforce(checkSprintManage(currentUser, s.projectId)) || !enforce(checkSprint(s))) return;
+    try {
+      await repository.sprints.create(s);
+    } catch (error) {
+      console.error("Create sprint failed:", error);
+    }
+  };
+
+  const updateSprint = async (s: Sprint) => {
+    const existing = sprints.find(sprint => sprint.id === s.id);
+    if (!existing || !enforce(checkSprintManage(currentUser, existing.projectId)) || !enforce(checkSprint(s))) return;
+
+    // Optimistic Update
+    setSprints(prev => prev.map(sprint => sprint.id === s.id ? s : sprint));
+
+    try {
+      await repository.sprints.update(s);
+    } catch (error) {
+      console.error("Update sprint failed:", error);
+    }
+  };
+
+  const deleteSprint = async (id: string) => {
+    const sprint = sprints.find(s => s.id === id);
+    if (!sprint || !enforce(checkSprintManage(currentUser, sprint.projectId))) return;
+
+    // Its tasks go back to the backlog
+    const taskIds = tasks.filter(t => t.sprintId === id).map(t => t.id);
+    setTasks(prev => prev.map(t => t.sprintId === id ? { ...t, sprintId: undefined } : t));
+    setSprints(prev => prev.filter(s => s.id !== id));
+
+    try {
+      await repository.tasks.assignSprint(taskIds, undefined);
+      await repository.sprints.remove(id);
+    } catch (error) {
+      console.error("Delete sprint failed:", error);
+    }
+  };
+
+  // Finished tasks stay in the closed sprint; unfinished ones move to the backlog or to `moveToSprintId`
+  const closeSprint = async (id: string, moveToSprintId?: string) => {
+    const sprint = sprints.find(s => s.id === id);
+    if (!sprint || !enforce(checkSprintManage(currentUser, sprint.projectId))) return;
+    const destination = moveToSprintId ? sprints.find(s => s.id === moveToSprintId) : undefined;
+    if (moveToSprintId && (!destination || destination.projectId !== sprint.projectId || destination.state === 'closed' || destination.id === id)) {
+      alert('Unfinished tasks can only move to an open sprint of the same project.');
+      return;
+    }
+
+    const taskIds = getUnfinishedSprintTasks(sprint, tasks, projects).map(t => t.id);
+    const closed: Sprint = { ...sprint, state: 'closed', closedAt: Date.now() };
+
+    // Optimistic Update
+    setTasks(prev => prev.map(t => taskIds.includes(t.id) ? { ...t, sprintId: moveToSprintId } : t));
+    setSprints(prev => prev.map(s => s.id === id ? closed : s));
+
+    try {
+      await repository.tasks.assignSprint(taskIds, moveToSprintId);
+      await repository.sprints.update(closed);
+    } catch (error) {
+      console.error("Close sprint failed:", error);
+    }
+  };
+
+  const moveTaskToSprint = async (taskId: string, sprintId?: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.sprintId === sprintId || !enforce(checkTaskMove(currentUser, task))) return;
+    const sprint = sprintId ? sprints.find(s => s.id === sprintId) : undefined;
+    if (sprintId && (!sprint || sprint.projectId !== task.projectId || sprint.state === 'closed')) {
+      alert('Tasks can only be planned into an open sprint of their own project.');
+      return;
+    }
+
+    // Optimistic Update
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, sprintId } : t));
+
+    try {
+      await repository.tasks.assignSprint([taskId], sprintId);
+    } catch (error) {
+      console.error("Move task to sprint failed:", error);
+    }
+  };
+
+  const addSavedView = async (v: SavedView) => {
+    if (!currentUser || !enforce(checkSavedViewManage(currentUser, { ...v, ownerId: currentUser.id }))) return;
+    const view = { ...v, ownerId: currentUser.id };
+
+    // Optimistic Update
+    setSavedViews(prev => [...prev, view]);
+
+    try {
+      await repository.savedViews.create(view);
+    } catch (error) {
+      console.error("Create saved view failed:", error);
+      setSavedViews(prev => prev.filter(existing => existing.id !== view.id));
+    }
+  };
+
+  const updateSavedView = async (v: SavedView) => {
+    const existing = savedViews.find(view => view.id === v.id);
+    if (!existing || !enforce(checkSavedViewManage(currentUser, existing, v))) return;
+
+    // Optimistic Update
+    setSavedViews(prev => prev.map(view => view.id === v.id ? { ...v, ownerId: existing.ownerId } : view));
+
+    try {
+      await repository.savedViews.update(v);
+    } catch (error) {
+      console.error("Update saved view failed:", error);
+    }
+  };
+
+  const deleteSavedView = async (id: string) => {
+    const existing = savedViews.find(v => v.id === id);
+    if (!existing || !enforce(checkSavedViewManage(currentUser, existing))) return;
+
+    setSavedViews(prev => prev.filter(v => v.id !== id));
+
+    try {
+      await repository.savedViews.remove(id);
+    } catch (error) {
+      console.error("Delete saved view failed:", error);
+    }
+  };
+
+  const addMessage = async (text: string, recipientId?: string, attachments: Attachment[] = [], parentId?: string) => {
     if (!currentUser) return;
 
     // Create the message object for internal app state (CamelCase)
@@ -769,14 +1246,15 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       text,
       timestamp: Date.now(),
       type: 'text',
-      attachments
+      attachments,
+      parentId
     };
 
     // 1. Optimistic Update (Immediate Feedback for Sender)
     setMessages(prev => [...prev, optimisticMsg]);
 
     const chatId = recipientId || 'general';
-    setLastReadTimestamps(prev => ({ ...prev, [chatId]: Date.now() }));
+    setTyping(chatId, false);
 
     // 2. Broadcast to active peers (Instant Delivery for Receivers) via signaling
     if (isSignalingConnectedRef.current) {
@@ -787,90 +1265,154 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     }
 
-    // 3. Persist to DB (Encrypted) via RPC
-    const { error } = await supabase.rpc('send_encrypted_message', {
-      p_id: optimisticMsg.id,
-      p_sender_id: optimisticMsg.senderId,
-      p_recipient_id: optimisticMsg.recipientId,
-      p_text: optimisticMsg.text,
-      p_type: optimisticMsg.type,
-      p_attachments: optimisticMsg.attachments,
-      p_timestamp: optimisticMsg.timestamp
+    // 3. Persist via repository; the optimistic copy already is the list entry
+    try {
+      await repository.messages.send(optimisticMsg);
+    } catch (e) {
+      console.error('Error sending message:', e);
+    }
+
+    if (parentId) notifyThreadParticipants(optimisticMsg, parentId);
+  };
+
+  // Optimistic update, broadcast to connected peers, then persist; the db-changes feed reaches everyone else
+  const publishMessageChange = async (updated: ChatMessage) => {
+    setMessages(prev => prev.map(m => m.id === updated.id ? updated : m));
+    if (isSignalingConnectedRef.current) {
+      try {
+        await sendSignal('CHAT_MESSAGE', undefined, updated);
+      } catch (err) {
+        console.error('Broadcast failed', err);
+      }
+    }
+    try {
+      await repository.messages.update(updated);
+    } catch (e) {
+      console.error('Error updating message:', e);
+    }
+  };
+
+  const editMessage = async (id: string, text: string) => {
+    const message = messages.find(m => m.id === id);
+    if (!message || !enforce(checkMessageEdit(currentUser, message))) return;
+    if (!text.trim() || text === message.text) return;
+    await publishMessageChange({
+      ...message,
+      text,
+      editedAt: Date.now(),
+      revisions: [...(message.revisions || []), { text: message.text, timestamp: message.editedAt ?? message.timestamp }]
     });
+  };
+
+  const deleteMessageForEveryone = async (id: string) => {
+    const message = messages.find(m => m.id === id);
+    if (!message || !currentUser || !enforce(checkMessageDelete(currentUser, message))) return;
+    await publishMessageChange({
+      ...message,
+      text: '',
+      attachments: [],
+      revisions: undefined,
+      deletedAt: Date.now(),
+      deletedBy: currentUser.id
+    });
+  };
 
-    if (error) {
-      console.error("Error sending encrypted message (RPC):", error);
-      // Fallback: attempt direct insert into public.messages to ensure UI visibility
+  // Reactions load with the messages or comments they belong to; realtime keeps them current afterwards
+  const loadReactions = async (targetType: ReactionTargetType, targetIds: string[]) => {
+    if (!targetIds.length) return;
+    try {
+      const loaded = await repository.reactions.list(targetType, targetIds);
+      setReactions(prev => {
+        const known = new Set(prev.map(r => r.id));
+        const added = loaded.filter(r => !known.has(r.id));
+        return added.length ? [...prev, ...added] : prev;
+      });
+    } catch (e) { console.error("Error loading reactions:", e); }
+  };
+
+  const toggleReaction = async (targetType: ReactionTargetType, targetId: string, emoji: string) => {
+    if (!currentUser) return;
+    if (targetType === 'comment') {
+      const task = findCommentTask(tasks, targetId);
+      if (!task || !enforce(checkCommentReaction(currentUser, task.projectId))) return;
+    } else {
+      const message = messages.find(m => m.id === targetId);
+      if (!message || !enforce(checkMessageReaction(currentUser, message, groups))) return;
+    }
+
+    const existing = findOwnReaction(reactions, targetType, targetId, currentUser.id, emoji);
+    if (existing) {
+      // Optimistic Update
+      setReactions(prev => prev.filter(r => r.id !== existing.id));
       try {
-        const { data: fallbackData, error: insertErr } = await supabase.from('messages').insert({
-          id: optimisticMsg.id,
-          sender_id: optimisticMsg.senderId,
-          recipient_id: optimisticMsg.recipientId,
-          text: optimisticMsg.text,
-          timestamp: optimisticMsg.timestamp,
-          type: optimisticMsg.type,
-          attachments: optimisticMsg.attachments
-        }).select();
-        if (insertErr) {
-          console.error('Fallback insert to public.messages failed:', insertErr);
-        } else {
-          console.debug('Fallback insert succeeded, row:', fallbackData);
-          // Refresh messages from public.messages to ensure UI reflects DB
-          try {
-            const refreshed = await fetchMessages({ limit: 500, order: 'asc' });
-            if (refreshed) setMessages(refreshed);
-          } catch (e) {
-            console.warn('Failed to refresh messages after fallback insert:', e);
-          }
-        }
-      } catch (e) {
-        console.error('Fallback insert exception:', e);
+        await repository.reactions.remove(existing.id);
+      } catch (error) {
+        console.error("Remove reaction failed:", error);
+        setReactions(prev => [...prev, existing]);
       }
       return;
     }
 
-    // Best-effort: also write to public.messages so the UI (which reads public.messages) is populated.
+    const reaction: Reaction = {
+      id: 'r-' + Date.now() + Math.random().toString(36).substr(2, 5),
+      targetType,
+      targetId,
+      userId: currentUser.id,
+      emoji,
+      createdAt: Date.now()
+    };
+    setReactions(prev => [...prev, reaction]);
     try {
-      const { data: insertData, error: insertErr } = await supabase.from('messages').insert({
-        id: optimisticMsg.id,
-        sender_id: optimisticMsg.senderId,
-        recipient_id: optimisticMsg.recipientId,
-        text: optimisticMsg.text,
-        timestamp: optimisticMsg.timestamp,
-        type: optimisticMsg.type,
-        attachments: optimisticMsg.attachments
-      }).select();
-
-      if (insertErr) {
-        // Not fatal; log for debugging
-        console.warn('Insert to public.messages returned error (non-fatal):', insertErr);
-      } else {
-        console.debug('Insert to public.messages succeeded, row:', insertData);
-        try {
-          const refreshed = await fetchMessages({ limit: 500, order: 'asc' });
-          if (refreshed) setMessages(refreshed);
-        } catch (e) {
-          console.warn('Failed to refresh messages after insert:', e);
-        }
-      }
+      await repository.reactions.add(reaction);
+    } catch (error) {
+      console.error("Add reaction failed:", error);
+      setReactions(prev => prev.filter(r => r.id !== reaction.id));
+    }
+  };
+
+  // Tells the thread's author and earlier repliers about a new reply; group threads only reach current members.
+  // Earlier replies may be outside the loaded pages, so the whole thread is fetched first
+  const notifyThreadParticipants = async (reply: ChatMessage, parentId: string) => {
+    if (!currentUser) return;
+    let thread = messages.filter(m => m.id === parentId || m.parentId === parentId);
+    try {
+      thread = mergeMessages(thread, await repository.messages.list({ threadId: parentId, userId: currentUser.id }));
     } catch (e) {
-      console.error('Insert to public.messages exception (non-fatal):', e);
+      console.error("Error loading thread participants:", e);
     }
+    const group = reply.recipientId?.startsWith('g-') ? groups.find(g => g.id === reply.recipientId) : undefined;
+    const participantIds = new Set(thread.map(m => m.senderId));
+    participantIds.delete(currentUser.id);
+
+    // The link opens the chat as the recipient sees it: a direct message lives under the sender's id
+    const chatId = !reply.recipientId ? null : group ? group.id : currentUser.id;
+    const where = !reply.recipientId ? 'Team Chat' : group ? group.name : 'a direct message';
+    const preview = reply.text.length > 80 ? reply.text.slice(0, 80) + '…' : reply.text || 'Sent an attachment';
+    participantIds.forEach(id => {
+      if (group && !group.memberIds.includes(id)) return;
+      triggerNotification(
+        id,
+        NotificationType.THREAD_REPLY,
+        `New reply in ${where}`,
+        `${currentUser.name}: ${preview}`,
+        buildPath({ name: 'chat', chatId, threadId: parentId })
+      );
+    });
   };
 
   const createGroup = async (name: string, memberIds: string[]): Promise<string | null> => {
     if (!currentUser) return null;
     const newGroupId = 'g-' + Date.now();
     const allMembers = Array.from(new Set([...memberIds, currentUser.id]));
-    const { error } = await supabase.from('groups').insert({
-      id: newGroupId,
-      name,
-      member_ids: allMembers,
-      created_by: currentUser.id,
-      created_at: Date.now()
-    });
-
-    if (error) {
+    try {
+      await repository.groups.create({
+        id: newGroupId,
+        name,
+        memberIds: allMembers,
+        createdBy: currentUser.id,
+        createdAt: Date.now()
+      });
+    } catch (error) {
       console.error("Error creating group:", error);
       return null;
     }
@@ -881,33 +1423,60 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Optimistic Update
     setGroups(prev => prev.map(group => group.id === g.id ? g : group));
 
-    const { error } = await supabase.from('groups').update({
-      name: g.name,
-      member_ids: g.memberIds
-    }).eq('id', g.id);
-
-    if (error) console.error("Error updating group:", error);
+    try {
+      await repository.groups.update(g);
+    } catch (error) {
+      console.error("Error updating group:", error);
+    }
   };
 
   const deleteGroup = async (id: string) => {
     // Optimistic Update
     setGroups(prev => prev.filter(g => g.id !== id));
 
-    const { error } = await supabase.from('groups').delete().eq('id', id);
-    if (error) console.error("Error deleting group:", error);
+    try {
+      await repository.groups.remove(id);
+    } catch (error) {
+      console.error("Error deleting group:", error);
+    }
   };
 
-  const addProject = async (name: string, description: string) => {
-    const newProjectId = 'p-' + Date.now();
-    // Use only schema-defined columns to prevent errors
-    const { error } = await supabase.from('projects').insert({
-      id: newProjectId,
-      name,
-      description,
-      member_ids: []
-    });
+  // Workflow edits must stay valid and may not orphan tasks sitting in a removed column
+  const checkWorkflow = (workflow: WorkflowStatus[], projectId?: string): PolicyDecision => {
+    const error = validateWorkflow(workflow);
+    if (error) return { allowed: false, reason: error };
+    const orphaned = projectId ? tasks.find(t => t.projectId === projectId && !findStatus(workflow, t.status)) : undefined;
+    if (orphaned) {
+      const label = getStatusLabel(getProjectWorkflow(projects, orphaned.projectId), orphaned.status);
+      return { allowed: false, reason: `Move the tasks out of "${label}" before removing that column.` };
+    }
+    return { allowed: true };
+  };
 
-    if (error) {
+  const checkLabelsAndFields = (labels: TaskLabel[] | undefined, customFields: CustomFieldDefinition[] | undefined): PolicyDecision => {
+    const error = (labels && validateLabels(labels)) || (customFields && validateCustomFields(customFields));
+    return error ? { allowed: false, reason: error } : { allowed: true };
+  };
+
+  const addProject = async (name: string, description: string, workflow?: WorkflowStatus[], transitionRules?: TransitionRule[], labels?: TaskLabel[], customFields?: CustomFieldDefinition[]) => {
+    if (!enforce(checkProjectManage(currentUser))) return;
+    if (workflow && !enforce(checkWorkflow(workflow))) return;
+    if (!enforce(checkLabelsAndFields(labels, customFields))) return;
+    const newProjectId = 'p-' + Date.now();
+    try {
+      await repository.projects.create({
+        id: newProjectId,
+        name,
+        description,
+        memberIds: [],
+        attachments: [],
+        comments: [],
+        workflow,
+        transitionRules,
+        labels,
+        customFields
+      });
+    } catch (error) {
       console.error("Error creating project:", error);
       return;
     }
@@ -919,124 +1488,162 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const updateProject = async (p: Project) => {
-    // Use only schema-defined columns
-    const { error } = await supabase.from('projects').update({
-      name: p.name,
-      description: p.description,
-      member_ids: p.memberIds
-    }).eq('id', p.id);
-
-    if (error) console.error("Error updating project:", error);
+    if (!enforce(checkProjectManage(currentUser))) return;
+    if (!enforce(checkWorkflow(getWorkflow(p), p.id))) return;
+    if (!enforce(checkLabelsAndFields(p.labels, p.customFields))) return;
+    try {
+      await repository.projects.update(p);
+    } catch (error) {
+      console.error("Error updating project:", error);
+    }
   };
 
   const deleteProject = async (id: string) => {
+    if (!enforce(checkProjectManage(currentUser))) return;
+
     // Optimistic update
     const oldProjects = [...projects];
     setProjects(prev => prev.filter(p => p.id !== id));
 
     try {
-      // 1. Delete tasks (Manual cascade since DB might not have ON DELETE CASCADE)
-      const { error: taskError } = await supabase.from('tasks').delete().eq('project_id', id);
-      if (taskError) {
+      // 1. Delete tasks, sprints and shared views (Manual cascade since DB might not have ON DELETE CASCADE)
+      try {
+        await repository.tasks.removeByProject(id);
+        await repository.sprints.removeByProject(id);
+        await repository.savedViews.removeByProject(id);
+      } catch (taskError: any) {
         console.warn("Project tasks deletion issue (proceeding with project delete):", taskError.message);
       }
 
       // 2. Delete project
-      const { error: projectError } = await supabase.from('projects').delete().eq('id', id);
-
-      if (projectError) {
-        throw new Error(projectError.message);
-      }
+      await repository.projects.remove(id);
     } catch (error: any) {
       console.error("Error deleting project:", error);
       alert("Failed to delete project. " + (error.message || "Unknown error"));
       // Restore optimistic update
       setProjects(oldProjects);
       // Refresh from DB to be safe
-      const { data } = await supabase.from('projects').select('*');
-      if (data) setProjects(data.map(mapProjectFromDB));
+      try {
+        setProjects(await repository.projects.list());
+      } catch (e) { /* keep restored list */ }
     }
   };
 
   const triggerNotification = async (recipientId: string, type: NotificationType, title: string, message: string, linkTo?: string) => {
     if (currentUser && recipientId === currentUser.id) return;
-    await supabase.from('notifications').insert({
-      id: 'n-' + Date.now() + Math.random(),
-      recipient_id: recipientId,
-      sender_id: currentUser?.id,
-      type,
-      title,
-      message,
-      timestamp: Date.now(),
-      read: false,
-      link_to: linkTo
-    });
+    try {
+      await repository.notifications.create({
+        id: 'n-' + Date.now() + Math.random(),
+        recipientId,
+        senderId: currentUser?.id,
+        type,
+        title,
+        message,
+        timestamp: Date.now(),
+        read: false,
+        linkTo
+      });
+    } catch (error) {
+      console.error("Error creating notification:", error);
+    }
   };
 
   const markNotificationRead = async (id: string) => {
-    await supabase.from('notifications').update({ read: true }).eq('id', id);
+    try {
+      await repository.notifications.markRead(id);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+    }
   };
 
   const clearNotifications = async () => {
     if (!currentUser) return;
-    await supabase.from('notifications').update({ read: true }).eq('recipient_id', currentUser.id);
+    try {
+      await repository.notifications.markAllRead(currentUser.id);
+    } catch (error) {
+      console.error("Error clearing notifications:", error);
+    }
   };
 
+  // Moves the current user's read position in `chatId` to its newest message; other readers keep theirs
   const markChatRead = async (chatId: string) => {
     if (!currentUser) return;
+    const newest = messages.reduce((max, m) => getMessageChatId(m, currentUser.id) === chatId ? Math.max(max, m.timestamp) : max, 0);
+    // Sender clocks differ, so never record a position before the newest message
+    const timestamp = Math.max(Date.now(), newest);
+    const receipt: ReadReceipt = { userId: currentUser.id, chatId, lastReadTimestamp: timestamp };
 
     // 1. Optimistic Update (Immediate UI response) to stop blinking dot
-    setMessages(prev => {
-      // Check if any change is actually needed to avoid unnecessary re-renders
-      const needsUpdate = prev.some(m => {
-        const isTarget = (chatId === 'general' && !m.recipientId) ||
-          (chatId.startsWith('g-') && m.recipientId === chatId) ||
-          (m.senderId === chatId && m.recipientId === currentUser.id);
-        return isTarget && !m.isRead && m.senderId !== currentUser.id;
-      });
+    setReadReceipts(prev => [...prev.filter(r => r.userId !== currentUser.id || r.chatId !== chatId), receipt]);
 
-      if (!needsUpdate) return prev;
+    // 2. Database Update
+    try {
+      await repository.messages.markChatRead(chatId, currentUser.id, timestamp);
+    } catch (e) {
+      console.error("Error marking messages read in DB:", e);
+    }
+  };
 
-      return prev.map(m => {
-        const isTarget = (chatId === 'general' && !m.recipientId) ||
-          (chatId.startsWith('g-') && m.recipientId === chatId) ||
-          (m.senderId === chatId && m.recipientId === currentUser.id);
+  // Fetches the page before the oldest message loaded for this chat (the latest page on first call)
+  const loadOlderMessages = async (chatId: string) => {
+    if (!currentUser) return;
+    const history = chatHistory[chatId];
+    if ((history && !history.hasMore) || loadingChatsRef.current.has(chatId)) return;
 
-        if (isTarget && !m.isRead && m.senderId !== currentUser.id) {
-          return { ...m, isRead: true };
-        }
-        return m;
+    loadingChatsRef.current.add(chatId);
+    setChatHistory(prev => ({ ...prev, [chatId]: { hasMore: prev[chatId]?.hasMore ?? true, oldest: prev[chatId]?.oldest, isLoading: true } }));
+    try {
+      const page = await repository.messages.list({
+        chatId, userId: currentUser.id, before: history?.oldest, limit: MESSAGE_PAGE_SIZE, order: 'desc'
       });
-    });
+      setMessages(prev => mergeMessages(prev, page));
+      loadReactions('message', page.map(m => m.id));
+      setChatHistory(prev => ({
+        ...prev,
+        [chatId]: {
+          hasMore: page.length === MESSAGE_PAGE_SIZE,
+          isLoading: false,
+          oldest: page.length ? { timestamp: page[page.length - 1].timestamp, id: page[page.length - 1].id } : prev[chatId]?.oldest
+        }
+      }));
+    } catch (e) {
+      console.error("Error loading message history:", e);
+      setChatHistory(prev => ({ ...prev, [chatId]: { ...prev[chatId], isLoading: false } }));
+    } finally {
+      loadingChatsRef.current.delete(chatId);
+    }
+  };
 
-    // 2. Database Update
+  // Searches the whole stored chat history; the loaded pages only hold the latest messages of each chat
+  const searchMessages = async (query: string) => {
+    if (!currentUser || !query.trim()) return [];
     try {
-      let query = supabase.from('messages').update({ is_read: true }).neq('sender_id', currentUser.id).eq('is_read', false);
-
-      if (chatId === 'general') {
-        // General Chat
-        query = query.is('recipient_id', null);
-      } else if (chatId.startsWith('g-')) {
-        // Group Chat
-        query = query.eq('recipient_id', chatId);
-      } else {
-        // Direct Message: Mark messages FROM the other user TO me
-        query = query.eq('sender_id', chatId).eq('recipient_id', currentUser.id);
-      }
+      return await repository.messages.list({ search: query, userId: currentUser.id, limit: SEARCH_RESULT_LIMIT, order: 'desc' });
+    } catch (e) {
+      console.error("Error searching messages:", e);
+      return [];
+    }
+  };
 
-      const { error } = await query;
-      if (error) console.error("Error marking messages read in DB:", error);
+  // Fetches a thread's first message and every reply, e.g. when a link opens a thread older than the loaded history
+  const loadThread = async (parentId: string) => {
+    try {
+      const thread = await repository.messages.list({ threadId: parentId, userId: currentUser?.id, order: 'asc' });
+      setMessages(prev => mergeMessages(prev, thread));
+      loadReactions('message', thread.map(m => m.id));
     } catch (e) {
-      console.error("Exception marking messages read:", e);
+      console.error("Error loading thread:", e);
     }
   };
 
   const getUnreadCount = (chatId: string) => {
     if (!currentUser) return 0;
 
+    // Chats without a receipt yet fall back to the legacy shared flag
+    const lastRead = lastReadTimestamps[chatId];
     return messages.filter(m => {
       if (deletedMessageIds.has(m.id)) return false;
-      if (m.isRead) return false; // Already read
+      if (lastRead !== undefined ? m.timestamp <= lastRead : m.isRead) return false; // Already read
 
       if (chatId === 'general') {
         // Global chat: User is NOT the sender
@@ -1059,13 +1666,33 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return count;
   }, [messages, lastReadTimestamps, currentUser, groups, users, deletedMessageIds]); // Added deletedMessageIds dep
 
+  const getMessageReaders = (message: ChatMessage) => {
+    const group = message.recipientId?.startsWith('g-') ? groups.find(g => g.id === message.recipientId) : undefined;
+    return readReceipts
+      .filter(r =>
+        r.userId !== message.senderId &&
+        r.lastReadTimestamp >= message.timestamp &&
+        r.chatId === getMessageChatId(message, r.userId) &&
+        // A direct message has one reader; a group's former members no longer count
+        (!message.recipientId || (group ? group.memberIds.includes(r.userId) : r.userId === message.recipientId)))
+      .map(r => r.userId);
+  };
+
   // --- Clear Chat History Logic ---
   const clearChatHistory = async (targetId: string) => {
     if (!currentUser) return;
 
     const isGroup = groups.some(g => g.id === targetId);
 
-    const msgsToDelete = messages.filter(m => {
+    // Older pages may not be loaded yet, so include the stored history of the chat
+    let storedMessages: ChatMessage[] = [];
+    try {
+      storedMessages = await repository.messages.list({ chatId: targetId, userId: currentUser.id });
+    } catch (error) {
+      console.error("Failed to load chat history", error);
+    }
+
+    const msgsToDelete = mergeMessages(messages, storedMessages).filter(m => {
       if (deletedMessageIds.has(m.id)) return false; // Already deleted
 
       if (targetId === 'general') {
@@ -1083,20 +1710,15 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (msgsToDelete.length === 0) return;
 
     const newDeletedIds = new Set(deletedMessageIds);
-    const recordsToInsert = msgsToDelete.map(m => {
-      newDeletedIds.add(m.id);
-      return {
-        id: 'dm-' + Date.now() + Math.random().toString(36).substr(2, 9),
-        user_id: currentUser.id,
-        message_id: m.id,
-        timestamp: Date.now()
-      };
-    });
+    msgsToDelete.forEach(m => newDeletedIds.add(m.id));
 
     setDeletedMessageIds(newDeletedIds); // Optimistic UI update
 
-    const { error } = await supabase.from('deleted_messages').insert(recordsToInsert);
-    if (error) console.error("Failed to delete chat history", error);
+    try {
+      await repository.messages.hideForUser(currentUser.id, msgsToDelete.map(m => m.id));
+    } catch (error) {
+      console.error("Failed to delete chat history", error);
+    }
   };
 
 
@@ -1670,13 +2292,15 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   return (
     <AppContext.Provider value={{
-      currentUser, users, projects, tasks, messages, groups, notifications, incomingCall, isInCall, activeCallData,
+      currentUser, users, projects, tasks, sprints, savedViews, messages, chatHistory, reactions, groups, notifications, incomingCall, isInCall, activeCallData,
       localStream, remoteStreams, isScreenSharing, isMicOn, isCameraOn, hasAudioDevice, hasVideoDevice,
       deletedMessageIds, clearChatHistory,
-      login, logout, addUser, updateUser, deleteUser, addTask, updateTask, deleteTask, moveTask, addMessage, createGroup, updateGroup, deleteGroup, addProject, updateProject, deleteProject,
-      triggerNotification, markNotificationRead, clearNotifications, markChatRead, getUnreadCount, totalUnreadChatCount,
+      login, logout, changePassword, resetUserPassword, addUser, updateUser, deleteUser, addTask, importTasks, updateTask, deleteTask, moveTask, addSprint, updateSprint, deleteSprint, closeSprint, moveTaskToSprint, addSavedView, updateSavedView, deleteSavedView, addMessage, editMessage, deleteMessageForEveryone, toggleReaction, createGroup, updateGroup, deleteGroup, addProject, updateProject, deleteProject,
+      triggerNotification, markNotificationRead, clearNotifications, markChatRead, loadOlderMessages, loadThread, searchMessages, getUnreadCount, getMessageReaders, typingUsers, setTyping, totalUnreadChatCount,
       startCall, startGroupCall, addToCall, acceptIncomingCall, rejectIncomingCall, endCall, toggleScreenShare, toggleMic, toggleCamera,
-      ringtone, setRingtone
+      ringtone, setRingtone,
+      taskFilters, setTaskFilters,
+      activeTimer, startTimer, stopTimer
     }}>
       {children}
     </AppContext.Provider>
@@ -0,0 +1,170 @@
+-- Server-verified authentication with salted password hashes and expiring sessions.
+-- The browser never reads `password` / `password_hash`; every credential check runs in
+-- the SECURITY DEFINER functions below.
+
+create extension if not exists pgcrypto;
+
+-- --- 1. Password hashes ---
+alter table public.users add column if not exists password_hash text;
+-- Legacy plaintext column stays until every seeded account has logged in once (see auth_login).
+alter table public.users alter column password drop not null;
+
+-- --- 2. Sessions ---
+create table if not exists public.sessions (
+  token text primary key,
+  user_id text not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz
+);
+create index if not exists sessions_user_id_idx on public.sessions(user_id);
+
+alter table public.sessions enable row level security;
+-- No policies: sessions are only reachable through the functions below.
+
+-- --- 3. Hide credential columns from API roles ---
+revoke select, insert, update on public.users from anon, authenticated;
+grant select (id, name, username, role, avatar, is_online, project_access, dashboard_config) on public.users to anon, authenticated;
+grant insert (id, name, username, role, avatar, project_access, dashboard_config) on public.users to anon, authenticated;
+grant update (name, username, role, avatar, is_online, project_access, dashboard_config) on public.users to anon, authenticated;
+
+-- Public projection of a user row (never includes credentials)
+create or replace function public.auth_public_user(u public.users)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(u) - 'password' - 'password_hash';
+$$;
+
+-- Resolve a live session token to its user id (NULL if unknown, expired or revoked)
+create or replace function public.auth_session_user_id(p_token text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.user_id from public.sessions s
+  where s.token = p_token and s.revoked_at is null and s.expires_at > now();
+$$;
+
+-- --- 4. Login (migrates legacy plaintext passwords on first use) ---
+create or replace function public.auth_login(p_username text, p_password text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user public.users;
+  v_token text;
+  v_expires timestamptz := now() + interval '7 days';
+begin
+  select * into v_user from public.users where username = p_username;
+  if not found then
+    return null;
+  end if;
+
+  if v_user.password_hash is null then
+    -- Legacy row: compare against plaintext once, then replace it with a salted hash
+    if v_user.password is null or v_user.password <> p_password then
+      return null;
+    end if;
+    update public.users
+      set password_hash = crypt(p_password, gen_salt('bf')), password = null
+      where id = v_user.id
+      returning * into v_user;
+  elsif crypt(p_password, v_user.password_hash) <> v_user.password_hash then
+    return null;
+  end if;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+  insert into public.sessions (token, user_id, expires_at) values (v_token, v_user.id, v_expires);
+
+  return jsonb_build_object(
+    'token', v_token,
+    'user_id', v_user.id,
+    'expires_at', (extract(epoch from v_expires) * 1000)::bigint,
+    'user', public.auth_public_user(v_user)
+  );
+end;
+$$;
+
+create or replace function public.auth_session_user(p_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user public.users;
+begin
+  select u.* into v_user from public.users u where u.id = public.auth_session_user_id(p_token);
+  if not found then
+    return null;
+  end if;
+  return public.auth_public_user(v_user);
+end;
+$$;
+
+create or replace function public.auth_logout(p_token text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.sessions set revoked_at = now() where token = p_token and revoked_at is null;
+$$;
+
+create or replace function public.auth_change_password(p_token text, p_old_password text, p_new_password text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user public.users;
+begin
+  select u.* into v_user from public.users u where u.id = public.auth_session_user_id(p_token);
+  if not found then
+    raise exception 'Not authenticated';
+  end if;
+  if v_user.password_hash is null or crypt(p_old_password, v_user.password_hash) <> v_user.password_hash then
+    return false;
+  end if;
+
+  update public.users set password_hash = crypt(p_new_password, gen_salt('bf')) where id = v_user.id;
+  -- Sign out every other device
+  update public.sessions set revoked_at = now()
+    where user_id = v_user.id and token <> p_token and revoked_at is null;
+  return true;
+end;
+$$;
+
+create or replace function public.auth_set_password(p_token text, p_user_id text, p_new_password text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_role text;
+begin
+  select u.role into v_role from public.users u where u.id = public.auth_session_user_id(p_token);
+  if v_role is distinct from 'ADMIN' then
+    raise exception 'Admin privileges required';
+  end if;
+
+  update public.users set password_hash = crypt(p_new_password, gen_salt('bf')), password = null where id = p_user_id;
+  update public.sessions set revoked_at = now() where user_id = p_user_id and revoked_at is null;
+end;
+$$;
+
+revoke all on function public.auth_session_user_id(text) from public;
+grant execute on function public.auth_login(text, text) to anon, authenticated;
+grant execute on function public.auth_session_user(text) to anon, authenticated;
+grant execute on function public.auth_logout(text) to anon, authenticated;
+grant execute on function public.auth_change_password(text, text, text) to anon, authenticated;
+grant execute on function public.auth_set_password(text, text, text) to anon, authenticated;
@@ -0,0 +1,212 @@
+-- Row-level policies mirroring policy.ts.
+-- The client trades its session token for a JWT signed with the project's JWT secret (auth_session_jwt)
+-- and sends it as the bearer token (see supabaseClient.ts). PostgREST and Realtime both verify it and
+-- expose its claims through request.jwt.claims, so API reads and postgres_changes events are filtered alike.
+-- The session token travels as a claim, so a revoked or expired session loses access right away.
+-- Reads and writes are both checked against ProjectAccessLevel: 'none' hides a project and its tasks.
+--
+-- Setup: store the JWT secret (Project Settings -> API) in Vault as `jwt_secret`:
+--   select vault.create_secret('<jwt secret>', 'jwt_secret');
+
+-- --- 1. Caller helpers ---
+create or replace function public.jwt_base64url(p_data bytea)
+returns text
+language sql
+immutable
+as $$
+  select translate(trim(trailing '=' from replace(encode(p_data, 'base64'), E'\n', '')), '+/', '-_');
+$$;
+
+-- HS256 JWT for a live session; NULL if the token is unknown, expired or revoked
+create or replace function public.auth_session_jwt(p_token text)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_session public.sessions;
+  v_secret text;
+  v_unsigned text;
+begin
+  select s.* into v_session from public.sessions s
+  where s.token = p_token and s.revoked_at is null and s.expires_at > now();
+  if not found then
+    return null;
+  end if;
+
+  select ds.decrypted_secret into v_secret from vault.decrypted_secrets ds where ds.name = 'jwt_secret';
+  if v_secret is null then
+    raise exception 'Vault secret jwt_secret is missing';
+  end if;
+
+  v_unsigned := public.jwt_base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'))
+    || '.' || public.jwt_base64url(convert_to(jsonb_build_object(
+      'role', 'authenticated',
+      'aud', 'authenticated',
+      'sub', v_session.user_id,
+      'session_token', v_session.token,
+      'iat', extract(epoch from now())::bigint,
+      'exp', extract(epoch from v_session.expires_at)::bigint
+    )::text, 'utf8'));
+  return v_unsigned || '.' || public.jwt_base64url(hmac(v_unsigned, v_secret, 'sha256'));
+end;
+$$;
+
+grant execute on function public.auth_session_jwt(text) to anon, authenticated;
+
+create or replace function public.request_user_id()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.auth_session_user_id(
+    coalesce(nullif(current_setting('request.jwt.claims', true), '')::json ->> 'session_token', '')
+  );
+$$;
+
+create or replace function public.request_is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select u.role = 'ADMIN' from public.users u where u.id = public.request_user_id()), false);
+$$;
+
+-- 'write' | 'read' | 'none'; admins always get 'write', anonymous callers 'none'
+create or replace function public.project_access_level(p_project_id text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select case when u.role = 'ADMIN' then 'write' else coalesce(u.project_access ->> p_project_id, 'none') end
+     from public.users u where u.id = public.request_user_id()),
+    'none'
+  );
+$$;
+
+-- --- 2. Tasks ---
+alter table public.tasks enable row level security;
+
+drop policy if exists tasks_select on public.tasks;
+drop policy if exists tasks_insert on public.tasks;
+drop policy if exists tasks_update on public.tasks;
+drop policy if exists tasks_delete on public.tasks;
+
+create policy tasks_select on public.tasks for select
+  using (public.project_access_level(project_id) <> 'none');
+create policy tasks_insert on public.tasks for insert
+  with check (public.project_access_level(project_id) = 'write');
+-- Readers reach the update path only for comments; the trigger below enforces that
+create policy tasks_update on public.tasks for update
+  using (public.project_access_level(project_id) in ('read', 'write'))
+  with check (public.project_access_level(project_id) in ('read', 'write'));
+create policy tasks_delete on public.tasks for delete
+  using (public.project_access_level(project_id) = 'write');
+
+create or replace function public.tasks_guard_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id text := public.request_user_id();
+  v_changed jsonb;
+begin
+  -- Direct SQL sessions (no API request) are trusted; only guard API callers
+  if current_setting('request.headers', true) is null then
+    return new;
+  end if;
+
+  if new.project_id is distinct from old.project_id
+     and public.project_access_level(new.project_id) <> 'write' then
+    raise exception 'No write access to the destination project';
+  end if;
+
+  if public.project_access_level(old.project_id) = 'write' then
+    return new;
+  end if;
+
+  -- Read-only: only the comments column may change, and only the caller's own comments
+  if (to_jsonb(new) - 'comments') is distinct from (to_jsonb(old) - 'comments') then
+    raise exception 'Read-only access: only comments can be added';
+  end if;
+
+  select coalesce(jsonb_agg(c), '[]'::jsonb) into v_changed
+  from (
+    (select c from jsonb_array_elements(coalesce(new.comments, '[]'::jsonb)) c
+     except select c from jsonb_array_elements(coalesce(old.comments, '[]'::jsonb)) c)
+    union all
+    (select c from jsonb_array_elements(coalesce(old.comments, '[]'::jsonb)) c
+     except select c from jsonb_array_elements(coalesce(new.comments, '[]'::jsonb)) c)
+  ) diff;
+
+  if exists (select 1 from jsonb_array_elements(v_changed) c where c ->> 'userId' is distinct from v_user_id) then
+    raise exception 'Read-only access: you can only change your own comments';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_guard_update on public.tasks;
+create trigger tasks_guard_update before update on public.tasks
+  for each row execute function public.tasks_guard_update();
+
+-- --- 3. Projects (admin only) ---
+alter table public.projects enable row level security;
+
+drop policy if exists projects_select on public.projects;
+drop policy if exists projects_write on public.projects;
+
+create policy projects_select on public.projects for select
+  using (public.project_access_level(id) <> 'none');
+create policy projects_write on public.projects for all
+  using (public.request_is_admin())
+  with check (public.request_is_admin());
+
+-- --- 4. Users (admins manage everyone; members edit their own profile) ---
+alter table public.users enable row level security;
+
+drop policy if exists users_select on public.users;
+drop policy if exists users_insert on public.users;
+drop policy if exists users_update on public.users;
+drop policy if exists users_delete on public.users;
+
+create policy users_select on public.users for select using (true);
+create policy users_insert on public.users for insert with check (public.request_is_admin());
+create policy users_update on public.users for update
+  using (public.request_is_admin() or id = public.request_user_id())
+  with check (public.request_is_admin() or id = public.request_user_id());
+create policy users_delete on public.users for delete using (public.request_is_admin());
+
+create or replace function public.users_guard_privileges()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Direct SQL sessions (no API request) are trusted; only guard API callers
+  if current_setting('request.headers', true) is null or public.request_is_admin() then
+    return new;
+  end if;
+  if new.role is distinct from old.role or new.project_access is distinct from old.project_access then
+    raise exception 'Only admins can change roles or project access';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_guard_privileges on public.users;
+create trigger users_guard_privileges before update on public.users
+  for each row execute function public.users_guard_privileges();
@@ -0,0 +1,7 @@
+-- Per-project workflows: ordered board columns stored on the project (see workflow.ts).
+-- NULL means the default To Do / In Progress / Done workflow, so existing rows need no backfill.
+
+alter table public.projects add column if not exists workflow jsonb;
+
+-- Task and subtask statuses are now workflow column ids rather than a fixed set
+alter table public.tasks alter column status type text using status::text;
@@ -0,0 +1,86 @@
+-- Per-project transition rules (see TransitionRule in types.ts).
+-- NULL means DEFAULT_TRANSITION_RULES; WIP limits live on each column inside projects.workflow.
+-- The tasks_guard_workflow trigger below enforces columns, WIP limits and rules for API callers.
+
+alter table public.projects add column if not exists transition_rules jsonb;
+
+-- --- Server-side checks (mirror checkTaskPlacement, checkWipLimit and checkTransition in workflow.ts) ---
+
+-- The project's columns, or DEFAULT_WORKFLOW when it has none
+create or replace function public.project_workflow(p_project_id text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select p.workflow from public.projects p
+     where p.id = p_project_id and jsonb_array_length(coalesce(p.workflow, '[]'::jsonb)) > 0),
+    '[{"id": "TODO", "name": "To Do"}, {"id": "IN_PROGRESS", "name": "In Progress"}, {"id": "DONE", "name": "Done"}]'::jsonb
+  );
+$$;
+
+create or replace function public.tasks_guard_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_column jsonb;
+  v_rule jsonb;
+begin
+  -- Direct SQL sessions (no API request) are trusted; only guard API callers
+  if current_setting('request.headers', true) is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status and new.project_id is not distinct from old.project_id then
+    return new;
+  end if;
+
+  select c into v_column
+  from jsonb_array_elements(public.project_workflow(new.project_id)) c
+  where c ->> 'id' = new.status;
+  if v_column is null then
+    raise exception 'Status "%" is not a column in this project''s workflow', new.status;
+  end if;
+
+  -- An unset or zero limit means unlimited
+  if coalesce((v_column ->> 'wipLimit')::int, 0) > 0
+     and (select count(*) from public.tasks t
+          where t.project_id = new.project_id and t.status = new.status and t.id <> new.id) >= (v_column ->> 'wipLimit')::int then
+    raise exception '"%" is at its WIP limit of %', v_column ->> 'name', v_column ->> 'wipLimit';
+  end if;
+
+  -- Transition rules cover moves within a project; the most specific matching rule wins
+  if tg_op = 'UPDATE' and new.project_id is not distinct from old.project_id then
+    select r into v_rule
+    from public.projects p,
+         jsonb_array_elements(coalesce(p.transition_rules, '[{"from": "DONE", "to": "TODO", "effect": "require_reason"}]'::jsonb)) r
+    where p.id = new.project_id
+      and (r ->> 'from' = old.status or r ->> 'from' = '*')
+      and (r ->> 'to' = new.status or r ->> 'to' = '*')
+    order by (r ->> 'from' = '*')::int + (r ->> 'to' = '*')::int
+    limit 1;
+
+    if v_rule ->> 'effect' = 'deny' then
+      raise exception 'Moving tasks from "%" to "%" is not allowed in this project', old.status, new.status;
+    end if;
+    -- The reason is a comment by the caller saved together with the status change
+    if v_rule ->> 'effect' = 'require_reason' and not exists (
+      select 1 from jsonb_array_elements(coalesce(new.comments, '[]'::jsonb)) c
+      where c ->> 'userId' = public.request_user_id()
+        and not coalesce(old.comments, '[]'::jsonb) @> jsonb_build_array(c)
+    ) then
+      raise exception 'Moving a task from "%" to "%" requires a reason comment', old.status, new.status;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_guard_workflow on public.tasks;
+create trigger tasks_guard_workflow before insert or update on public.tasks
+  for each row execute function public.tasks_guard_workflow();
@@ -0,0 +1,4 @@
+-- Typed task links (see TaskLink in types.ts), stored on the source task.
+-- The reverse side of each link is derived client-side in taskLinks.ts.
+
+alter table public.tasks add column if not exists links jsonb not null default '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- Optional start date for the timeline view; NULL falls back to created_at client-side.
+
+alter table public.tasks add column if not exists start_date date;
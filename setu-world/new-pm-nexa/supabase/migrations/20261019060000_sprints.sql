@@ -0,0 +1,33 @@
+-- Sprints (see Sprint in types.ts): time-boxed iterations per project.
+-- Tasks reference their sprint through tasks.sprint_id; NULL means the project backlog.
+-- Sprint planning is open to anyone with write access to the project (checkSprintManage in policy.ts).
+
+create table if not exists public.sprints (
+  id text primary key,
+  project_id text not null references public.projects(id) on delete cascade,
+  name text not null,
+  goal text not null default '',
+  start_date date not null,
+  end_date date not null,
+  state text not null default 'planned' check (state in ('planned', 'active', 'closed')),
+  created_at bigint not null,
+  closed_at bigint,
+  check (end_date >= start_date)
+);
+
+-- At most one active sprint per project
+create unique index if not exists sprints_one_active_per_project
+  on public.sprints (project_id) where state = 'active';
+
+alter table public.tasks add column if not exists sprint_id text references public.sprints(id) on delete set null;
+
+alter table public.sprints enable row level security;
+
+drop policy if exists sprints_select on public.sprints;
+drop policy if exists sprints_write on public.sprints;
+
+create policy sprints_select on public.sprints for select
+  using (public.project_access_level(project_id) <> 'none');
+create policy sprints_write on public.sprints for all
+  using (public.project_access_level(project_id) = 'write')
+  with check (public.project_access_level(project_id) = 'write');
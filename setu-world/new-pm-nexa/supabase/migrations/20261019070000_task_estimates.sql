@@ -0,0 +1,6 @@
+-- Story points and time estimates (see estimates.ts). Subtask estimates live in the subtasks jsonb.
+-- completed_at is set by the client when a task enters a done column and drives burndown/velocity.
+
+alter table public.tasks add column if not exists story_points numeric check (story_points >= 0);
+alter table public.tasks add column if not exists estimate_hours numeric check (estimate_hours >= 0);
+alter table public.tasks add column if not exists completed_at bigint;
@@ -0,0 +1,3 @@
+-- Logged time (see TimeEntry in types.ts). Subtask entries live in the subtasks jsonb.
+
+alter table public.tasks add column if not exists time_entries jsonb not null default '[]'::jsonb;
@@ -0,0 +1,56 @@
+-- Saved Kanban views (see SavedView in types.ts): a named filter set, view mode and sort order.
+-- Personal views (project_id NULL) are visible to their owner only; shared views to everyone
+-- who can read the project (canReadSavedView / checkSavedViewManage in policy.ts).
+
+create table if not exists public.saved_views (
+  id text primary key,
+  owner_id text not null references public.users(id) on delete cascade,
+  project_id text references public.projects(id) on delete cascade,
+  name text not null,
+  config jsonb not null,
+  created_at bigint not null
+);
+
+alter table public.saved_views enable row level security;
+
+drop policy if exists saved_views_select on public.saved_views;
+drop policy if exists saved_views_insert on public.saved_views;
+drop policy if exists saved_views_update on public.saved_views;
+drop policy if exists saved_views_delete on public.saved_views;
+
+create policy saved_views_select on public.saved_views for select using (
+  owner_id = public.request_user_id()
+  or (project_id is not null and public.project_access_level(project_id) <> 'none')
+);
+create policy saved_views_insert on public.saved_views for insert with check (
+  owner_id = public.request_user_id()
+  and (project_id is null or public.project_access_level(project_id) <> 'none')
+);
+create policy saved_views_update on public.saved_views for update
+  using (owner_id = public.request_user_id() or public.request_is_admin())
+  with check (project_id is null or public.project_access_level(project_id) <> 'none');
+create policy saved_views_delete on public.saved_views for delete
+  using (owner_id = public.request_user_id() or public.request_is_admin());
+
+-- A view keeps its owner: updating owner_id would hand a view to (or take it from) someone else
+create or replace function public.saved_views_guard_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Direct SQL sessions (no API request) are trusted; only guard API callers
+  if current_setting('request.headers', true) is null then
+    return new;
+  end if;
+  if new.owner_id is distinct from old.owner_id then
+    raise exception 'The owner of a saved view cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists saved_views_guard_owner on public.saved_views;
+create trigger saved_views_guard_owner before update on public.saved_views
+  for each row execute function public.saved_views_guard_owner();
@@ -0,0 +1,4 @@
+-- Per-project labels (see TaskLabel in types.ts). Tasks reference them by id; subtask labels live in the subtasks jsonb.
+
+alter table public.projects add column if not exists labels jsonb;
+alter table public.tasks add column if not exists label_ids jsonb not null default '[]'::jsonb;
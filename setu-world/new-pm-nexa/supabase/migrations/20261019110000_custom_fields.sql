@@ -0,0 +1,4 @@
+-- Per-project custom fields (see CustomFieldDefinition in types.ts). Task values are keyed by field id.
+
+alter table public.projects add column if not exists custom_fields jsonb;
+alter table public.tasks add column if not exists custom_fields jsonb not null default '{}'::jsonb;
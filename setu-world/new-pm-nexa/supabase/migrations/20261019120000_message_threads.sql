@@ -0,0 +1,4 @@
+-- Threaded replies: a reply points at the first message of its thread (see ChatMessage.parentId in types.ts).
+
+alter table public.messages add column if not exists parent_id text references public.messages(id) on delete cascade;
+create index if not exists messages_parent_id_idx on public.messages (parent_id);
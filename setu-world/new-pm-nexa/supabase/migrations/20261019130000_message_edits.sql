@@ -0,0 +1,85 @@
+-- Edits and delete-for-everyone on chat messages (see ChatMessage in types.ts).
+-- An edit keeps the replaced text in `revisions`; a delete clears the content and leaves a tombstone.
+-- Mirrors checkMessageEdit / checkMessageDelete in policy.ts; the trigger writes revisions and tombstones itself.
+
+alter table public.messages add column if not exists edited_at bigint;
+alter table public.messages add column if not exists revisions jsonb;
+alter table public.messages add column if not exists deleted_at bigint;
+alter table public.messages add column if not exists deleted_by text references public.users(id) on delete set null;
+
+create or replace function public.messages_guard_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id text := public.request_user_id();
+  v_now bigint := (extract(epoch from clock_timestamp()) * 1000)::bigint;
+begin
+  -- Direct SQL sessions (no API request) are trusted; only guard API callers
+  if current_setting('request.headers', true) is null then
+    return new;
+  end if;
+
+  -- Who sent a message, to whom, when and where never changes
+  if new.id is distinct from old.id
+     or new.sender_id is distinct from old.sender_id
+     or new.recipient_id is distinct from old.recipient_id
+     or new.timestamp is distinct from old.timestamp
+     or new.type is distinct from old.type
+     or new.parent_id is distinct from old.parent_id then
+    raise exception 'Message sender, recipient, time and thread cannot change';
+  end if;
+
+  if old.deleted_at is not null then
+    if (to_jsonb(new) - 'is_read') is distinct from (to_jsonb(old) - 'is_read') then
+      raise exception 'Deleted messages cannot change';
+    end if;
+    return new;
+  end if;
+
+  -- Delete for everyone: the tombstone is written here, whatever content the client sent
+  if new.deleted_at is not null then
+    if old.sender_id is distinct from v_user_id and not public.request_is_admin() then
+      raise exception 'You can only delete your own messages';
+    end if;
+    new.text := '';
+    new.attachments := '[]';
+    new.revisions := null;
+    new.edited_at := old.edited_at;
+    new.deleted_at := v_now;
+    new.deleted_by := v_user_id;
+    return new;
+  end if;
+
+  -- Read flags may be set by any reader; the content belongs to the sender
+  if (to_jsonb(new) - 'is_read') is not distinct from (to_jsonb(old) - 'is_read') then
+    return new;
+  end if;
+  if old.sender_id is distinct from v_user_id then
+    raise exception 'You can only edit your own messages';
+  end if;
+  if old.type is distinct from 'text' then
+    raise exception 'This message can no longer be edited';
+  end if;
+
+  -- Only the text is editable; the replaced text is recorded here rather than taken from the client
+  new.attachments := old.attachments;
+  new.deleted_by := null;
+  if new.text is distinct from old.text then
+    new.revisions := coalesce(old.revisions, '[]'::jsonb)
+      || jsonb_build_array(jsonb_build_object('text', old.text, 'timestamp', coalesce(old.edited_at, old.timestamp)));
+    new.edited_at := v_now;
+  else
+    new.revisions := old.revisions;
+    new.edited_at := old.edited_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_guard_update on public.messages;
+create trigger messages_guard_update before update on public.messages
+  for each row execute function public.messages_guard_update();
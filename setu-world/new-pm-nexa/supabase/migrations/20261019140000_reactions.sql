@@ -0,0 +1,94 @@
+-- Emoji reactions on chat messages and task/subtask comments (see Reaction in types.ts).
+-- One row per user, target and emoji; users add and remove only their own reactions, and only see
+-- and add reactions on messages and comments they can read.
+
+create table if not exists public.reactions (
+  id text primary key,
+  target_type text not null check (target_type in ('message', 'comment')),
+  target_id text not null,
+  user_id text not null references public.users(id) on delete cascade,
+  emoji text not null,
+  created_at bigint not null,
+  unique (target_type, target_id, user_id, emoji)
+);
+
+create index if not exists reactions_target_idx on public.reactions (target_type, target_id);
+
+-- --- Readable targets (mirror canReadMessage and checkCommentReaction in policy.ts) ---
+
+-- Works whether groups.member_ids is a text[] or a jsonb array
+create or replace function public.request_is_group_member(p_group_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.groups g
+    where g.id = p_group_id and to_jsonb(g.member_ids) ? public.request_user_id()
+  );
+$$;
+
+-- The team chat is open to everyone; direct messages to their two users; group chats to current members
+create or replace function public.can_read_message(p_message_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.messages m
+    where m.id = p_message_id
+      and (m.recipient_id is null
+           or m.sender_id = public.request_user_id()
+           or m.recipient_id = public.request_user_id()
+           or (m.recipient_id like 'g-%' and public.request_is_group_member(m.recipient_id)))
+  );
+$$;
+
+-- Comments live in tasks.comments and in each subtask's comments
+create or replace function public.can_read_comment(p_comment_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.tasks t
+    where public.project_access_level(t.project_id) <> 'none'
+      and (coalesce(t.comments, '[]'::jsonb) @> jsonb_build_array(jsonb_build_object('id', p_comment_id))
+           or exists (select 1 from jsonb_array_elements(coalesce(t.subtasks, '[]'::jsonb)) s
+                      where coalesce(s -> 'comments', '[]'::jsonb) @> jsonb_build_array(jsonb_build_object('id', p_comment_id))))
+  );
+$$;
+
+create or replace function public.can_read_reaction_target(p_target_type text, p_target_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_target_type
+    when 'message' then public.can_read_message(p_target_id)
+    when 'comment' then public.can_read_comment(p_target_id)
+    else false
+  end;
+$$;
+
+alter table public.reactions enable row level security;
+
+drop policy if exists reactions_select on public.reactions;
+drop policy if exists reactions_insert on public.reactions;
+drop policy if exists reactions_delete on public.reactions;
+
+create policy reactions_select on public.reactions for select
+  using (public.can_read_reaction_target(target_type, target_id));
+create policy reactions_insert on public.reactions for insert with check (
+  user_id = public.request_user_id()
+  and public.can_read_reaction_target(target_type, target_id)
+);
+create policy reactions_delete on public.reactions for delete using (user_id = public.request_user_id());
@@ -0,0 +1,87 @@
+-- Per-reader read positions (see ReadReceipt in types.ts). Replaces the shared messages.is_read flag,
+-- which the first reader flipped for everyone: each user keeps one row per chat with the timestamp
+-- they have read up to. chat_id is as that user sees the chat ('general', a group id or the other user's id).
+
+create table if not exists public.read_receipts (
+  user_id text not null references public.users(id) on delete cascade,
+  chat_id text not null,
+  last_read_timestamp bigint not null
+);
+
+-- Older deployments created the table with a generated id column and no key on (user_id, chat_id)
+do $$
+begin
+  if exists (select 1 from information_schema.columns
+             where table_schema = 'public' and table_name = 'read_receipts' and column_name = 'id') then
+    alter table public.read_receipts alter column id set default gen_random_uuid();
+  end if;
+end;
+$$;
+
+delete from public.read_receipts a
+  using public.read_receipts b
+  where a.user_id = b.user_id and a.chat_id = b.chat_id
+    and (a.last_read_timestamp < b.last_read_timestamp or (a.last_read_timestamp = b.last_read_timestamp and a.ctid < b.ctid));
+
+create unique index if not exists read_receipts_user_chat_idx on public.read_receipts (user_id, chat_id);
+
+-- Keep the position from moving backwards when two tabs report out of order
+create or replace function public.read_receipts_keep_latest()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.last_read_timestamp := greatest(new.last_read_timestamp, old.last_read_timestamp);
+  return new;
+end;
+$$;
+
+drop trigger if exists read_receipts_keep_latest on public.read_receipts;
+create trigger read_receipts_keep_latest before update on public.read_receipts
+  for each row execute function public.read_receipts_keep_latest();
+
+alter table public.read_receipts enable row level security;
+
+drop policy if exists read_receipts_select on public.read_receipts;
+drop policy if exists read_receipts_insert on public.read_receipts;
+drop policy if exists read_receipts_update on public.read_receipts;
+
+-- Readers see their own positions, their DM partner's position in that DM, and positions in
+-- the team chat and in groups they belong to ("Seen by"); other users' DMs stay private
+create policy read_receipts_select on public.read_receipts for select using (
+  user_id = public.request_user_id()
+  or chat_id = public.request_user_id()
+  or chat_id = 'general'
+  or (chat_id like 'g-%' and public.request_is_group_member(chat_id))
+);
+create policy read_receipts_insert on public.read_receipts for insert with check (user_id = public.request_user_id());
+create policy read_receipts_update on public.read_receipts for update
+  using (user_id = public.request_user_id())
+  with check (user_id = public.request_user_id());
+
+-- Messages from others newer than the caller's read position in their chat, newest first; chats the
+-- caller has no receipt for yet fall back to the legacy is_read flag (see unreadOnly in data/repository.ts)
+create or replace function public.unread_messages(p_limit integer default null)
+returns setof public.messages
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.messages m
+  left join public.read_receipts r
+    on r.user_id = public.request_user_id()
+   and r.chat_id = case when m.recipient_id is null then 'general'
+                        when m.recipient_id like 'g-%' then m.recipient_id
+                        else m.sender_id end
+  where public.request_user_id() is not null
+    and m.sender_id is distinct from public.request_user_id()
+    and (m.recipient_id is null
+         or m.recipient_id = public.request_user_id()
+         or (m.recipient_id like 'g-%' and public.request_is_group_member(m.recipient_id)))
+    and case when r.last_read_timestamp is null then not coalesce(m.is_read, false)
+             else m.timestamp > r.last_read_timestamp end
+  order by m.timestamp desc, m.id desc
+  limit p_limit;
+$$;
@@ -0,0 +1,35 @@
+-- Chat search for the Ctrl/Cmd+K palette (see `search` in MessageListOptions, data/repository.ts).
+-- The client only holds the latest pages of each chat, so older history is searched here: messages in
+-- chats the caller belongs to whose text or attachment names contain every term, newest first.
+
+create or replace function public.search_messages(p_terms text[], p_limit integer default null)
+returns setof public.messages
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.messages m
+  where public.request_user_id() is not null
+    and coalesce(array_length(p_terms, 1), 0) > 0
+    and m.deleted_at is null
+    and (m.recipient_id is null
+         or m.sender_id = public.request_user_id()
+         or m.recipient_id = public.request_user_id()
+         or (m.recipient_id like 'g-%' and public.request_is_group_member(m.recipient_id)))
+    -- Cleared from the caller's own history ("clear chat")
+    and not exists (
+      select 1 from public.deleted_messages d
+      where d.message_id = m.id and d.user_id = public.request_user_id()
+    )
+    and not exists (
+      select 1 from unnest(p_terms) t
+      where position(lower(t) in lower(
+        coalesce(m.text, '') || ' ' ||
+        coalesce((select string_agg(a ->> 'name', ' ') from jsonb_array_elements(coalesce(to_jsonb(m.attachments), '[]'::jsonb)) a), '')
+      )) = 0
+    )
+  order by m.timestamp desc, m.id desc
+  limit p_limit;
+$$;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { SubTask, Task, TaskCategory, TaskFilters, User, UserRole } from './types';
+import { DEFAULT_TASK_FILTERS, matchesSubtaskFilters, matchesTaskFilters } from './taskFilters';
+
+const user: User = { id: 'u1', name: 'Ann', username: 'ann', role: UserRole.MEMBER, avatar: '', projectAccess: { p1: 'read' } };
+
+const subtask = (id: string, assigneeId: string | undefined, category = TaskCategory.TASK): SubTask => ({
+  id, title: id, completed: false, status: 'todo', category, description: '', priority: 'medium',
+  assigneeId, attachments: [], comments: [], createdAt: 1
+});
+
+const task: Task = {
+  id: 't1', projectId: 'p1', title: 'Parent', description: '', status: 'todo', category: TaskCategory.STORY,
+  assigneeId: 'u2', subtasks: [subtask('mine', 'u1', TaskCategory.BUG), subtask('theirs', 'u2')],
+  priority: 'medium', attachments: [], comments: [], createdAt: 1
+};
+
+const filters = (changes: Partial<TaskFilters>): TaskFilters => ({ ...DEFAULT_TASK_FILTERS, ...changes });
+const visibleSubtasks = (f: TaskFilters) => task.subtasks.filter(s => matchesSubtaskFilters(task, s, f, user)).map(s => s.id);
+
+describe('subtask filters', () => {
+  it('match the assignee of the subtask, not of its task', () => {
+    expect(matchesTaskFilters(task, filters({ assigneeId: 'me' }), user)).toBe(false);
+    expect(visibleSubtasks(filters({ assigneeId: 'me' }))).toEqual(['mine']);
+    expect(visibleSubtasks(filters({ assigneeId: 'u2' }))).toEqual(['theirs']);
+  });
+
+  it('match the category of the subtask', () => {
+    expect(visibleSubtasks(filters({ category: TaskCategory.BUG }))).toEqual(['mine']);
+    expect(visibleSubtasks(filters({ category: TaskCategory.STORY }))).toEqual([]);
+  });
+
+  it('take the project and read access from the task', () => {
+    expect(visibleSubtasks(filters({ projectId: 'p2' }))).toEqual([]);
+    expect(task.subtasks.filter(s => matchesSubtaskFilters(task, s, DEFAULT_TASK_FILTERS, { ...user, projectAccess: {} }))).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { Project, SubTask, Task, TaskFilters, TaskSort, User } from './types';
+import { canReadProject } from './policy';
+import { getProjectWorkflow } from './workflow';
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = { projectId: 'all', category: 'all', assigneeId: 'all', labelId: 'all' };
+
+// Category, label and assignee: fields that tasks and subtasks each have their own values for
+const matchesItemFilters = (item: Task | SubTask, filters: TaskFilters, user: User | null) => {
+  if (filters.category !== 'all' && item.category !== filters.category) return false;
+  if (filters.labelId !== 'all' && !item.labelIds?.includes(filters.labelId)) return false;
+  if (filters.assigneeId === 'me') return item.assigneeId === user?.id;
+  if (filters.assigneeId === 'unassigned') return !item.assigneeId;
+  if (filters.assigneeId !== 'all') return item.assigneeId === filters.assigneeId;
+  return true;
+};
+
+const matchesProjectFilter = (task: Task, filters: TaskFilters, user: User | null) =>
+  canReadProject(user, task.projectId) && (filters.projectId === 'all' || task.projectId === filters.projectId);
+
+/** Project / category / label / assignee filters, plus the read-access check every task view needs. */
+export const matchesTaskFilters = (task: Task, filters: TaskFilters, user: User | null) =>
+  matchesProjectFilter(task, filters, user) && matchesItemFilters(task, filters, user);
+
+/** Same filters for a subtask listed on its own: the project comes from its task, everything else from the subtask. */
+export const matchesSubtaskFilters = (task: Task, subtask: SubTask, filters: TaskFilters, user: User | null) =>
+  matchesProjectFilter(task, filters, user) && matchesItemFilters(subtask, filters, user);
+
+const PRIORITY_RANK: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Sorts a task list; 'manual' keeps the board order. Tasks without the sorted value
+ * (no due date, no assignee) go last in either direction.
+ */
+export const sortTasks = (tasks: Task[], sort: TaskSort, projects: Project[], users: User[]) => {
+  const statusIndex = (t: Task) => getProjectWorkflow(projects, t.projectId).findIndex(s => s.id === t.status);
+  const assigneeName = (t: Task) => users.find(u => u.id === t.assigneeId)?.name;
+  const valueOf = (t: Task): string | number | undefined => {
+    switch (sort.field) {
+      case 'manual': return t.order || 0;
+      case 'title': return t.title.toLowerCase();
+      case 'status': return statusIndex(t);
+      case 'priority': return PRIORITY_RANK[t.priority];
+      case 'category': return t.category;
+      case 'assignee': return assigneeName(t)?.toLowerCase();
+      case 'dueDate': return t.dueDate;
+      case 'created': return t.createdAt;
+    }
+  };
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return [...tasks].sort((a, b) => {
+    const va = valueOf(a);
+    const vb = valueOf(b);
+    if (va === undefined || vb === undefined) return va === vb ? 0 : va === undefined ? 1 : -1;
+    return (va < vb ? -1 : va > vb ? 1 : 0) * direction;
+  });
+};
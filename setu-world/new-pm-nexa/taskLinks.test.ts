@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TaskCategory, TaskLinkType } from './types';
+import { checkBlockerCycle } from './taskLinks';
+
+const makeTask = (id: string, links: { type: TaskLinkType; taskId: string }[] = []): Task => ({
+  id,
+  projectId: 'p1',
+  title: id.toUpperCase(),
+  description: '',
+  status: 'todo',
+  category: TaskCategory.TASK,
+  subtasks: [],
+  priority: 'medium',
+  attachments: [],
+  comments: [],
+  createdAt: 1,
+  links: links.map((link, i) => ({ id: `${id}-l${i}`, createdAt: 1, ...link }))
+});
+
+describe('blocker cycles', () => {
+  const tasks = [
+    makeTask('a', [{ type: 'blocks', taskId: 'b' }]),
+    makeTask('b', [{ type: 'blocks', taskId: 'c' }]),
+    makeTask('c')
+  ];
+
+  it('allows links that keep the blockers acyclic', () => {
+    expect(checkBlockerCycle(makeTask('c', [{ type: 'blocks', taskId: 'd' }]), [...tasks, makeTask('d')]).allowed).toBe(true);
+    expect(checkBlockerCycle(makeTask('a', [{ type: 'blocks', taskId: 'b' }, { type: 'blocks', taskId: 'c' }]), tasks).allowed).toBe(true);
+  });
+
+  it('rejects a direct cycle from either side of the link', () => {
+    expect(checkBlockerCycle(makeTask('b', [{ type: 'blocks', taskId: 'a' }, { type: 'blocks', taskId: 'c' }]), tasks).allowed).toBe(false);
+    expect(checkBlockerCycle(makeTask('a', [{ type: 'blocks', taskId: 'b' }, { type: 'blocked_by', taskId: 'b' }]), tasks).allowed).toBe(false);
+  });
+
+  it('rejects a transitive cycle and names the path', () => {
+    const decision = checkBlockerCycle(makeTask('c', [{ type: 'blocks', taskId: 'a' }]), tasks);
+    expect(decision.allowed).toBe(false);
+    if (!decision.allowed) expect(decision.reason).toContain('"C" blocks "A" blocks "B" blocks "C"');
+  });
+
+  it('ignores links that do not block', () => {
+    expect(checkBlockerCycle(makeTask('c', [{ type: 'relates_to', taskId: 'a' }, { type: 'duplicates', taskId: 'a' }]), tasks).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { Project, Task, TaskLinkType } from './types';
+import { PolicyDecision } from './policy';
+import { getProjectWorkflow, isDoneStatus } from './workflow';
+
+/**
+ * Task dependency helpers.
+ * A link is stored once, on the task it was created from. Both sides of a link
+ * are resolved here so "A blocks B" also shows up as "B is blocked by A".
+ */
+
+export type ResolvedLinkType = TaskLinkType | 'duplicated_by';
+
+export interface ResolvedTaskLink {
+  id: string;
+  type: ResolvedLinkType;
+  task: Task;
+  ownerId: string; // Task that stores the link; only it can remove it
+}
+
+export const LINK_TYPE_LABELS: Record<ResolvedLinkType, string> = {
+  blocks: 'Blocks',
+  blocked_by: 'Is blocked by',
+  relates_to: 'Relates to',
+  duplicates: 'Duplicates',
+  duplicated_by: 'Is duplicated by',
+};
+
+const INVERSE: Record<TaskLinkType, ResolvedLinkType> = {
+  blocks: 'blocked_by',
+  blocked_by: 'blocks',
+  relates_to: 'relates_to',
+  duplicates: 'duplicated_by',
+};
+
+/** Every link touching `task`, seen from `task`'s side. Links to deleted tasks are dropped. */
+export const getTaskLinks = (task: Task, tasks: Task[]): ResolvedTaskLink[] => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const own = (task.links || []).flatMap(link => {
+    const other = byId.get(link.taskId);
+    return other ? [{ id: link.id, type: link.type, task: other, ownerId: task.id }] : [];
+  });
+  const incoming = tasks.flatMap(other => other.id === task.id ? [] : (other.links || [])
+    .filter(link => link.taskId === task.id)
+    .map(link => ({ id: link.id, type: INVERSE[link.type], task: other, ownerId: other.id })));
+  return [...own, ...incoming];
+};
+
+const isTaskDone = (task: Task, projects: Project[]) =>
+  isDoneStatus(getProjectWorkflow(projects, task.projectId), task.status);
+
+/** Tasks that block `task` and are not in a done column yet. */
+export const getOpenBlockers = (task: Task, tasks: Task[], projects: Project[]) =>
+  getTaskLinks(task, tasks)
+    .filter(link => link.type === 'blocked_by' && !isTaskDone(link.task, projects))
+    .map(link => link.task);
+
+export const isTaskBlocked = (task: Task, tasks: Task[], projects: Project[]) =>
+  getOpenBlockers(task, tasks, projects).length > 0;
+
+// blocker id -> ids of the tasks it blocks, from both link directions
+const getBlockingEdges = (tasks: Task[]) => {
+  const edges = new Map<string, string[]>();
+  const add = (from: string, to: string) => edges.set(from, [...(edges.get(from) || []), to]);
+  for (const task of tasks) {
+    for (const link of task.links || []) {
+      if (link.type === 'blocks') add(task.id, link.taskId);
+      else if (link.type === 'blocked_by') add(link.taskId, task.id);
+    }
+  }
+  return edges;
+};
+
+/**
+ * A task cannot end up blocking itself (A blocks B blocks A): neither could ever be finished.
+ * `task` is the version about to be saved; it replaces the stored copy in `tasks`.
+ */
+export const checkBlockerCycle = (task: Task, tasks: Task[]): PolicyDecision => {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  byId.set(task.id, task);
+  const edges = getBlockingEdges([...byId.values()]);
+
+  // Depth-first search for a path from the task back to itself
+  const visited = new Set<string>();
+  const findPath = (id: string): string[] | null => {
+    for (const next of edges.get(id) || []) {
+      if (next === task.id) return [next];
+      if (visited.has(next)) continue;
+      visited.add(next);
+      const rest = findPath(next);
+      if (rest) return [next, ...rest];
+    }
+    return null;
+  };
+
+  const path = findPath(task.id);
+  if (!path) return { allowed: true };
+  const names = [task.id, ...path].map(id => `"${byId.get(id)?.title ?? id}"`).join(' blocks ');
+  return { allowed: false, reason: `This link would make a blocker cycle: ${names}.` };
+};
+
+/** A task cannot be moved into a done column while any of its blockers is still open. */
+export const checkBlockers = (task: Task, to: string, tasks: Task[], projects: Project[]): PolicyDecision => {
+  if (!isDoneStatus(getProjectWorkflow(projects, task.projectId), to)) return { allowed: true };
+  const blockers = getOpenBlockers(task, tasks, projects);
+  if (blockers.length === 0) return { allowed: true };
+  const names = blockers.map(b => `"${b.title}"`).join(', ');
+  return { allowed: false, reason: `"${task.title}" is blocked by ${names}. Finish ${blockers.length > 1 ? 'those tasks' : 'that task'} first.` };
+};
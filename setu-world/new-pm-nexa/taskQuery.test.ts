@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { Project, Task, TaskCategory, TaskStatus, User, UserRole } from './types';
+import { compileTaskQuery, getQuerySuggestions, parseTaskQuery, TaskQueryContext, toFieldSlug } from './taskQuery';
+
+const makeUser = (id: string, name: string, username: string): User =>
+  ({ id, name, username, role: UserRole.MEMBER, avatar: '', projectAccess: { p1: 'write' } });
+
+const ann = makeUser('u1', 'Ann Lee', 'ann');
+const bob = makeUser('u2', 'Bob Stone', 'bob');
+
+const project: Project = {
+  id: 'p1',
+  name: 'Web App',
+  description: '',
+  memberIds: [],
+  attachments: [],
+  comments: [],
+  labels: [{ id: 'l-bug', name: 'Bug', color: 'rose' }, { id: 'l-ui', name: 'UI polish', color: 'blue' }],
+  customFields: [
+    { id: 'f-cost', name: 'Cost (USD)', type: 'number' },
+    { id: 'f-customer', name: 'Customer', type: 'text' }
+  ]
+};
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  projectId: 'p1',
+  title: id,
+  description: '',
+  status: TaskStatus.TODO,
+  category: TaskCategory.TASK,
+  subtasks: [],
+  priority: 'medium',
+  attachments: [],
+  comments: [],
+  createdAt: new Date('2026-01-01T12:00:00').getTime(),
+  ...fields
+});
+
+const tasks = [
+  makeTask('login', { title: 'Fix login page', priority: 'high', assigneeId: 'u1', labelIds: ['l-bug'], dueDate: '2026-03-01', estimateHours: 2, customFields: { 'f-cost': 120 } }),
+  makeTask('signup', { title: 'Signup form', priority: 'low', assigneeId: 'u2', labelIds: ['l-ui'], dueDate: '2026-05-01', estimateHours: 8, customFields: { 'f-customer': 'Acme Corp' } }),
+  makeTask('docs', { title: 'Write docs', status: TaskStatus.DONE, category: TaskCategory.STORY, estimateHours: 5 })
+];
+
+const ctx: TaskQueryContext = { tasks, projects: [project], users: [ann, bob], sprints: [], currentUser: ann };
+
+const run = (input: string) => {
+  const query = compileTaskQuery(input, ctx);
+  return { ids: tasks.filter(query.matches).map(t => t.id), errors: query.errors.map(e => e.message) };
+};
+
+describe('parseTaskQuery', () => {
+  it('splits clauses with negation, operators, alternatives and quotes', () => {
+    const { clauses, errors } = parseTaskQuery('-label:bug priority:high,low due:<2026-04-01 customer:"Acme, Inc",other Words', ['customer']);
+    expect(errors).toEqual([]);
+    expect(clauses.map(c => [c.field, c.negated, c.op, c.values])).toEqual([
+      ['label', true, '=', ['bug']],
+      ['priority', false, '=', ['high', 'low']],
+      ['due', false, '<', ['2026-04-01']],
+      ['custom', false, '=', ['Acme, Inc', 'other']],
+      ['text', false, '=', ['words']]
+    ]);
+  });
+
+  it('reports unknown fields, empty values and open quotes with their position', () => {
+    const { errors } = parseTaskQuery('owner:ann status: "open');
+    expect(errors).toEqual([
+      { message: 'Unknown field "owner". Try status, priority, category, label...', start: 0, end: 9 },
+      { message: '"status:" needs a value.', start: 10, end: 17 },
+      { message: 'Missing closing quote.', start: 18, end: 23 }
+    ]);
+  });
+
+  it('does not take object keys for fields', () => {
+    expect(parseTaskQuery('constructor:x').errors[0].message).toMatch(/Unknown field "constructor"/);
+  });
+});
+
+describe('compileTaskQuery', () => {
+  it('matches every clause, with free words searching titles', () => {
+    expect(run('priority:high login').ids).toEqual(['login']);
+    expect(run('fix page').ids).toEqual(['login']);
+    expect(run('').ids).toEqual(['login', 'signup', 'docs']);
+  });
+
+  it('negates clauses with a leading minus', () => {
+    expect(run('-label:bug').ids).toEqual(['signup', 'docs']);
+    expect(run('-is:done -priority:low').ids).toEqual(['login']);
+  });
+
+  it('accepts comma alternatives', () => {
+    expect(run('priority:high,low').ids).toEqual(['login', 'signup']);
+    expect(run('label:bug,ui_polish').ids).toEqual(['login', 'signup']);
+  });
+
+  it('keeps spaces and commas inside quoted values', () => {
+    expect(run('label:"UI polish"').ids).toEqual(['signup']);
+    expect(run('project:"Web App" "signup form"').ids).toEqual(['signup']);
+  });
+
+  it('compares dates and estimates', () => {
+    expect(run('due:<2026-04-01').ids).toEqual(['login']);
+    expect(run('due:>=2026-03-01').ids).toEqual(['login', 'signup']);
+    expect(run('due:none').ids).toEqual(['docs']);
+    expect(run('estimate:>4').ids).toEqual(['signup', 'docs']);
+    expect(run('estimate:<=2').ids).toEqual(['login']);
+  });
+
+  it('resolves @me, @username and none for assignees', () => {
+    expect(run('assignee:@me').ids).toEqual(['login']);
+    expect(run('assignee:me').ids).toEqual(['login']);
+    expect(run('assignee:@bob').ids).toEqual(['signup']);
+    expect(run('assignee:none').ids).toEqual(['docs']);
+  });
+
+  it('explains values it cannot resolve and still applies the other clauses', () => {
+    expect(run('assignee:@carol priority:low')).toEqual({ ids: ['signup'], errors: ['Unknown user "@carol".'] });
+    expect(run('label:missing').errors).toEqual(['Unknown label "missing".']);
+    expect(run('priority:urgent').errors).toEqual(['Unknown priority "urgent".']);
+    expect(run('due:soon').errors).toEqual(['Unknown date (use YYYY-MM-DD, today, tomorrow or yesterday) "soon".']);
+    expect(run('priority:>high').errors).toEqual(['"priority" does not support ">".']);
+    expect(run('due:<today,tomorrow').errors).toEqual(['Use one value with "<".']);
+  });
+
+  it('queries custom fields by a slug the parser accepts', () => {
+    expect(toFieldSlug('Cost (USD)')).toBe('cost_usd');
+    expect(toFieldSlug('2nd Reviewer')).toBe('field_2nd_reviewer');
+    expect(run('cost_usd:>100').ids).toEqual(['login']);
+    expect(run('customer:acme').ids).toEqual(['signup']);
+    expect(run('cost_usd:cheap').errors).toEqual(['Unknown cost_usd "cheap".']);
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  const suggest = (input: string) => getQuerySuggestions(input, input.length, ctx).items.map(i => i.insert);
+
+  it('completes field names, keeping a negation', () => {
+    expect(suggest('pr')).toEqual(['priority:', 'project:']);
+    expect(suggest('-cu')).toEqual(['-customer:']);
+    expect(suggest('cost')).toEqual(['cost_usd:']);
+  });
+
+  it('completes values after the last comma, leaving out chosen ones', () => {
+    expect(suggest('priority:high,')).toEqual(['priority:high,low', 'priority:high,medium']);
+    expect(suggest('assignee:@b')).toEqual(['assignee:@bob']);
+    expect(suggest('owner:')).toEqual([]);
+  });
+});
@@ -0,0 +1,390 @@
+import { CustomFieldDefinition, CustomFieldValue, Project, Sprint, Task, TaskCategory, User } from './types';
+import { getProjectWorkflow, isDoneStatus, mergeWorkflows } from './workflow';
+import { isTaskBlocked } from './taskLinks';
+import { getTaskPoints } from './estimates';
+import { getProjectLabels, resolveLabels } from './labels';
+import { CUSTOM_FIELD_TYPES, getProjectCustomFields, isEmptyFieldValue, mergeCustomFields } from './customFields';
+import { addDaysToDateOnly, toDateOnly } from './dateUtils';
+
+/**
+ * Query language of the Kanban filter bar, e.g.
+ *   status:in_progress priority:high,medium assignee:@sarah due:<2024-01-01 -category:bug login
+ * Clauses are separated by spaces and must all match. A leading "-" negates a clause, commas
+ * separate alternatives, and dates and numbers accept <, <=, > and >=. Words without a field
+ * search titles and descriptions; double quotes keep spaces inside a value.
+ * Names are compared as slugs: lowercase, with spaces written as underscores. Project custom fields
+ * are fields too (customer:acme, release_version:>=2); other characters of their names become
+ * underscores as well, and built-in fields win on a name clash.
+ */
+
+export type QueryField =
+  | 'status' | 'priority' | 'category' | 'label' | 'assignee' | 'project' | 'sprint'
+  | 'due' | 'start' | 'created' | 'points' | 'estimate' | 'is';
+
+type Operator = '=' | '<' | '<=' | '>' | '>=';
+
+export const QUERY_FIELDS: Record<QueryField, string> = {
+  status: 'Workflow column',
+  priority: 'low, medium or high',
+  category: 'task, issue, bug or story',
+  label: 'Label name or none',
+  assignee: '@username, me or none',
+  project: 'Project name',
+  sprint: 'active, backlog or a sprint name',
+  due: 'Due date, e.g. <2024-01-01, today or none',
+  start: 'Start date',
+  created: 'Creation date',
+  points: 'Story points, e.g. >3',
+  estimate: 'Estimated hours',
+  is: 'done, open, blocked or overdue'
+};
+
+// Own keys only, so names like "constructor" are not taken for built-in fields
+const isQueryField = (name: string): name is QueryField => Object.prototype.hasOwnProperty.call(QUERY_FIELDS, name);
+
+const COMPARABLE: QueryField[] = ['due', 'start', 'created', 'points', 'estimate'];
+const IS_VALUES = ['done', 'open', 'blocked', 'overdue'];
+const PRIORITIES = ['low', 'medium', 'high'];
+
+/** Character range of the input a clause or error refers to. */
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+interface QueryClause {
+  field: QueryField | 'text' | 'custom';
+  customField?: string; // Slug of the custom field name when field is 'custom'
+  negated: boolean;
+  op: Operator;
+  values: string[];
+  start: number;
+  end: number;
+}
+
+export interface TaskQueryContext {
+  tasks: Task[];
+  projects: Project[]; // Readable projects only
+  users: User[];
+  sprints: Sprint[];
+  currentUser: User | null;
+}
+
+export interface TaskQuery {
+  isEmpty: boolean;
+  errors: QueryError[];
+  matches: (task: Task) => boolean;
+}
+
+export const toSlug = (value: string) => value.trim().toLowerCase().replace(/[\s,]+/g, '_');
+
+// What parseTaskQuery accepts before the colon
+const FIELD_NAME_PATTERN = /^[a-z][\w.-]*$/;
+
+/** Query field of a custom field name, e.g. "Cost (USD)" -> cost_usd and "2nd Reviewer" -> field_2nd_reviewer. */
+export const toFieldSlug = (name: string) => {
+  const slug = toSlug(name).replace(/[^\w.-]+/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
+  return FIELD_NAME_PATTERN.test(slug) ? slug : `field_${slug}`;
+};
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+// Commas inside double quotes do not separate values
+const splitValues = (value: string) =>
+  (value.match(/("[^"]*"|[^,])+/g) || []).map(v => unquote(v.trim())).filter(Boolean);
+
+/** Splits the input into clauses; unknown fields and empty values are reported, not thrown. */
+export const parseTaskQuery = (input: string, customFields: string[] = []): { clauses: QueryClause[]; errors: QueryError[] } => {
+  const clauses: QueryClause[] = [];
+  const errors: QueryError[] = [];
+  const tokenPattern = /(?:[^\s"]+|"[^"]*"?)+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input))) {
+    const token = match[0];
+    const start = match.index;
+    const end = start + token.length;
+    if ((token.match(/"/g) || []).length % 2) {
+      errors.push({ message: 'Missing closing quote.', start, end });
+      continue;
+    }
+
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+    const fieldMatch = body.match(/^([a-z][\w.-]*):(.*)$/i);
+    if (!fieldMatch) {
+      clauses.push({ field: 'text', negated, op: '=', values: [unquote(body).toLowerCase()], start, end });
+      continue;
+    }
+
+    const field = fieldMatch[1].toLowerCase();
+    const isCustom = !isQueryField(field) && customFields.includes(field);
+    if (!isQueryField(field) && !isCustom) {
+      errors.push({ message: `Unknown field "${field}". Try ${Object.keys(QUERY_FIELDS).slice(0, 4).join(', ')}...`, start, end });
+      continue;
+    }
+    const opText = fieldMatch[2].match(/^(<=|>=|<|>|=)/)?.[1] || '';
+    const op = (opText || '=') as Operator;
+    const values = splitValues(fieldMatch[2].slice(opText.length));
+    if (values.length === 0) {
+      errors.push({ message: `"${field}:" needs a value.`, start, end });
+      continue;
+    }
+    clauses.push(isCustom
+      ? { field: 'custom', customField: field, negated, op, values, start, end }
+      : { field: field as QueryField, negated, op, values, start, end });
+  }
+
+  return { clauses, errors };
+};
+
+// --- Value Resolution ---
+
+const RELATIVE_DATES: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+
+const resolveDate = (value: string) => {
+  const key = value.toLowerCase();
+  if (key in RELATIVE_DATES) return addDaysToDateOnly(toDateOnly(new Date()), RELATIVE_DATES[key]);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+};
+
+const compare = (a: string | number, op: Operator, b: string | number) =>
+  op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : op === '>=' ? a >= b : a === b;
+
+// undefined stands for "nobody", null for an unknown user
+const resolveUserId = (value: string, ctx: TaskQueryContext): string | undefined | null => {
+  const key = value.replace(/^@/, '').toLowerCase();
+  if (key === 'me') return ctx.currentUser?.id ?? null;
+  if (key === 'none' || key === 'unassigned') return undefined;
+  return ctx.users.find(u => u.username.toLowerCase() === key || toSlug(u.name) === key)?.id ?? null;
+};
+
+const getCustomFieldDefinitions = (slug: string, ctx: TaskQueryContext) =>
+  ctx.projects.flatMap(p => p.customFields || []).filter(f => toFieldSlug(f.name) === slug);
+
+/** Text fields match on a substring, options and users exactly; only numbers and dates compare. */
+const matchesCustomValue = (field: CustomFieldDefinition, value: CustomFieldValue, op: Operator, query: string, ctx: TaskQueryContext) => {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' && query.trim() !== '' && !isNaN(Number(query)) && compare(value, op, Number(query));
+    case 'date': {
+      const date = resolveDate(query);
+      return typeof value === 'string' && !!date && compare(value, op, date);
+    }
+    default:
+      if (op !== '=') return false;
+      if (field.type === 'user') return value === resolveUserId(query, ctx);
+      if (field.type === 'multi_select') return Array.isArray(value) && value.some(o => toSlug(o) === toSlug(query));
+      if (field.type === 'select') return toSlug(String(value)) === toSlug(query);
+      return toSlug(String(value)).includes(toSlug(query));
+  }
+};
+
+type Predicate = (task: Task) => boolean;
+
+/** Turns one clause into a predicate, or an error message when a value cannot be resolved. */
+const compileClause = (clause: QueryClause, ctx: TaskQueryContext): Predicate | string => {
+  const { field, op, values } = clause;
+  if (op !== '=' && field !== 'custom' && !COMPARABLE.includes(field as QueryField)) return `"${field}" does not support "${op}".`;
+  if (op !== '=' && values.length > 1) return `Use one value with "${op}".`;
+  const anyOf = <T,>(resolve: (value: string) => T | null, label: string, test: (task: Task, resolved: T) => boolean): Predicate | string => {
+    const resolved: T[] = [];
+    for (const value of values) {
+      const r = resolve(value);
+      if (r === null) return `Unknown ${label} "${value}".`;
+      resolved.push(r);
+    }
+    return task => resolved.some(r => test(task, r));
+  };
+
+  switch (field) {
+    case 'text':
+      return task => task.title.toLowerCase().includes(values[0]) || task.description.toLowerCase().includes(values[0]);
+    case 'status': {
+      const columns = mergeWorkflows(ctx.projects);
+      return anyOf(v => {
+        const ids = columns.filter(c => toSlug(c.name) === toSlug(v) || c.id.toLowerCase() === v.toLowerCase()).map(c => c.id);
+        return ids.length ? ids : null;
+      }, 'status', (task, ids) => ids.includes(task.status));
+    }
+    case 'priority':
+      return anyOf(v => (PRIORITIES.includes(v.toLowerCase()) ? v.toLowerCase() : null), 'priority', (task, p) => task.priority === p);
+    case 'category':
+      return anyOf(v => Object.values(TaskCategory).find(c => c === v.toUpperCase()) || null, 'category', (task, c) => task.category === c);
+    case 'label':
+      // An empty list stands for "no label"; labels removed from the project do not count
+      return anyOf(v => {
+        if (toSlug(v) === 'none') return [];
+        const ids = ctx.projects.flatMap(p => p.labels || []).filter(l => toSlug(l.name) === toSlug(v)).map(l => l.id);
+        return ids.length ? ids : null;
+      }, 'label', (task, ids) => {
+        const labels = resolveLabels(getProjectLabels(ctx.projects, task.projectId), task.labelIds);
+        return ids.length ? labels.some(l => ids.includes(l.id)) : labels.length === 0;
+      });
+    case 'assignee':
+      return anyOf(v => resolveUserId(v, ctx), 'user', (task, id) => task.assigneeId === id);
+    case 'project':
+      return anyOf(v => ctx.projects.find(p => toSlug(p.name) === toSlug(v) || p.id === v)?.id ?? null, 'project', (task, id) => task.projectId === id);
+    case 'sprint':
+      // null in the resolved list stands for "no sprint"
+      return anyOf<(string | null)[]>(v => {
+        const key = toSlug(v);
+        if (key === 'backlog' || key === 'none') return [null];
+        if (key === 'active') return ctx.sprints.filter(s => s.state === 'active').map(s => s.id);
+        const ids = ctx.sprints.filter(s => toSlug(s.name) === key).map(s => s.id);
+        return ids.length ? ids : null;
+      }, 'sprint', (task, ids) => ids.includes(task.sprintId || null));
+    case 'due':
+    case 'start':
+    case 'created': {
+      const getDate = (task: Task) =>
+        field === 'due' ? task.dueDate : field === 'start' ? task.startDate : toDateOnly(new Date(task.createdAt));
+      if (values[0].toLowerCase() === 'none') return op === '=' ? task => !getDate(task) : `Compare "${field}" with a date, not none.`;
+      return anyOf(resolveDate, 'date (use YYYY-MM-DD, today, tomorrow or yesterday)', (task, date) => {
+        const value = getDate(task);
+        return !!value && compare(value, op, date);
+      });
+    }
+    case 'points':
+    case 'estimate': {
+      const getNumber = (task: Task) => (field === 'points' ? (task.storyPoints === undefined && task.subtasks.every(s => s.storyPoints === undefined) ? undefined : getTaskPoints(task)) : task.estimateHours);
+      if (values[0].toLowerCase() === 'none') return op === '=' ? task => getNumber(task) === undefined : `Compare "${field}" with a number, not none.`;
+      return anyOf(v => (v.trim() !== '' && !isNaN(Number(v)) ? Number(v) : null), 'number', (task, n) => {
+        const value = getNumber(task);
+        return value !== undefined && compare(value, op, n);
+      });
+    }
+    case 'is': {
+      const today = toDateOnly(new Date());
+      return anyOf(v => (IS_VALUES.includes(v.toLowerCase()) ? v.toLowerCase() : null), 'state', (task, state) => {
+        const done = isDoneStatus(getProjectWorkflow(ctx.projects, task.projectId), task.status);
+        if (state === 'done') return done;
+        if (state === 'open') return !done;
+        if (state === 'blocked') return isTaskBlocked(task, ctx.tasks, ctx.projects);
+        return !done && !!task.dueDate && task.dueDate < today;
+      });
+    }
+    case 'custom': {
+      // Same-named fields may differ in type between projects, so each task uses its own project's field
+      const slug = clause.customField!;
+      const fields = getCustomFieldDefinitions(slug, ctx);
+      if (op !== '=' && !fields.some(f => f.type === 'number' || f.type === 'date')) return `"${slug}" does not support "${op}".`;
+      const getEntry = (task: Task) => {
+        const f = getProjectCustomFields(ctx.projects, task.projectId).find(d => toFieldSlug(d.name) === slug);
+        return f ? { field: f, value: task.customFields?.[f.id] } : null;
+      };
+      if (values[0].toLowerCase() === 'none') {
+        if (op !== '=') return `Compare "${slug}" with a value, not none.`;
+        return task => { const entry = getEntry(task); return !!entry && isEmptyFieldValue(entry.value); };
+      }
+      const invalid = values.find(v =>
+        (fields.every(f => f.type === 'number') && (v.trim() === '' || isNaN(Number(v)))) ||
+        (fields.every(f => f.type === 'date') && !resolveDate(v)) ||
+        (fields.every(f => f.type === 'user') && resolveUserId(v, ctx) === null));
+      if (invalid) return `Unknown ${slug} "${invalid}".`;
+      return task => {
+        const entry = getEntry(task);
+        if (!entry || entry.value === undefined || isEmptyFieldValue(entry.value)) return false;
+        const { field: f, value } = entry;
+        return values.some(v => matchesCustomValue(f, value as CustomFieldValue, op, v, ctx));
+      };
+    }
+    default:
+      return `Unknown field "${field}".`;
+  }
+};
+
+const getCustomFieldSlugs = (ctx: TaskQueryContext) => mergeCustomFields(ctx.projects).map(f => toFieldSlug(f.name));
+
+/** Parses and resolves `input`; clauses with errors are left out so the rest still filters. */
+export const compileTaskQuery = (input: string, ctx: TaskQueryContext): TaskQuery => {
+  const { clauses, errors } = parseTaskQuery(input, getCustomFieldSlugs(ctx));
+  const predicates: Predicate[] = [];
+
+  clauses.forEach(clause => {
+    const compiled = compileClause(clause, ctx);
+    if (typeof compiled === 'string') {
+      errors.push({ message: compiled, start: clause.start, end: clause.end });
+      return;
+    }
+    predicates.push(clause.negated ? task => !compiled(task) : compiled);
+  });
+
+  return {
+    isEmpty: clauses.length === 0,
+    errors: errors.sort((a, b) => a.start - b.start),
+    matches: task => predicates.every(p => p(task))
+  };
+};
+
+// --- Autocomplete ---
+
+export interface QuerySuggestion {
+  label: string;
+  insert: string; // Replaces the token under the cursor
+  description?: string;
+}
+
+const getFieldValues = (field: QueryField, ctx: TaskQueryContext): string[] => {
+  switch (field) {
+    case 'status': return mergeWorkflows(ctx.projects).map(c => toSlug(c.name));
+    case 'priority': return PRIORITIES;
+    case 'category': return Object.values(TaskCategory).map(c => c.toLowerCase());
+    case 'label': return [...ctx.projects.flatMap(p => p.labels || []).map(l => toSlug(l.name)), 'none'];
+    case 'assignee': return ['me', 'none', ...ctx.users.map(u => `@${u.username}`)];
+    case 'project': return ctx.projects.map(p => toSlug(p.name));
+    case 'sprint': return ['active', 'backlog', ...ctx.sprints.filter(s => ctx.projects.some(p => p.id === s.projectId)).map(s => toSlug(s.name))];
+    case 'due':
+    case 'start':
+    case 'created': return ['today', '<today', '>=today', 'tomorrow', 'none'];
+    case 'points':
+    case 'estimate': return ['>0', 'none'];
+    case 'is': return IS_VALUES;
+    default: return [];
+  }
+};
+
+const getCustomFieldValues = (slug: string, ctx: TaskQueryContext): string[] => [
+  ...getCustomFieldDefinitions(slug, ctx).flatMap(f =>
+    f.type === 'user' ? ['me', ...ctx.users.map(u => `@${u.username}`)]
+      : f.type === 'date' ? ['today', '<today', '>=today']
+        : f.type === 'number' ? ['>0']
+          : (f.options || []).map(toSlug)),
+  'none'
+];
+
+/** Suggestions for the token at `cursor`: field names, or values of the field being typed. */
+export const getQuerySuggestions = (input: string, cursor: number, ctx: TaskQueryContext, limit = 8) => {
+  const from = input.lastIndexOf(' ', cursor - 1) + 1;
+  const nextSpace = input.indexOf(' ', cursor);
+  const to = nextSpace === -1 ? input.length : nextSpace;
+  const token = input.slice(from, cursor);
+  const prefix = token.startsWith('-') ? '-' : '';
+  const body = token.slice(prefix.length);
+  const colon = body.indexOf(':');
+
+  let items: QuerySuggestion[];
+  if (colon === -1) {
+    const customFields = mergeCustomFields(ctx.projects)
+      .filter(f => !isQueryField(toFieldSlug(f.name)))
+      .map(f => ({ name: toFieldSlug(f.name), description: `${CUSTOM_FIELD_TYPES[f.type]} field` }));
+    items = [...(Object.keys(QUERY_FIELDS) as QueryField[]).map(f => ({ name: f, description: QUERY_FIELDS[f] })), ...customFields]
+      .filter(f => f.name.startsWith(body.toLowerCase()))
+      .map(f => ({ label: `${f.name}:`, insert: `${prefix}${f.name}:`, description: f.description }));
+  } else {
+    const field = body.slice(0, colon).toLowerCase();
+    const isCustom = !isQueryField(field) && getCustomFieldSlugs(ctx).includes(field);
+    if (!isQueryField(field) && !isCustom) return { from, to, items: [] };
+    const valueText = body.slice(colon + 1);
+    const lastComma = valueText.lastIndexOf(',');
+    const typed = valueText.slice(lastComma + 1).toLowerCase();
+    const kept = `${prefix}${body.slice(0, colon + 1)}${valueText.slice(0, lastComma + 1)}`;
+    const chosen = valueText.slice(0, lastComma + 1).toLowerCase().split(',');
+    items = Array.from(new Set(isCustom ? getCustomFieldValues(field, ctx) : getFieldValues(field as QueryField, ctx)))
+      .filter(v => v.toLowerCase().startsWith(typed) && v.toLowerCase() !== typed && !chosen.includes(v.toLowerCase()))
+      .map(v => ({ label: v, insert: `${kept}${v}` }));
+  }
+
+  return { from, to, items: items.slice(0, limit) };
+};
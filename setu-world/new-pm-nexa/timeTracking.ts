@@ -0,0 +1,64 @@
+import { Project, SubTask, Task, TimeEntry, User } from './types';
+import { canReadProject } from './policy';
+
+/**
+ * Time tracking helpers.
+ * Entries live on the task or subtask they were logged against (`timeEntries`);
+ * timesheets flatten them back out with their task context.
+ */
+
+export const formatDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+};
+
+export const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+/** Accepts "1.5", "1.5h", "90m", "1h 30m" or "1:30". Resolves null when unreadable or zero. */
+export const parseDuration = (input: string): number | null => {
+  const value = input.trim().toLowerCase();
+  let minutes: number | null = null;
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  const units = value.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+  if (clock) {
+    minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  } else if (/^\d+(\.\d+)?$/.test(value)) {
+    minutes = Number(value) * 60; // Plain numbers are hours
+  } else if (units && (units[1] || units[2])) {
+    minutes = Number(units[1] || 0) * 60 + Number(units[2] || 0);
+  }
+
+  return minutes && minutes > 0 ? Math.round(minutes) : null;
+};
+
+export const sumMinutes = (entries: TimeEntry[] = []) => entries.reduce((sum, e) => sum + e.minutes, 0);
+
+/** Time logged on the task and all of its subtasks. */
+export const getTaskLoggedMinutes = (task: Task) =>
+  sumMinutes(task.timeEntries) + task.subtasks.reduce((sum, s) => sum + sumMinutes(s.timeEntries), 0);
+
+export interface TimesheetRow {
+  entry: TimeEntry;
+  task: Task;
+  subtask?: SubTask;
+  project?: Project;
+}
+
+/** Entries by `userId` dated within [from, to] ('YYYY-MM-DD', inclusive), on projects `viewer` can read. */
+export const collectTimeEntries = (tasks: Task[], projects: Project[], viewer: User | null, userId: string, from: string, to: string): TimesheetRow[] => {
+  const inRange = (e: TimeEntry) => e.userId === userId && e.date >= from && e.date <= to;
+
+  return tasks
+    .filter(t => canReadProject(viewer, t.projectId))
+    .flatMap(task => {
+      const project = projects.find(p => p.id === task.projectId);
+      return [
+        ...(task.timeEntries || []).filter(inRange).map(entry => ({ entry, task, project })),
+        ...task.subtasks.flatMap(subtask => (subtask.timeEntries || []).filter(inRange).map(entry => ({ entry, task, subtask, project })))
+      ];
+    })
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.entry.createdAt - b.entry.createdAt);
+};
@@ -6,15 +6,17 @@ export enum UserRole {
 
 export type ProjectAccessLevel = 'read' | 'write' | 'none';
 
-export type WidgetType = 'card' | 'chart';
+export type WidgetType = 'card' | 'chart' | 'burndown' | 'velocity';
 export type ChartType = 'pie' | 'bar';
-export type GroupBy = 'status' | 'priority' | 'category' | 'assignee';
+export type GroupBy = 'status' | 'priority' | 'category' | 'assignee' | 'label' | 'custom_field';
 export type ColorTheme = 'blue' | 'green' | 'red' | 'orange' | 'purple' | 'indigo' | 'slate';
 
 export interface WidgetFilter {
-  status?: TaskStatus | 'all';
+  status?: string | 'all';
   priority?: string | 'all';
   category?: TaskCategory | 'all';
+  customField?: string; // Custom field name, matched across projects
+  customFieldValue?: string; // Display value the field must have
 }
 
 export interface DashboardWidget {
@@ -28,13 +30,16 @@ export interface DashboardWidget {
   // Chart specific
   chartType?: ChartType;
   groupBy?: GroupBy;
+  customField?: string; // Custom field name when grouping by 'custom_field'
+  // Burndown / velocity specific: 'all' or a project id; burndowns may narrow to one sprint
+  projectId?: string | 'all';
+  sprintId?: string;
 }
 
 export interface User {
   id: string;
   name: string;
   username: string;
-  password: string;
   role: UserRole;
   avatar: string;
   isOnline?: boolean;
@@ -42,6 +47,13 @@ export interface User {
   dashboardConfig?: DashboardWidget[];
 }
 
+// Passwords never leave the server; the client only holds an opaque session token.
+export interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
 export interface Group {
   id: string;
   name: string;
@@ -56,6 +68,49 @@ export enum TaskStatus {
   DONE = 'DONE'
 }
 
+// Whether a workflow column counts as finished work (charts, subtask completion)
+export type StatusCategory = 'open' | 'done';
+export type StatusColor = 'slate' | 'blue' | 'amber' | 'violet' | 'rose' | 'emerald';
+
+// One column of a project's workflow. Ids of the default workflow match TaskStatus.
+export interface WorkflowStatus {
+  id: string;
+  name: string;
+  category: StatusCategory;
+  color: StatusColor;
+  wipLimit?: number; // Max cards per project in this column; unlimited when unset
+}
+
+// 'require_reason' allows the move only with an explanatory comment
+export type TransitionEffect = 'deny' | 'require_reason';
+
+// `from` / `to` are WorkflowStatus ids, or '*' for any column
+export interface TransitionRule {
+  from: string;
+  to: string;
+  effect: TransitionEffect;
+}
+
+// Per-project tag; tasks and subtasks reference labels by id
+export interface TaskLabel {
+  id: string;
+  name: string;
+  color: StatusColor;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'user';
+
+// Project-specific task attribute; tasks store values by field id
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[]; // Choices of select and multi_select fields
+}
+
+// Text, 'YYYY-MM-DD' dates, select options and user ids are strings; multi_select holds several options
+export type CustomFieldValue = string | number | string[];
+
 export enum TaskCategory {
   TASK = 'TASK',
   ISSUE = 'ISSUE',
@@ -79,16 +134,48 @@ export interface Comment {
   timestamp: number;
 }
 
+// Stored on the source task only; the reverse side ("is blocked by" for "blocks") is derived
+export type TaskLinkType = 'blocks' | 'blocked_by' | 'relates_to' | 'duplicates';
+
+export interface TaskLink {
+  id: string;
+  type: TaskLinkType;
+  taskId: string; // The other task
+  createdBy?: string;
+  createdAt: number;
+}
+
+// Hours logged against a task or subtask, either manually or by stopping a timer
+export interface TimeEntry {
+  id: string;
+  userId: string;
+  date: string; // 'YYYY-MM-DD' the work was done
+  minutes: number;
+  note: string;
+  createdAt: number;
+}
+
+// At most one running timer per user, kept on the device that started it
+export interface ActiveTimer {
+  userId: string;
+  taskId: string;
+  startedAt: number;
+}
+
 export interface SubTask {
   id: string;
   title: string;
   completed: boolean;
-  status: TaskStatus;
+  status: string; // WorkflowStatus id
   category: TaskCategory;
   description: string;
   priority: 'low' | 'medium' | 'high';
   assigneeId?: string;
   dueDate?: string;
+  storyPoints?: number;
+  estimateHours?: number;
+  timeEntries?: TimeEntry[];
+  labelIds?: string[]; // Labels of the parent task's project
   attachments: Attachment[];
   comments: Comment[];
   createdAt: number;
@@ -99,15 +186,75 @@ export interface Task {
   projectId: string;
   title: string;
   description: string;
-  status: TaskStatus;
+  status: string; // WorkflowStatus id of the task's project
   category: TaskCategory;
   assigneeId?: string;
   subtasks: SubTask[];
   priority: 'low' | 'medium' | 'high';
   attachments: Attachment[];
   comments: Comment[];
+  startDate?: string; // 'YYYY-MM-DD'; the timeline falls back to createdAt
   dueDate?: string;
   order?: number;
+  links?: TaskLink[];
+  sprintId?: string; // Unset while the task sits in the project backlog
+  storyPoints?: number;
+  estimateHours?: number;
+  timeEntries?: TimeEntry[];
+  labelIds?: string[];
+  customFields?: Record<string, CustomFieldValue>; // CustomFieldDefinition id -> value
+  completedAt?: number; // Set when the task enters a done column, cleared when it leaves
+  createdAt: number;
+}
+
+// Only one sprint per project is active at a time; closed sprints are kept for history
+export type SprintState = 'planned' | 'active' | 'closed';
+
+export interface Sprint {
+  id: string;
+  projectId: string;
+  name: string;
+  goal: string;
+  startDate: string; // 'YYYY-MM-DD'
+  endDate: string; // 'YYYY-MM-DD', inclusive
+  state: SprintState;
+  createdAt: number;
+  closedAt?: number;
+}
+
+// Shared by the Kanban board and the calendar. assigneeId also accepts 'me' and 'unassigned'.
+export interface TaskFilters {
+  projectId: string | 'all';
+  category: TaskCategory | 'all';
+  assigneeId: string | 'all';
+  labelId: string | 'all';
+}
+
+export type TaskViewMode = 'board' | 'list' | 'timeline' | 'backlog';
+
+export type TaskSortField = 'manual' | 'title' | 'status' | 'priority' | 'category' | 'assignee' | 'dueDate' | 'created';
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Everything a saved view restores on the Kanban board
+export interface SavedViewConfig {
+  filters: TaskFilters;
+  query: string;
+  sprint: string; // Sprint filter: 'all', 'active', 'backlog' or a sprint id
+  blockedOnly: boolean;
+  viewMode: TaskViewMode;
+  sort: TaskSort;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  ownerId: string;
+  projectId?: string; // Shared with everyone who can read this project; personal when unset
+  config: SavedViewConfig;
   createdAt: number;
 }
 
@@ -118,6 +265,10 @@ export interface Project {
   memberIds: string[]; // Kept for backward compatibility
   attachments: Attachment[];
   comments: Comment[];
+  workflow?: WorkflowStatus[]; // Ordered columns; DEFAULT_WORKFLOW when unset
+  transitionRules?: TransitionRule[]; // DEFAULT_TRANSITION_RULES when unset
+  labels?: TaskLabel[];
+  customFields?: CustomFieldDefinition[];
 }
 
 export interface ChatMessage {
@@ -128,7 +279,50 @@ export interface ChatMessage {
   timestamp: number;
   type: 'text' | 'system' | 'missed_call';
   attachments?: Attachment[];
-  isRead?: boolean;
+  isRead?: boolean; // Legacy shared flag; read state now comes from each reader's ReadReceipt
+  parentId?: string; // Set on thread replies; the first message of the thread, which is never a reply itself
+  editedAt?: number;
+  revisions?: MessageRevision[]; // Earlier versions of the text, oldest first
+  deletedAt?: number; // Deleted for everyone: text and attachments are cleared, the message stays as a tombstone
+  deletedBy?: string;
+}
+
+// One user's emoji on a chat message or a task/subtask comment
+export type ReactionTargetType = 'message' | 'comment';
+
+export interface Reaction {
+  id: string;
+  targetType: ReactionTargetType;
+  targetId: string; // Message id, or comment id (comment ids are unique across tasks and subtasks)
+  userId: string;
+  emoji: string;
+  createdAt: number;
+}
+
+// A version of a message's text that was replaced by an edit
+export interface MessageRevision {
+  text: string;
+  timestamp: number; // When this version was written
+}
+
+// How far one user has read a chat. chatId is as that user sees it: 'general', a group id or the other user's id
+export interface ReadReceipt {
+  userId: string;
+  chatId: string;
+  lastReadTimestamp: number;
+}
+
+// Position in a chat's history; messages are ordered by timestamp, then id, so equal timestamps page reliably
+export interface MessageCursor {
+  timestamp: number;
+  id: string;
+}
+
+// Paging state of one conversation's message history
+export interface ChatHistoryState {
+  hasMore: boolean; // False once the first message of the chat is loaded
+  isLoading: boolean;
+  oldest?: MessageCursor; // The oldest loaded message; the next page ends just before it
 }
 
 export interface CallState {
@@ -141,6 +335,7 @@ export enum NotificationType {
   MENTION = 'MENTION',
   ASSIGNMENT = 'ASSIGNMENT',
   MISSED_CALL = 'MISSED_CALL',
+  THREAD_REPLY = 'THREAD_REPLY',
   SYSTEM = 'SYSTEM'
 }
 
@@ -153,7 +348,7 @@ export interface Notification {
   message: string;
   timestamp: number;
   read: boolean;
-  linkTo?: string; // ID of the related task or chat
+  linkTo?: string; // App path of the related item, e.g. /tasks/:taskId (older rows hold a bare task or chat ID)
 }
 
 export interface IncomingCall {
@@ -163,7 +358,8 @@ export interface IncomingCall {
 }
 
 // WebRTC Signaling Types
-export type SignalType = 'OFFER' | 'ANSWER' | 'CANDIDATE' | 'HANGUP' | 'CHAT_MSG' | 'CHAT_MESSAGE' | 'USER_ONLINE' | 'SCREEN_STARTED' | 'SCREEN_STOPPED';
+export type SignalType = 'OFFER' | 'ANSWER' | 'CANDIDATE' | 'HANGUP' | 'CHAT_MSG' | 'CHAT_MESSAGE' | 'USER_ONLINE' | 'SCREEN_STARTED' | 'SCREEN_STOPPED'
+  | 'TYPING' | 'TYPING_STOPPED'; // Payload { chatId } for team and group chats; direct messages use recipientId
 
 export interface SignalData {
   type: SignalType;
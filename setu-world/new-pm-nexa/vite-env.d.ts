@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** 'supabase' (default) or 'memory' to run fully offline against seeded data. */
+  readonly VITE_DATA_SOURCE?: 'supabase' | 'memory';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
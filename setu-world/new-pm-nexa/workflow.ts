@@ -0,0 +1,131 @@
+import { Project, StatusCategory, StatusColor, Task, TaskStatus, TransitionRule, WorkflowStatus } from './types';
+import { PolicyDecision } from './policy';
+
+/**
+ * Per-project workflow helpers.
+ * A project's `workflow` is its ordered list of board columns; projects without one
+ * use DEFAULT_WORKFLOW, whose ids match the legacy TaskStatus values.
+ */
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: TaskStatus.TODO, name: 'To Do', category: 'open', color: 'slate' },
+  { id: TaskStatus.IN_PROGRESS, name: 'In Progress', category: 'open', color: 'blue' },
+  { id: TaskStatus.DONE, name: 'Done', category: 'done', color: 'emerald' },
+];
+
+// Reopening finished work needs an explanation by default
+export const DEFAULT_TRANSITION_RULES: TransitionRule[] = [
+  { from: TaskStatus.DONE, to: TaskStatus.TODO, effect: 'require_reason' },
+];
+
+export const STATUS_COLORS: Record<StatusColor, { dot: string; badge: string; hex: string }> = {
+  slate: { dot: 'bg-slate-400', badge: 'bg-slate-100 text-slate-600 border-slate-200', hex: '#94a3b8' },
+  blue: { dot: 'bg-blue-500', badge: 'bg-blue-50 text-blue-700 border-blue-100', hex: '#3b82f6' },
+  amber: { dot: 'bg-amber-500', badge: 'bg-amber-50 text-amber-700 border-amber-100', hex: '#f59e0b' },
+  violet: { dot: 'bg-violet-500', badge: 'bg-violet-50 text-violet-700 border-violet-100', hex: '#8b5cf6' },
+  rose: { dot: 'bg-rose-500', badge: 'bg-rose-50 text-rose-700 border-rose-100', hex: '#f43f5e' },
+  emerald: { dot: 'bg-emerald-500', badge: 'bg-green-50 text-green-700 border-green-100', hex: '#10b981' },
+};
+
+export const getWorkflow = (project: Project | null | undefined): WorkflowStatus[] =>
+  project?.workflow && project.workflow.length > 0 ? project.workflow : DEFAULT_WORKFLOW;
+
+export const getProjectWorkflow = (projects: Project[], projectId: string) =>
+  getWorkflow(projects.find(p => p.id === projectId));
+
+export const findStatus = (workflow: WorkflowStatus[], statusId: string) =>
+  workflow.find(s => s.id === statusId);
+
+/** Display name; falls back to a prettified id for statuses removed from the workflow. */
+export const getStatusLabel = (workflow: WorkflowStatus[], statusId: string) =>
+  findStatus(workflow, statusId)?.name ?? statusId.replace(/_/g, ' ');
+
+export const getStatusColor = (workflow: WorkflowStatus[], statusId: string) =>
+  STATUS_COLORS[findStatus(workflow, statusId)?.color as StatusColor] || STATUS_COLORS.slate;
+
+export const isDoneStatus = (workflow: WorkflowStatus[], statusId: string) =>
+  findStatus(workflow, statusId)?.category === 'done';
+
+/** First column of the given category, e.g. where a reopened subtask lands. */
+export const firstStatusOf = (workflow: WorkflowStatus[], category: StatusCategory) =>
+  (workflow.find(s => s.category === category) ?? workflow[0]).id;
+
+/**
+ * Columns for a board spanning several projects: every status in order of first
+ * appearance, deduplicated by id.
+ */
+export const mergeWorkflows = (projects: Project[]): WorkflowStatus[] => {
+  const merged = new Map<string, WorkflowStatus>();
+  (projects.length > 0 ? projects : [null]).forEach(p => {
+    getWorkflow(p).forEach(s => {
+      if (!merged.has(s.id)) merged.set(s.id, s);
+    });
+  });
+  return Array.from(merged.values());
+};
+
+/** Basic shape check used before saving a workflow. Returns an error message or null. */
+export const validateWorkflow = (workflow: WorkflowStatus[]): string | null => {
+  if (workflow.length === 0) return 'A workflow needs at least one column.';
+  if (workflow.some(s => !s.name.trim())) return 'Every column needs a name.';
+  if (new Set(workflow.map(s => s.id)).size !== workflow.length) return 'Column ids must be unique.';
+  if (!workflow.some(s => s.category === 'open')) return 'At least one column must be marked as open.';
+  if (!workflow.some(s => s.category === 'done')) return 'At least one column must be marked as done.';
+  if (workflow.some(s => s.wipLimit !== undefined && (!Number.isInteger(s.wipLimit) || s.wipLimit < 1))) return 'WIP limits must be whole numbers of at least 1.';
+  return null;
+};
+
+/** Dashboard filters name either a single column id or a whole category ('open' / 'done'). */
+export const matchesStatusFilter = (workflow: WorkflowStatus[], statusId: string, filter: string | undefined) => {
+  if (!filter || filter === 'all' || filter === statusId) return true;
+  return (filter === 'open' || filter === 'done') && findStatus(workflow, statusId)?.category === filter;
+};
+
+// --- Transition Rules & WIP Limits ---
+
+export const getTransitionRules = (project: Project | null | undefined): TransitionRule[] =>
+  project?.transitionRules ?? DEFAULT_TRANSITION_RULES;
+
+/** Most specific matching rule wins: exact pairs before wildcards. */
+export const findTransitionRule = (rules: TransitionRule[], from: string, to: string) => {
+  if (from === to) return undefined;
+  const matches = rules.filter(r => (r.from === from || r.from === '*') && (r.to === to || r.to === '*'));
+  return matches.sort((a, b) => Number(a.from === '*') + Number(a.to === '*') - Number(b.from === '*') - Number(b.to === '*'))[0];
+};
+
+export const requiresTransitionReason = (project: Project | null | undefined, from: string, to: string) =>
+  findTransitionRule(getTransitionRules(project), from, to)?.effect === 'require_reason';
+
+/** `hasReason` is true when the move comes with an explanatory comment. */
+export const checkTransition = (project: Project | null | undefined, from: string, to: string, hasReason = false): PolicyDecision => {
+  const rule = findTransitionRule(getTransitionRules(project), from, to);
+  if (!rule) return { allowed: true };
+  const workflow = getWorkflow(project);
+  const label = `"${getStatusLabel(workflow, from)}" to "${getStatusLabel(workflow, to)}"`;
+  if (rule.effect === 'deny') return { allowed: false, reason: `Moving tasks from ${label} is not allowed in this project.` };
+  if (!hasReason) return { allowed: false, reason: `Moving a task from ${label} requires a reason comment.` };
+  return { allowed: true };
+};
+
+/** Number of the project's cards in a column, optionally ignoring one task (the one being moved). */
+export const countInColumn = (tasks: Task[], projectId: string, statusId: string, excludeTaskId?: string) =>
+  tasks.filter(t => t.projectId === projectId && t.status === statusId && t.id !== excludeTaskId).length;
+
+const wipLimitReached = (column: WorkflowStatus): PolicyDecision =>
+  ({ allowed: false, reason: `"${column.name}" is at its WIP limit of ${column.wipLimit}. Finish or move a card out first.` });
+
+export const checkWipLimit = (project: Project | null | undefined, tasks: Task[], task: Task, to: string): PolicyDecision => {
+  if (task.status === to) return { allowed: true };
+  const column = findStatus(getWorkflow(project), to);
+  if (!column?.wipLimit) return { allowed: true };
+  if (countInColumn(tasks, task.projectId, to, task.id) < column.wipLimit) return { allowed: true };
+  return wipLimitReached(column);
+};
+
+/** A new or imported card must start in a column of its project's workflow that is below its WIP limit. */
+export const checkTaskPlacement = (project: Project | null | undefined, tasks: Task[], task: Task): PolicyDecision => {
+  const column = findStatus(getWorkflow(project), task.status);
+  if (!column) return { allowed: false, reason: `"${task.status.replace(/_/g, ' ')}" is not a column in this project's workflow.` };
+  if (column.wipLimit && countInColumn(tasks, task.projectId, task.status, task.id) >= column.wipLimit) return wipLimitReached(column);
+  return { allowed: true };
+};